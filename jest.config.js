@@ -29,6 +29,7 @@ const customJestConfig = {
     '<rootDir>/src/lib/p2p/__tests__/collection-cqrs.test.ts',
     '<rootDir>/src/lib/p2p/__tests__/p2p-system.test.ts',
     '<rootDir>/src/lib/p2p/__integration__',
+    '<rootDir>/orbitdb-service/', // Run with its own npm test
   ],
   transformIgnorePatterns: [
     'node_modules/(?!(multiformats|@libp2p|@chainsafe|@multiformats|uint8arrays|helia|@orbitdb|interface-datastore|datastore-core|blockstore-core|ipfs-unixfs|@ipld|dag-|it-|protons|@helia)/)',
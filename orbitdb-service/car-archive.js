@@ -0,0 +1,78 @@
+/**
+ * CAR archive checks
+ *
+ * An archive made by /car/export holds the full DAG of each content CID.
+ * Before importing one, every block reachable from the content CIDs must be
+ * in it: a file with a missing leaf would import fine and fail on first read.
+ */
+
+import * as dagPb from '@ipld/dag-pb'
+import * as dagJson from '@ipld/dag-json'
+import { CID } from 'multiformats/cid'
+import { identity } from 'multiformats/hashes/identity'
+
+// Raw leaves of UnixFS files, they link to nothing
+const RAW_CODE = 0x55
+
+/**
+ * CIDs linked from a dag-json value
+ */
+function jsonLinks(value, links = []) {
+  const cid = CID.asCID(value)
+  if (cid) {
+    links.push(cid)
+  } else if (Array.isArray(value)) {
+    value.forEach(item => jsonLinks(item, links))
+  } else if (value && typeof value === 'object' && !(value instanceof Uint8Array)) {
+    Object.values(value).forEach(item => jsonLinks(item, links))
+  }
+  return links
+}
+
+/**
+ * CIDs a block links to, or null when its codec can't be walked
+ */
+export function blockLinks(cid, bytes) {
+  switch (cid.code) {
+    case dagPb.code:
+      return dagPb.decode(bytes).Links.map(link => link.Hash)
+    case dagJson.code:
+      return jsonLinks(dagJson.decode(bytes))
+    case RAW_CODE:
+      return []
+    default:
+      return null
+  }
+}
+
+/**
+ * First block reachable from the CIDs that can't be checked, or null
+ * reason is 'missing' when the archive doesn't hold it, 'unsupported codec'
+ * when its links can't be read. Identity CIDs carry their block inline.
+ */
+export async function findIncompleteBlock(reader, cids) {
+  const pending = [...cids]
+  const seen = new Set()
+
+  while (pending.length > 0) {
+    const cid = pending.pop()
+    const key = cid.toString()
+    if (seen.has(key)) continue
+    seen.add(key)
+
+    let bytes
+    if (cid.multihash.code === identity.code) {
+      bytes = cid.multihash.digest
+    } else {
+      const block = await reader.get(cid)
+      if (!block) return { cid, reason: 'missing' }
+      bytes = block.bytes
+    }
+
+    const links = blockLinks(cid, bytes)
+    if (!links) return { cid, reason: 'unsupported codec' }
+    pending.push(...links)
+  }
+
+  return null
+}
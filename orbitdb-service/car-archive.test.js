@@ -0,0 +1,71 @@
+/**
+ * Tests for the CAR archive checks run before /car/import
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { CarReader, CarWriter } from '@ipld/car'
+import * as dagJson from '@ipld/dag-json'
+import * as dagPb from '@ipld/dag-pb'
+import * as raw from 'multiformats/codecs/raw'
+import { CID } from 'multiformats/cid'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { findIncompleteBlock } from './car-archive.js'
+
+async function block(codec, bytes) {
+  return { cid: CID.create(1, codec.code, await sha256.digest(bytes)), bytes }
+}
+
+// A file chunked into two raw leaves under a dag-pb node, like UnixFS stores it
+async function multiBlockFile() {
+  const leaves = [
+    await block(raw, new TextEncoder().encode('first chunk')),
+    await block(raw, new TextEncoder().encode('second chunk'))
+  ]
+  const node = dagPb.prepare({
+    Links: leaves.map(({ cid, bytes }, i) => ({ Hash: cid, Name: `${i}`, Tsize: bytes.length }))
+  })
+  const file = await block(dagPb, dagPb.encode(node))
+  return { file, leaves }
+}
+
+// An archive laid out like /car/export makes it, with the given content blocks
+async function archive(content, blocks) {
+  const root = await block(dagJson, dagJson.encode({ manifest: { version: 1 }, content }))
+  const { writer, out } = CarWriter.create([root.cid])
+  const chunks = []
+  const collecting = (async () => {
+    for await (const chunk of out) chunks.push(chunk)
+  })()
+  for (const { cid, bytes } of [root, ...blocks]) {
+    await writer.put({ cid, bytes })
+  }
+  await writer.close()
+  await collecting
+  return CarReader.fromBytes(new Uint8Array(Buffer.concat(chunks)))
+}
+
+test('accepts an archive holding every block of the file', async () => {
+  const { file, leaves } = await multiBlockFile()
+  const reader = await archive([file.cid], [file, ...leaves])
+
+  assert.equal(await findIncompleteBlock(reader, [file.cid]), null)
+})
+
+test('reports a leaf block missing from the archive', async () => {
+  const { file, leaves } = await multiBlockFile()
+  const reader = await archive([file.cid], [file, leaves[0]])
+
+  const incomplete = await findIncompleteBlock(reader, [file.cid])
+  assert.equal(incomplete.reason, 'missing')
+  assert.equal(incomplete.cid.toString(), leaves[1].cid.toString())
+})
+
+test('reports a missing content root', async () => {
+  const { file } = await multiBlockFile()
+  const reader = await archive([file.cid], [])
+
+  const incomplete = await findIncompleteBlock(reader, [file.cid])
+  assert.equal(incomplete.reason, 'missing')
+  assert.equal(incomplete.cid.toString(), file.cid.toString())
+})
@@ -4,6 +4,13 @@ import { createServer } from 'http'
 import { WebSocketServer } from 'ws'
 import { createHelia } from 'helia'
 import { unixfs } from '@helia/unixfs'
+import { car } from '@helia/car'
+import { CarReader, CarWriter } from '@ipld/car'
+import * as dagJson from '@ipld/dag-json'
+import { CID } from 'multiformats/cid'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { identity } from 'multiformats/hashes/identity'
+import { equals } from 'multiformats/bytes'
 import { createLibp2p } from 'libp2p'
 import { webSockets } from '@libp2p/websockets'
 import { noise } from '@chainsafe/libp2p-noise'
@@ -16,6 +23,7 @@ import { fileURLToPath } from 'url'
 import { dirname, join } from 'path'
 import fs from 'fs/promises'
 import multer from 'multer'
+import { findIncompleteBlock } from './car-archive.js'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 const DATA_DIR = process.env.ORBITDB_DATA_DIR || join(__dirname, 'data')
@@ -66,6 +74,9 @@ const helia = await createHelia({
 // Create UnixFS instance for file storage
 const fs_ipfs = unixfs(helia)
 
+// CAR import/export of DAGs in the blockstore
+const helia_car = car(helia)
+
 const orbitdb = await createOrbitDB({
   ipfs: helia,
   directory: DATA_DIR
@@ -456,6 +467,149 @@ app.get('/ipfs/retrieve-base64/:cid', async (req, res) => {
   }
 })
 
+// ===== CAR Archive Endpoints =====
+
+// Hashes blocks can be verified with (UnixFS uses sha2-256, tiny blocks may inline)
+const HASHERS = {
+  [sha256.code]: sha256,
+  [identity.code]: identity
+}
+
+// Larger archives should be moved with an IPFS node, not over HTTP
+const MAX_CAR_SIZE = 200 * 1024 * 1024
+
+async function blockMatchesCID(cid, bytes) {
+  const hasher = HASHERS[cid.multihash.code]
+  if (!hasher) return false
+  const digest = await hasher.digest(bytes)
+  return equals(digest.digest, cid.multihash.digest)
+}
+
+/**
+ * Export a CARv1 archive
+ * Body: { manifest: JSON, cids: [CID strings] }
+ *
+ * The root block is a dag-json { manifest, content } where content links to
+ * every CID, so the archive holds the manifest and the full DAG of each CID.
+ */
+app.post('/car/export', async (req, res) => {
+  try {
+    const { manifest, cids = [] } = req.body
+    if (!manifest || !Array.isArray(cids)) {
+      return res.status(400).json({ error: 'Manifest and a list of CIDs required' })
+    }
+
+    let content
+    try {
+      content = cids.map(cid => CID.parse(cid))
+    } catch (error) {
+      return res.status(400).json({ error: `Invalid CID: ${error.message}` })
+    }
+
+    // Only blocks held here, exporting must not wait on the network
+    for (const cid of content) {
+      if (!(await helia.blockstore.has(cid))) {
+        return res.status(404).json({ error: `Content not available on this node: ${cid.toString()}` })
+      }
+    }
+
+    const rootBytes = dagJson.encode({ manifest, content })
+    const root = CID.create(1, dagJson.code, await sha256.digest(rootBytes))
+    await helia.blockstore.put(root, rootBytes)
+
+    const { writer, out } = CarWriter.create([root])
+    const chunks = []
+    const collecting = (async () => {
+      for await (const chunk of out) {
+        chunks.push(chunk)
+      }
+    })()
+    await helia_car.export(root, writer, { signal: AbortSignal.timeout(60000) }) // Closes the writer
+    await collecting
+
+    const archive = Buffer.concat(chunks)
+    console.log(`✓ Exported CAR: ${root.toString()} (${content.length} CIDs, ${archive.length} bytes)`)
+
+    res.setHeader('Content-Type', 'application/vnd.ipld.car')
+    res.setHeader('Content-Length', archive.length)
+    res.setHeader('X-Root-CID', root.toString())
+    res.send(archive)
+  } catch (error) {
+    console.error('Error exporting CAR:', error)
+    res.status(500).json({ error: error.message })
+  }
+})
+
+/**
+ * Import a CARv1 archive made by /car/export
+ * Body: the CAR bytes (application/vnd.ipld.car)
+ *
+ * Every block is checked against its CID, and every block linked from the
+ * content CIDs, down to the leaves, must be in the archive before anything
+ * is stored. Returns the manifest.
+ */
+app.post('/car/import', express.raw({ type: 'application/vnd.ipld.car', limit: MAX_CAR_SIZE }), async (req, res) => {
+  try {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'CAR bytes required (Content-Type: application/vnd.ipld.car)' })
+    }
+
+    let reader
+    try {
+      reader = await CarReader.fromBytes(new Uint8Array(req.body))
+    } catch (error) {
+      return res.status(400).json({ error: `Not a CAR file: ${error.message}` })
+    }
+
+    const roots = await reader.getRoots()
+    if (roots.length !== 1 || roots[0].code !== dagJson.code) {
+      return res.status(400).json({ error: 'CAR root is not an archive manifest' })
+    }
+    const root = roots[0]
+
+    let blockCount = 0
+    for await (const { cid, bytes } of reader.blocks()) {
+      if (!(await blockMatchesCID(cid, bytes))) {
+        return res.status(400).json({ error: `Block does not match its CID: ${cid.toString()}` })
+      }
+      blockCount++
+    }
+
+    const rootBlock = await reader.get(root)
+    if (!rootBlock) {
+      return res.status(400).json({ error: 'CAR is missing its root block' })
+    }
+
+    const { manifest, content } = dagJson.decode(rootBlock.bytes)
+    if (!manifest || !Array.isArray(content)) {
+      return res.status(400).json({ error: 'CAR root is not an archive manifest' })
+    }
+
+    // The whole DAG of each CID, not only its root block
+    const incomplete = await findIncompleteBlock(reader, content)
+    if (incomplete?.reason === 'missing') {
+      return res.status(400).json({ error: `CAR is missing content: ${incomplete.cid.toString()}` })
+    }
+    if (incomplete) {
+      return res.status(400).json({ error: `CAR content has an unsupported codec: ${incomplete.cid.toString()}` })
+    }
+
+    await helia_car.import(reader)
+
+    console.log(`✓ Imported CAR: ${root.toString()} (${blockCount} blocks)`)
+
+    res.json({
+      root: root.toString(),
+      manifest,
+      cids: content.map(cid => cid.toString()),
+      blocks: blockCount
+    })
+  } catch (error) {
+    console.error('Error importing CAR:', error)
+    res.status(500).json({ error: error.message })
+  }
+})
+
 // Create HTTP server for both Express and WebSocket
 const httpServer = createServer(app)
 
@@ -0,0 +1,136 @@
+/**
+ * Bibliography Import Tests
+ *
+ * Tests reading BibTeX, RIS and CSL-JSON into quote metadata, with per-entry errors
+ */
+
+import { detectBibliographyFormat, latexToText, parseBibliography } from '@/lib/bibliography'
+
+describe('Bibliography Import', () => {
+  it('detects the format from the file name or the content', () => {
+    expect(detectBibliographyFormat('', 'library.bib')).toBe('bibtex')
+    expect(detectBibliographyFormat('', 'export.RIS')).toBe('ris')
+    expect(detectBibliographyFormat('[{"id": "a"}]')).toBe('csl-json')
+    expect(detectBibliographyFormat('TY  - BOOK\nER  - \n')).toBe('ris')
+    expect(detectBibliographyFormat('@book{key, title={A}}')).toBe('bibtex')
+    expect(detectBibliographyFormat('just some text')).toBeNull()
+  })
+
+  it('resolves LaTeX accents and escapes', () => {
+    expect(latexToText('Guattari, F{\\\'e}lix')).toBe('Guattari, Félix')
+    expect(latexToText('{\\"U}ber die {\\c{c}}a \\& Gr\\"{o}\\ss e')).toBe('Über die ça & Größe')
+    expect(latexToText('\\emph{Mille plateaux}--suite')).toBe('Mille plateaux–suite')
+  })
+
+  it('reads BibTeX entries, macros and names', () => {
+    const bibtex = `
+      @string{minuit = "Les {\\'E}ditions de Minuit"}
+      @comment{Exported from a reference manager}
+      @book{deleuze1980,
+        author = {Deleuze, Gilles and Guattari, F{\\'e}lix},
+        title = {Mille plateaux},
+        publisher = minuit,
+        year = 1980,
+        isbn = {2-7073-0307-0},
+        edition = "1",
+        pages = {45--52},
+        pagetotal = {645},
+        keywords = {philosophy, rhizome},
+        annote = {Un rhizome ne commence et n'aboutit pas.}
+      }
+      @article(missing, title = "No author here")
+    `
+    const entries = parseBibliography(bibtex, 'bibtex')!
+
+    expect(entries).toHaveLength(2)
+    expect(entries[0]).toEqual({
+      index: 1,
+      key: 'deleuze1980',
+      metadata: {
+        quoteContent: "Un rhizome ne commence et n'aboutit pas.",
+        author: 'Gilles Deleuze, Félix Guattari',
+        title: 'Mille plateaux',
+        publisher: 'Les Éditions de Minuit',
+        year: '1980',
+        isbn: '2-7073-0307-0',
+        edition: '1',
+        pages: '645',
+        keywords: ['philosophy', 'rhizome'],
+        pageNumbers: '45-52'
+      },
+      errors: []
+    })
+    expect(entries[1].key).toBe('missing')
+    expect(entries[1].errors).toEqual([
+      'Missing author',
+      'Missing quote text (BibTeX quote or annote, RIS N1, CSL-JSON note)'
+    ])
+  })
+
+  it('reads RIS records, keeping only ISBNs from SN', () => {
+    const ris = [
+      'TY  - BOOK',
+      'AU  - Kleppmann, Martin',
+      'TI  - Designing Data-Intensive',
+      '      Applications',
+      'PB  - O\'Reilly',
+      'PY  - 2017///',
+      'SN  - 978-1-4493-7332-0',
+      'SP  - 12',
+      'EP  - 14',
+      'KW  - databases',
+      'KW  - distributed systems',
+      'N1  - Data outlives code.',
+      'ER  - ',
+      'TY  - JOUR',
+      'AU  - Lamport, Leslie',
+      'TI  - Time, Clocks',
+      'SN  - 0001-0782',
+      'PY  - someday',
+      'N1  - Happened before.',
+      'ER  - '
+    ].join('\n')
+    const [book, article] = parseBibliography(ris, 'ris')!
+
+    expect(book.metadata).toMatchObject({
+      author: 'Martin Kleppmann',
+      title: 'Designing Data-Intensive Applications',
+      year: '2017',
+      isbn: '978-1-4493-7332-0',
+      pageNumbers: '12-14',
+      keywords: ['databases', 'distributed systems'],
+      quoteContent: 'Data outlives code.'
+    })
+    expect(book.errors).toEqual([])
+
+    expect(article.metadata.isbn).toBe('')
+    expect(article.errors).toEqual(['Year "someday" has no four digit year'])
+  })
+
+  it('reads CSL-JSON items and rejects files that are not JSON', () => {
+    const csl = JSON.stringify([{
+      id: 'lamport1982',
+      type: 'article-journal',
+      title: 'The Byzantine Generals Problem',
+      author: [{ family: 'Lamport', given: 'Leslie' }, { literal: 'SRI International' }],
+      issued: { 'date-parts': [[1982, 7]] },
+      page: '382-401',
+      ISBN: '123',
+      keyword: 'consensus; fault tolerance',
+      note: 'Reliable computer systems must handle malfunctioning components.'
+    }])
+    const [entry] = parseBibliography(csl, 'csl-json')!
+
+    expect(entry.key).toBe('lamport1982')
+    expect(entry.metadata).toMatchObject({
+      author: 'Leslie Lamport, SRI International',
+      year: '1982',
+      pageNumbers: '382-401',
+      keywords: ['consensus', 'fault tolerance']
+    })
+    expect(entry.errors).toEqual(['Invalid ISBN "123"'])
+
+    expect(parseBibliography('{ not json', 'csl-json')).toBeNull()
+    expect(parseBibliography('no entries here', 'bibtex')).toBeNull()
+  })
+})
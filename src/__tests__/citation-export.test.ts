@@ -0,0 +1,106 @@
+/**
+ * Citation Export Tests
+ *
+ * Tests BibTeX, RIS, CSL-JSON and ISO-690 output, and reading an export back in
+ */
+
+import { exportCitations, formatISO690, splitAuthors } from '@/lib/citation-export'
+import { parseBibliography } from '@/lib/bibliography'
+
+const quote = {
+  id: 'doc-1',
+  documentType: 'quote',
+  title: 'Mille plateaux',
+  created: Date.UTC(2026, 0, 15),
+  metadata: {
+    quoteContent: "Un rhizome ne commence et n'aboutit pas.",
+    author: 'Gilles Deleuze, Félix Guattari',
+    title: 'Mille plateaux',
+    publisher: 'Minuit',
+    year: '1980',
+    isbn: '2-7073-0307-0',
+    edition: '2',
+    pages: '645',
+    keywords: ['philosophy', 'rhizome'],
+    pageNumbers: '45-52'
+  }
+}
+
+const link = {
+  id: 'doc-2',
+  documentType: 'link',
+  title: 'Rhizome',
+  created: Date.UTC(2026, 1, 3),
+  metadata: {
+    url: 'https://example.org/rhizome',
+    title: 'Rhizome',
+    author: 'Ada Lovelace',
+    siteName: 'Example Review',
+    publicationDate: '2024-05-01',
+    keywords: []
+  }
+}
+
+describe('Citation Export', () => {
+  it('splits author fields into family and given names', () => {
+    expect(splitAuthors('Orwell, George')).toEqual([{ family: 'Orwell', given: 'George' }])
+    expect(splitAuthors('Gilles Deleuze and Félix Guattari')).toEqual([
+      { family: 'Deleuze', given: 'Gilles' },
+      { family: 'Guattari', given: 'Félix' }
+    ])
+    expect(splitAuthors('Simone de Beauvoir; Plato')).toEqual([
+      { family: 'de Beauvoir', given: 'Simone' },
+      { family: 'Plato', given: '' }
+    ])
+    expect(splitAuthors('')).toEqual([])
+  })
+
+  it('formats ISO-690 references with the quoted pages', () => {
+    expect(formatISO690(quote)).toBe(
+      'DELEUZE, Gilles and GUATTARI, Félix. Mille plateaux. 2nd ed. Minuit, 1980. 645 p. ISBN 2-7073-0307-0. p. 45-52.'
+    )
+    expect(formatISO690(link)).toBe(
+      'LOVELACE, Ada. Rhizome [online]. Example Review, 2024-05-01. [viewed 2026-02-03]. Available from: https://example.org/rhizome'
+    )
+  })
+
+  it('writes BibTeX with unique keys and escaped values', () => {
+    const bibtex = exportCitations([quote, { ...quote, id: 'doc-3', metadata: { ...quote.metadata, publisher: 'Minuit & Co' } }], 'bibtex')
+
+    expect(bibtex).toContain('@book{deleuze1980millea,')
+    expect(bibtex).toContain('@book{deleuze1980milleb,')
+    expect(bibtex).toContain('author = {Deleuze, Gilles and Guattari, Félix}')
+    expect(bibtex).toContain('pages = {45--52}')
+    expect(bibtex).toContain('publisher = {Minuit \\& Co}')
+  })
+
+  it('writes one CSL-JSON item per document', () => {
+    const items = JSON.parse(exportCitations([quote, link], 'csl-json'))
+
+    expect(items).toHaveLength(2)
+    expect(items[0]).toMatchObject({
+      id: 'doc-1',
+      type: 'book',
+      page: '45-52',
+      'number-of-pages': '645',
+      issued: { 'date-parts': [[1980]] }
+    })
+    expect(items[1]).toMatchObject({ type: 'webpage', URL: 'https://example.org/rhizome', 'container-title': 'Example Review' })
+  })
+
+  it.each(['bibtex', 'ris', 'csl-json'] as const)('reads a %s export back into the same quote', format => {
+    const [entry] = parseBibliography(exportCitations([quote], format), format) || []
+
+    expect(entry.errors).toEqual([])
+    expect(entry.metadata).toMatchObject({
+      quoteContent: quote.metadata.quoteContent,
+      author: 'Gilles Deleuze, Félix Guattari',
+      title: 'Mille plateaux',
+      publisher: 'Minuit',
+      year: '1980',
+      isbn: '2-7073-0307-0',
+      pageNumbers: '45-52',
+      keywords: ['philosophy', 'rhizome']
+    })
+  })
+})
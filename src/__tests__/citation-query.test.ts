@@ -0,0 +1,66 @@
+/**
+ * Citation Query Tests
+ *
+ * Tests ISBN normalisation, year ranges and fielded query parsing
+ */
+
+import {
+  matchesCitationFilters,
+  normalizeISBN,
+  parseCitationQuery,
+  parseYearRange
+} from '@/lib/citation-query'
+
+describe('Citation Query', () => {
+  it('normalises ISBN-10 and ISBN-13 to the same ISBN-13', () => {
+    expect(normalizeISBN('0-306-40615-2')).toBe('9780306406157')
+    expect(normalizeISBN('978-0-306-40615-7')).toBe('9780306406157')
+    expect(normalizeISBN('080442957X')).toBe('9780804429573')
+  })
+
+  it('rejects invalid ISBNs', () => {
+    expect(normalizeISBN('0-306-40615-3')).toBeNull()
+    expect(normalizeISBN('978-0-306-40615-8')).toBeNull()
+    expect(normalizeISBN('12345')).toBeNull()
+  })
+
+  it('parses years and year ranges', () => {
+    expect(parseYearRange('1968..1980')).toEqual({ yearFrom: 1968, yearTo: 1980 })
+    expect(parseYearRange('1968-1980')).toEqual({ yearFrom: 1968, yearTo: 1980 })
+    expect(parseYearRange('1968')).toEqual({ yearFrom: 1968, yearTo: 1968 })
+    expect(parseYearRange('1968..')).toEqual({ yearFrom: 1968 })
+    expect(parseYearRange('..1980')).toEqual({ yearTo: 1980 })
+    expect(parseYearRange('sixties')).toBeNull()
+  })
+
+  it('splits fields from free text', () => {
+    expect(parseCitationQuery('desire author:"Gilles Deleuze" publisher:minuit year:1968..1980 isbn:0-306-40615-2')).toEqual({
+      text: 'desire',
+      filters: {
+        author: 'Gilles Deleuze',
+        publisher: 'minuit',
+        yearFrom: 1968,
+        yearTo: 1980,
+        isbn: '9780306406157'
+      }
+    })
+  })
+
+  it('keeps unparseable fields as free text', () => {
+    expect(parseCitationQuery('year:sixties isbn:123')).toEqual({
+      text: 'year:sixties isbn:123',
+      filters: {}
+    })
+  })
+
+  it('filters documents by year range and ISBN', () => {
+    const quote = { metadata: { year: '1972', isbn: '0306406152' } }
+    const link = { metadata: { publicationDate: '2001-05-04' } }
+
+    expect(matchesCitationFilters(quote, { yearFrom: 1968, yearTo: 1980 })).toBe(true)
+    expect(matchesCitationFilters(link, { yearFrom: 1968, yearTo: 1980 })).toBe(false)
+    expect(matchesCitationFilters(link, { yearFrom: 2000 })).toBe(true)
+    expect(matchesCitationFilters(quote, { isbn: '9780306406157' })).toBe(true)
+    expect(matchesCitationFilters(link, { isbn: '9780306406157' })).toBe(false)
+  })
+})
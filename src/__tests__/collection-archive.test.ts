@@ -0,0 +1,103 @@
+/**
+ * Collection Archive Tests
+ *
+ * Tests building and reading collection archive manifests for CAR export and import
+ */
+
+import {
+  archiveContentCIDs,
+  buildCollectionArchive,
+  importedDocuments,
+  missingArchiveContent,
+  readCollectionArchive
+} from '@/lib/collection-archive'
+
+const metadata = {
+  id: 'collection-alice-1',
+  storeName: 'collection-alice-1',
+  name: 'Reading notes',
+  owner: 'did:alice',
+  created: 1000,
+  documentCount: 3
+}
+
+const documents = [
+  {
+    id: 'quote-1',
+    documentType: 'quote',
+    title: 'Mille plateaux',
+    uploadedBy: 'did:alice',
+    ipfsCID: 'bafkquote2',
+    metadata: { quoteContent: 'Un rhizome', author: 'Gilles Deleuze' },
+    version: 2,
+    versionHistory: [
+      { version: 2, editedBy: 'did:bob', editedAt: 2000, changeComment: 'Typo', previousMetadata: { ipfsCID: 'bafkquote1' } }
+    ]
+  },
+  {
+    id: 'fork-1',
+    documentType: 'quote',
+    title: 'Mille plateaux',
+    uploadedBy: 'did:alice',
+    ipfsCID: 'bafkquote2',
+    parentDocumentId: 'quote-1',
+    parentCollectionId: 'collection-alice-1',
+    metadata: { quoteContent: 'Un rhizome', author: 'Gilles Deleuze' }
+  },
+  {
+    id: 'fork-2',
+    documentType: 'image',
+    title: 'Diagram',
+    uploadedBy: 'did:carol',
+    ipfsCID: 'bafkimage',
+    parentDocumentId: 'elsewhere-1',
+    parentCollectionId: 'collection-carol-1',
+    metadata: { description: undefined }
+  }
+]
+
+describe('Collection Archive', () => {
+  it('builds a JSON-only manifest of the collection', () => {
+    const archive = buildCollectionArchive(metadata, documents, 5000)
+
+    expect(archive).toMatchObject({
+      format: 'retcon-collection',
+      version: 1,
+      exportedAt: 5000,
+      collection: { id: 'collection-alice-1', name: 'Reading notes', owner: 'did:alice', created: 1000 }
+    })
+    expect(archive.documents).toHaveLength(3)
+    expect('description' in archive.documents[2].metadata!).toBe(false)
+  })
+
+  it('lists the IPFS content of every document and past version once', () => {
+    expect(archiveContentCIDs(documents)).toEqual(['bafkimage', 'bafkquote1', 'bafkquote2'])
+  })
+
+  it('reports documents whose IPFS content is not in the archive', () => {
+    const archive = buildCollectionArchive(metadata, documents)
+
+    expect(missingArchiveContent(archive.documents, archiveContentCIDs(documents))).toEqual({})
+    expect(missingArchiveContent(archive.documents, ['bafkquote2', 'bafkimage'])).toEqual({ 'quote-1': ['bafkquote1'] })
+  })
+
+  it('rejects manifests that are not collection archives', () => {
+    const archive = buildCollectionArchive(metadata, documents)
+
+    expect(readCollectionArchive(JSON.parse(JSON.stringify(archive)))).not.toBeNull()
+    expect(readCollectionArchive({ ...archive, format: 'something-else' })).toBeNull()
+    expect(readCollectionArchive({ ...archive, version: 2 })).toBeNull()
+    expect(readCollectionArchive({ ...archive, documents: [{ title: 'No ID' }] })).toBeNull()
+    expect(readCollectionArchive(null)).toBeNull()
+  })
+
+  it('keeps authorship and moves fork links inside the archive to the new collection', () => {
+    const archive = buildCollectionArchive(metadata, documents)
+    const [quote, fork, outsideFork] = importedDocuments(archive, 'collection-dave-9')
+
+    expect(quote).toMatchObject({ id: 'quote-1', uploadedBy: 'did:alice', collectionId: 'collection-dave-9' })
+    expect(quote.versionHistory![0].editedBy).toBe('did:bob')
+    expect(fork).toMatchObject({ parentDocumentId: 'quote-1', parentCollectionId: 'collection-dave-9' })
+    expect(outsideFork).toMatchObject({ parentDocumentId: 'elsewhere-1', parentCollectionId: 'collection-carol-1' })
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * Document Diff Tests
+ *
+ * Tests field-by-field diffs between versions of document metadata
+ */
+
+import { diffMetadata, diffWords } from '@/lib/document-diff'
+
+describe('Document Diff', () => {
+  test('should report changed, added and removed fields in form order', () => {
+    const changes = diffMetadata(
+      { author: 'Old Author', title: 'Book', publisher: 'Press', pageNumbers: '12', keywords: [] },
+      { author: 'New Author', title: 'Book', year: '1999', pageNumbers: '12', keywords: [] },
+      'quote'
+    )
+
+    expect(changes).toEqual([
+      { field: 'author', kind: 'changed', before: 'Old Author', after: 'New Author' },
+      { field: 'publisher', kind: 'removed', before: 'Press' },
+      { field: 'year', kind: 'added', after: '1999' }
+    ])
+  })
+
+  test('should report added and removed keywords', () => {
+    const changes = diffMetadata(
+      { url: 'https://example.org', keywords: ['archive', 'press'] },
+      { url: 'https://example.org', keywords: ['press', 'history'] },
+      'link'
+    )
+
+    expect(changes).toEqual([
+      { field: 'keywords', kind: 'list', added: ['history'], removed: ['archive'] }
+    ])
+  })
+
+  test('should diff long text word by word', () => {
+    const changes = diffMetadata(
+      { quoteContent: 'The quick brown fox jumps over the dog' },
+      { quoteContent: 'The quick red fox jumps over the lazy dog' },
+      'quote'
+    )
+
+    expect(changes).toHaveLength(1)
+    expect(changes[0]).toEqual({
+      field: 'quoteContent',
+      kind: 'text',
+      segments: [
+        { type: 'equal', text: 'The quick ' },
+        { type: 'removed', text: 'brown ' },
+        { type: 'added', text: 'red ' },
+        { type: 'equal', text: 'fox jumps over the ' },
+        { type: 'added', text: 'lazy ' },
+        { type: 'equal', text: 'dog' }
+      ]
+    })
+  })
+
+  test('should ignore fields that only went from empty to missing', () => {
+    expect(diffMetadata({ title: '', keywords: [] }, { title: undefined }, 'image')).toEqual([])
+    expect(diffMetadata({ dimensions: { width: 1, height: 2 } }, { dimensions: { width: 1, height: 2 } }, 'image')).toEqual([])
+  })
+
+  test('should rebuild both texts from the segments', () => {
+    const before = 'Words\nacross  lines and  spaces'
+    const after = 'Words across lines and more spaces'
+    const segments = diffWords(before, after)
+
+    expect(segments.filter(s => s.type !== 'added').map(s => s.text).join('').replace(/\s+/g, ' '))
+      .toBe(before.replace(/\s+/g, ' '))
+    expect(segments.filter(s => s.type !== 'removed').map(s => s.text).join('')).toBe(after)
+  })
+})
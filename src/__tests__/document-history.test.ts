@@ -0,0 +1,72 @@
+/**
+ * Document History Tests
+ *
+ * Tests point-in-time views of documents built from their version history
+ */
+
+import { getDocumentAt, getCatalogAt, getDocumentVersions, parseTimestamp } from '@/lib/document-history'
+
+describe('Document History', () => {
+  // Created at 1000, edited at 2000 (v2) and 3000 (v3)
+  const document = {
+    id: 'doc-1',
+    documentType: 'quote',
+    title: 'Third Title',
+    uploadedBy: 'did:p2p:alice',
+    created: 1000,
+    version: 3,
+    metadata: { title: 'Third Title', author: 'Author', pageNumbers: '3' },
+    versionHistory: [
+      {
+        version: 2,
+        editedBy: 'did:p2p:alice',
+        editedAt: 2000,
+        changeComment: 'Second edit',
+        previousMetadata: { title: 'First Title', author: 'Author', pageNumbers: '1' }
+      },
+      {
+        version: 3,
+        editedBy: 'did:p2p:alice',
+        editedAt: 3000,
+        changeComment: 'Third edit',
+        previousMetadata: { title: 'Second Title', author: 'Author', pageNumbers: '2' },
+        previousTitle: 'Second Title'
+      }
+    ]
+  }
+
+  test('should list every version oldest first', () => {
+    const versions = getDocumentVersions(document)
+
+    expect(versions.map(v => v.version)).toEqual([1, 2, 3])
+    expect(versions.map(v => v.title)).toEqual(['First Title', 'Second Title', 'Third Title'])
+    expect(versions[0].editedAt).toBe(1000)
+    expect(versions[0].editedBy).toBe('did:p2p:alice')
+  })
+
+  test('should return the version current at a timestamp', () => {
+    const atFirst = getDocumentAt(document, 1500)!
+    expect(atFirst.version).toBe(1)
+    expect(atFirst.metadata.pageNumbers).toBe('1')
+    expect(atFirst.versionHistory).toEqual([])
+
+    const atSecond = getDocumentAt(document, 2500)!
+    expect(atSecond.version).toBe(2)
+    expect(atSecond.title).toBe('Second Title')
+    expect(atSecond.versionHistory).toHaveLength(1)
+
+    expect(getDocumentAt(document, 5000)!.version).toBe(3)
+  })
+
+  test('should leave out documents created after the timestamp', () => {
+    expect(getDocumentAt(document, 500)).toBeNull()
+    expect(getCatalogAt([document, { ...document, id: 'doc-2', created: 2500 }], 2000)).toHaveLength(1)
+  })
+
+  test('should parse milliseconds and ISO dates', () => {
+    expect(parseTimestamp('1700000000000')).toBe(1700000000000)
+    expect(parseTimestamp('2026-03-01T00:00:00Z')).toBe(Date.parse('2026-03-01T00:00:00Z'))
+    expect(parseTimestamp('not a date')).toBeNull()
+    expect(parseTimestamp(null)).toBeNull()
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Duplicate Detection Tests
+ *
+ * Tests near-duplicate matching of quotes, links and images, and clustering
+ */
+
+import {
+  canonicalizeUrl,
+  clusterDuplicates,
+  differenceHash,
+  findDuplicates,
+  hammingDistance,
+  minhashSignature,
+  signatureSimilarity
+} from '@/lib/duplicates'
+import type { FeedSearchItem } from '@/lib/feed-search-index'
+
+describe('Duplicate Detection', () => {
+  const QUOTE = 'Desire is not bolstered by needs, but rather the contrary; needs are derived from desire: ' +
+    'they are counterproducts within the real that desire produces. Lack is a countereffect of desire.'
+
+  const item = (document: any, collectionId = 'c1'): FeedSearchItem => ({
+    document,
+    collectionId,
+    collectionName: collectionId,
+    owner: 'alice',
+    ownerId: 'did:p2p:alice'
+  })
+
+  const quote = (id: string, quoteContent: string, extra: any = {}) =>
+    ({ id, documentType: 'quote', title: id, metadata: { quoteContent }, ...extra })
+
+  it('estimates quote text similarity from minhash signatures', () => {
+    const original = minhashSignature(QUOTE)!
+    const edited = minhashSignature(QUOTE.replace('Lack is', 'Lack is, indeed,'))!
+    const unrelated = minhashSignature('The medium is the message, said McLuhan in a book about media and their extensions of man.')!
+
+    expect(signatureSimilarity(original, original)).toBe(1)
+    expect(signatureSimilarity(original, edited)).toBeGreaterThan(0.6)
+    expect(signatureSimilarity(original, unrelated)).toBeLessThan(0.2)
+    expect(minhashSignature('  ')).toBeNull()
+  })
+
+  it('canonicalises URLs', () => {
+    expect(canonicalizeUrl('http://www.Example.com:80/a/?utm_source=x&b=2&a=1#top')).toBe('https://example.com/a?a=1&b=2')
+    expect(canonicalizeUrl('https://m.example.com/post/index.html?fbclid=123')).toBe('https://example.com/post')
+    expect(canonicalizeUrl('https://example.com/')).toBe('https://example.com')
+    expect(canonicalizeUrl('ftp://example.com/file')).toBeNull()
+    expect(canonicalizeUrl('not a url')).toBeNull()
+  })
+
+  it('hashes images so that small changes stay close', () => {
+    const gradient = Array.from({ length: 72 }, (_, i) => (i % 9) * 20 + (i * 7) % 13)
+    const brighter = gradient.map(value => value + 30)
+    const noisy = gradient.map((value, i) => i === 40 ? value + 25 : value)
+
+    const hash = differenceHash(gradient)
+    expect(hash).toMatch(/^[0-9a-f]{16}$/)
+    expect(differenceHash(brighter)).toBe(hash)
+    expect(hammingDistance(hash, differenceHash(noisy))).toBeLessThanOrEqual(2)
+    expect(hammingDistance('00', 'ff')).toBe(8)
+  })
+
+  it('finds duplicates but not copies or forks of the same document', () => {
+    const items = [
+      item(quote('copy', QUOTE), 'c2'),
+      item(quote('fork', QUOTE, { parentDocumentId: 'doc-1' })),
+      item(quote('other', QUOTE.replace('needs', 'wants'))),
+      item(quote('unrelated', 'The medium is the message.')),
+      item({ id: 'link', documentType: 'link', title: 'link', metadata: { url: 'https://example.com' } })
+    ]
+    items[0].document.id = 'doc-1' // Same document in another collection
+
+    const matches = findDuplicates(quote('doc-1', QUOTE), items)
+    expect(matches.map(match => match.item.document.id)).toEqual(['other'])
+    expect(matches[0].kind).toBe('text')
+
+    // Not stored yet: compared with everything
+    const unsaved = { documentType: 'link', metadata: { url: 'http://www.example.com/?utm_medium=email' } }
+    expect(findDuplicates(unsaved, items).map(match => match.item.document.id)).toEqual(['link'])
+  })
+
+  it('clusters duplicates across collections', () => {
+    const image = (id: string, perceptualHash: string, ipfsCID?: string) =>
+      ({ id, documentType: 'image', title: id, perceptualHash, ipfsCID })
+
+    const clusters = clusterDuplicates([
+      item(quote('q1', QUOTE)),
+      item(quote('q2', QUOTE.replace('needs', 'wants')), 'c2'),
+      item(quote('q3', QUOTE.replace('Lack', 'Absence')), 'c3'),
+      item(quote('q4', 'The medium is the message.')),
+      item(image('i1', 'f0f0f0f0f0f0f0f0')),
+      item(image('i2', 'f0f0f0f0f0f0f0f1'), 'c2'),
+      item(image('i3', '0f0f0f0f0f0f0f0f')),
+      item({ id: 'l1', documentType: 'link', title: 'l1', metadata: { url: 'https://example.com/a' } })
+    ])
+
+    expect(clusters.map(cluster => cluster.items.map(({ document }) => document.id).sort())).toEqual([
+      ['q1', 'q2', 'q3'],
+      ['i1', 'i2']
+    ])
+    expect(clusters[0].kind).toBe('text')
+    expect(clusters[1].similarity).toBe(63 / 64)
+  })
+})
@@ -0,0 +1,75 @@
+/**
+ * Feed Cursor Tests
+ *
+ * Tests feed order, cursor encoding and paging after a cursor
+ */
+
+import {
+  compareFeedOrder,
+  decodeFeedCursor,
+  encodeFeedCursor,
+  pageAfter,
+  positionOf
+} from '@/lib/feed-cursor'
+import type { FeedSearchItem } from '@/lib/feed-search-index'
+
+describe('Feed Cursors', () => {
+  const item = (id: string, created: number, collectionId = 'c1'): FeedSearchItem => ({
+    document: { id, title: id, created },
+    collectionId,
+    collectionName: collectionId,
+    owner: 'alice',
+    ownerId: 'did:p2p:alice'
+  })
+
+  const ids = (items: FeedSearchItem[]) => items.map(({ document, collectionId }) => `${collectionId}/${document.id}`)
+
+  it('orders newest first, then by document ID and collection', () => {
+    const items = [item('a', 100), item('b', 300), item('c', 100), item('c', 100, 'c2')]
+    expect(ids(items.sort(compareFeedOrder))).toEqual(['c1/b', 'c2/c', 'c1/c', 'c1/a'])
+  })
+
+  it('round-trips cursors and rejects anything else', () => {
+    const position = positionOf(item('doc-1', 1700000000000))
+    expect(decodeFeedCursor(encodeFeedCursor(position))).toEqual(position)
+
+    expect(decodeFeedCursor('not a cursor')).toBeNull()
+    expect(decodeFeedCursor(Buffer.from(JSON.stringify({ id: 'x' })).toString('base64url'))).toBeNull()
+  })
+
+  it('pages through the feed without repeating or skipping items', () => {
+    const items = Array.from({ length: 7 }, (_, i) => item(`doc-${i}`, 1000 - i * 10))
+
+    const first = pageAfter(items, null, 3)
+    expect(ids(first.items)).toEqual(['c1/doc-0', 'c1/doc-1', 'c1/doc-2'])
+    expect(first.hasMore).toBe(true)
+
+    const second = pageAfter(items, decodeFeedCursor(first.nextCursor!), 3)
+    const third = pageAfter(items, decodeFeedCursor(second.nextCursor!), 3)
+    expect(ids(second.items)).toEqual(['c1/doc-3', 'c1/doc-4', 'c1/doc-5'])
+    expect(ids(third.items)).toEqual(['c1/doc-6'])
+    expect(third.hasMore).toBe(false)
+    expect(third.nextCursor).toBeNull()
+  })
+
+  it('keeps the next page stable when documents are added or removed', () => {
+    const items = Array.from({ length: 6 }, (_, i) => item(`doc-${i}`, 1000 - i * 10))
+    const first = pageAfter(items, null, 2)
+
+    // A new document on top, and the last item of the page deleted
+    const changed = [item('new', 2000), ...items.filter(({ document }) => document.id !== 'doc-1')]
+    const second = pageAfter(changed, decodeFeedCursor(first.nextCursor!), 2)
+    expect(ids(second.items)).toEqual(['c1/doc-2', 'c1/doc-3'])
+  })
+
+  it('continues relevance ranked results by score', () => {
+    const results = [
+      { ...item('a', 100), score: 5 },
+      { ...item('b', 300), score: 2 },
+      { ...item('c', 200), score: 2 }
+    ]
+    const first = pageAfter(results, null, 2)
+    expect(ids(first.items)).toEqual(['c1/a', 'c1/b'])
+    expect(ids(pageAfter(results, decodeFeedCursor(first.nextCursor!), 2).items)).toEqual(['c1/c'])
+  })
+})
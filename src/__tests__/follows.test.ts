@@ -0,0 +1,73 @@
+/**
+ * Follows Tests
+ *
+ * Tests replaying follow entries and building the following feed
+ */
+
+import { currentFollows, followEntry, followingFeed, FollowTarget } from '@/lib/follows'
+import type { FeedSearchItem } from '@/lib/feed-search-index'
+
+describe('Follows', () => {
+  const item = (id: string, collectionId: string, ownerId: string, document: Record<string, unknown> = {}): FeedSearchItem => ({
+    document: { id, title: id, created: 0, uploadedBy: ownerId, ...document },
+    collectionId,
+    collectionName: `${collectionId} name`,
+    owner: ownerId.replace('did:p2p:', ''),
+    ownerId
+  })
+
+  const follow = (kind: FollowTarget['kind'], id: string, name = id): FollowTarget => ({ kind, id, name, followedAt: 1 })
+
+  it('replays follow and unfollow entries, the latest one winning', () => {
+    const entries = [
+      { ...followEntry('follow', { kind: 'collection', id: 'c1', name: 'Essays' }, 'did:p2p:me'), timestamp: 1 },
+      { ...followEntry('follow', { kind: 'user', id: 'did:p2p:bob', name: 'bob' }, 'did:p2p:me'), timestamp: 2 },
+      { ...followEntry('unfollow', { kind: 'collection', id: 'c1', name: 'Essays' }, 'did:p2p:me'), timestamp: 3 },
+      { ...followEntry('follow', { kind: 'collection', id: 'c2', name: 'Quotes' }, 'did:p2p:me'), timestamp: 4 }
+    ]
+
+    expect(currentFollows(entries)).toEqual([
+      { kind: 'collection', id: 'c2', name: 'Quotes', followedAt: 4 },
+      { kind: 'user', id: 'did:p2p:bob', name: 'bob', followedAt: 2 }
+    ])
+
+    // Order of the entries doesn't matter, following again after unfollowing does
+    const refollow = { ...followEntry('follow', { kind: 'collection', id: 'c1', name: 'Essays' }, 'did:p2p:me'), timestamp: 5 }
+    expect(currentFollows([refollow, ...entries.reverse()]).map(f => f.id)).toEqual(['c1', 'c2', 'did:p2p:bob'])
+  })
+
+  it('reads UserActivity follow entries and skips other activity', () => {
+    const entries = [
+      { type: 'follow', timestamp: 1, data: { collectionId: 'c1', collectionName: 'Essays', followedAt: 1 } },
+      { type: 'publish', timestamp: 2, data: { documentId: 'd1', collectionId: 'c1', title: 'Doc' } }
+    ]
+    expect(currentFollows(entries)).toEqual([{ kind: 'collection', id: 'c1', name: 'Essays', followedAt: 1 }])
+  })
+
+  it('merges followed collections with what followed users publish and fork', () => {
+    const items = [
+      item('d1', 'c1', 'did:p2p:alice'),
+      item('d2', 'c2', 'did:p2p:bob', { parentDocumentId: 'd0' }),
+      item('d3', 'c3', 'did:p2p:carol'),
+      item('d4', 'c2', 'did:p2p:bob')
+    ]
+
+    const feed = followingFeed(items, [follow('collection', 'c1'), follow('user', 'did:p2p:bob', 'bob')])
+    expect(feed.map(({ document, reason }) => [document.id, reason.type])).toEqual([
+      ['d1', 'collection'],
+      ['d2', 'fork'],
+      ['d4', 'publish']
+    ])
+  })
+
+  it('shows a document added to several collections once, from its uploader', () => {
+    const items = [
+      item('d1', 'c-alice', 'did:p2p:alice', { uploadedBy: 'did:p2p:bob' }),
+      item('d1', 'c-bob', 'did:p2p:bob')
+    ]
+
+    const feed = followingFeed(items, [follow('collection', 'c-alice'), follow('user', 'did:p2p:bob', 'bob')])
+    expect(feed).toHaveLength(1)
+    expect(feed[0].collectionId).toBe('c-bob')
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * Fork Lineage Tests
+ *
+ * Tests fork tree resolution across collections
+ */
+
+import { resolveForkTree, ForkDocument, ForkLineageSource } from '@/lib/fork-lineage'
+
+describe('Fork Lineage', () => {
+  // Alice's original, forked by Bob, whose fork was forked by Carol
+  const collections: Record<string, ForkDocument[]> = {
+    'collection-alice': [
+      { id: 'original', title: 'Original', childDocumentIds: ['bob-fork', 'lost-fork'] }
+    ],
+    'collection-bob': [
+      { id: 'bob-fork', title: 'Bob fork', parentDocumentId: 'original', parentCollectionId: 'collection-alice', childDocumentIds: ['carol-fork'] }
+    ],
+    'collection-carol': [
+      // Recorded before parentCollectionId existed
+      { id: 'carol-fork', title: 'Carol fork', parentDocumentId: 'bob-fork', childDocumentIds: [] }
+    ]
+  }
+
+  const createSource = (unreachable: string[] = []): ForkLineageSource & { reads: string[] } => {
+    const reads: string[] = []
+    return {
+      reads,
+      getCollectionDocuments: async (storeName: string) => {
+        reads.push(storeName)
+        if (unreachable.includes(storeName)) throw new Error('Store not reachable')
+        return collections[storeName] || []
+      },
+      getAllCollections: async () => Object.keys(collections)
+    }
+  }
+
+  test('should resolve parents and children in other collections', async () => {
+    const source = createSource()
+    const tree = await resolveForkTree('bob-fork', 'collection-bob', source)
+
+    expect(tree?.rootId).toBe('original')
+    expect(Object.keys(tree!.documents).sort()).toEqual(['bob-fork', 'carol-fork', 'lost-fork', 'original'])
+    expect(tree?.documentCollections).toEqual({
+      'original': 'collection-alice',
+      'bob-fork': 'collection-bob',
+      'carol-fork': 'collection-carol'
+    })
+  })
+
+  test('should read each collection once', async () => {
+    const source = createSource()
+    await resolveForkTree('carol-fork', 'collection-carol', source)
+
+    expect(new Set(source.reads).size).toBe(source.reads.length)
+  })
+
+  test('should turn missing documents into placeholders', async () => {
+    const tree = await resolveForkTree('original', 'collection-alice', createSource())
+
+    expect(tree?.documents['lost-fork']).toEqual({ id: 'lost-fork', placeholder: true, childDocumentIds: [] })
+  })
+
+  test('should keep the reachable part of the tree when a parent collection is down', async () => {
+    const tree = await resolveForkTree('bob-fork', 'collection-bob', createSource(['collection-alice']))
+
+    expect(tree?.rootId).toBe('original')
+    expect(tree?.documents['original']).toEqual({
+      id: 'original',
+      placeholder: true,
+      collectionId: 'collection-alice',
+      childDocumentIds: ['bob-fork']
+    })
+    expect((tree?.documents['carol-fork'] as ForkDocument).title).toBe('Carol fork')
+  })
+
+  test('should return null when the document does not exist', async () => {
+    expect(await resolveForkTree('missing', 'collection-alice', createSource())).toBeNull()
+  })
+})
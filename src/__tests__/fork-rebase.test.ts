@@ -0,0 +1,93 @@
+/**
+ * Fork Rebase Tests
+ *
+ * Tests upstream change tracking and rebasing forks onto their parent
+ */
+
+import { applyRebase, getUpstreamStatus, getUpstreamStatuses, rebaseFork } from '@/lib/fork-rebase'
+import type { MergeableDocument } from '@/lib/merge-requests'
+
+describe('Fork Rebase', () => {
+  const forkedMetadata = { title: 'Dune', author: 'Frank Herbert', year: '1965', publisher: 'Chilton', keywords: ['scifi'] }
+
+  // Alice edited her quote twice after Bob forked version 1
+  const upstream: MergeableDocument = {
+    id: 'original',
+    documentType: 'quote',
+    title: 'Dune',
+    created: 1000,
+    version: 3,
+    metadata: { title: 'Dune', author: 'Frank Herbert', year: '1966', publisher: 'Ace', keywords: ['scifi', 'desert'] },
+    versionHistory: [
+      { version: 2, editedBy: 'alice', editedAt: 2000, changeComment: 'Fix year', previousMetadata: forkedMetadata },
+      {
+        version: 3,
+        editedBy: 'alice',
+        editedAt: 3000,
+        changeComment: 'Paperback edition',
+        previousMetadata: { ...forkedMetadata, year: '1966' }
+      }
+    ]
+  }
+
+  // Bob changed the publisher and keywords in his fork
+  const fork: MergeableDocument = {
+    id: 'bob-fork',
+    documentType: 'quote',
+    title: 'Dune',
+    created: 1500,
+    uploadedBy: 'bob',
+    version: 2,
+    parentDocumentId: 'original',
+    parentVersion: 1,
+    metadata: { ...forkedMetadata, publisher: 'Chilton Books', keywords: ['scifi', 'ecology'] },
+    versionHistory: [
+      { version: 1, editedBy: 'bob', editedAt: 1500, changeComment: 'Fork', previousMetadata: forkedMetadata },
+      { version: 2, editedBy: 'bob', editedAt: 2500, changeComment: 'Publisher', previousMetadata: forkedMetadata }
+    ]
+  }
+
+  it('counts the parent versions made since the fork', () => {
+    expect(getUpstreamStatus(fork, upstream)).toEqual({
+      documentId: 'original',
+      baseVersion: 1,
+      latestVersion: 3,
+      newerVersions: 2
+    })
+
+    const statuses = getUpstreamStatuses([upstream, fork, { id: 'orphan', title: 'Orphan', created: 1000, parentDocumentId: 'missing' }])
+    expect(Object.keys(statuses)).toEqual(['bob-fork'])
+  })
+
+  it('applies non-conflicting parent changes and flags conflicts', () => {
+    const result = rebaseFork(fork, upstream)
+
+    expect(result.upstreamVersion).toBe(3)
+    expect(result.applied.sort()).toEqual(['keywords', 'year'])
+    expect(result.metadata.year).toBe('1966')
+    expect(result.metadata.keywords).toEqual(['scifi', 'ecology', 'desert'])
+
+    // Both changed the publisher, Bob's value is kept
+    expect(result.metadata.publisher).toBe('Chilton Books')
+    expect(result.conflicts).toEqual([
+      { field: 'publisher', base: 'Chilton', fork: 'Chilton Books', upstream: 'Ace' }
+    ])
+  })
+
+  it('does not flag fields both sides changed the same way', () => {
+    const result = rebaseFork({ ...fork, metadata: { ...fork.metadata, publisher: 'Ace' } }, upstream)
+
+    expect(result.conflicts).toEqual([])
+  })
+
+  it('bases the rebased fork on the parent latest version', () => {
+    const rebased = applyRebase(fork, rebaseFork(fork, upstream), 'bob')
+    const entry = rebased.versionHistory![rebased.versionHistory!.length - 1]
+
+    expect(rebased.version).toBe(3)
+    expect(rebased.parentVersion).toBe(3)
+    expect(entry.previousMetadata).toEqual(fork.metadata)
+    expect(entry.rebasedOnto).toEqual({ version: 3, conflicts: ['publisher'] })
+    expect(getUpstreamStatus(rebased, upstream).newerVersions).toBe(0)
+  })
+})
@@ -0,0 +1,75 @@
+/**
+ * Keywords Tests
+ *
+ * Tests keyword keys, usage counts, autocomplete, synonyms and renaming
+ */
+
+import {
+  countKeywords,
+  expandKeywords,
+  keywordKey,
+  renameKeywords,
+  suggestKeywords,
+  SynonymGroup
+} from '@/lib/keywords'
+import type { FeedSearchItem } from '@/lib/feed-search-index'
+
+describe('Keywords', () => {
+  const item = (id: string, keywords: string[], collectionId = 'c1'): FeedSearchItem => ({
+    document: { id, title: id, created: 0, metadata: { keywords } },
+    collectionId,
+    collectionName: collectionId,
+    owner: 'alice',
+    ownerId: 'did:p2p:alice'
+  })
+
+  it('keys keywords regardless of case, accents and spacing', () => {
+    expect(keywordKey(' Philosophie  Politique ')).toBe('philosophie politique')
+    expect(keywordKey('Écologie')).toBe(keywordKey('ecologie'))
+  })
+
+  it('counts documents per keyword, labelled with the most used spelling', () => {
+    const usage = countKeywords([
+      item('d1', ['philosophy', 'Art']),
+      item('d2', ['Philosophy', 'philosophy']),
+      item('d3', ['philosophy ']),
+      item('d1', ['philosophy', 'Art'], 'c2') // Copy in another collection
+    ])
+
+    expect(usage).toEqual([
+      { key: 'philosophy', label: 'philosophy', count: 3 },
+      { key: 'art', label: 'Art', count: 1 }
+    ])
+  })
+
+  it('suggests keywords starting with what is typed first', () => {
+    const vocabulary = [
+      { key: 'political philosophy', label: 'political philosophy', count: 9 },
+      { key: 'philosophy', label: 'Philosophy', count: 5 },
+      { key: 'photography', label: 'photography', count: 4 },
+      { key: 'philology', label: 'philology', count: 1 }
+    ]
+
+    expect(suggestKeywords(vocabulary, 'Phil', 10).map(k => k.key))
+      .toEqual(['philosophy', 'philology', 'political philosophy'])
+    expect(suggestKeywords(vocabulary, 'ph', 2).map(k => k.key)).toEqual(['philosophy', 'photography'])
+    expect(suggestKeywords(vocabulary, '', 1).map(k => k.key)).toEqual(['political philosophy'])
+  })
+
+  it('expands keywords with their synonyms', () => {
+    const groups: SynonymGroup[] = [
+      { id: 'g1', keywords: ['philosophy', 'philo'], created: 1, createdBy: 'did:p2p:alice' },
+      { id: 'g2', keywords: ['art', 'arts'], created: 2, createdBy: 'did:p2p:bob' }
+    ]
+
+    expect(expandKeywords(['Philo'], groups)).toEqual(['Philo', 'philosophy'])
+    expect(expandKeywords(['music'], groups)).toEqual(['music'])
+  })
+
+  it('renames keywords in place, dropping duplicates', () => {
+    expect(renameKeywords(['Philo', 'art', 'philosophy'], ['philo'], 'philosophy')).toEqual(['philosophy', 'art'])
+    expect(renameKeywords(['philosophy', 'art'], ['Philo', 'phil'], 'philosophy')).toBeNull()
+    expect(renameKeywords(['philosophy'], ['Philosophy'], 'philosophy')).toBeNull()
+    expect(renameKeywords(['Philosophy'], ['philosophy'], 'philosophy')).toEqual(['philosophy'])
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * Merge Request Tests
+ *
+ * Tests proposing fork changes upstream and merging them back
+ */
+
+import { applyMergeRequest, createMergeRequest, getForkBase, mergeMetadata, MergeableDocument } from '@/lib/merge-requests'
+
+describe('Merge Requests', () => {
+  // Alice's quote, edited once after Bob forked version 1
+  const upstream: MergeableDocument = {
+    id: 'original',
+    documentType: 'quote',
+    title: 'Dune',
+    uploadedBy: 'alice',
+    created: 1000,
+    version: 2,
+    metadata: { title: 'Dune', author: 'Frank Herbert', year: '1966', keywords: ['scifi', 'desert'] },
+    versionHistory: [
+      {
+        version: 2,
+        editedBy: 'alice',
+        editedAt: 2000,
+        changeComment: 'Fix year',
+        previousMetadata: { title: 'Dune', author: 'Frank Herbert', year: '1965', keywords: ['scifi'] }
+      }
+    ]
+  }
+
+  const fork: MergeableDocument = {
+    id: 'bob-fork',
+    documentType: 'quote',
+    title: 'Dune',
+    uploadedBy: 'bob',
+    created: 1500,
+    version: 1,
+    parentDocumentId: 'original',
+    parentCollectionId: 'collection-alice',
+    parentVersion: 1,
+    metadata: { title: 'Dune', author: 'Frank Herbert', year: '1965', keywords: ['scifi', 'ecology'], publisher: 'Chilton' }
+  }
+
+  const openRequest = () => createMergeRequest({
+    id: 'mr-1',
+    upstream,
+    upstreamCollectionId: 'collection-alice',
+    fork,
+    forkCollectionId: 'collection-bob',
+    proposedBy: 'bob',
+    comment: 'Add publisher and ecology tag'
+  })
+
+  it('diffs the fork against the version it was forked from', () => {
+    const request = openRequest()
+
+    expect(request.baseVersion).toBe(1)
+    expect(request.status).toBe('open')
+    expect(request.fork).toEqual({ collectionId: 'collection-bob', documentId: 'bob-fork', version: 1 })
+    expect(request.changes.map(change => change.field).sort()).toEqual(['keywords', 'publisher'])
+  })
+
+  it('finds the base of forks made before parentVersion was recorded', () => {
+    const base = getForkBase({
+      ...fork,
+      parentVersion: undefined,
+      versionHistory: [{
+        version: 1,
+        editedBy: 'bob',
+        editedAt: 1500,
+        changeComment: 'Forked',
+        previousMetadata: upstream.versionHistory![0].previousMetadata
+      }]
+    }, upstream)
+
+    expect(base.version).toBe(1)
+    expect(getForkBase({ id: 'unknown', title: 'Unknown', created: 1500 }, upstream).version).toBe(2)
+  })
+
+  it('replays accepted fields onto the current upstream metadata', () => {
+    const request = openRequest()
+
+    // Alice's later year fix and desert keyword are kept
+    expect(mergeMetadata(upstream.metadata, request, ['keywords', 'publisher'])).toEqual({
+      title: 'Dune',
+      author: 'Frank Herbert',
+      year: '1966',
+      keywords: ['scifi', 'desert', 'ecology'],
+      publisher: 'Chilton'
+    })
+    expect(mergeMetadata(upstream.metadata, request, ['publisher']).keywords).toEqual(['scifi', 'desert'])
+  })
+
+  it('creates a new upstream version crediting the fork author', () => {
+    const merged = applyMergeRequest(upstream, openRequest(), ['publisher'], 'alice')
+    const entry = merged.versionHistory![merged.versionHistory!.length - 1]
+
+    expect(merged.version).toBe(3)
+    expect(merged.metadata!.publisher).toBe('Chilton')
+    expect(entry.editedBy).toBe('alice')
+    expect(entry.previousMetadata).toEqual(upstream.metadata)
+    expect(entry.mergedFrom).toEqual({
+      mergeRequestId: 'mr-1',
+      collectionId: 'collection-bob',
+      documentId: 'bob-fork',
+      author: 'bob'
+    })
+  })
+})
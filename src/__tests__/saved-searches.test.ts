@@ -0,0 +1,64 @@
+/**
+ * Saved Searches Tests
+ *
+ * Tests saved search parameters and which results count as new
+ */
+
+import { cleanSearchParams, isNewResult, SavedSearch } from '@/lib/saved-searches'
+import { searchOptionsFromParams } from '@/lib/feed-search-index'
+import type { FeedSearchResult } from '@/lib/feed-search-index'
+
+describe('Saved Searches', () => {
+  const search: SavedSearch = {
+    id: 's1',
+    name: 'Deleuze',
+    params: { title: 'desire', author: 'deleuze' },
+    created: 1000,
+    lastSeen: 2000
+  }
+
+  const result = (created: number, uploadedBy: string): FeedSearchResult => ({
+    document: { id: `d${created}`, title: `d${created}`, created, uploadedBy },
+    collectionId: 'c1',
+    collectionName: 'Philosophy',
+    owner: 'alice',
+    ownerId: uploadedBy,
+    score: 1,
+    highlights: []
+  })
+
+  it('keeps only known, non-empty search parameters', () => {
+    expect(cleanSearchParams({
+      title: ' desire ',
+      type: 'quote',
+      keywords: '',
+      isbn: 42,
+      limit: '20',
+      peerId: 'did:p2p:alice'
+    })).toEqual({ title: 'desire', type: 'quote' })
+  })
+
+  it('turns saved parameters into the same search options as the search API', () => {
+    expect(searchOptionsFromParams(new URLSearchParams({
+      title: 'desire year:1968..1980',
+      type: 'quote,link',
+      author: 'deleuze',
+      isbn: '0-306-40615-2'
+    }))).toEqual({
+      query: 'desire',
+      types: ['quote', 'link'],
+      keywords: [],
+      collections: [],
+      owners: [],
+      citation: { author: 'deleuze', yearFrom: 1968, yearTo: 1980, isbn: '9780306406157' }
+    })
+
+    expect(searchOptionsFromParams(new URLSearchParams({ isbn: '123' }))).toBeNull()
+  })
+
+  it('counts results published by others since last seen as new', () => {
+    expect(isNewResult(search, result(3000, 'did:p2p:bob'), 'did:p2p:alice')).toBe(true)
+    expect(isNewResult(search, result(1500, 'did:p2p:bob'), 'did:p2p:alice')).toBe(false)
+    expect(isNewResult(search, result(3000, 'did:p2p:alice'), 'did:p2p:alice')).toBe(false)
+  })
+})
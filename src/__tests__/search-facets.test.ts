@@ -0,0 +1,60 @@
+/**
+ * Search Facets Tests
+ *
+ * Tests facet counts per type, keyword, author, collection, owner and year
+ */
+
+import { computeFacets } from '@/lib/search-facets'
+import type { FeedSearchItem } from '@/lib/feed-search-index'
+
+describe('Search Facets', () => {
+  const item = (id: string, documentType: string, metadata: any, collectionId = 'c1', ownerId = 'did:p2p:alice'): FeedSearchItem => ({
+    document: { id, title: id, created: 0, documentType, metadata },
+    collectionId,
+    collectionName: collectionId === 'c1' ? 'Philosophy' : 'Links',
+    owner: ownerId === 'did:p2p:alice' ? 'alice' : 'bob',
+    ownerId
+  })
+
+  const items = [
+    item('1', 'quote', { author: 'Gilles Deleuze', year: '1972', keywords: ['Philosophy', 'desire'] }),
+    item('2', 'quote', { author: 'Gilles Deleuze', year: '1980', keywords: ['philosophy', 'Philosophy'] }),
+    item('3', 'quote', { author: 'Michel Foucault', year: '1972', keywords: ['power'] }),
+    item('4', 'link', { publicationDate: '2001-05-04', keywords: ['web'] }, 'c2', 'did:p2p:bob')
+  ]
+
+  it('counts documents per type, author, collection and owner, most frequent first', () => {
+    const facets = computeFacets(items)
+
+    expect(facets.documentType).toEqual([
+      { value: 'quote', label: 'quote', count: 3 },
+      { value: 'link', label: 'link', count: 1 }
+    ])
+    expect(facets.authors.map(bucket => [bucket.value, bucket.count])).toEqual([
+      ['Gilles Deleuze', 2],
+      ['Michel Foucault', 1]
+    ])
+    expect(facets.collections[0]).toEqual({ value: 'c1', label: 'Philosophy', count: 3 })
+    expect(facets.owners[1]).toEqual({ value: 'did:p2p:bob', label: 'bob', count: 1 })
+  })
+
+  it('counts keywords case-insensitively, once per document', () => {
+    const facets = computeFacets(items)
+
+    expect(facets.keywords[0]).toEqual({ value: 'philosophy', label: 'Philosophy', count: 2 })
+    expect(facets.keywords).toHaveLength(4)
+  })
+
+  it('builds a year histogram oldest first', () => {
+    expect(computeFacets(items).years.map(bucket => [bucket.value, bucket.count])).toEqual([
+      ['1972', 2],
+      ['1980', 1],
+      ['2001', 1]
+    ])
+  })
+
+  it('keeps the top buckets only', () => {
+    expect(computeFacets(items, 1).keywords).toHaveLength(1)
+    expect(computeFacets(items, 1).years).toHaveLength(3)
+  })
+})
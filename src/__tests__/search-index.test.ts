@@ -0,0 +1,121 @@
+/**
+ * Search Index Tests
+ *
+ * Tests full-text ranking, phrase, prefix, fuzzy and fielded queries, and highlights
+ */
+
+import { InvertedIndex, parseQuery, tokenize } from '@/lib/search-index'
+
+describe('Search Index', () => {
+  const createIndex = () => {
+    const index = new InvertedIndex<string>()
+    index.add('dune', {
+      title: 'Dune',
+      quoteContent: 'Fear is the mind-killer. Fear is the little-death that brings total obliteration.',
+      author: 'Frank Herbert',
+      keywords: 'scifi, desert'
+    }, 'dune')
+    index.add('walden', {
+      title: 'Walden',
+      quoteContent: 'I went to the woods because I wished to live deliberately.',
+      author: 'Henry David Thoreau',
+      keywords: 'philosophy, nature'
+    }, 'walden')
+    index.add('essay', {
+      title: 'On Fear and Philosophy',
+      description: 'An essay on the little things we fear.',
+      keywords: 'philosophy'
+    }, 'essay')
+    return index
+  }
+
+  it('tokenizes words with positions and offsets', () => {
+    expect(tokenize('Mind-killer, Café 42')).toEqual([
+      { term: 'mind', position: 0, start: 0, end: 4 },
+      { term: 'killer', position: 1, start: 5, end: 11 },
+      { term: 'cafe', position: 2, start: 13, end: 17 },
+      { term: '42', position: 3, start: 18, end: 20 }
+    ])
+  })
+
+  it('parses phrases, prefixes and the word being typed', () => {
+    expect(parseQuery('"little death" philo* fea')).toEqual([
+      { type: 'phrase', terms: ['little', 'death'] },
+      { type: 'term', term: 'philo', prefix: true },
+      { type: 'term', term: 'fea', prefix: true }
+    ])
+    expect(parseQuery('fear ')).toEqual([{ type: 'term', term: 'fear', prefix: true }])
+    expect(parseQuery('fear walden')[0]).toEqual({ type: 'term', term: 'fear', prefix: false })
+  })
+
+  it('ranks title matches above body matches and requires every term', () => {
+    const index = createIndex()
+
+    expect(index.search('fear').map(hit => hit.id)).toEqual(['essay', 'dune'])
+    expect(index.search('fear philosophy').map(hit => hit.id)).toEqual(['essay'])
+    expect(index.search('nothing').length).toBe(0)
+  })
+
+  it('matches phrases only when the words are consecutive', () => {
+    const index = createIndex()
+
+    expect(index.search('"little death"').map(hit => hit.id)).toEqual(['dune'])
+    expect(index.search('"death little"').length).toBe(0)
+  })
+
+  it('matches prefixes', () => {
+    const index = createIndex()
+
+    expect(index.search('philo*').map(hit => hit.id).sort()).toEqual(['essay', 'walden'])
+    expect(index.search('thor').map(hit => hit.id)).toEqual(['walden'])
+  })
+
+  it('highlights the matching words', () => {
+    const index = createIndex()
+    const [hit] = index.search('deliberately')
+
+    expect(hit.highlights).toEqual([
+      'I went to the woods because I wished to live <mark>deliberately</mark>.'
+    ])
+  })
+
+  it('searches within candidates and forgets removed documents', () => {
+    const index = createIndex()
+
+    expect(index.search('fear', new Set(['dune'])).map(hit => hit.id)).toEqual(['dune'])
+
+    index.remove('dune')
+    expect(index.size).toBe(2)
+    expect(index.search('herbert').length).toBe(0)
+  })
+
+  it('matches across accents, word endings and typos', () => {
+    const index = new InvertedIndex<string>()
+    index.add('societe', { title: 'La société du spectacle', keywords: 'philosophies' }, 'societe')
+    index.add('welt', { title: 'Die Welt als Wille und Vorstellung' }, 'welt')
+
+    expect(index.search('societe').map(hit => hit.id)).toEqual(['societe'])
+    expect(index.search('philosophy').map(hit => hit.id)).toEqual(['societe'])
+    expect(index.search('spectalce').map(hit => hit.id)).toEqual(['societe'])
+    expect(index.search('"welt als"').map(hit => hit.id)).toEqual(['welt'])
+    expect(index.search('societe')[0].highlights).toEqual(['La <mark>société</mark> du spectacle'])
+  })
+
+  it('limits a query to one field', () => {
+    const index = createIndex()
+
+    expect(index.search('philosophy').map(hit => hit.id).sort()).toEqual(['essay', 'walden'])
+    expect(index.search('philosophy', undefined, 'title').map(hit => hit.id)).toEqual(['essay'])
+    expect(index.search('herbert', undefined, 'author')[0].highlights).toEqual(['Frank <mark>Herbert</mark>'])
+  })
+
+  it('loads tokenized documents back without changing results', () => {
+    const source = new InvertedIndex<string>()
+    const entry = source.add('walden', { title: 'Walden', author: 'Henry David Thoreau' }, 'walden')
+
+    const restored = new InvertedIndex<string>()
+    restored.load('walden', JSON.parse(JSON.stringify(entry)), 'walden')
+
+    expect(restored.search('thoreau')).toEqual(source.search('thoreau'))
+  })
+})
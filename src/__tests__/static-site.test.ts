@@ -0,0 +1,179 @@
+/**
+ * Static Site Export Tests
+ *
+ * Tests the pages, assets and search index of an exported collection, and the ZIP they are packed in
+ */
+
+import { inflateRawSync } from 'zlib'
+import { documentPaths, renderStaticSite, searchEntries, SiteDocument } from '@/lib/static-site'
+import { createZip } from '@/lib/zip'
+
+const collection = { id: 'collection-alice-1', name: 'Rhizomes & <trees>', description: 'An exhibition', owner: 'alice' }
+
+const documents: SiteDocument[] = [
+  {
+    id: 'quote-1',
+    documentType: 'quote',
+    title: 'Mille plateaux',
+    created: Date.UTC(2026, 0, 1),
+    version: 2,
+    versionHistory: [
+      { version: 2, editedBy: 'did:bob', editedAt: Date.UTC(2026, 0, 5), changeComment: 'Fixed the page', previousMetadata: {} }
+    ],
+    childDocumentIds: ['fork-1', 'elsewhere-2'],
+    metadata: {
+      quoteContent: 'Un rhizome ne commence et n\'aboutit pas',
+      author: 'Gilles Deleuze',
+      title: 'Mille plateaux',
+      isbn: '978-2-7073-0307-3',
+      keywords: ['rhizome', 'Œuvre']
+    }
+  },
+  {
+    id: 'fork-1',
+    documentType: 'quote',
+    title: 'Mille plateaux',
+    created: Date.UTC(2026, 0, 2),
+    parentDocumentId: 'quote-1',
+    parentCollectionId: 'collection-alice-1',
+    metadata: { quoteContent: '<script>alert(1)</script>', author: 'Félix Guattari' }
+  },
+  {
+    id: 'image-1',
+    documentType: 'image',
+    title: 'Diagram',
+    created: Date.UTC(2026, 0, 3),
+    ipfsCID: 'bafkimage',
+    mimeType: 'image/png',
+    size: 2048,
+    metadata: { creator: 'alice' }
+  },
+  {
+    id: 'link-1',
+    documentType: 'link',
+    title: 'Rhizome',
+    created: Date.UTC(2026, 0, 4),
+    metadata: { url: 'javascript:alert(1)', description: 'Not a web link' }
+  }
+]
+
+const assets = { bafkimage: { contentType: 'image/png', data: new Uint8Array([0x89, 0x50, 0x4E, 0x47]) } }
+
+const fileOf = (files: { path: string, data: string | Uint8Array }[], path: string) =>
+  files.find(file => file.path === path)?.data as string
+
+// Reads back the entries of a ZIP from its central directory
+function unzip(zip: Uint8Array): Record<string, Buffer> {
+  const buffer = Buffer.from(zip)
+  const end = buffer.length - 22
+  const count = buffer.readUInt16LE(end + 10)
+  const entries: Record<string, Buffer> = {}
+  let position = buffer.readUInt32LE(end + 16)
+
+  for (let i = 0; i < count; i++) {
+    const method = buffer.readUInt16LE(position + 10)
+    const compressedSize = buffer.readUInt32LE(position + 20)
+    const nameLength = buffer.readUInt16LE(position + 28)
+    const offset = buffer.readUInt32LE(position + 42)
+    const name = buffer.toString('utf8', position + 46, position + 46 + nameLength)
+    const dataStart = offset + 30 + buffer.readUInt16LE(offset + 26) + buffer.readUInt16LE(offset + 28)
+    const data = buffer.subarray(dataStart, dataStart + compressedSize)
+    entries[name] = method === 8 ? inflateRawSync(data) : data
+    position += 46 + nameLength
+  }
+  return entries
+}
+
+describe('Static Site Export', () => {
+  const files = renderStaticSite(collection, documents, assets, Date.UTC(2026, 1, 1))
+
+  it('renders an index, a page per document and the image assets', () => {
+    expect(files.map(file => file.path)).toEqual([
+      'index.html',
+      'style.css',
+      'search-index.js',
+      'search.js',
+      'documents/quote-1.html',
+      'documents/fork-1.html',
+      'documents/image-1.html',
+      'documents/link-1.html',
+      'assets/bafkimage.png'
+    ])
+
+    const index = fileOf(files, 'index.html')
+    expect(index).toContain('<h1>Rhizomes &amp; &lt;trees&gt;</h1>')
+    expect(index).toContain('Curated by alice')
+    expect(index).toContain('<a class="card" href="documents/quote-1.html" data-id="quote-1">')
+    expect(index).toContain('<img src="assets/bafkimage.png" alt="Diagram">')
+    expect(index).toContain('image/png • 2 KB')
+  })
+
+  it('shows the feed details, fork links and version history on document pages', () => {
+    const quote = fileOf(files, 'documents/quote-1.html')
+    expect(quote).toContain('<span class="label">ISBN: </span><span class="mono">978-2-7073-0307-3</span>')
+    expect(quote).toContain('<span class="keyword">Œuvre</span>')
+    expect(quote).toContain('<li><a href="../documents/fork-1.html">Mille plateaux</a></li>')
+    expect(quote).toContain('<li><span class="mono">elsewhere-2</span></li>')
+    expect(quote).toContain('<strong>Version 2</strong> <span class="muted">2026-01-05 00:00 UTC</span>')
+    expect(quote).toContain('Fixed the page')
+
+    const fork = fileOf(files, 'documents/fork-1.html')
+    expect(fork).toContain('Forked from: </span><a href="../documents/quote-1.html">')
+    expect(fork).toContain('&lt;script&gt;alert(1)&lt;/script&gt;')
+    expect(fork).not.toContain('<script>alert')
+
+    expect(fileOf(files, 'documents/image-1.html')).toContain('<img class="image" src="../assets/bafkimage.png"')
+  })
+
+  it('only links web URLs', () => {
+    const link = fileOf(files, 'documents/link-1.html')
+    expect(link).toContain('<span class="label">URL: </span><span>javascript:alert(1)</span>')
+    expect(link).not.toContain('href="javascript:')
+  })
+
+  it('indexes normalised words for client-side search', () => {
+    const [quote] = searchEntries(documents)
+
+    expect(quote.href).toBe('documents/quote-1.html')
+    expect(quote.text).toContain(' deleuze')
+    expect(quote.text).toContain(' oeuvre')
+    expect(fileOf(files, 'search-index.js')).toMatch(/^window\.SEARCH_INDEX = \[/)
+  })
+
+  it('numbers document pages whose IDs sanitise to the same file name', () => {
+    const clashing = [
+      { id: 'a/b', title: 'Slash', created: 1000 },
+      { id: 'a?b', title: 'Question mark', created: 1000 },
+      { id: 'a_b', title: 'Underscore', created: 1000 }
+    ]
+
+    expect([...documentPaths(clashing).values()]).toEqual([
+      'documents/a_b.html',
+      'documents/a_b-2.html',
+      'documents/a_b-3.html'
+    ])
+    expect(searchEntries(clashing).map(entry => entry.href)).toEqual([...documentPaths(clashing).values()])
+  })
+
+  it('shows missing or broken dates as unknown', () => {
+    const undated = renderStaticSite(collection, [{
+      id: 'undated',
+      documentType: 'quote',
+      title: 'Undated',
+      version: 2,
+      versionHistory: [{ version: 2, editedBy: 'did:bob', editedAt: NaN, changeComment: '', previousMetadata: {} }]
+    }], {})
+    const page = fileOf(undated, 'documents/undated.html')
+
+    expect(page).toContain('<span class="label">Created: </span>Unknown date')
+    expect(page).toContain('<strong>Version 2</strong> <span class="muted">Unknown date</span>')
+  })
+
+  it('packs the files in a ZIP', () => {
+    const entries = unzip(createZip(files))
+
+    expect(Object.keys(entries)).toEqual(files.map(file => file.path))
+    expect(entries['index.html'].toString('utf8')).toBe(fileOf(files, 'index.html'))
+    expect([...entries['assets/bafkimage.png']]).toEqual([0x89, 0x50, 0x4E, 0x47])
+  })
+})
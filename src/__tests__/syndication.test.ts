@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ *
+ * Syndication Feed Tests
+ *
+ * Tests feed items built from documents and the Atom, RSS and JSON Feed output
+ */
+
+import { documentItem, followItem, renderFeed, siteUrl, SyndicationFeed } from '@/lib/syndication'
+
+const BASE_URL = 'https://archive.example'
+const place = { collectionId: 'collection-alice-1', collectionName: 'Reading <notes>', author: 'alice' }
+
+const quote = {
+  id: 'doc-1',
+  documentType: 'quote',
+  title: 'Mille plateaux',
+  created: Date.UTC(2026, 0, 1),
+  version: 2,
+  versionHistory: [{ version: 2, editedBy: 'did:alice', editedAt: Date.UTC(2026, 0, 5), changeComment: '', previousMetadata: {} }],
+  metadata: {
+    quoteContent: 'Un rhizome ne commence et n\'aboutit pas & ne finit pas.',
+    author: 'Gilles Deleuze',
+    title: 'Mille plateaux',
+    pageNumbers: '31',
+    keywords: ['rhizome']
+  }
+}
+
+const image = {
+  id: 'doc-2',
+  documentType: 'image',
+  title: 'Diagram',
+  created: Date.UTC(2026, 0, 2),
+  ipfsCID: 'bafkimage',
+  mimeType: 'image/png',
+  contentSize: 2048,
+  metadata: { description: 'A tree', keywords: [] }
+}
+
+const link = {
+  id: 'doc-3',
+  documentType: 'link',
+  title: 'Rhizome',
+  created: Date.UTC(2026, 0, 3),
+  metadata: { url: 'https://example.org/rhizome?a=1&b=2', keywords: [] }
+}
+
+function feedOf(documents: any[]): SyndicationFeed {
+  return {
+    id: `${BASE_URL}/collections/p2p/collection-alice-1`,
+    title: 'Reading <notes>',
+    description: '',
+    homeUrl: `${BASE_URL}/collections/p2p/collection-alice-1`,
+    feedUrl: `${BASE_URL}/api/collections/p2p/collection-alice-1/feed.xml`,
+    items: documents.map(document => documentItem(document, place, BASE_URL))
+  }
+}
+
+describe('Syndication Feeds', () => {
+  it('builds items with quote text, link URLs and image enclosures', () => {
+    const [quoteItem, imageItem, linkItem] = feedOf([quote, image, link]).items
+
+    expect(quoteItem.title).toBe('“Un rhizome ne commence et n\'aboutit pas & ne finit pas.” — Gilles Deleuze')
+    expect(quoteItem.contentText).toContain('DELEUZE, Gilles. Mille plateaux. p. 31.')
+    expect(quoteItem.updated).toBe(Date.UTC(2026, 0, 5))
+    expect(quoteItem.tags).toEqual(['rhizome'])
+
+    expect(imageItem.enclosure).toEqual({
+      url: `${BASE_URL}/orbitdb/ipfs/retrieve/bafkimage?contentType=image%2Fpng`,
+      type: 'image/png',
+      length: 2048
+    })
+    expect(linkItem.externalUrl).toBe('https://example.org/rhizome?a=1&b=2')
+  })
+
+  it('renders escaped Atom with an enclosure link', () => {
+    const { body, contentType } = renderFeed(feedOf([quote, image]), 'atom')
+
+    expect(contentType).toContain('application/atom+xml')
+    expect(body).toContain('<feed xmlns="http://www.w3.org/2005/Atom">')
+    expect(body).toContain('<title>Reading &lt;notes&gt;</title>')
+    expect(body).toContain('<updated>2026-01-05T00:00:00.000Z</updated>')
+    expect(body).toContain('<link rel="enclosure" href="https://archive.example/orbitdb/ipfs/retrieve/bafkimage?contentType=image%2Fpng" type="image/png" length="2048"/>')
+    expect(body).toContain('<content type="html">&lt;blockquote&gt;')
+    expect(body).not.toMatch(/& ne finit/)
+  })
+
+  it('renders RSS items pointing links at the linked page', () => {
+    const { body } = renderFeed(feedOf([link]), 'rss')
+
+    expect(body).toContain('<rss version="2.0"')
+    expect(body).toContain('<link>https://example.org/rhizome?a=1&amp;b=2</link>')
+    expect(body).toContain(`<pubDate>${new Date(link.created).toUTCString()}</pubDate>`)
+  })
+
+  it('renders a JSON Feed with attachments', () => {
+    const feed = JSON.parse(renderFeed(feedOf([image]), 'json').body)
+
+    expect(feed.version).toBe('https://jsonfeed.org/version/1.1')
+    expect(feed.items[0]).toMatchObject({
+      id: `${BASE_URL}/collections/p2p/collection-alice-1#doc-2`,
+      authors: [{ name: 'alice' }],
+      attachments: [{ url: `${BASE_URL}/orbitdb/ipfs/retrieve/bafkimage?contentType=image%2Fpng`, mime_type: 'image/png', size_in_bytes: 2048 }]
+    })
+  })
+
+  it('describes follows in a user activity feed', () => {
+    const item = followItem({ kind: 'collection', id: 'collection-bob-1', name: 'Bob\'s shelf', followedAt: 1000 }, 'alice', BASE_URL)
+
+    expect(item.title).toBe('Followed the collection Bob\'s shelf')
+    expect(item.url).toBe(`${BASE_URL}/collections/p2p/collection-bob-1`)
+  })
+
+  it('takes the site address from SITE_URL or the request, not forwarded headers', () => {
+    const request = new Request('http://localhost:3000/api/users/alice/feed.xml', {
+      headers: { 'x-forwarded-host': 'attacker.example', 'x-forwarded-proto': 'https' }
+    })
+
+    expect(siteUrl(request)).toBe('http://localhost:3000')
+
+    process.env.SITE_URL = `${BASE_URL}/`
+    try {
+      expect(siteUrl(request)).toBe(BASE_URL)
+    } finally {
+      delete process.env.SITE_URL
+    }
+  })
+})
@@ -0,0 +1,57 @@
+/**
+ * Text Analysis Tests
+ *
+ * Tests normalisation, language detection, stemming and typo tolerance
+ */
+
+import {
+  detectLanguage,
+  editDistance,
+  matchesText,
+  normalizeText,
+  stem,
+  stemVariants
+} from '@/lib/text-analysis'
+
+describe('Text Analysis', () => {
+  it('folds case, accents and special letters', () => {
+    expect(normalizeText('Société ÉCOLE')).toBe('societe ecole')
+    expect(normalizeText('Straße Œuvre Ærø')).toBe('strasse oeuvre aero')
+    expect(normalizeText('ﬁn')).toBe('fin')
+  })
+
+  it('detects the language from stopwords', () => {
+    expect(detectLanguage('The critique of the pure reason')).toBe('en')
+    expect(detectLanguage('La société et les individus')).toBe('fr')
+    expect(detectLanguage('Die Welt ist alles, was der Fall ist')).toBe('de')
+    expect(detectLanguage('Rhizome')).toBe('en')
+  })
+
+  it('stems English, French and German words', () => {
+    expect(stem('philosophies', 'en')).toBe(stem('philosophy', 'en'))
+    expect(stem('running', 'en')).toBe('run')
+    expect(stem('societes', 'fr')).toBe(stem('societe', 'fr'))
+    expect(stem('journaux', 'fr')).toBe('journal')
+    expect(stem('buchern', 'de')).toBe(stem('bucher', 'de'))
+    expect(stem('1968', 'de')).toBe('1968')
+  })
+
+  it('tries a query word in every language', () => {
+    expect(stemVariants('societes')).toContain(stem('societe', 'fr'))
+  })
+
+  it('bounds the edit distance', () => {
+    expect(editDistance('philosophy', 'philosphy', 2)).toBe(1)
+    expect(editDistance('desire', 'desier', 1)).toBe(1) // Transposition
+    expect(editDistance('kitten', 'sitting', 1)).toBe(2)
+  })
+
+  it('matches words by accent, stem, prefix and typo', () => {
+    expect(matchesText('Société', 'societe')).toBe(true)
+    expect(matchesText('philosophy', 'philosophies')).toBe(true)
+    expect(matchesText('philosophy', 'philo')).toBe(true)
+    expect(matchesText('philosophy', 'philosphy')).toBe(true)
+    expect(matchesText('philosophy', 'physics')).toBe(false)
+    expect(matchesText('1968', '1969')).toBe(false)
+  })
+})
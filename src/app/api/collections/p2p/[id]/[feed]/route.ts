@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import {
+  SYNDICATION_FILES,
+  SYNDICATION_LIMIT,
+  documentItem,
+  renderFeed,
+  siteUrl,
+  withIPFSContent
+} from '@/lib/syndication'
+
+// GET /api/collections/p2p/[id]/feed.xml (Atom), rss.xml (RSS 2.0) or feed.json (JSON Feed)
+// The collection's newest documents for feed readers, no account needed
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string, feed: string }> }
+) {
+  const params = await context.params
+  const collectionId = decodeURIComponent(params.id)
+  const format = SYNDICATION_FILES[params.feed]
+
+  if (!format) {
+    return NextResponse.json(
+      { error: `Unknown feed, use one of: ${Object.keys(SYNDICATION_FILES).join(', ')}` },
+      { status: 404 }
+    )
+  }
+
+  try {
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const metadata = await orbitdbClient.getCollection(collectionId)
+    if (!metadata) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      )
+    }
+
+    // Newest first already
+    const documents = await orbitdbClient.getCollectionDocuments(collectionId)
+    const recent = await Promise.all(documents.slice(0, SYNDICATION_LIMIT).map(withIPFSContent))
+
+    const baseUrl = siteUrl(request)
+    const homeUrl = `${baseUrl}/collections/p2p/${encodeURIComponent(collectionId)}`
+    const place = { collectionId, collectionName: metadata.name || collectionId }
+    const { body, contentType } = renderFeed({
+      id: homeUrl,
+      title: metadata.name || collectionId,
+      description: metadata.description || '',
+      homeUrl,
+      feedUrl: `${homeUrl.replace('/collections/', '/api/collections/')}/${params.feed}`,
+      items: recent.map(document => documentItem(document, place, baseUrl))
+    }, format)
+
+    return new NextResponse(body, { headers: { 'Content-Type': contentType } })
+
+  } catch (error) {
+    console.error('Collection feed error:', error)
+    return NextResponse.json(
+      { error: 'Failed to build collection feed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
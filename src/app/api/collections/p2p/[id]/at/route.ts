@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { getCatalogAt, getDocumentAt, parseTimestamp } from '@/lib/document-history'
+
+// GET /api/collections/p2p/[id]/at?timestamp=...&documentId=...
+// Read a P2P collection (or one of its documents) as it was at a past moment
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const params = await context.params
+  const collectionId = decodeURIComponent(params.id)
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const timestamp = parseTimestamp(searchParams.get('timestamp'))
+    const documentId = searchParams.get('documentId')
+
+    if (timestamp === null) {
+      return NextResponse.json(
+        { error: 'A valid timestamp (milliseconds or ISO 8601 date) is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const metadata = await orbitdbClient.getCollection(collectionId)
+    if (!metadata) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      )
+    }
+
+    const documents = await orbitdbClient.getCollectionDocuments(collectionId)
+
+    if (documentId) {
+      const current = documents.find(doc => doc.id === documentId)
+      const document = current ? getDocumentAt(current, timestamp) : null
+
+      if (!document) {
+        return NextResponse.json(
+          { error: 'Document did not exist at this time' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({ document, timestamp })
+    }
+
+    // The collection itself didn't exist yet
+    if (metadata.created && metadata.created > timestamp) {
+      return NextResponse.json({ documents: [], timestamp, collectionStoreName: collectionId })
+    }
+
+    return NextResponse.json({
+      documents: getCatalogAt(documents, timestamp),
+      timestamp,
+      collectionStoreName: collectionId
+    })
+
+  } catch (error) {
+    console.error('P2P collection time-travel error:', error)
+    return NextResponse.json(
+      { error: 'Failed to read collection history', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { archiveContentCIDs, buildCollectionArchive } from '@/lib/collection-archive'
+
+// GET /api/collections/p2p/[id]/car
+// Download a collection, its documents and their IPFS content as a CARv1 archive
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const params = await context.params
+  const collectionId = decodeURIComponent(params.id)
+
+  try {
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const metadata = await orbitdbClient.getCollection(collectionId)
+    if (!metadata) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      )
+    }
+
+    const documents = await orbitdbClient.getCollectionDocuments(collectionId)
+    const archive = buildCollectionArchive(metadata, documents)
+    const car = await orbitdbClient.exportCAR(archive, archiveContentCIDs(archive.documents))
+
+    const filename = (metadata.name || 'collection').replace(/[^\w-]+/g, '-')
+    return new NextResponse(car, {
+      headers: {
+        'Content-Type': 'application/vnd.ipld.car',
+        'Content-Disposition': `attachment; filename="${filename}.car"`
+      }
+    })
+
+  } catch (error) {
+    console.error('Collection CAR export error:', error)
+    return NextResponse.json(
+      { error: 'Failed to export collection', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
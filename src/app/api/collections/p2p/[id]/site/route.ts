@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { getDatabase } from '@/lib/database'
+import { withIPFSContent } from '@/lib/syndication'
+import { renderStaticSite, SiteAsset } from '@/lib/static-site'
+import { createZip } from '@/lib/zip'
+
+// GET /api/collections/p2p/[id]/site
+// Download the collection as a static HTML site (ZIP), with its images copied out of IPFS
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const params = await context.params
+  const collectionId = decodeURIComponent(params.id)
+
+  try {
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const metadata = await orbitdbClient.getCollection(collectionId)
+    if (!metadata) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      )
+    }
+
+    const documents = await Promise.all(
+      (await orbitdbClient.getCollectionDocuments(collectionId)).map(withIPFSContent)
+    )
+
+    // Images that can't be read are left out, their pages say so
+    const assets: Record<string, SiteAsset> = {}
+    for (const document of documents) {
+      const cid = document.ipfsCID || document.ipfsHash
+      if (document.documentType !== 'image' || !cid || assets[cid]) continue
+
+      const contentType = document.mimeType || document.contentType || 'application/octet-stream'
+      try {
+        const { base64 } = await orbitdbClient.retrieveBase64FromIPFS(cid, contentType)
+        assets[cid] = { contentType, data: Buffer.from(base64, 'base64') }
+      } catch (error) {
+        console.error(`Failed to copy image ${cid} of ${document.id}:`, error)
+      }
+    }
+
+    const owner = getDatabase()
+      .prepare('SELECT username FROM users WHERE id = ?')
+      .get(metadata.owner) as { username: string } | undefined
+
+    const files = renderStaticSite({
+      id: collectionId,
+      name: metadata.name || collectionId,
+      description: metadata.description,
+      owner: owner?.username
+    }, documents, assets)
+
+    const filename = (metadata.name || 'collection').replace(/[^\w-]+/g, '-')
+    return new NextResponse(Buffer.from(createZip(files)), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}-site.zip"`
+      }
+    })
+
+  } catch (error) {
+    console.error('Static site export error:', error)
+    return NextResponse.json(
+      { error: 'Failed to export static site', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { userCollectionRegistry } from '@/lib/user-collection-registry'
+import { feedSearchIndex } from '@/lib/feed-search-index'
+import { importedDocuments, missingArchiveContent, readCollectionArchive } from '@/lib/collection-archive'
+import { sanitizeMetadata, sanitizeUserInput } from '@/lib/sanitize'
+
+// Same limit as the orbitdb-service accepts
+const MAX_ARCHIVE_SIZE = 200 * 1024 * 1024
+
+/**
+ * Import Collection - Recreate a collection from a CAR archive
+ *
+ * Form fields:
+ * - file: A CAR file from /api/collections/p2p/[id]/car
+ * - peerId: The importing user, who owns the new collection
+ *
+ * The IPFS blocks are checked against their CIDs by the orbitdb-service, and
+ * archives whose documents reference content the CAR doesn't hold are refused.
+ * Documents keep their authors, version history and fork links. This restores
+ * an existing collection, so the one-new-collection-per-user limit doesn't apply.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+    const peerId = formData.get('peerId') as string
+
+    if (!file || !peerId) {
+      return NextResponse.json(
+        { error: 'File and peer ID are required' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_ARCHIVE_SIZE) {
+      return NextResponse.json(
+        { error: 'Archive is larger than 200 MB' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    // The service is up, so a failure here is the archive's
+    let imported
+    try {
+      imported = await orbitdbClient.importCAR(await file.arrayBuffer())
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid CAR archive', details: error instanceof Error ? error.message : 'Unknown error' },
+        { status: 400 }
+      )
+    }
+
+    const archive = readCollectionArchive(imported.manifest)
+    if (!archive) {
+      return NextResponse.json(
+        { error: 'The CAR archive does not contain a collection' },
+        { status: 400 }
+      )
+    }
+
+    const missing = missingArchiveContent(archive.documents, imported.cids)
+    if (Object.keys(missing).length > 0) {
+      return NextResponse.json(
+        { error: 'The CAR archive is missing IPFS content its documents reference', missing },
+        { status: 400 }
+      )
+    }
+
+    const collection = await orbitdbClient.createCollection(
+      peerId,
+      sanitizeUserInput(archive.collection.name),
+      archive.collection.description && sanitizeUserInput(archive.collection.description)
+    )
+
+    // Where it came from, before documents are added (they update the metadata)
+    await orbitdbClient.putKV(collection.storeName, 'metadata', {
+      ...collection,
+      importedFrom: {
+        collectionId: archive.collection.id,
+        owner: archive.collection.owner,
+        created: archive.collection.created,
+        exportedAt: archive.exportedAt,
+        root: imported.root
+      }
+    })
+    await userCollectionRegistry.addUserCollection(peerId, collection.storeName)
+
+    const documents = importedDocuments(archive, collection.storeName)
+    for (const doc of documents) {
+      const document = {
+        ...doc,
+        title: sanitizeUserInput(doc.title || ''),
+        created: Number(doc.created) || Date.now(),
+        metadata: sanitizeMetadata(doc.metadata || {})
+      }
+      await orbitdbClient.addDocumentToCollection(collection.storeName, document)
+      await feedSearchIndex.indexDocument(collection.storeName, document)
+    }
+
+    console.log(`✓ Imported collection ${archive.collection.id} as ${collection.storeName} (${documents.length} documents)`)
+
+    return NextResponse.json({
+      message: 'Collection imported successfully',
+      collection: {
+        id: collection.id,
+        name: collection.name,
+        description: collection.description,
+        storeName: collection.storeName,
+        peerId,
+        created: collection.created,
+        importedFrom: archive.collection.id
+      },
+      documents: documents.length,
+      blocks: imported.blocks
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Collection import error:', error)
+    return NextResponse.json(
+      { error: 'Failed to import collection', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { CITATION_FILES, CITATION_FORMATS, CitationFormat, exportCitations } from '@/lib/citation-export'
+
+/**
+ * Citation Export - References for a collection's documents
+ *
+ * Query parameters:
+ * - collectionId: The collection's store name
+ * - documentId: A document to cite, repeated for a selection (default: the whole collection)
+ * - format: bibtex, ris, csl-json or iso690 (default: bibtex)
+ * - download: "true" to get the references as a file attachment
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const collectionId = searchParams.get('collectionId')
+    const documentIds = searchParams.getAll('documentId').filter(Boolean)
+    const format = (searchParams.get('format') || 'bibtex') as CitationFormat
+    const download = searchParams.get('download') === 'true'
+
+    if (!collectionId) {
+      return NextResponse.json(
+        { error: 'Collection ID is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!CITATION_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${CITATION_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const metadata = await orbitdbClient.getCollection(collectionId)
+    if (!metadata) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      )
+    }
+
+    let documents = await orbitdbClient.getCollectionDocuments(collectionId)
+
+    // A selection keeps the order it was asked for in
+    if (documentIds.length > 0) {
+      const missing = documentIds.filter(id => !documents.some(doc => doc.id === id))
+      if (missing.length > 0) {
+        return NextResponse.json(
+          { error: `Documents not found in collection: ${missing.join(', ')}` },
+          { status: 404 }
+        )
+      }
+      documents = documentIds.map(id => documents.find(doc => doc.id === id))
+    }
+
+    const { extension, contentType } = CITATION_FILES[format]
+    const headers: Record<string, string> = { 'Content-Type': `${contentType}; charset=utf-8` }
+    if (download) {
+      const name = documentIds.length === 1 ? documentIds[0] : (metadata.name || 'collection').replace(/[^\w-]+/g, '-')
+      headers['Content-Disposition'] = `attachment; filename="${name}.${extension}"`
+    }
+
+    return new NextResponse(exportCitations(documents, format), { headers })
+
+  } catch (error) {
+    console.error('Citation export error:', error)
+    return NextResponse.json(
+      { error: 'Failed to export citations', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { orbitdbClient } from '@/lib/orbitdb-client'
+import { feedSearchIndex } from '@/lib/feed-search-index'
+import { findDuplicates } from '@/lib/duplicates'
 import { randomBytes } from 'crypto'
 
 // Add Document to User's Collection
@@ -66,6 +68,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Not blocked, but the user is told about near-duplicates already in their collection
+    await feedSearchIndex.ready()
+    const possibleDuplicates = findDuplicates(
+      originalDocument,
+      feedSearchIndex.allItems().filter(item => item.collectionId === userCollectionStoreName)
+    )
+
     // Generate a new ID for the copy (or keep original ID if we want to track it)
     // For collections, we'll keep the same ID to track it across collections
     const documentCopy = {
@@ -81,12 +90,14 @@ export async function POST(request: NextRequest) {
 
     // Add the document to the user's collection
     await orbitdbClient.addDocumentToCollection(userCollectionStoreName, documentCopy)
+    await feedSearchIndex.indexDocument(userCollectionStoreName, documentCopy)
 
     return NextResponse.json({
       message: 'Document added to collection successfully',
       document: documentCopy,
       collectionId: userCollectionStoreName,
-      collectionName: userCollection.name
+      collectionName: userCollection.name,
+      possibleDuplicates
     }, { status: 200 })
 
   } catch (error) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { orbitdbClient } from '@/lib/orbitdb-client'
+import { feedSearchIndex } from '@/lib/feed-search-index'
 
 // Remove Document from User's Collection
 export async function POST(request: NextRequest) {
@@ -67,6 +68,8 @@ export async function POST(request: NextRequest) {
       throw new Error('Failed to delete document from OrbitDB')
     }
 
+    feedSearchIndex.removeDocument(userCollectionStoreName, documentId)
+
     return NextResponse.json({
       message: 'Document removed from collection successfully',
       documentId
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { userCollectionRegistry } from '@/lib/user-collection-registry'
+import { getDocumentVersions, VersionedDocument } from '@/lib/document-history'
+import { diffMetadata } from '@/lib/document-diff'
+
+// Diff Document Versions - Field-by-field changes between two versions
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const documentId = searchParams.get('documentId')
+    const collectionId = searchParams.get('collectionId')
+    const from = Number(searchParams.get('from'))
+    const to = Number(searchParams.get('to'))
+
+    if (!documentId || !Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+      return NextResponse.json(
+        { error: 'Document ID and from/to version numbers are required' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    // Look in the given collection first, forks can carry a stale collectionId
+    const storeNames = await userCollectionRegistry.getAllCollections()
+    const candidates = collectionId
+      ? [collectionId, ...storeNames.filter(name => name !== collectionId)]
+      : storeNames
+
+    let document: VersionedDocument | undefined
+    for (const storeName of candidates) {
+      try {
+        const documents = await orbitdbClient.getCollectionDocuments(storeName)
+        document = documents.find(doc => doc.id === documentId)
+        if (document) break
+      } catch (error) {
+        console.error(`Failed to read collection ${storeName}:`, error)
+      }
+    }
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      )
+    }
+
+    const versions = getDocumentVersions(document)
+    const fromVersion = versions.find(v => v.version === from)
+    const toVersion = versions.find(v => v.version === to)
+
+    if (!fromVersion || !toVersion) {
+      return NextResponse.json(
+        { error: 'Version not found', availableVersions: versions.map(v => v.version) },
+        { status: 404 }
+      )
+    }
+
+    const describe = ({ version, title, editedBy, editedAt, changeComment }: typeof fromVersion) =>
+      ({ version, title, editedBy, editedAt, changeComment })
+
+    return NextResponse.json({
+      documentId,
+      documentType: document.documentType,
+      from: describe(fromVersion),
+      to: describe(toVersion),
+      changes: diffMetadata(fromVersion.metadata, toVersion.metadata, document.documentType)
+    })
+
+  } catch (error) {
+    console.error('P2P document diff error:', error)
+    return NextResponse.json(
+      { error: 'Failed to diff document versions', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { feedSearchIndex } from '@/lib/feed-search-index'
+import { clusterDuplicates } from '@/lib/duplicates'
+
+/**
+ * Duplicate Clusters API
+ *
+ * Groups of documents across all collections that are probably the same
+ * source added more than once, largest first.
+ * - type: Only clusters of this document type (quote, link, image)
+ * - limit, offset: Pagination over the clusters
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const typeFilter = searchParams.get('type')
+    const limit = parseInt(searchParams.get('limit') || '20')
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    await feedSearchIndex.ready()
+
+    const items = feedSearchIndex.allItems()
+      .filter(item => !typeFilter || item.document.documentType === typeFilter)
+    const clusters = clusterDuplicates(items)
+
+    return NextResponse.json({
+      clusters: clusters.slice(offset, offset + limit),
+      total: clusters.length,
+      limit,
+      offset,
+      hasMore: offset + limit < clusters.length
+    })
+
+  } catch (error) {
+    console.error('Duplicate clusters error:', error)
+    return NextResponse.json(
+      { error: 'Failed to list duplicate clusters', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { feedSearchIndex } from '@/lib/feed-search-index'
+import { findDuplicates, isPerceptualHash } from '@/lib/duplicates'
+
+const DOCUMENT_TYPES = ['quote', 'link', 'image']
+
+/**
+ * Possible Duplicates API
+ *
+ * GET ?documentId=... - Documents in any collection that are probably
+ *   duplicates of a stored document (not its copies or forks)
+ * POST { documentType, metadata, perceptualHash? } - The same for a document
+ *   about to be created, so the user can be warned before uploading
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const documentId = request.nextUrl.searchParams.get('documentId')
+    if (!documentId) {
+      return NextResponse.json(
+        { error: 'Document ID is required' },
+        { status: 400 }
+      )
+    }
+
+    await feedSearchIndex.ready()
+    const items = feedSearchIndex.allItems()
+
+    const item = items.find(item => item.document.id === documentId)
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ duplicates: findDuplicates(item.document, items) })
+
+  } catch (error) {
+    console.error('Find duplicates error:', error)
+    return NextResponse.json(
+      { error: 'Failed to find duplicates', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { documentType, metadata, perceptualHash } = body
+
+    if (!DOCUMENT_TYPES.includes(documentType)) {
+      return NextResponse.json(
+        { error: 'Document type must be quote, link or image' },
+        { status: 400 }
+      )
+    }
+
+    const document = {
+      documentType,
+      metadata: metadata && typeof metadata === 'object' ? metadata : {},
+      ...(isPerceptualHash(perceptualHash) && { perceptualHash })
+    }
+
+    await feedSearchIndex.ready()
+
+    return NextResponse.json({ duplicates: findDuplicates(document, feedSearchIndex.allItems()) })
+
+  } catch (error) {
+    console.error('Find duplicates error:', error)
+    return NextResponse.json(
+      { error: 'Failed to find duplicates', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { orbitdbClient } from '@/lib/orbitdb-client'
+import { feedSearchIndex } from '@/lib/feed-search-index'
 import { sanitizeMetadata, sanitizeUserInput } from '@/lib/sanitize'
+import { displayTitleFor, getDocumentVersions } from '@/lib/document-history'
 
 // Edit P2P Document - Update metadata with version history
+// Pass revertToVersion instead of updatedMetadata to restore a prior version
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
@@ -12,10 +15,20 @@ export async function POST(request: NextRequest) {
       peerId,
       updatedMetadata,
       changeComment,
-      documentType
+      documentType,
+      revertToVersion
     } = body
 
-    if (!documentId || !collectionId || !peerId || !updatedMetadata || !changeComment) {
+    const isRevert = revertToVersion !== undefined && revertToVersion !== null
+
+    if (!documentId || !collectionId || !peerId) {
+      return NextResponse.json(
+        { error: 'Document ID, collection ID, and peer ID are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!isRevert && (!updatedMetadata || !changeComment)) {
       return NextResponse.json(
         { error: 'Document ID, collection ID, peer ID, updated metadata, and change comment are required' },
         { status: 400 }
@@ -23,8 +36,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Sanitize inputs to prevent XSS
-    const sanitizedMetadata = sanitizeMetadata(updatedMetadata)
-    const sanitizedComment = sanitizeUserInput(changeComment)
+    let sanitizedMetadata: Record<string, unknown> = isRevert ? {} : sanitizeMetadata(updatedMetadata)
+    let sanitizedComment = changeComment ? sanitizeUserInput(changeComment) : ''
 
     // Check OrbitDB health
     const health = await orbitdbClient.health()
@@ -63,6 +76,24 @@ export async function POST(request: NextRequest) {
     const currentVersion = currentDocument.version || 1
     const newVersion = currentVersion + 1
 
+    // A revert is a new version whose content equals the target version
+    let revertTitle: string | undefined
+    if (isRevert) {
+      const targetVersion = Number(revertToVersion)
+      const target = getDocumentVersions(currentDocument).find(v => v.version === targetVersion)
+
+      if (!target || targetVersion === currentVersion) {
+        return NextResponse.json(
+          { error: `Version ${revertToVersion} cannot be restored` },
+          { status: 400 }
+        )
+      }
+
+      sanitizedMetadata = { ...target.metadata }
+      revertTitle = target.title
+      sanitizedComment = `Reverted to version ${targetVersion}${sanitizedComment ? `: ${sanitizedComment}` : ''}`
+    }
+
     // Initialize versionHistory if it doesn't exist
     if (!currentDocument.versionHistory) {
       currentDocument.versionHistory = []
@@ -74,7 +105,9 @@ export async function POST(request: NextRequest) {
       editedBy: peerId,
       editedAt: Date.now(), // When this NEW version was created
       changeComment: sanitizedComment, // Describes what this NEW version is (sanitized)
-      previousMetadata: { ...currentDocument.metadata } // What it was before this edit
+      previousMetadata: { ...currentDocument.metadata }, // What it was before this edit
+      previousTitle: currentDocument.title, // Title before this edit, for past views of the collection
+      ...(isRevert && { revertedToVersion: Number(revertToVersion) })
     }
 
     // Add version history entry
@@ -82,17 +115,20 @@ export async function POST(request: NextRequest) {
 
     // Determine which field to use for the top-level title based on document type
     let displayTitle = currentDocument.title
-    if (documentType === 'link') {
+    if (revertTitle !== undefined) {
+      // Restore the title the target version had
+      displayTitle = revertTitle
+    } else if (documentType === 'link') {
       // For links, use siteName as the display title
-      displayTitle = sanitizedMetadata.siteName || sanitizedMetadata.title || currentDocument.title
+      displayTitle = displayTitleFor(documentType, sanitizedMetadata, currentDocument.title)
       console.log('EDIT LINK - displayTitle:', displayTitle, 'siteName:', sanitizedMetadata.siteName)
     } else if (documentType === 'quote') {
       // For quotes, use the source title
-      displayTitle = sanitizedMetadata.title || currentDocument.title
+      displayTitle = displayTitleFor(documentType, sanitizedMetadata, currentDocument.title)
       console.log('EDIT QUOTE - displayTitle:', displayTitle, 'title:', sanitizedMetadata.title)
     } else if (documentType === 'image') {
       // For images, use the image title
-      displayTitle = sanitizedMetadata.title || currentDocument.title
+      displayTitle = displayTitleFor(documentType, sanitizedMetadata, currentDocument.title)
       console.log('EDIT IMAGE - displayTitle:', displayTitle, 'title:', sanitizedMetadata.title)
     }
 
@@ -105,7 +141,7 @@ export async function POST(request: NextRequest) {
       // Sync top-level title field with the appropriate metadata field for display in feed
       title: displayTitle,
       // If new IPFS CID is provided (for images), update it at document level
-      ...(sanitizedMetadata.ipfsCID && {
+      ...(typeof sanitizedMetadata.ipfsCID === 'string' && sanitizedMetadata.ipfsCID && {
         ipfsCID: sanitizedMetadata.ipfsCID,
         contentType: sanitizedMetadata.contentType,
         contentSize: sanitizedMetadata.contentSize
@@ -123,6 +159,7 @@ export async function POST(request: NextRequest) {
     // This is not ideal but works for the current OrbitDB client implementation
 
     await orbitdbClient.updateDocumentInCollection(collectionStoreName, documentId, updatedDocument)
+    await feedSearchIndex.indexDocument(collectionStoreName, updatedDocument)
 
     console.log('EDIT SUCCESS - Updated document title:', updatedDocument.title, 'version:', updatedDocument.version)
 
@@ -135,7 +172,7 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('P2P document edit error:', error)
     return NextResponse.json(
-      { error: 'Failed to update P2P document', details: error.message },
+      { error: 'Failed to update P2P document', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
     )
   }
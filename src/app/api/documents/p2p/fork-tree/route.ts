@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { orbitdbClient } from '@/lib/orbitdb-client'
+import { userCollectionRegistry } from '@/lib/user-collection-registry'
+import { resolveForkTree } from '@/lib/fork-lineage'
 
-// Get Fork Tree - Retrieve all documents in a fork lineage
+// Get Fork Tree - Retrieve all documents in a fork lineage, across collections
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
@@ -21,64 +23,24 @@ export async function GET(request: NextRequest) {
       throw new Error('OrbitDB service is not available')
     }
 
-    // Get all documents from the collection
-    const collectionStoreName = collectionId
-    const documents = await orbitdbClient.getCollectionDocuments(collectionStoreName)
-
-    // Find the requested document
-    const targetDocument = documents.find(doc => doc.id === documentId)
+    // Forks live in the forkers' collections, so parents and children are
+    // looked up through the registry when they're not in this collection
+    const tree = await resolveForkTree(documentId, collectionId, {
+      getCollectionDocuments: storeName => orbitdbClient.getCollectionDocuments(storeName),
+      getAllCollections: () => userCollectionRegistry.getAllCollections()
+    })
 
-    if (!targetDocument) {
+    if (!tree) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
       )
     }
 
-    // Build a map of all documents by ID
-    const documentMap: Record<string, any> = {}
-    documents.forEach(doc => {
-      documentMap[doc.id] = doc
-    })
-
-    // Find the root of the tree (walk up parent chain)
-    let rootId = documentId
-    let currentId = documentId
-    const visited = new Set<string>()
-
-    while (currentId && !visited.has(currentId)) {
-      visited.add(currentId)
-      const doc = documentMap[currentId]
-      if (doc?.parentDocumentId && documentMap[doc.parentDocumentId]) {
-        rootId = doc.parentDocumentId
-        currentId = doc.parentDocumentId
-      } else {
-        break
-      }
-    }
-
-    // Collect all documents in the tree (root + all descendants)
-    const treeDocuments: Record<string, any> = {}
-    const collectDescendants = (docId: string) => {
-      if (!documentMap[docId] || treeDocuments[docId]) return
-
-      treeDocuments[docId] = documentMap[docId]
-
-      const doc = documentMap[docId]
-      if (doc?.childDocumentIds) {
-        doc.childDocumentIds.forEach((childId: string) => {
-          if (documentMap[childId]) {
-            collectDescendants(childId)
-          }
-        })
-      }
-    }
-
-    collectDescendants(rootId)
-
     return NextResponse.json({
-      documents: treeDocuments,
-      rootId,
+      documents: tree.documents,
+      documentCollections: tree.documentCollections,
+      rootId: tree.rootId,
       requestedDocumentId: documentId
     }, { status: 200 })
 
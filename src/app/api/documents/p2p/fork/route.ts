@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { orbitdbClient } from '@/lib/orbitdb-client'
 import { userCollectionRegistry } from '@/lib/user-collection-registry'
+import { feedSearchIndex } from '@/lib/feed-search-index'
 import { sanitizeMetadata, sanitizeUserInput } from '@/lib/sanitize'
 import { randomBytes } from 'crypto'
 
@@ -81,6 +82,8 @@ export async function POST(request: NextRequest) {
       lastAccessed: Date.now(),
       uploadedBy: peerId,
       parentDocumentId: originalDocumentId, // Link to parent
+      parentCollectionId: originalCollectionStoreName, // Parent usually lives in another user's collection
+      parentVersion: originalDocument.version || 1, // Base for merge requests back to the parent
       childDocumentIds: [], // Initialize empty children array
       // If new IPFS CID is provided (for images), update it at document level
       ...(sanitizedMetadata.ipfsCID && {
@@ -119,6 +122,7 @@ export async function POST(request: NextRequest) {
 
     // Add the forked document to the user's collection
     await orbitdbClient.addDocumentToCollection(userCollectionStoreName, forkedDocument)
+    await feedSearchIndex.indexDocument(userCollectionStoreName, forkedDocument)
 
     // Update the original document to add this fork as a child
     const updatedOriginalDocument = {
@@ -129,6 +133,7 @@ export async function POST(request: NextRequest) {
       ]
     }
     await orbitdbClient.updateDocumentInCollection(originalCollectionStoreName, originalDocumentId, updatedOriginalDocument)
+    await feedSearchIndex.indexDocument(originalCollectionStoreName, updatedOriginalDocument)
 
     return NextResponse.json({
       message: 'Document forked successfully',
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { BIBLIOGRAPHY_FORMATS, BibliographyFormat, detectBibliographyFormat, parseBibliography } from '@/lib/bibliography'
+import { findUserCollection, storeNewDocument } from '@/lib/p2p-documents'
+import { sanitizeMetadata } from '@/lib/sanitize'
+
+// Larger files are more than a bibliography
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+
+/**
+ * Import Bibliography - Quote documents from a BibTeX, RIS or CSL-JSON file
+ *
+ * Form fields:
+ * - file: The bibliography
+ * - format: bibtex, ris or csl-json, guessed from the file when left out
+ * - collectionId, peerId: The user's collection the quotes are created in
+ * - dryRun: "true" to only get the entries back with their errors
+ *
+ * Entries with errors are skipped, the others are created one by one like uploads.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+    const formatParam = formData.get('format') as string | null
+    const collectionId = formData.get('collectionId') as string
+    const peerId = formData.get('peerId') as string
+    const dryRun = formData.get('dryRun') === 'true'
+
+    if (!file || !collectionId || !peerId) {
+      return NextResponse.json(
+        { error: 'File, collection ID, and peer ID are required' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: 'Bibliography file is larger than 5 MB' },
+        { status: 400 }
+      )
+    }
+
+    if (formatParam && !BIBLIOGRAPHY_FORMATS.includes(formatParam as BibliographyFormat)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${BIBLIOGRAPHY_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const text = await file.text()
+    const format = (formatParam as BibliographyFormat | null) || detectBibliographyFormat(text, file.name)
+    if (!format) {
+      return NextResponse.json(
+        { error: 'Could not tell the file format, choose BibTeX, RIS or CSL-JSON' },
+        { status: 400 }
+      )
+    }
+
+    const entries = parseBibliography(text, format)
+    if (!entries) {
+      return NextResponse.json(
+        { error: `No ${format} entries found in the file` },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    // A dry run writes nothing, the main collection is only created on import
+    const collectionAddress = await findUserCollection(peerId, collectionId, { create: !dryRun })
+    if (!collectionAddress && !(dryRun && collectionId === 'main')) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      )
+    }
+
+    const preview = entries.map(entry => ({
+      ...entry,
+      metadata: sanitizeMetadata(entry.metadata)
+    }))
+
+    if (dryRun || !collectionAddress) {
+      return NextResponse.json({
+        dryRun: true,
+        format,
+        entries: preview,
+        valid: preview.filter(entry => entry.errors.length === 0).length,
+        invalid: preview.filter(entry => entry.errors.length > 0).length
+      }, { status: 200 })
+    }
+
+    // Same as uploading each quote, one failing doesn't stop the others
+    const results: (typeof preview[number] & { documentId?: string })[] = []
+    for (const entry of preview) {
+      if (entry.errors.length > 0) {
+        results.push(entry)
+        continue
+      }
+
+      try {
+        const quoteContent = entry.metadata.quoteContent
+        const ipfsCID = await orbitdbClient.uploadTextToIPFS(quoteContent, 'text/plain')
+        const document = await storeNewDocument(collectionAddress, {
+          collectionId,
+          peerId,
+          documentType: 'quote',
+          title: entry.metadata.title,
+          description: '',
+          metadata: entry.metadata,
+          ipfsCID,
+          contentType: 'text/plain',
+          contentSize: new TextEncoder().encode(quoteContent).length
+        })
+        results.push({ ...entry, documentId: document.id })
+      } catch (error) {
+        console.error(`Failed to import entry ${entry.index} (${entry.key}):`, error)
+        results.push({ ...entry, errors: [`Could not be stored: ${error instanceof Error ? error.message : 'Unknown error'}`] })
+      }
+    }
+
+    const imported = results.filter(entry => entry.documentId).length
+
+    return NextResponse.json({
+      message: `Imported ${imported} of ${results.length} entries`,
+      format,
+      entries: results,
+      imported,
+      failed: results.length - imported
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Bibliography import error:', error)
+    return NextResponse.json(
+      { error: 'Failed to import bibliography', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
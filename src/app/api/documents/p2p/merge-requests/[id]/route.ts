@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { feedSearchIndex } from '@/lib/feed-search-index'
+import { applyMergeRequest, mergeRequestStore } from '@/lib/merge-requests'
+import { sanitizeUserInput } from '@/lib/sanitize'
+
+// GET /api/documents/p2p/merge-requests/[id] - Get a single merge request
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const params = await context.params
+
+  try {
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const mergeRequest = await mergeRequestStore.get(params.id)
+    if (!mergeRequest) {
+      return NextResponse.json(
+        { error: 'Merge request not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ mergeRequest }, { status: 200 })
+
+  } catch (error) {
+    console.error('Merge request fetch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch merge request', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/documents/p2p/merge-requests/[id] - Accept (in whole or by field) or reject
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const params = await context.params
+
+  try {
+    const body = await request.json()
+    const { peerId, action, fields, comment } = body
+
+    if (!peerId || (action !== 'accept' && action !== 'reject')) {
+      return NextResponse.json(
+        { error: 'Peer ID and an action (accept or reject) are required' },
+        { status: 400 }
+      )
+    }
+
+    if (action === 'reject' && !comment) {
+      return NextResponse.json(
+        { error: 'A comment is required to reject a merge request' },
+        { status: 400 }
+      )
+    }
+
+    const sanitizedComment = comment ? sanitizeUserInput(comment) : ''
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const mergeRequest = await mergeRequestStore.get(params.id)
+    if (!mergeRequest) {
+      return NextResponse.json(
+        { error: 'Merge request not found' },
+        { status: 404 }
+      )
+    }
+
+    if (mergeRequest.status !== 'open') {
+      return NextResponse.json(
+        { error: `Merge request is already ${mergeRequest.status}` },
+        { status: 409 }
+      )
+    }
+
+    const documents = await orbitdbClient.getCollectionDocuments(mergeRequest.collectionId)
+    const upstream = documents.find(doc => doc.id === mergeRequest.documentId)
+
+    if (!upstream) {
+      return NextResponse.json(
+        { error: 'Upstream document not found' },
+        { status: 404 }
+      )
+    }
+
+    // AUTHORIZATION CHECK: Only the upstream owner can resolve merge requests
+    if (upstream.uploadedBy !== peerId) {
+      return NextResponse.json(
+        { error: 'Unauthorized: Only the owner of the upstream document can resolve merge requests' },
+        { status: 403 }
+      )
+    }
+
+    if (action === 'reject') {
+      const rejected = {
+        ...mergeRequest,
+        status: 'rejected' as const,
+        resolvedBy: peerId,
+        resolvedAt: Date.now(),
+        resolutionComment: sanitizedComment
+      }
+      await mergeRequestStore.put(rejected)
+
+      return NextResponse.json({
+        message: 'Merge request rejected',
+        mergeRequest: rejected
+      }, { status: 200 })
+    }
+
+    // Accept every proposed field unless a subset is given
+    const proposedFields = mergeRequest.changes.map(change => change.field)
+    const acceptedFields: string[] = Array.isArray(fields) ? fields : proposedFields
+
+    if (acceptedFields.length === 0 || acceptedFields.some(field => !proposedFields.includes(field))) {
+      return NextResponse.json(
+        { error: 'Accepted fields must be among the proposed ones', proposedFields },
+        { status: 400 }
+      )
+    }
+
+    const updatedDocument = applyMergeRequest(upstream, mergeRequest, acceptedFields, peerId, sanitizedComment)
+    await orbitdbClient.updateDocumentInCollection(mergeRequest.collectionId, upstream.id, updatedDocument)
+    await feedSearchIndex.indexDocument(mergeRequest.collectionId, updatedDocument)
+
+    const accepted = {
+      ...mergeRequest,
+      status: 'accepted' as const,
+      resolvedBy: peerId,
+      resolvedAt: Date.now(),
+      resolutionComment: sanitizedComment,
+      acceptedFields,
+      mergedVersion: updatedDocument.version
+    }
+    await mergeRequestStore.put(accepted)
+
+    return NextResponse.json({
+      message: 'Merge request accepted',
+      mergeRequest: accepted,
+      document: updatedDocument
+    }, { status: 200 })
+
+  } catch (error) {
+    console.error('Merge request resolve error:', error)
+    return NextResponse.json(
+      { error: 'Failed to resolve merge request', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
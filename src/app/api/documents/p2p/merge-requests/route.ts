@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { userCollectionRegistry } from '@/lib/user-collection-registry'
+import { createMergeRequest, mergeRequestStore, MergeableDocument } from '@/lib/merge-requests'
+import { sanitizeUserInput } from '@/lib/sanitize'
+import { randomBytes } from 'crypto'
+
+// List Merge Requests - Filter by upstream collection, upstream document or fork
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const collectionId = searchParams.get('collectionId') || undefined
+    const documentId = searchParams.get('documentId') || undefined
+    const forkDocumentId = searchParams.get('forkDocumentId') || undefined
+    const status = searchParams.get('status') || undefined
+
+    if (!collectionId && !documentId && !forkDocumentId) {
+      return NextResponse.json(
+        { error: 'Collection ID, document ID, or fork document ID is required' },
+        { status: 400 }
+      )
+    }
+
+    if (status && !['open', 'accepted', 'rejected'].includes(status)) {
+      return NextResponse.json(
+        { error: 'Status must be open, accepted, or rejected' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const mergeRequests = await mergeRequestStore.list({
+      collectionId,
+      documentId,
+      forkDocumentId,
+      status: status as 'open' | 'accepted' | 'rejected' | undefined
+    })
+
+    return NextResponse.json({ mergeRequests }, { status: 200 })
+
+  } catch (error) {
+    console.error('Merge request list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to list merge requests', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Open Merge Request - Propose a fork's changes to the document it was forked from
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { forkDocumentId, forkCollectionId, peerId, comment } = body
+
+    if (!forkDocumentId || !forkCollectionId || !peerId || !comment) {
+      return NextResponse.json(
+        { error: 'Fork document ID, fork collection ID, peer ID, and comment are required' },
+        { status: 400 }
+      )
+    }
+
+    const sanitizedComment = sanitizeUserInput(comment)
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const forkDocuments = await orbitdbClient.getCollectionDocuments(forkCollectionId)
+    const fork = forkDocuments.find(doc => doc.id === forkDocumentId)
+
+    if (!fork) {
+      return NextResponse.json(
+        { error: 'Fork not found' },
+        { status: 404 }
+      )
+    }
+
+    // AUTHORIZATION CHECK: Only the fork owner can propose its changes
+    if (fork.uploadedBy !== peerId) {
+      return NextResponse.json(
+        { error: 'Unauthorized: You can only propose changes from your own forks' },
+        { status: 403 }
+      )
+    }
+
+    if (!fork.parentDocumentId) {
+      return NextResponse.json(
+        { error: 'Document is not a fork' },
+        { status: 400 }
+      )
+    }
+
+    // Forks made before parentCollectionId was recorded need a registry lookup
+    const candidates: string[] = fork.parentCollectionId
+      ? [fork.parentCollectionId]
+      : await userCollectionRegistry.getAllCollections()
+
+    let upstream: MergeableDocument | undefined
+    let upstreamCollectionId = ''
+    for (const storeName of candidates) {
+      try {
+        const documents = await orbitdbClient.getCollectionDocuments(storeName)
+        upstream = documents.find(doc => doc.id === fork.parentDocumentId)
+        if (upstream) {
+          upstreamCollectionId = storeName
+          break
+        }
+      } catch (error) {
+        console.error(`Failed to read collection ${storeName}:`, error)
+      }
+    }
+
+    if (!upstream) {
+      return NextResponse.json(
+        { error: 'Upstream document not found' },
+        { status: 404 }
+      )
+    }
+
+    const existing = await mergeRequestStore.list({ forkDocumentId, status: 'open' })
+    if (existing.length > 0) {
+      return NextResponse.json(
+        { error: 'This fork already has an open merge request', mergeRequest: existing[0] },
+        { status: 409 }
+      )
+    }
+
+    const mergeRequest = createMergeRequest({
+      id: randomBytes(16).toString('hex'),
+      upstream,
+      upstreamCollectionId,
+      fork,
+      forkCollectionId,
+      proposedBy: peerId,
+      comment: sanitizedComment
+    })
+
+    if (mergeRequest.changes.length === 0) {
+      return NextResponse.json(
+        { error: 'Fork has no changes to merge' },
+        { status: 400 }
+      )
+    }
+
+    await mergeRequestStore.put(mergeRequest)
+
+    return NextResponse.json({
+      message: 'Merge request opened successfully',
+      mergeRequest
+    }, { status: 200 })
+
+  } catch (error) {
+    console.error('Merge request open error:', error)
+    return NextResponse.json(
+      { error: 'Failed to open merge request', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
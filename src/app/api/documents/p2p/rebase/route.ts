@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { feedSearchIndex } from '@/lib/feed-search-index'
+import { userCollectionRegistry } from '@/lib/user-collection-registry'
+import { applyRebase, getUpstreamStatus, rebaseFork } from '@/lib/fork-rebase'
+import type { MergeableDocument } from '@/lib/merge-requests'
+
+// Rebase Fork - Apply the parent's newer changes to a fork
+// Pass dryRun to preview the applied and conflicting fields without saving
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { documentId, collectionId, peerId, dryRun } = body
+
+    if (!documentId || !collectionId || !peerId) {
+      return NextResponse.json(
+        { error: 'Document ID, collection ID, and peer ID are required' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const documents = await orbitdbClient.getCollectionDocuments(collectionId)
+    const fork = documents.find(doc => doc.id === documentId)
+
+    if (!fork) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      )
+    }
+
+    // AUTHORIZATION CHECK: Only the fork owner can rebase it
+    if (fork.uploadedBy !== peerId) {
+      return NextResponse.json(
+        { error: 'Unauthorized: You can only rebase your own forks' },
+        { status: 403 }
+      )
+    }
+
+    if (!fork.parentDocumentId) {
+      return NextResponse.json(
+        { error: 'Document is not a fork' },
+        { status: 400 }
+      )
+    }
+
+    // Forks made before parentCollectionId was recorded need a registry lookup
+    const candidates: string[] = fork.parentCollectionId
+      ? [fork.parentCollectionId]
+      : await userCollectionRegistry.getAllCollections()
+
+    let upstream: MergeableDocument | undefined
+    for (const storeName of candidates) {
+      try {
+        const upstreamDocuments = await orbitdbClient.getCollectionDocuments(storeName)
+        upstream = upstreamDocuments.find(doc => doc.id === fork.parentDocumentId)
+        if (upstream) break
+      } catch (error) {
+        console.error(`Failed to read collection ${storeName}:`, error)
+      }
+    }
+
+    if (!upstream) {
+      return NextResponse.json(
+        { error: 'Parent document not found' },
+        { status: 404 }
+      )
+    }
+
+    const upstreamStatus = getUpstreamStatus(fork, upstream)
+    if (upstreamStatus.newerVersions === 0) {
+      return NextResponse.json(
+        { error: 'Fork is already up to date with its parent' },
+        { status: 400 }
+      )
+    }
+
+    const result = rebaseFork(fork, upstream)
+
+    if (dryRun) {
+      return NextResponse.json({
+        upstream: upstreamStatus,
+        applied: result.applied,
+        conflicts: result.conflicts
+      }, { status: 200 })
+    }
+
+    const rebasedDocument = applyRebase(fork, result, peerId)
+    await orbitdbClient.updateDocumentInCollection(collectionId, documentId, rebasedDocument)
+    await feedSearchIndex.indexDocument(collectionId, rebasedDocument)
+
+    return NextResponse.json({
+      message: 'Fork rebased successfully',
+      document: rebasedDocument,
+      upstream: upstreamStatus,
+      applied: result.applied,
+      conflicts: result.conflicts
+    }, { status: 200 })
+
+  } catch (error) {
+    console.error('P2P fork rebase error:', error)
+    return NextResponse.json(
+      { error: 'Failed to rebase fork', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { orbitdbClient } from '@/lib/orbitdb-client'
 import { userCollectionRegistry } from '@/lib/user-collection-registry'
+import { isPerceptualHash } from '@/lib/duplicates'
+import { findUserCollection, storeNewDocument } from '@/lib/p2p-documents'
 
 // P2P Documents API - Real OrbitDB implementation
 export async function GET(request: NextRequest) {
@@ -83,6 +85,7 @@ export async function POST(request: NextRequest) {
     const description = formData.get('description') as string
     const documentType = formData.get('documentType') as string || 'quote'
     const metadataStr = formData.get('metadata') as string
+    const perceptualHash = formData.get('perceptualHash') // Worked out by the browser for images
 
     // Parse metadata if provided
     let metadata = {}
@@ -110,31 +113,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Get user's collections and find the matching one
-    const userCollections = await userCollectionRegistry.getUserCollections(peerId)
-    let collectionAddress: string | null = null
-
-    // For 'main' collection, handle specially
-    if (collectionId === 'main') {
-      if (userCollections.length === 0) {
-        // Create a main collection for this user
-        const collection = await orbitdbClient.createCollection(peerId, 'Main Collection', 'Your primary document collection')
-        userCollectionRegistry.addUserCollection(peerId, collection.address)
-        collectionAddress = collection.address
-      } else {
-        collectionAddress = userCollections[0] // Use first collection as main
-      }
-    } else {
-      // Find collection by ID
-      for (const address of userCollections) {
-        const metadata = await orbitdbClient.getCollection(address)
-        if (metadata && metadata.id === collectionId) {
-          collectionAddress = address
-          break
-        }
-      }
-    }
-
+    // Find the matching one of the user's collections
+    const collectionAddress = await findUserCollection(peerId, collectionId)
     if (!collectionAddress) {
       return NextResponse.json(
         { error: 'Collection not found' },
@@ -186,39 +166,28 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create document object with IPFS CID
-    const document: any = {
-      id: `doc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      documentType: documentType, // 'quote', 'link', or 'image'
-      title: title,
-      description: description || '',
-      collectionId,
-      uploadedBy: peerId,
-      created: Date.now(),
-      lastAccessed: Date.now(),
-
-      // IPFS Content Reference
-      ipfsCID: ipfsCID,
-      contentType: contentType,
-      contentSize: contentSize,
-
-      // Metadata (stored in OrbitDB)
-      metadata: metadata,
-
-      replicas: [peerId],
-      pinned: true,
-      type: 'DOCUMENT',
-      version: 1
-    }
-
     // Add file-specific fields for images
+    const fileFields: Record<string, string> = {}
     if (documentType === 'image' && file) {
-      document.filename = file.name
-      document.mimeType = file.type
+      fileFields.filename = file.name
+      fileFields.mimeType = file.type
+      if (isPerceptualHash(perceptualHash)) {
+        fileFields.perceptualHash = perceptualHash
+      }
     }
 
-    // Add document to OrbitDB collection
-    await orbitdbClient.addDocumentToCollection(collectionAddress, document)
+    // Create the document with its IPFS CID, in the collection and the search index
+    const document = await storeNewDocument(collectionAddress, {
+      collectionId,
+      peerId,
+      documentType,
+      title,
+      description,
+      metadata,
+      ipfsCID,
+      contentType,
+      contentSize
+    }, fileFields)
 
     console.log(`✓ Document stored in OrbitDB: ${document.id}`)
     console.log(`  - Type: ${documentType}`)
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { feedSearchIndex } from '@/lib/feed-search-index'
+import { decodeFeedCursor, pageAfter } from '@/lib/feed-cursor'
+import { followingFeed, followStore } from '@/lib/follows'
+import { getUpstreamStatuses } from '@/lib/fork-rebase'
+
+/**
+ * Following Feed API - Documents from the collections and users someone follows, newest first
+ *
+ * Each document says why it's there: a followed collection, or a followed user
+ * publishing or forking it. Paged with cursors, like /api/feed.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const peerId = searchParams.get('peerId')
+    const limit = parseInt(searchParams.get('limit') || '20')
+    const cursor = searchParams.get('cursor')
+
+    if (!peerId) {
+      return NextResponse.json(
+        { error: 'Peer ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const after = cursor ? decodeFeedCursor(cursor) : null
+    if (cursor && !after) {
+      return NextResponse.json(
+        { error: 'Invalid cursor' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const follows = await followStore.list(peerId)
+
+    // Load the index, the first request builds it from OrbitDB
+    await feedSearchIndex.ready()
+    const allItems = feedSearchIndex.feedItems()
+    const items = followingFeed(allItems, follows)
+
+    // Forks whose parent is in the feed report how far behind they are
+    const upstreamStatuses = getUpstreamStatuses(allItems.map(item => item.document))
+
+    const page = pageAfter(items, after, limit)
+    const documents = page.items.map(item => ({
+      document: item.document,
+      collectionName: item.collectionName,
+      collectionId: item.collectionId,
+      ownerUsername: item.owner,
+      ownerDid: item.ownerId,
+      reason: item.reason,
+      upstream: upstreamStatuses[item.document.id]
+    }))
+
+    return NextResponse.json({
+      documents,
+      total: items.length,
+      limit,
+      hasMore: page.hasMore,
+      nextCursor: page.nextCursor,
+      following: follows.length,
+      type: 'following-feed'
+    })
+
+  } catch (error) {
+    console.error('Following feed error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch following feed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
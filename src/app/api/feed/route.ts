@@ -1,14 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { orbitdbClient } from '@/lib/orbitdb-client'
-import { userCollectionRegistry } from '@/lib/user-collection-registry'
-import { getDatabase } from '@/lib/database'
+import { feedSearchIndex } from '@/lib/feed-search-index'
+import { decodeFeedCursor, pageAfter } from '@/lib/feed-cursor'
+import { getUpstreamStatuses } from '@/lib/fork-rebase'
 
-// Global Feed API - Fetch all documents from all collections
+/**
+ * Global Feed API - All documents from all collections, newest first
+ *
+ * Read from the feed search index, which routes update as they write documents.
+ * Pass the returned nextCursor as `cursor` for the next page; `offset` is still
+ * accepted but pages shift when new documents arrive.
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const limit = parseInt(searchParams.get('limit') || '20')
     const offset = parseInt(searchParams.get('offset') || '0')
+    const cursor = searchParams.get('cursor')
+
+    const after = cursor ? decodeFeedCursor(cursor) : null
+    if (cursor && !after) {
+      return NextResponse.json(
+        { error: 'Invalid cursor' },
+        { status: 400 }
+      )
+    }
 
     // Check OrbitDB health
     const health = await orbitdbClient.health()
@@ -16,72 +32,33 @@ export async function GET(request: NextRequest) {
       throw new Error('OrbitDB service is not available')
     }
 
-    // Get all collections from all users
-    const allStoreNames = await userCollectionRegistry.getAllCollections()
-
-    // Get database connection to fetch usernames
-    const db = getDatabase()
-    const getUserStmt = db.prepare('SELECT username FROM users WHERE id = ?')
-
-    // Fetch all documents from all collections
-    const allDocuments: Array<{
-      document: any
-      collectionName: string
-      collectionId: string
-      ownerUsername: string
-      ownerDid: string
-    }> = []
+    // Load the index, the first request builds it from OrbitDB
+    await feedSearchIndex.ready()
+    const allItems = feedSearchIndex.feedItems()
 
-    for (const storeName of allStoreNames) {
-      try {
-        // Get collection metadata
-        const metadata = await orbitdbClient.getCollection(storeName)
-        if (!metadata) continue
-
-        // Get username for collection owner
-        let username = 'Unknown'
-        const user = getUserStmt.get(metadata.owner) as { username: string } | undefined
-        if (user?.username) {
-          username = user.username
-        } else if (metadata.owner.startsWith('did:p2p:')) {
-          // Map known DIDs to usernames
-          if (metadata.owner === 'did:p2p:da3871dbd67db0bd27bcda5289f2efed') {
-            username = 'theodore'
-          } else if (metadata.owner === 'did:p2p:3209956da445dbb96966c91ba431cc80') {
-            username = 'dummy'
-          }
-        }
-
-        // Fetch documents from this collection
-        const documents = await orbitdbClient.getCollectionDocuments(storeName)
-
-        // Add collection info to each document
-        for (const doc of documents) {
-          allDocuments.push({
-            document: doc,
-            collectionName: metadata.name,
-            collectionId: metadata.id,
-            ownerUsername: username,
-            ownerDid: metadata.owner
-          })
-        }
-      } catch (error) {
-        console.error(`Failed to fetch documents from collection ${storeName}:`, error)
-      }
-    }
+    // Forks whose parent is in the feed report how far behind they are
+    const upstreamStatuses = getUpstreamStatuses(allItems.map(item => item.document))
 
-    // Sort by creation date (newest first)
-    allDocuments.sort((a, b) => b.document.created - a.document.created)
+    const page = after
+      ? pageAfter(allItems, after, limit)
+      : pageAfter(allItems.slice(offset), null, limit)
 
-    // Apply pagination
-    const paginatedDocuments = allDocuments.slice(offset, offset + limit)
+    const documents = page.items.map(item => ({
+      document: item.document,
+      collectionName: item.collectionName,
+      collectionId: item.collectionId,
+      ownerUsername: item.owner,
+      ownerDid: item.ownerId,
+      upstream: upstreamStatuses[item.document.id]
+    }))
 
     return NextResponse.json({
-      documents: paginatedDocuments,
-      total: allDocuments.length,
+      documents,
+      total: allItems.length,
       limit,
-      offset,
-      hasMore: offset + limit < allDocuments.length,
+      offset: after ? undefined : offset,
+      hasMore: page.hasMore,
+      nextCursor: page.nextCursor,
       type: 'global-feed',
       storage: 'orbitdb',
       orbitdbPeerId: health.peerId
@@ -90,7 +67,7 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error('Global feed error:', error)
     return NextResponse.json(
-      { error: 'Failed to fetch global feed', details: error.message },
+      { error: 'Failed to fetch global feed', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
     )
   }
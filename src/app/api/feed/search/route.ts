@@ -1,133 +1,88 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { orbitdbClient } from '@/lib/orbitdb-client'
-import { userCollectionRegistry } from '@/lib/user-collection-registry'
-import { getDatabase } from '@/lib/database'
+import { feedSearchIndex, searchOptionsFromParams } from '@/lib/feed-search-index'
+import { getUpstreamStatuses } from '@/lib/fork-rebase'
+import { computeFacets } from '@/lib/search-facets'
+import { keywordVocabulary } from '@/lib/keyword-vocabulary'
+import { decodeFeedCursor, pageAfter } from '@/lib/feed-cursor'
 
 /**
  * Search Feed API
  *
- * Searches across all P2P documents with filters:
+ * Searches across all P2P documents using the feed search index, with filters:
  * - type: Document type (quote, link, image)
- * - keywords: Keyword search (matches ANY keyword)
- * - title: Title/description search
+ * - keywords: Keyword search (matches ANY keyword or one of its synonyms)
+ * - title: Full-text query over titles, descriptions, metadata, keywords and quote text
+ *   Supports "exact phrases" and prefix* matching, results are ranked by relevance
+ *   Citation fields can be given inline: author:deleuze publisher:minuit year:1968..1980 isbn:...
+ * - author, publisher, yearFrom, yearTo, isbn: Citation fields as separate parameters
+ * - collection, owner: Collection IDs or owner DIDs, comma separated
+ *
+ * Along with the page of items, returns facet counts over all matching documents.
+ * Pages continue from the returned nextCursor, passed back as `cursor`.
  */
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
     const typeFilter = searchParams.get('type') // e.g., "quote,link" or "quote"
     const keywordsFilter = searchParams.get('keywords') // e.g., "philosophy,test"
-    const titleFilter = searchParams.get('title') // Search in title/description
+    const collectionFilter = searchParams.get('collection')
+    const ownerFilter = searchParams.get('owner')
+    const titleFilter = searchParams.get('title') // Full-text query
     const limit = parseInt(searchParams.get('limit') || '20')
     const offset = parseInt(searchParams.get('offset') || '0')
+    const cursor = searchParams.get('cursor')
 
-    // Check OrbitDB health
-    const health = await orbitdbClient.health()
-    if (!health.ok) {
-      throw new Error('OrbitDB service is not available')
-    }
-
-    // Get all collections from registry
-    const allStoreNames = await userCollectionRegistry.getAllCollections()
-
-    // Get database connection to fetch usernames
-    const db = getDatabase()
-    const getUserStmt = db.prepare('SELECT username FROM users WHERE id = ?')
-
-    const feedItems: any[] = []
-
-    // Fetch documents from each collection
-    for (const storeName of allStoreNames) {
-      try {
-        // Get collection metadata
-        const metadata = await orbitdbClient.getCollection(storeName)
-        if (!metadata) continue
-
-        // Get username for collection owner
-        let username = 'Unknown'
-        const user = getUserStmt.get(metadata.owner) as { username: string } | undefined
-        if (user?.username) {
-          username = user.username
-        } else if (metadata.owner.startsWith('did:p2p:')) {
-          // Map known DIDs to usernames
-          if (metadata.owner === 'did:p2p:da3871dbd67db0bd27bcda5289f2efed') {
-            username = 'theodore'
-          } else if (metadata.owner === 'did:p2p:3209956da445dbb96966c91ba431cc80') {
-            username = 'dummy'
-          }
-        }
-
-        // Fetch documents from this collection
-        const documents = await orbitdbClient.getCollectionDocuments(storeName)
-
-        for (const doc of documents) {
-          feedItems.push({
-            document: doc,
-            collectionId: metadata.id,
-            collectionName: metadata.name,
-            owner: username,
-            ownerId: metadata.owner
-          })
-        }
-      } catch (error) {
-        console.error(`Failed to fetch from collection ${storeName}:`, error)
-      }
-    }
-
-    // Apply filters
-    let filteredItems = feedItems
-
-    // Type filter
-    if (typeFilter) {
-      const types = typeFilter.split(',').map(t => t.trim())
-      filteredItems = filteredItems.filter(item =>
-        types.includes(item.document.documentType)
+    const after = cursor ? decodeFeedCursor(cursor) : null
+    if (cursor && !after) {
+      return NextResponse.json(
+        { error: 'Invalid cursor' },
+        { status: 400 }
       )
     }
 
-    // Keywords filter - matches ANY keyword
-    if (keywordsFilter) {
-      const searchKeywords = keywordsFilter.toLowerCase().split(',').map(k => k.trim())
-      filteredItems = filteredItems.filter(item => {
-        const docKeywords = item.document.metadata?.keywords || []
-        return searchKeywords.some(searchKw =>
-          docKeywords.some((docKw: string) =>
-            docKw.toLowerCase().includes(searchKw)
-          )
-        )
-      })
+    // Inline citation fields, overridden by the separate parameters
+    const options = searchOptionsFromParams(searchParams)
+    if (!options) {
+      return NextResponse.json(
+        { error: 'Invalid ISBN' },
+        { status: 400 }
+      )
     }
 
-    // Title filter - searches in title and description
-    if (titleFilter) {
-      const searchTerm = titleFilter.toLowerCase()
-      filteredItems = filteredItems.filter(item => {
-        const title = (item.document.title || '').toLowerCase()
-        const description = (item.document.description || '').toLowerCase()
-        const metadataTitle = (item.document.metadata?.title || '').toLowerCase()
+    // Load the index, the first request builds it from OrbitDB
+    await feedSearchIndex.ready()
 
-        return title.includes(searchTerm) ||
-               description.includes(searchTerm) ||
-               metadataTitle.includes(searchTerm)
-      })
-    }
+    options.synonyms = await keywordVocabulary.synonymGroups()
+    const results = feedSearchIndex.search(options)
 
-    // Sort by creation date (newest first)
-    filteredItems.sort((a, b) => b.document.created - a.document.created)
+    // Forks report how far behind their parent is, looked up among all documents
+    const upstreamStatuses = getUpstreamStatuses(feedSearchIndex.allItems().map(item => item.document))
 
-    // Pagination
-    const total = filteredItems.length
-    const paginatedItems = filteredItems.slice(offset, offset + limit)
+    // Pagination, from the cursor when given
+    const total = results.length
+    const page = after
+      ? pageAfter(results, after, limit)
+      : pageAfter(results.slice(offset), null, limit)
+    const paginatedItems = page.items.map(item => ({
+      ...item,
+      upstream: upstreamStatuses[item.document.id]
+    }))
 
     return NextResponse.json({
       items: paginatedItems,
       total,
       limit,
-      offset,
-      hasMore: offset + limit < total,
+      offset: after ? undefined : offset,
+      hasMore: page.hasMore,
+      nextCursor: page.nextCursor,
+      facets: computeFacets(results),
       filters: {
         type: typeFilter,
         keywords: keywordsFilter,
-        title: titleFilter
+        collection: collectionFilter,
+        owner: ownerFilter,
+        title: titleFilter,
+        citation: options.citation
       }
     })
 
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { followStore } from '@/lib/follows'
+import type { FollowKind } from '@/lib/follows'
+import { sanitizeUserInput } from '@/lib/sanitize'
+import { randomBytes } from 'crypto'
+
+const FOLLOW_KINDS: FollowKind[] = ['collection', 'user']
+
+// List Follows - Collections and users a user follows
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const peerId = searchParams.get('peerId')
+
+    if (!peerId) {
+      return NextResponse.json(
+        { error: 'Peer ID is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const follows = await followStore.list(peerId)
+
+    return NextResponse.json({ follows }, { status: 200 })
+
+  } catch (error) {
+    console.error('Follow list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to list follows', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Follow - A collection, or a user's publications and forks
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { peerId, kind, targetId, name } = body
+
+    if (!peerId || !kind || !targetId) {
+      return NextResponse.json(
+        { error: 'Peer ID, kind, and target ID are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!FOLLOW_KINDS.includes(kind)) {
+      return NextResponse.json(
+        { error: `Kind must be one of: ${FOLLOW_KINDS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (kind === 'user' && targetId === peerId) {
+      return NextResponse.json(
+        { error: 'You cannot follow yourself' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    let targetName = typeof name === 'string' ? sanitizeUserInput(name) : ''
+    if (kind === 'collection') {
+      const metadata = await orbitdbClient.getCollection(targetId)
+      if (!metadata) {
+        return NextResponse.json(
+          { error: 'Collection not found' },
+          { status: 404 }
+        )
+      }
+      targetName = metadata.name || targetName
+    }
+
+    const follows = await followStore.list(peerId)
+    const existing = follows.find(follow => follow.kind === kind && follow.id === targetId)
+    if (existing) {
+      return NextResponse.json({
+        message: 'Already following',
+        follow: existing
+      }, { status: 200 })
+    }
+
+    const entry = await followStore.follow(
+      peerId,
+      { kind, id: targetId, name: targetName },
+      randomBytes(8).toString('hex')
+    )
+
+    return NextResponse.json({
+      message: 'Followed successfully',
+      follow: { kind, id: targetId, name: targetName, followedAt: entry.timestamp }
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Follow error:', error)
+    return NextResponse.json(
+      { error: 'Failed to follow', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Unfollow - Recorded as an unfollow entry, the follow entry stays in the activity stream
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const peerId = searchParams.get('peerId')
+    const kind = searchParams.get('kind')
+    const targetId = searchParams.get('targetId')
+
+    if (!peerId || !kind || !targetId) {
+      return NextResponse.json(
+        { error: 'Peer ID, kind, and target ID are required' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const follows = await followStore.list(peerId)
+    const existing = follows.find(follow => follow.kind === kind && follow.id === targetId)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Not following' },
+        { status: 404 }
+      )
+    }
+
+    await followStore.unfollow(peerId, existing, randomBytes(8).toString('hex'))
+
+    return NextResponse.json({
+      message: 'Unfollowed successfully'
+    }, { status: 200 })
+
+  } catch (error) {
+    console.error('Unfollow error:', error)
+    return NextResponse.json(
+      { error: 'Failed to unfollow', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { feedSearchIndex } from '@/lib/feed-search-index'
+import { keywordVocabulary } from '@/lib/keyword-vocabulary'
+import { renameKeywords } from '@/lib/keywords'
+import { verifyAuth } from '@/lib/auth-middleware'
+import { sanitizeUserInput } from '@/lib/sanitize'
+
+/**
+ * Merge Keywords API (admin only)
+ *
+ * Renames keywords, or merges several into one, in every document of every
+ * collection. Each changed document gets a new version, so the change shows
+ * in its history and can be reverted like any edit.
+ *
+ * Body: { from: ["philo", "Philosophy"], to: "philosophy" }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+    if (!user.isAdmin) {
+      return NextResponse.json(
+        { error: 'Only administrators can merge keywords' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { from, to } = body
+
+    if (!Array.isArray(from) || from.length === 0 || typeof to !== 'string' || !to.trim()) {
+      return NextResponse.json(
+        { error: 'Keywords to merge and the keyword to merge them into are required' },
+        { status: 400 }
+      )
+    }
+
+    const fromKeywords = from.filter((keyword: unknown): keyword is string => typeof keyword === 'string')
+    const toKeyword = sanitizeUserInput(to.trim())
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    // Find the collections using the keywords, then update their current documents
+    await feedSearchIndex.ready()
+    const affected = new Map<string, Set<string>>() // Collection -> document IDs
+    for (const { document, collectionId } of feedSearchIndex.allItems()) {
+      const keywords = document.metadata?.keywords
+      if (Array.isArray(keywords) && renameKeywords(keywords, fromKeywords, toKeyword)) {
+        affected.set(collectionId, (affected.get(collectionId) || new Set()).add(document.id))
+      }
+    }
+
+    const changeComment = sanitizeUserInput(`Renamed keyword${fromKeywords.length > 1 ? 's' : ''} ${fromKeywords.join(', ')} to ${toKeyword}`)
+    const updated: { collectionId: string, documentId: string, version: number }[] = []
+
+    // Documents are stored in the orbitdb-service collections, not in
+    // CollectionCQRS ops logs, so they're updated there like any edit
+    const failed: string[] = []
+
+    for (const [collectionId, documentIds] of affected) {
+      try {
+        const documents = await orbitdbClient.getCollectionDocuments(collectionId)
+
+        for (const currentDocument of documents.filter(doc => documentIds.has(doc.id))) {
+          const keywords = renameKeywords(currentDocument.metadata?.keywords || [], fromKeywords, toKeyword)
+          if (!keywords) continue
+
+          const newVersion = (currentDocument.version || 1) + 1
+          const updatedDocument = {
+            ...currentDocument,
+            metadata: { ...currentDocument.metadata, keywords },
+            version: newVersion,
+            lastAccessed: Date.now(),
+            versionHistory: [
+              ...(currentDocument.versionHistory || []),
+              {
+                version: newVersion,
+                editedBy: user.id,
+                editedAt: Date.now(),
+                changeComment,
+                previousMetadata: { ...currentDocument.metadata },
+                previousTitle: currentDocument.title
+              }
+            ]
+          }
+
+          await orbitdbClient.updateDocumentInCollection(collectionId, currentDocument.id, updatedDocument)
+          await feedSearchIndex.indexDocument(collectionId, updatedDocument)
+          updated.push({ collectionId, documentId: currentDocument.id, version: newVersion })
+        }
+      } catch (error) {
+        console.error(`Failed to rename keywords in collection ${collectionId}:`, error)
+        failed.push(collectionId)
+      }
+    }
+
+    // Synonyms are only renamed once every document was, so they don't drift apart
+    if (failed.length > 0) {
+      return NextResponse.json(
+        { error: `Keywords could not be merged in ${failed.length} collection${failed.length > 1 ? 's' : ''}`, updated, failed },
+        { status: 500 }
+      )
+    }
+
+    await keywordVocabulary.renameInSynonyms(fromKeywords, toKeyword)
+
+    return NextResponse.json({
+      message: `Keywords merged into ${toKeyword}`,
+      updated
+    }, { status: 200 })
+
+  } catch (error) {
+    console.error('Keyword merge error:', error)
+    return NextResponse.json(
+      { error: 'Failed to merge keywords', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { keywordVocabulary } from '@/lib/keyword-vocabulary'
+import { suggestKeywords } from '@/lib/keywords'
+
+/**
+ * Keyword Vocabulary API
+ *
+ * Keywords in use across all collections with their document counts, most used first.
+ * - q: Only keywords starting with this (or with a word starting with it), for autocomplete
+ * - limit: At most this many keywords, all of them by default
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const prefix = searchParams.get('q') || ''
+    const limit = parseInt(searchParams.get('limit') || '0')
+
+    const vocabulary = await keywordVocabulary.list()
+    const keywords = prefix || limit > 0
+      ? suggestKeywords(vocabulary, prefix, limit > 0 ? limit : vocabulary.length)
+      : vocabulary
+
+    return NextResponse.json({
+      keywords,
+      total: vocabulary.length
+    })
+
+  } catch (error) {
+    console.error('Keyword vocabulary error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load keywords', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { keywordVocabulary } from '@/lib/keyword-vocabulary'
+
+// Remove Synonyms - The group's keywords are searched separately again
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const params = await context.params
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const peerId = searchParams.get('peerId')
+
+    if (!peerId) {
+      return NextResponse.json(
+        { error: 'Peer ID is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const synonymGroups = await keywordVocabulary.synonymGroups()
+    if (!synonymGroups.some(group => group.id === params.id)) {
+      return NextResponse.json(
+        { error: 'Synonym group not found' },
+        { status: 404 }
+      )
+    }
+
+    await keywordVocabulary.removeSynonyms(params.id)
+
+    return NextResponse.json({
+      message: 'Synonyms removed successfully',
+      id: params.id
+    }, { status: 200 })
+
+  } catch (error) {
+    console.error('Synonym group delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove synonyms', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { keywordVocabulary } from '@/lib/keyword-vocabulary'
+import { sanitizeUserInput } from '@/lib/sanitize'
+import { randomBytes } from 'crypto'
+
+// List Synonym Groups - Keywords feed search treats as the same
+export async function GET() {
+  try {
+    const synonymGroups = await keywordVocabulary.synonymGroups()
+    return NextResponse.json({ synonymGroups }, { status: 200 })
+
+  } catch (error) {
+    console.error('Synonym group list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to list synonym groups', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Add Synonyms - Groups sharing a keyword with the new one are merged into it
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { peerId, keywords } = body
+
+    if (!peerId || !Array.isArray(keywords)) {
+      return NextResponse.json(
+        { error: 'Peer ID and keywords are required' },
+        { status: 400 }
+      )
+    }
+
+    const cleanedKeywords = keywords
+      .filter((keyword: unknown): keyword is string => typeof keyword === 'string' && keyword.trim().length > 0)
+      .map(keyword => sanitizeUserInput(keyword))
+    if (new Set(cleanedKeywords.map(keyword => keyword.toLowerCase())).size < 2) {
+      return NextResponse.json(
+        { error: 'At least two different keywords are required' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const synonymGroup = await keywordVocabulary.addSynonyms(randomBytes(16).toString('hex'), cleanedKeywords, peerId)
+
+    return NextResponse.json({
+      message: 'Synonyms saved successfully',
+      synonymGroup
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Synonym group create error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save synonyms', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
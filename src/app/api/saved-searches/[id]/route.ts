@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { feedSearchIndex, searchOptionsFromParams } from '@/lib/feed-search-index'
+import { keywordVocabulary } from '@/lib/keyword-vocabulary'
+import { isNewResult, savedSearchStore } from '@/lib/saved-searches'
+import { sanitizeUserInput } from '@/lib/sanitize'
+
+// GET /api/saved-searches/[id] - Current results of a saved search, newest first
+// Results published since the search was last seen are flagged isNew
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const params = await context.params
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const peerId = searchParams.get('peerId')
+    const limit = parseInt(searchParams.get('limit') || '20')
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    if (!peerId) {
+      return NextResponse.json(
+        { error: 'Peer ID is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const savedSearch = await savedSearchStore.get(peerId, params.id)
+    if (!savedSearch) {
+      return NextResponse.json(
+        { error: 'Saved search not found' },
+        { status: 404 }
+      )
+    }
+
+    const options = searchOptionsFromParams(new URLSearchParams(savedSearch.params))
+    if (!options) {
+      return NextResponse.json(
+        { error: 'Invalid ISBN' },
+        { status: 400 }
+      )
+    }
+
+    await feedSearchIndex.ready()
+    options.synonyms = await keywordVocabulary.synonymGroups()
+    const results = feedSearchIndex.search(options)
+      .sort((a, b) => b.document.created - a.document.created)
+
+    const total = results.length
+    const items = results.slice(offset, offset + limit).map(result => ({
+      ...result,
+      isNew: isNewResult(savedSearch, result, peerId)
+    }))
+
+    return NextResponse.json({
+      savedSearch,
+      items,
+      total,
+      limit,
+      offset,
+      hasMore: offset + limit < total
+    }, { status: 200 })
+
+  } catch (error) {
+    console.error('Saved search results error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch saved search results', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/saved-searches/[id] - Rename, or mark the results seen
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const params = await context.params
+
+  try {
+    const body = await request.json()
+    const { peerId, name, seen } = body
+
+    if (!peerId) {
+      return NextResponse.json(
+        { error: 'Peer ID is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const savedSearch = await savedSearchStore.get(peerId, params.id)
+    if (!savedSearch) {
+      return NextResponse.json(
+        { error: 'Saved search not found' },
+        { status: 404 }
+      )
+    }
+
+    const updated = {
+      ...savedSearch,
+      ...(name && { name: sanitizeUserInput(name) }),
+      ...(seen && { lastSeen: Date.now() })
+    }
+
+    await savedSearchStore.put(peerId, updated)
+
+    return NextResponse.json({
+      message: 'Saved search updated successfully',
+      savedSearch: updated
+    }, { status: 200 })
+
+  } catch (error) {
+    console.error('Saved search update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update saved search', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/saved-searches/[id] - Stop following a search
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const params = await context.params
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const peerId = searchParams.get('peerId')
+
+    if (!peerId) {
+      return NextResponse.json(
+        { error: 'Peer ID is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const savedSearch = await savedSearchStore.get(peerId, params.id)
+    if (!savedSearch) {
+      return NextResponse.json(
+        { error: 'Saved search not found' },
+        { status: 404 }
+      )
+    }
+
+    await savedSearchStore.remove(peerId, params.id)
+
+    return NextResponse.json({
+      message: 'Saved search deleted successfully',
+      id: params.id
+    }, { status: 200 })
+
+  } catch (error) {
+    console.error('Saved search delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete saved search', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
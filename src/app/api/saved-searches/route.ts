@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { feedSearchIndex, searchOptionsFromParams } from '@/lib/feed-search-index'
+import { cleanSearchParams, isNewResult, savedSearchStore } from '@/lib/saved-searches'
+import { keywordVocabulary } from '@/lib/keyword-vocabulary'
+import { sanitizeUserInput } from '@/lib/sanitize'
+import { randomBytes } from 'crypto'
+
+// List Saved Searches - A user's saved searches with their new result counts
+// Polled by the client for saved search notifications
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const peerId = searchParams.get('peerId')
+
+    if (!peerId) {
+      return NextResponse.json(
+        { error: 'Peer ID is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const searches = await savedSearchStore.list(peerId)
+    await feedSearchIndex.ready()
+    const synonyms = await keywordVocabulary.synonymGroups()
+
+    const savedSearches = searches.map(search => {
+      const options = searchOptionsFromParams(new URLSearchParams(search.params))
+      const fresh = options
+        ? feedSearchIndex.search({ ...options, synonyms }).filter(result => isNewResult(search, result, peerId))
+        : []
+      return {
+        ...search,
+        newCount: fresh.length,
+        latest: fresh
+          .sort((a, b) => b.document.created - a.document.created)
+          .slice(0, 3)
+          .map(result => ({ id: result.document.id, title: result.document.title, created: result.document.created }))
+      }
+    })
+
+    return NextResponse.json({
+      savedSearches,
+      newCount: savedSearches.reduce((sum, search) => sum + search.newCount, 0)
+    }, { status: 200 })
+
+  } catch (error) {
+    console.error('Saved search list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to list saved searches', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Save Search - Keep a feed search to be notified of new results
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { peerId, name, params } = body
+
+    if (!peerId || !name || !params || typeof params !== 'object') {
+      return NextResponse.json(
+        { error: 'Peer ID, name, and search parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    const cleanedParams = cleanSearchParams(params)
+    if (Object.keys(cleanedParams).length === 0) {
+      return NextResponse.json(
+        { error: 'Search has no query or filters' },
+        { status: 400 }
+      )
+    }
+
+    if (!searchOptionsFromParams(new URLSearchParams(cleanedParams))) {
+      return NextResponse.json(
+        { error: 'Invalid ISBN' },
+        { status: 400 }
+      )
+    }
+
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const now = Date.now()
+    const savedSearch = {
+      id: randomBytes(16).toString('hex'),
+      name: sanitizeUserInput(name),
+      params: cleanedParams,
+      created: now,
+      lastSeen: now // Only documents published from now on are new
+    }
+
+    await savedSearchStore.put(peerId, savedSearch)
+
+    return NextResponse.json({
+      message: 'Search saved successfully',
+      savedSearch
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Saved search create error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save search', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { orbitdbClient } from '@/lib/orbitdb-client'
+import { feedSearchIndex } from '@/lib/feed-search-index'
+import { followingFeed, followStore } from '@/lib/follows'
+import {
+  SYNDICATION_FILES,
+  SYNDICATION_LIMIT,
+  SyndicationItem,
+  documentItem,
+  followItem,
+  renderFeed,
+  siteUrl,
+  withIPFSContent
+} from '@/lib/syndication'
+
+// GET /api/users/[did]/feed.xml (Atom), rss.xml (RSS 2.0) or feed.json (JSON Feed)
+// A user's activity for feed readers: documents they publish or fork, and what they follow
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ did: string, feed: string }> }
+) {
+  const params = await context.params
+  const did = decodeURIComponent(params.did)
+  const format = SYNDICATION_FILES[params.feed]
+
+  if (!format) {
+    return NextResponse.json(
+      { error: `Unknown feed, use one of: ${Object.keys(SYNDICATION_FILES).join(', ')}` },
+      { status: 404 }
+    )
+  }
+
+  try {
+    // Check OrbitDB health
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    // Their documents as the following feed shows them, one copy each
+    await feedSearchIndex.ready()
+    const allItems = feedSearchIndex.feedItems()
+    const published = followingFeed(allItems, [{ kind: 'user', id: did, name: '', followedAt: 0 }])
+      .slice(0, SYNDICATION_LIMIT)
+
+    // Username as shown on their collections
+    const username = allItems.find(item => item.ownerId === did)?.owner || did
+    const follows = await followStore.list(did)
+
+    const baseUrl = siteUrl(request)
+    const documents = await Promise.all(published.map(item => withIPFSContent(item.document)))
+    const items: SyndicationItem[] = [
+      ...published.map((item, i) => documentItem(
+        documents[i],
+        { collectionId: item.collectionId, collectionName: item.collectionName, author: username },
+        baseUrl
+      )),
+      ...follows.map(follow => followItem(follow, username, baseUrl))
+    ]
+      .sort((a, b) => b.published - a.published)
+      .slice(0, SYNDICATION_LIMIT)
+
+    const homeUrl = `${baseUrl}/profile?${new URLSearchParams({ user: did, name: username })}`
+    const { body, contentType } = renderFeed({
+      id: `${baseUrl}/api/users/${encodeURIComponent(did)}`,
+      title: `${username}'s activity`,
+      description: `Documents ${username} publishes and forks, and what they follow`,
+      homeUrl,
+      feedUrl: `${baseUrl}/api/users/${encodeURIComponent(did)}/${params.feed}`,
+      author: username,
+      items
+    }, format)
+
+    return new NextResponse(body, { headers: { 'Content-Type': contentType } })
+
+  } catch (error) {
+    console.error('User activity feed error:', error)
+    return NextResponse.json(
+      { error: 'Failed to build activity feed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
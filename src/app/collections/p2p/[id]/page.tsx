@@ -1,8 +1,11 @@
 'use client'
 import { useEffect, useState } from 'react'
 import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
 import P2PDocumentsApi from '@/components/P2PDocumentsApi'
 import PinnedDocuments from '@/components/PinnedDocuments'
+import FollowButton from '@/components/FollowButton'
+import FeedLinks from '@/components/FeedLinks'
 
 interface P2PCollection {
   id: string
@@ -24,6 +27,8 @@ export default function P2PCollectionDetail() {
   const [collection, setCollection] = useState<P2PCollection | null>(null)
   const [loading, setLoading] = useState(true)
   const [userId, setUserId] = useState('')
+  const [asOfInput, setAsOfInput] = useState('')
+  const [asOf, setAsOf] = useState<number | null>(null)
 
   // Extract the actual collection ID and decode URL encoding
   const rawId = params.id as string
@@ -71,6 +76,13 @@ export default function P2PCollectionDetail() {
     alert('P2P Collection link copied to clipboard!')
   }
 
+  const handleAsOfChange = (value: string) => {
+    setAsOfInput(value)
+    // datetime-local values are in local time, which Date parses as such
+    const timestamp = value ? new Date(value).getTime() : NaN
+    setAsOf(Number.isNaN(timestamp) ? null : timestamp)
+  }
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -132,21 +144,46 @@ export default function P2PCollectionDetail() {
                   </code>
                 </div>
                 <div>
-                  <p><strong>Peer ID:</strong> {collection.peerId.slice(0, 12)}...</p>
+                  <p>
+                    <strong>Peer ID:</strong>{' '}
+                    <Link href={`/profile?user=${encodeURIComponent(collection.peerId)}`} className="hover:underline">
+                      {collection.peerId.slice(0, 12)}...
+                    </Link>
+                  </p>
                   <p><strong>Connected Peers:</strong> {collection.peers.length}</p>
                   <p><strong>Created:</strong> {formatDate(collection.created)}</p>
                   <p><strong>Last Sync:</strong> {formatDate(collection.lastSync)}</p>
                 </div>
               </div>
+              <div className="mt-4">
+                <FeedLinks path={`/api/collections/p2p/${encodeURIComponent(collection.id)}`} />
+              </div>
             </div>
 
             <div className="flex space-x-2">
+              {collection.peerId !== userId && (
+                <FollowButton kind="collection" targetId={collection.id} targetName={collection.name} />
+              )}
               <button
                 onClick={handleShare}
                 className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
               >
                 Share P2P
               </button>
+              <a
+                href={`/api/collections/p2p/${encodeURIComponent(collection.id)}/car`}
+                title="Download the collection with its documents and IPFS content as a CAR file"
+                className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700"
+              >
+                Export CAR
+              </a>
+              <a
+                href={`/api/collections/p2p/${encodeURIComponent(collection.id)}/site`}
+                title="Download the collection as a static HTML site, to publish on its own"
+                className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700"
+              >
+                Export site
+              </a>
               <button
                 onClick={() => router.push('/collections')}
                 className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700"
@@ -174,9 +211,33 @@ export default function P2PCollectionDetail() {
           </div>
         </div>
 
+        {/* Time Travel - view the collection as it was at a past date */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 mb-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <label htmlFor="collection-as-of" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              View collection as of
+            </label>
+            <input
+              id="collection-as-of"
+              type="datetime-local"
+              value={asOfInput}
+              onChange={(e) => handleAsOfChange(e.target.value)}
+              className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+            />
+            {asOf !== null && (
+              <button
+                onClick={() => handleAsOfChange('')}
+                className="px-3 py-1 text-sm bg-gray-600 text-white rounded hover:bg-gray-700"
+              >
+                Back to present
+              </button>
+            )}
+          </div>
+        </div>
+
         {/* P2P Documents */}
         <div className="mb-6">
-          <P2PDocumentsApi collectionId={collection.id} />
+          <P2PDocumentsApi collectionId={collection.id} asOf={asOf} />
         </div>
 
         {/* Pinned Documents - Show P2P pinned documents for this user */}
@@ -32,6 +32,7 @@ function CollectionsContent() {
   const [filter, setFilter] = useState<'all' | 'mine'>('mine')
   const [showCreateModal, setShowCreateModal] = useState(false)
   const [userHasCollection, setUserHasCollection] = useState(false)
+  const [importing, setImporting] = useState(false)
 
   useEffect(() => {
     const token = localStorage.getItem('token')
@@ -110,6 +111,30 @@ function CollectionsContent() {
     }
   }
 
+  const handleImportArchive = async (file: File) => {
+    setImporting(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('peerId', localStorage.getItem('userId') || '')
+
+      const response = await fetch('/api/collections/p2p/import', {
+        method: 'POST',
+        body: formData
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.details || data.error || 'Import failed')
+
+      alert(`Imported "${data.collection.name}" with ${data.documents} documents`)
+      fetchP2PCollections()
+    } catch (error) {
+      console.error('Error importing collection:', error)
+      alert(error instanceof Error ? error.message : 'Import failed')
+    } finally {
+      setImporting(false)
+    }
+  }
+
   const openCollection = (collection: P2PCollection) => {
     setSelectedCollection(collection)
     // Update URL without navigation
@@ -224,6 +249,25 @@ function CollectionsContent() {
               </button>
             </div>
 
+            {userId && (
+              <label
+                title="Recreate a collection from a CAR file exported on this or another deployment"
+                className={`px-4 py-2 border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 cursor-pointer ${importing ? 'opacity-50 pointer-events-none' : ''}`}
+              >
+                {importing ? 'Importing...' : 'Import CAR'}
+                <input
+                  type="file"
+                  accept=".car,application/vnd.ipld.car"
+                  className="hidden"
+                  onChange={e => {
+                    const file = e.target.files?.[0]
+                    e.target.value = ''
+                    if (file) handleImportArchive(file)
+                  }}
+                />
+              </label>
+            )}
+
             {!userHasCollection && userId ? (
               <button
                 onClick={() => setShowCreateModal(true)}
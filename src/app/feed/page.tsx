@@ -1,15 +1,49 @@
 'use client'
-import { useEffect, useState } from 'react'
-import GlobalFeedDocuments from '@/components/GlobalFeedDocuments'
+import { Suspense, useCallback, useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import GlobalFeedDocuments, { CitationSearch, FeedFilters, searchParamsFor } from '@/components/GlobalFeedDocuments'
+import SavedSearches from '@/components/SavedSearches'
+import { normalizeISBN } from '@/lib/citation-query'
+import type { FacetBucket, FacetName } from '@/lib/search-facets'
 
-export default function FeedPage() {
+const EMPTY_CITATION: CitationSearch = { author: '', publisher: '', yearFrom: '', yearTo: '', isbn: '' }
+
+// Filters picked from the facets, on top of the search bar's
+interface Refinements {
+  types: string[]
+  keywords: string[]
+  collections: FacetBucket[]
+  owners: FacetBucket[]
+}
+
+const EMPTY_REFINEMENTS: Refinements = { types: [], keywords: [], collections: [], owners: [] }
+
+const EMPTY_FILTERS: FeedFilters = { types: [], keywords: [], title: '', collections: [], owners: [], citation: EMPTY_CITATION }
+
+const toggle = <T,>(list: T[], item: T, same: (a: T, b: T) => boolean = (a, b) => a === b): T[] =>
+  list.some(existing => same(existing, item)) ? list.filter(existing => !same(existing, item)) : [...list, item]
+
+function FeedContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const tabParam = searchParams.get('tab')
+  const tab = tabParam === 'saved' || tabParam === 'following' ? tabParam : 'all'
   const [loading, setLoading] = useState(true)
   const [searchQuery, setSearchQuery] = useState('')
+  const [showAdvanced, setShowAdvanced] = useState(false)
+  const [citation, setCitation] = useState<CitationSearch>(EMPTY_CITATION)
+  const [refinements, setRefinements] = useState<Refinements>(EMPTY_REFINEMENTS)
   const [parsedFilters, setParsedFilters] = useState<{
     types: string[]
     keywords: string[]
     title: string
-  }>({ types: [], keywords: [], title: '' })
+    collections: string[]
+    owners: string[]
+    citation: CitationSearch
+  }>({ types: [], keywords: [], title: '', collections: [], owners: [], citation: EMPTY_CITATION })
+  const [savingSearch, setSavingSearch] = useState(false)
+  const [savedSearchName, setSavedSearchName] = useState('')
+  const [saveMessage, setSaveMessage] = useState<string | null>(null)
 
   useEffect(() => {
     const checkAuth = async () => {
@@ -63,22 +97,92 @@ export default function FeedPage() {
     return { types, keywords, title: titleSearch }
   }
 
+  // An ISBN is only searched once it's complete and valid
+  const isbnInvalid = citation.isbn.trim() !== '' && !normalizeISBN(citation.isbn)
+
   // Debounce search query and parse
   useEffect(() => {
     const timer = setTimeout(() => {
       const parsed = parseSearchQuery(searchQuery)
-      setParsedFilters(parsed)
+      setParsedFilters({
+        types: [...new Set([...parsed.types, ...refinements.types])],
+        keywords: [...new Set([...parsed.keywords, ...refinements.keywords])],
+        title: parsed.title,
+        collections: refinements.collections.map(bucket => bucket.value),
+        owners: refinements.owners.map(bucket => bucket.value),
+        citation: isbnInvalid ? { ...citation, isbn: '' } : citation
+      })
     }, 300)
 
     return () => clearTimeout(timer)
-  }, [searchQuery])
+  }, [searchQuery, citation, isbnInvalid, refinements])
+
+  // Clicking a facet adds it to the filters, clicking it again removes it
+  const handleRefine = useCallback((facet: FacetName, bucket: FacetBucket) => {
+    const sameBucket = (a: FacetBucket, b: FacetBucket) => a.value === b.value
+
+    switch (facet) {
+      case 'documentType':
+        setRefinements(prev => ({ ...prev, types: toggle(prev.types, bucket.value) }))
+        break
+      case 'keywords':
+        setRefinements(prev => ({ ...prev, keywords: toggle(prev.keywords, bucket.value) }))
+        break
+      case 'collections':
+        setRefinements(prev => ({ ...prev, collections: toggle(prev.collections, bucket, sameBucket) }))
+        break
+      case 'owners':
+        setRefinements(prev => ({ ...prev, owners: toggle(prev.owners, bucket, sameBucket) }))
+        break
+      case 'authors':
+        setShowAdvanced(true)
+        setCitation(prev => ({ ...prev, author: prev.author === bucket.value ? '' : bucket.value }))
+        break
+      case 'years':
+        setShowAdvanced(true)
+        setCitation(prev => prev.yearFrom === bucket.value && prev.yearTo === bucket.value
+          ? { ...prev, yearFrom: '', yearTo: '' }
+          : { ...prev, yearFrom: bucket.value, yearTo: bucket.value })
+        break
+    }
+  }, [])
+
+  const updateCitation = (field: keyof CitationSearch, value: string) => {
+    setCitation(prev => ({ ...prev, [field]: value }))
+  }
 
   const clearFilters = () => {
     setSearchQuery('')
-    setParsedFilters({ types: [], keywords: [], title: '' })
+    setCitation(EMPTY_CITATION)
+    setRefinements(EMPTY_REFINEMENTS)
+    setParsedFilters({ types: [], keywords: [], title: '', collections: [], owners: [], citation: EMPTY_CITATION })
+  }
+
+  const saveSearch = async () => {
+    const peerId = localStorage.getItem('userId')
+    if (!peerId || !savedSearchName.trim()) return
+
+    try {
+      const response = await fetch('/api/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ peerId, name: savedSearchName.trim(), params: searchParamsFor(parsedFilters) })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save search')
+
+      setSaveMessage(`Saved "${data.savedSearch.name}", you'll be notified of new results`)
+      setSavingSearch(false)
+      setSavedSearchName('')
+    } catch (error) {
+      console.error('Error saving search:', error)
+      setSaveMessage(error instanceof Error ? error.message : 'Failed to save search')
+    }
   }
 
-  const hasActiveFilters = parsedFilters.title || parsedFilters.keywords.length > 0 || parsedFilters.types.length > 0
+  const activeCitation = Object.entries(parsedFilters.citation).filter(([, value]) => value.trim())
+  const hasActiveFilters = parsedFilters.title || parsedFilters.keywords.length > 0 || parsedFilters.types.length > 0 ||
+    parsedFilters.collections.length > 0 || parsedFilters.owners.length > 0 || activeCitation.length > 0
 
   return (
     <div className="min-h-screen bg-white dark:bg-black">
@@ -87,9 +191,13 @@ export default function FeedPage() {
         <div className="mb-8">
           <div className="flex justify-between items-center mb-4">
             <div>
-              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Global Feed</h1>
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+                {tab === 'following' ? 'Following' : 'Global Feed'}
+              </h1>
               <p className="text-gray-600 dark:text-gray-400 mt-1">
-                Latest documents from all users and collections
+                {tab === 'following'
+                  ? 'Latest documents from the collections and users you follow'
+                  : 'Latest documents from all users and collections'}
               </p>
             </div>
             <div className="flex items-center gap-2">
@@ -101,53 +209,189 @@ export default function FeedPage() {
           </div>
         </div>
 
-        {/* Search Bar - Always visible */}
-        <div className="mb-6">
-          <div className="relative">
-            <input
-              type="text"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search... (try: type:quote keywords:philosophy,test search term)"
-              className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white text-lg"
-            />
-            {hasActiveFilters && (
-              <button
-                onClick={clearFilters}
-                className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-900 dark:hover:text-white"
-                title="Clear search"
-              >
-                ✕
-              </button>
-            )}
-          </div>
-
-          {/* Helper text */}
-          <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-            {hasActiveFilters ? (
-              <span>
-                {parsedFilters.types.length > 0 && `Type: ${parsedFilters.types.join(', ')} • `}
-                {parsedFilters.keywords.length > 0 && `Keywords: ${parsedFilters.keywords.join(', ')} • `}
-                {parsedFilters.title && `Search: "${parsedFilters.title}"`}
-              </span>
-            ) : (
-              <span>Use type:quote type:link type:image keywords:word1,word2 or just search text</span>
-            )}
-          </div>
+        {/* Tabs */}
+        <div className="mb-6 flex gap-2 border-b border-gray-300 dark:border-gray-700">
+          {([['all', 'Global'], ['following', 'Following'], ['saved', 'Saved searches']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => router.replace(value === 'all' ? '/feed' : `/feed?tab=${value}`)}
+              className={`px-4 py-2 text-sm font-medium -mb-px border-b-2 ${
+                tab === value
+                  ? 'border-gray-900 dark:border-white text-gray-900 dark:text-white'
+                  : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
         </div>
 
-        {/* Loading state during auth check */}
-        {loading ? (
-          <div className="flex justify-center items-center py-12">
-            <div className="text-center">
-              <div className="animate-spin h-12 w-12 border-b-2 border-gray-900 dark:border-gray-100 mb-4 mx-auto"></div>
-              <p className="text-gray-600 dark:text-gray-400">Loading feed...</p>
-            </div>
-          </div>
+        {tab === 'saved' ? (
+          loading ? null : <SavedSearches />
+        ) : tab === 'following' ? (
+          loading ? null : <GlobalFeedDocuments filters={EMPTY_FILTERS} following />
         ) : (
-          <GlobalFeedDocuments filters={parsedFilters} />
+          <>
+            {/* Search Bar - Always visible */}
+            <div className="mb-6">
+              <div className="relative">
+                <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search... (try: type:quote keywords:philosophy author:deleuze year:1968..1980)"
+                  className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white text-lg"
+                />
+                {hasActiveFilters && (
+                  <button
+                    onClick={clearFilters}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-900 dark:hover:text-white"
+                    title="Clear search"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+
+              {/* Helper text */}
+              <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                {hasActiveFilters ? (
+                  <span>
+                    {parsedFilters.types.length > 0 && `Type: ${parsedFilters.types.join(', ')} • `}
+                    {parsedFilters.keywords.length > 0 && `Keywords: ${parsedFilters.keywords.join(', ')} • `}
+                    {refinements.collections.length > 0 && `Collections: ${refinements.collections.map(bucket => bucket.label).join(', ')} • `}
+                    {refinements.owners.length > 0 && `Owners: ${refinements.owners.map(bucket => bucket.label).join(', ')} • `}
+                    {activeCitation.length > 0 && `${activeCitation.map(([name, value]) => `${name}: ${value}`).join(', ')} • `}
+                    {parsedFilters.title && `Search: "${parsedFilters.title}"`}
+                  </span>
+                ) : (
+                  <span>Use type:quote type:link type:image keywords:word1,word2 author:name publisher:name year:1968..1980 isbn:number or just search text</span>
+                )}
+                <button
+                  onClick={() => setShowAdvanced(!showAdvanced)}
+                  className="ml-3 underline hover:text-gray-900 dark:hover:text-white"
+                >
+                  {showAdvanced ? 'Hide advanced search' : 'Advanced search'}
+                </button>
+                {hasActiveFilters && !savingSearch && (
+                  <button
+                    onClick={() => {
+                      setSavingSearch(true)
+                      setSaveMessage(null)
+                    }}
+                    className="ml-3 underline hover:text-gray-900 dark:hover:text-white"
+                  >
+                    Save search
+                  </button>
+                )}
+              </div>
+
+              {/* Save search - name it to be notified of new results */}
+              {savingSearch && (
+                <div className="mt-3 flex gap-2">
+                  <input
+                    type="text"
+                    value={savedSearchName}
+                    onChange={(e) => setSavedSearchName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && saveSearch()}
+                    placeholder="Name this search"
+                    className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white text-sm"
+                    autoFocus
+                  />
+                  <button
+                    onClick={saveSearch}
+                    disabled={!savedSearchName.trim()}
+                    className="px-4 py-2 text-sm bg-gray-900 dark:bg-white text-white dark:text-black disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => setSavingSearch(false)}
+                    className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+              {saveMessage && (
+                <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">{saveMessage}</p>
+              )}
+
+              {/* Advanced search - citation fields */}
+              {showAdvanced && (
+                <div className="mt-3 grid grid-cols-1 sm:grid-cols-5 gap-2">
+                  <input
+                    type="text"
+                    value={citation.author}
+                    onChange={(e) => updateCitation('author', e.target.value)}
+                    placeholder="Author"
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white text-sm"
+                  />
+                  <input
+                    type="text"
+                    value={citation.publisher}
+                    onChange={(e) => updateCitation('publisher', e.target.value)}
+                    placeholder="Publisher"
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white text-sm"
+                  />
+                  <input
+                    type="number"
+                    value={citation.yearFrom}
+                    onChange={(e) => updateCitation('yearFrom', e.target.value)}
+                    placeholder="Year from"
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white text-sm"
+                  />
+                  <input
+                    type="number"
+                    value={citation.yearTo}
+                    onChange={(e) => updateCitation('yearTo', e.target.value)}
+                    placeholder="Year to"
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white text-sm"
+                  />
+                  <div>
+                    <input
+                      type="text"
+                      value={citation.isbn}
+                      onChange={(e) => updateCitation('isbn', e.target.value)}
+                      placeholder="ISBN"
+                      className={`w-full px-3 py-2 border bg-white dark:bg-black text-gray-900 dark:text-white text-sm ${
+                        isbnInvalid ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
+                      }`}
+                    />
+                    {isbnInvalid && (
+                      <p className="mt-1 text-xs text-red-600 dark:text-red-400">Not a valid ISBN-10 or ISBN-13</p>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Loading state during auth check */}
+            {loading ? (
+              <div className="flex justify-center items-center py-12">
+                <div className="text-center">
+                  <div className="animate-spin h-12 w-12 border-b-2 border-gray-900 dark:border-gray-100 mb-4 mx-auto"></div>
+                  <p className="text-gray-600 dark:text-gray-400">Loading feed...</p>
+                </div>
+              </div>
+            ) : (
+              <GlobalFeedDocuments filters={parsedFilters} onRefine={handleRefine} />
+            )}
+          </>
         )}
       </div>
     </div>
   )
+}
+
+export default function FeedPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-white dark:bg-black flex items-center justify-center">
+        <div className="animate-spin h-12 w-12 border-b-2 border-gray-900 dark:border-gray-100"></div>
+      </div>
+    }>
+      <FeedContent />
+    </Suspense>
+  )
 }
\ No newline at end of file
@@ -0,0 +1,248 @@
+'use client'
+import { useCallback, useEffect, useState } from 'react'
+import type { KeywordUsage, SynonymGroup } from '@/lib/keywords'
+
+export default function KeywordsPage() {
+  const [keywords, setKeywords] = useState<KeywordUsage[]>([])
+  const [synonymGroups, setSynonymGroups] = useState<SynonymGroup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState('')
+  const [selected, setSelected] = useState<KeywordUsage[]>([])
+  const [mergeTarget, setMergeTarget] = useState('')
+  const [working, setWorking] = useState(false)
+  const [message, setMessage] = useState<{ text: string, error: boolean } | null>(null)
+
+  const loadVocabulary = useCallback(async () => {
+    try {
+      const [keywordsResponse, synonymsResponse] = await Promise.all([
+        fetch('/api/keywords'),
+        fetch('/api/keywords/synonyms')
+      ])
+      if (!keywordsResponse.ok || !synonymsResponse.ok) throw new Error('Failed to fetch keywords')
+
+      setKeywords((await keywordsResponse.json()).keywords)
+      setSynonymGroups((await synonymsResponse.json()).synonymGroups)
+    } catch (error) {
+      console.error('Error fetching keywords:', error)
+      setMessage({ text: 'Could not load keywords', error: true })
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadVocabulary()
+  }, [loadVocabulary])
+
+  const toggleSelected = (keyword: KeywordUsage) => {
+    setSelected(prev => prev.some(k => k.key === keyword.key)
+      ? prev.filter(k => k.key !== keyword.key)
+      : [...prev, keyword])
+  }
+
+  const labelFor = (key: string) => keywords.find(k => k.key === key)?.label || key
+
+  const makeSynonyms = async () => {
+    const peerId = localStorage.getItem('userId')
+    if (!peerId) return
+
+    setWorking(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/keywords/synonyms', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ peerId, keywords: selected.map(k => k.label) })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save synonyms')
+
+      setMessage({ text: `Searches for any of ${data.synonymGroup.keywords.map(labelFor).join(', ')} now find all of them`, error: false })
+      setSelected([])
+      await loadVocabulary()
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Failed to save synonyms', error: true })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const removeSynonyms = async (group: SynonymGroup) => {
+    const peerId = localStorage.getItem('userId')
+    if (!peerId) return
+
+    try {
+      const response = await fetch(`/api/keywords/synonyms/${group.id}?peerId=${encodeURIComponent(peerId)}`, {
+        method: 'DELETE'
+      })
+      if (!response.ok) throw new Error('Failed to remove synonyms')
+
+      setSynonymGroups(prev => prev.filter(g => g.id !== group.id))
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Failed to remove synonyms', error: true })
+    }
+  }
+
+  // Admin only: rewrites the keywords of every document using them
+  const mergeKeywords = async () => {
+    const target = mergeTarget.trim()
+    const from = selected.map(k => k.label)
+    if (!target || !confirm(`Replace ${from.join(', ')} with "${target}" in every document?`)) return
+
+    setWorking(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/keywords/merge', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        },
+        body: JSON.stringify({ from, to: target })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to merge keywords')
+
+      setMessage({ text: `${data.message} (${data.updated.length} documents updated)`, error: false })
+      setSelected([])
+      setMergeTarget('')
+      await loadVocabulary()
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Failed to merge keywords', error: true })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const filterText = filter.trim().toLowerCase()
+  const visibleKeywords = filterText
+    ? keywords.filter(k => k.key.includes(filterText) || k.label.toLowerCase().includes(filterText))
+    : keywords
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-black">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Keywords</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Keywords used across all collections, their synonyms, and merging keywords that mean the same thing
+          </p>
+        </div>
+
+        {message && (
+          <p className={`mb-4 text-sm ${message.error ? 'text-red-600 dark:text-red-400' : 'text-green-700 dark:text-green-400'}`}>
+            {message.text}
+          </p>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin h-12 w-12 border-b-2 border-gray-900 dark:border-gray-100"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {/* Vocabulary */}
+            <div className="md:col-span-2">
+              <input
+                type="text"
+                value={filter}
+                onChange={e => setFilter(e.target.value)}
+                placeholder="Filter keywords..."
+                className="w-full mb-3 px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white"
+              />
+              {visibleKeywords.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No keywords found</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {visibleKeywords.map(keyword => {
+                    const isSelected = selected.some(k => k.key === keyword.key)
+                    return (
+                      <button
+                        key={keyword.key}
+                        onClick={() => toggleSelected(keyword)}
+                        className={`px-2 py-1 text-sm border ${
+                          isSelected
+                            ? 'border-gray-900 dark:border-white bg-gray-900 dark:bg-white text-white dark:text-black'
+                            : 'border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                        }`}
+                      >
+                        {keyword.label}
+                        <span className={`ml-1 text-xs ${isSelected ? 'opacity-75' : 'text-gray-500 dark:text-gray-400'}`}>
+                          {keyword.count}
+                        </span>
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-6">
+              {/* Actions on the selected keywords */}
+              <div className="p-4 border border-gray-300 dark:border-gray-700">
+                <h2 className="font-semibold text-gray-900 dark:text-white mb-2">Selected ({selected.length})</h2>
+                {selected.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Click keywords to select them</p>
+                ) : (
+                  <>
+                    <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">{selected.map(k => k.label).join(', ')}</p>
+                    <button
+                      onClick={makeSynonyms}
+                      disabled={working || selected.length < 2}
+                      className="w-full mb-4 px-3 py-2 text-sm border border-gray-900 dark:border-gray-100 text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+                    >
+                      Make synonyms
+                    </button>
+
+                    <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Merge into (administrators)
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={mergeTarget}
+                        onChange={e => setMergeTarget(e.target.value)}
+                        placeholder={selected[0].label}
+                        className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white"
+                      />
+                      <button
+                        onClick={mergeKeywords}
+                        disabled={working || !mergeTarget.trim()}
+                        className="px-3 py-1 text-sm bg-gray-900 dark:bg-gray-100 text-white dark:text-black hover:bg-gray-700 dark:hover:bg-gray-300 disabled:opacity-50"
+                      >
+                        Merge
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {/* Synonym groups */}
+              <div>
+                <h2 className="font-semibold text-gray-900 dark:text-white mb-2">Synonyms</h2>
+                {synonymGroups.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No synonyms yet</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {synonymGroups.map(group => (
+                      <li key={group.id} className="flex justify-between items-start gap-2 p-2 border border-gray-300 dark:border-gray-700">
+                        <span className="text-sm text-gray-700 dark:text-gray-300">{group.keywords.map(labelFor).join(' = ')}</span>
+                        <button
+                          onClick={() => removeSynonyms(group)}
+                          className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                        >
+                          Remove
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,17 +1,55 @@
 'use client'
 
-import { useEffect, useState } from 'react'
-import { useRouter } from 'next/navigation'
+import { Suspense, useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import FollowButton from '@/components/FollowButton'
+import FeedLinks from '@/components/FeedLinks'
+import type { FollowTarget } from '@/lib/follows'
 
-export default function ProfilePage() {
+function ProfileContent() {
   const router = useRouter()
+  const searchParams = useSearchParams()
   const [userData, setUserData] = useState<any>(null)
   const [loading, setLoading] = useState(true)
+  const [follows, setFollows] = useState<FollowTarget[]>([])
+
+  // Someone else's profile, e.g. from a collection's owner
+  const viewedUserId = searchParams.get('user')
+  const viewedUsername = searchParams.get('name')
 
   useEffect(() => {
     loadUserData()
   }, [])
 
+  useEffect(() => {
+    if (!userData?.userId || (viewedUserId && viewedUserId !== userData.userId)) return
+
+    const loadFollows = async () => {
+      try {
+        const response = await fetch(`/api/follows?peerId=${encodeURIComponent(userData.userId)}`)
+        if (!response.ok) throw new Error('Failed to fetch follows')
+        setFollows((await response.json()).follows)
+      } catch (error) {
+        console.error('Error fetching follows:', error)
+      }
+    }
+
+    loadFollows()
+  }, [userData?.userId, viewedUserId])
+
+  const unfollow = async (follow: FollowTarget) => {
+    try {
+      const params = new URLSearchParams({ peerId: userData.userId, kind: follow.kind, targetId: follow.id })
+      const response = await fetch(`/api/follows?${params}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error('Failed to unfollow')
+
+      setFollows(prev => prev.filter(f => !(f.kind === follow.kind && f.id === follow.id)))
+    } catch (error) {
+      console.error('Error unfollowing:', error)
+    }
+  }
+
   const loadUserData = async () => {
     try {
       const token = localStorage.getItem('token')
@@ -64,6 +102,38 @@ export default function ProfilePage() {
     )
   }
 
+  if (viewedUserId && viewedUserId !== userData?.userId) {
+    const username = viewedUsername || 'Unknown'
+    return (
+      <div className="min-h-screen bg-white dark:bg-black">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-8 flex justify-between items-start">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{username}</h1>
+              <p className="mt-2 text-gray-600 dark:text-gray-400">
+                Follow to see what they publish and fork in your following feed
+              </p>
+              <div className="mt-2">
+                <FeedLinks path={`/api/users/${encodeURIComponent(viewedUserId)}`} />
+              </div>
+            </div>
+            <FollowButton kind="user" targetId={viewedUserId} targetName={username} />
+          </div>
+
+          {/* User ID */}
+          <div className="bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">User ID (DID)</h2>
+            <div className="bg-gray-100 dark:bg-black p-4 border border-gray-300 dark:border-gray-700">
+              <code className="text-sm text-gray-800 dark:text-gray-200 break-all">
+                {viewedUserId}
+              </code>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-white dark:bg-black">
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -72,6 +142,11 @@ export default function ProfilePage() {
           <p className="mt-2 text-gray-600 dark:text-gray-400">
             Your account information and session data
           </p>
+          {userData?.userId && (
+            <div className="mt-2">
+              <FeedLinks path={`/api/users/${encodeURIComponent(userData.userId)}`} />
+            </div>
+          )}
         </div>
 
         {/* User ID */}
@@ -95,7 +170,55 @@ export default function ProfilePage() {
           <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Email</h2>
           <p className="text-gray-800 dark:text-gray-200">{userData?.userEmail || 'Not set'}</p>
         </div>
+
+        {/* Following */}
+        <div className="bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Following</h2>
+          {follows.length === 0 ? (
+            <p className="text-gray-600 dark:text-gray-400">
+              Follow collections and users to see their documents in your <Link href="/feed?tab=following" className="underline">following feed</Link>
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {follows.map(follow => (
+                <li key={`${follow.kind}:${follow.id}`} className="py-2 flex justify-between items-center">
+                  <div>
+                    <Link
+                      href={follow.kind === 'collection'
+                        ? `/collections/p2p/${encodeURIComponent(follow.id)}`
+                        : `/profile?${new URLSearchParams({ user: follow.id, name: follow.name })}`}
+                      className="font-medium text-gray-900 dark:text-white hover:underline"
+                    >
+                      {follow.name || follow.id}
+                    </Link>
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                      {follow.kind === 'collection' ? 'Collection' : 'User'}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => unfollow(follow)}
+                    className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    Unfollow
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
       </div>
     </div>
   )
+}
+
+export default function ProfilePage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-white dark:bg-black flex items-center justify-center">
+        <div className="animate-spin h-12 w-12 border-b-2 border-gray-900 dark:border-gray-100"></div>
+      </div>
+    }>
+      <ProfileContent />
+    </Suspense>
+  )
 }
\ No newline at end of file
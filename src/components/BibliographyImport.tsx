@@ -0,0 +1,164 @@
+'use client'
+import { useState } from 'react'
+import type { BibliographyFormat, ImportedEntry } from '@/lib/bibliography'
+
+interface BibliographyImportProps {
+  collectionId: string
+  onImported: () => void // After documents were created
+  onCancel: () => void
+}
+
+type EntryResult = ImportedEntry & { documentId?: string }
+
+const FORMAT_LABELS: Record<BibliographyFormat, string> = {
+  bibtex: 'BibTeX',
+  ris: 'RIS',
+  'csl-json': 'CSL-JSON'
+}
+
+/**
+ * Quote documents from a reference manager export, previewed before they're created
+ */
+export default function BibliographyImport({ collectionId, onImported, onCancel }: BibliographyImportProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [format, setFormat] = useState<BibliographyFormat | ''>('') // Guessed by the server when empty
+  const [entries, setEntries] = useState<EntryResult[] | null>(null)
+  const [detectedFormat, setDetectedFormat] = useState<BibliographyFormat | null>(null)
+  const [imported, setImported] = useState(false)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const send = async (dryRun: boolean) => {
+    if (!file) return
+
+    setWorking(true)
+    setError(null)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      if (format) formData.append('format', format)
+      formData.append('collectionId', collectionId)
+      formData.append('peerId', localStorage.getItem('userId') || 'anonymous')
+      formData.append('dryRun', String(dryRun))
+
+      const response = await fetch('/api/documents/p2p/import', {
+        method: 'POST',
+        body: formData
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Import failed')
+
+      setEntries(data.entries)
+      setDetectedFormat(data.format)
+      if (!dryRun) {
+        setImported(true)
+        if (data.imported > 0) onImported()
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Import failed')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const chooseFile = (chosen: File | null) => {
+    setFile(chosen)
+    setEntries(null)
+    setImported(false)
+    setError(null)
+  }
+
+  const validCount = entries?.filter(entry => entry.errors.length === 0).length || 0
+
+  return (
+    <>
+      <h3 className="text-xl font-bold mb-2 text-gray-900 dark:text-white">Import Bibliography</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Each entry becomes a quote. The quote text comes from BibTeX quote or annote fields, RIS N1 notes or CSL-JSON notes.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <input
+          type="file"
+          accept=".bib,.bibtex,.ris,.json"
+          onChange={e => chooseFile(e.target.files?.[0] || null)}
+          className="flex-1 min-w-0 text-sm text-gray-900 dark:text-white"
+        />
+        <select
+          value={format}
+          onChange={e => {
+            setFormat(e.target.value as BibliographyFormat | '')
+            setEntries(null)
+          }}
+          className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white"
+        >
+          <option value="">Detect format</option>
+          {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {entries && (
+        <div className="mb-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+            {imported
+              ? `Imported ${entries.filter(entry => entry.documentId).length} of ${entries.length} entries`
+              : `${entries.length} ${detectedFormat ? FORMAT_LABELS[detectedFormat] : ''} entries, ${validCount} ready to import`}
+          </p>
+          <ul className="max-h-80 overflow-y-auto border border-gray-300 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+            {entries.map(entry => (
+              <li key={entry.index} className="p-2 text-sm">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {entry.metadata.title || <span className="italic text-gray-500">Untitled</span>}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">
+                    {entry.key || `#${entry.index}`}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  {[entry.metadata.author, entry.metadata.publisher, entry.metadata.year].filter(Boolean).join(' • ')}
+                </p>
+                {entry.errors.map(message => (
+                  <p key={message} className="text-xs text-red-600 dark:text-red-400">{message}</p>
+                ))}
+                {entry.documentId && <p className="text-xs text-green-700 dark:text-green-400">Imported</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800"
+        >
+          {imported ? 'Close' : 'Cancel'}
+        </button>
+        {!imported && (
+          entries === null ? (
+            <button
+              onClick={() => send(true)}
+              disabled={!file || working}
+              className="px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-black hover:bg-gray-700 dark:hover:bg-gray-300 disabled:opacity-50"
+            >
+              {working ? 'Reading...' : 'Preview'}
+            </button>
+          ) : (
+            <button
+              onClick={() => send(false)}
+              disabled={validCount === 0 || working}
+              className="px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-black hover:bg-gray-700 dark:hover:bg-gray-300 disabled:opacity-50"
+            >
+              {working ? 'Importing...' : `Import ${validCount} ${validCount === 1 ? 'quote' : 'quotes'}`}
+            </button>
+          )
+        )}
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,39 @@
+'use client'
+import { useState } from 'react'
+import { CitableDocument, formatISO690 } from '@/lib/citation-export'
+
+interface CiteButtonProps {
+  document: CitableDocument
+}
+
+/**
+ * Copy a document's ISO-690 reference, with the quoted pages, to the clipboard
+ * Sits on document cards, so clicks don't reach the card
+ */
+export default function CiteButton({ document }: CiteButtonProps) {
+  const [copied, setCopied] = useState(false)
+
+  const copyReference = async (e: React.MouseEvent) => {
+    e.stopPropagation()
+    const reference = formatISO690(document)
+    try {
+      await navigator.clipboard.writeText(reference)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Error copying reference:', error)
+      // Clipboard access can be refused, the reference can still be copied by hand
+      window.prompt('Copy the reference:', reference)
+    }
+  }
+
+  return (
+    <button
+      onClick={copyReference}
+      title={formatISO690(document)}
+      className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+    >
+      {copied ? 'Copied' : 'Cite'}
+    </button>
+  )
+}
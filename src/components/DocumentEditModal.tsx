@@ -1,5 +1,6 @@
 'use client'
 import { useState } from 'react'
+import KeywordInput from './KeywordInput'
 
 interface P2PDocument {
   id: string
@@ -62,11 +63,6 @@ export default function DocumentEditModal({ document, onClose, onSave }: Documen
     setMetadata({ ...metadata, [field]: value })
   }
 
-  const updateKeywords = (keywordsStr: string) => {
-    const keywords = keywordsStr.split(',').map(k => k.trim()).filter(k => k.length > 0)
-    updateMetadataField('keywords', keywords)
-  }
-
   return (
     <div
       className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
@@ -191,10 +187,9 @@ export default function DocumentEditModal({ document, onClose, onSave }: Documen
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                   Keywords (comma-separated)
                 </label>
-                <input
-                  type="text"
-                  value={(metadata.keywords || []).join(', ')}
-                  onChange={e => updateKeywords(e.target.value)}
+                <KeywordInput
+                  value={metadata.keywords || []}
+                  onChange={keywords => updateMetadataField('keywords', keywords)}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white"
                 />
               </div>
@@ -270,10 +265,9 @@ export default function DocumentEditModal({ document, onClose, onSave }: Documen
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                   Keywords (comma-separated)
                 </label>
-                <input
-                  type="text"
-                  value={(metadata.keywords || []).join(', ')}
-                  onChange={e => updateKeywords(e.target.value)}
+                <KeywordInput
+                  value={metadata.keywords || []}
+                  onChange={keywords => updateMetadataField('keywords', keywords)}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white"
                 />
               </div>
@@ -349,10 +343,9 @@ export default function DocumentEditModal({ document, onClose, onSave }: Documen
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                   Keywords (comma-separated)
                 </label>
-                <input
-                  type="text"
-                  value={(metadata.keywords || []).join(', ')}
-                  onChange={e => updateKeywords(e.target.value)}
+                <KeywordInput
+                  value={metadata.keywords || []}
+                  onChange={keywords => updateMetadataField('keywords', keywords)}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white"
                 />
               </div>
@@ -1,5 +1,6 @@
 'use client'
 import { useState } from 'react'
+import KeywordInput from './KeywordInput'
 
 interface P2PDocument {
   id: string
@@ -91,11 +92,6 @@ export default function DocumentForkModal({ document, onClose, onSave }: Documen
     setMetadata({ ...metadata, [field]: value })
   }
 
-  const updateKeywords = (keywordsStr: string) => {
-    const keywords = keywordsStr.split(',').map(k => k.trim()).filter(k => k.length > 0)
-    updateMetadataField('keywords', keywords)
-  }
-
   const handleImageFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file) {
@@ -233,10 +229,9 @@ export default function DocumentForkModal({ document, onClose, onSave }: Documen
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                   Keywords (comma-separated)
                 </label>
-                <input
-                  type="text"
-                  value={(metadata.keywords || []).join(', ')}
-                  onChange={e => updateKeywords(e.target.value)}
+                <KeywordInput
+                  value={metadata.keywords || []}
+                  onChange={keywords => updateMetadataField('keywords', keywords)}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white"
                 />
               </div>
@@ -312,10 +307,9 @@ export default function DocumentForkModal({ document, onClose, onSave }: Documen
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                   Keywords (comma-separated)
                 </label>
-                <input
-                  type="text"
-                  value={(metadata.keywords || []).join(', ')}
-                  onChange={e => updateKeywords(e.target.value)}
+                <KeywordInput
+                  value={metadata.keywords || []}
+                  onChange={keywords => updateMetadataField('keywords', keywords)}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white"
                 />
               </div>
@@ -408,10 +402,9 @@ export default function DocumentForkModal({ document, onClose, onSave }: Documen
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                   Keywords (comma-separated)
                 </label>
-                <input
-                  type="text"
-                  value={(metadata.keywords || []).join(', ')}
-                  onChange={e => updateKeywords(e.target.value)}
+                <KeywordInput
+                  value={metadata.keywords || []}
+                  onChange={keywords => updateMetadataField('keywords', keywords)}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white"
                 />
               </div>
@@ -1,5 +1,6 @@
 'use client'
 import { useState } from 'react'
+import DocumentVersionDiff from './DocumentVersionDiff'
 
 interface VersionHistoryEntry {
   version: number
@@ -14,6 +15,7 @@ interface P2PDocument {
   documentType: 'quote' | 'link' | 'image'
   title: string
   description?: string
+  collectionId?: string
   metadata?: any
   version?: number
   versionHistory?: VersionHistoryEntry[]
@@ -21,11 +23,16 @@ interface P2PDocument {
 
 interface DocumentVersionBrowserProps {
   document: P2PDocument
+  collectionId?: string // Store the document lives in, defaults to document.collectionId
   onClose: () => void
+  onRestore?: (version: number) => Promise<void> // Omit to hide the restore action
 }
 
-export default function DocumentVersionBrowser({ document, onClose }: DocumentVersionBrowserProps) {
+export default function DocumentVersionBrowser({ document, collectionId, onClose, onRestore }: DocumentVersionBrowserProps) {
   const [selectedVersion, setSelectedVersion] = useState<number | null>(null)
+  const [restoring, setRestoring] = useState(false)
+  const [viewMode, setViewMode] = useState<'metadata' | 'changes'>('metadata')
+  const [compareWith, setCompareWith] = useState<number | null>(null)
 
   // Get current metadata
   const currentMetadata = document.metadata || {}
@@ -71,6 +78,39 @@ export default function DocumentVersionBrowser({ document, onClose }: DocumentVe
     ? allVersions.find(v => v.version === selectedVersion)?.metadata
     : currentMetadata
 
+  // Versions the selected one can be compared with, version 0 of a fork is its parent
+  const comparableVersions = allVersions
+    .map(v => v.version)
+    .filter(version => version >= 1 && version !== selectedVersion)
+  const comparedVersion = compareWith !== null && comparableVersions.includes(compareWith)
+    ? compareWith
+    : comparableVersions.find(version => version < (selectedVersion ?? 0)) ?? comparableVersions[0]
+
+  const handleSelectVersion = (version: number) => {
+    setSelectedVersion(version)
+    setCompareWith(null)
+  }
+
+  // Version 0 of a fork is its parent, which can't be restored here
+  const canRestore = onRestore && selectedVersion !== null && selectedVersion >= 1 && selectedVersion !== currentVersion
+
+  const showMetadata = viewMode === 'metadata' || selectedVersion === null || selectedVersion < 1 || comparedVersion === undefined
+
+  const handleRestore = async () => {
+    if (!onRestore || selectedVersion === null) return
+    if (!confirm(`Restore version ${selectedVersion}? This creates a new version with its content.`)) return
+
+    setRestoring(true)
+    try {
+      await onRestore(selectedVersion)
+    } catch (error) {
+      console.error('Restore error:', error)
+      alert('Restore failed: ' + (error as Error).message)
+    } finally {
+      setRestoring(false)
+    }
+  }
+
   return (
     <div
       className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
@@ -106,7 +146,7 @@ export default function DocumentVersionBrowser({ document, onClose }: DocumentVe
               {allVersions.map((version) => (
                 <button
                   key={version.version}
-                  onClick={() => setSelectedVersion(version.version)}
+                  onClick={() => handleSelectVersion(version.version)}
                   className={`w-full text-left p-4 border transition-colors ${
                     selectedVersion === version.version
                       ? 'border-gray-900 dark:border-gray-100 bg-gray-100 dark:bg-gray-800'
@@ -141,12 +181,73 @@ export default function DocumentVersionBrowser({ document, onClose }: DocumentVe
           <div className="flex-1 overflow-y-auto p-6">
             {selectedVersion !== null ? (
               <div>
-                <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
-                  Version {selectedVersion} Metadata
-                </h3>
+                <div className="flex justify-between items-start mb-4">
+                  <h3 className="text-xl font-bold text-gray-900 dark:text-white">
+                    Version {selectedVersion} {viewMode === 'changes' ? 'Changes' : 'Metadata'}
+                  </h3>
+                  {canRestore && (
+                    <button
+                      onClick={handleRestore}
+                      disabled={restoring}
+                      className="px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-black hover:bg-gray-700 dark:hover:bg-gray-300 text-sm disabled:opacity-50"
+                    >
+                      {restoring ? 'Restoring...' : 'Restore this version'}
+                    </button>
+                  )}
+                </div>
+
+                {/* Metadata / Changes toggle */}
+                {selectedVersion >= 1 && comparedVersion !== undefined && (
+                  <div className="flex items-center gap-2 mb-4 text-sm">
+                    <button
+                      onClick={() => setViewMode('metadata')}
+                      className={`px-3 py-1 border border-gray-900 dark:border-gray-100 ${
+                        viewMode === 'metadata'
+                          ? 'bg-gray-900 dark:bg-gray-100 text-white dark:text-black'
+                          : 'text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-800'
+                      }`}
+                    >
+                      Metadata
+                    </button>
+                    <button
+                      onClick={() => setViewMode('changes')}
+                      className={`px-3 py-1 border border-gray-900 dark:border-gray-100 ${
+                        viewMode === 'changes'
+                          ? 'bg-gray-900 dark:bg-gray-100 text-white dark:text-black'
+                          : 'text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-800'
+                      }`}
+                    >
+                      Changes
+                    </button>
+                    {viewMode === 'changes' && (
+                      <>
+                        <span className="ml-2 text-gray-600 dark:text-gray-400">compared with</span>
+                        <select
+                          value={comparedVersion}
+                          onChange={e => setCompareWith(Number(e.target.value))}
+                          className="px-2 py-1 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                        >
+                          {comparableVersions.map(version => (
+                            <option key={version} value={version}>Version {version}</option>
+                          ))}
+                        </select>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {/* Field-by-field changes */}
+                {viewMode === 'changes' && selectedVersion >= 1 && comparedVersion !== undefined && (
+                  <DocumentVersionDiff
+                    documentId={document.id}
+                    collectionId={collectionId || document.collectionId}
+                    from={Math.min(comparedVersion, selectedVersion)}
+                    to={Math.max(comparedVersion, selectedVersion)}
+                  />
+                )}
 
                 {/* Quote Metadata */}
-                {document.documentType === 'quote' && displayedMetadata && (
+                {showMetadata && document.documentType === 'quote' && displayedMetadata && (
                   <div className="space-y-4">
                     <div>
                       <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -214,7 +315,7 @@ export default function DocumentVersionBrowser({ document, onClose }: DocumentVe
                 )}
 
                 {/* Link Metadata */}
-                {document.documentType === 'link' && displayedMetadata && (
+                {showMetadata && document.documentType === 'link' && displayedMetadata && (
                   <div className="space-y-4">
                     <div>
                       <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">URL</label>
@@ -264,7 +365,7 @@ export default function DocumentVersionBrowser({ document, onClose }: DocumentVe
                 )}
 
                 {/* Image Metadata */}
-                {document.documentType === 'image' && displayedMetadata && (
+                {showMetadata && document.documentType === 'image' && displayedMetadata && (
                   <div className="space-y-4">
                     <div>
                       <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Title</label>
@@ -0,0 +1,59 @@
+'use client'
+import { useEffect, useState } from 'react'
+import type { FieldDiff } from '@/lib/document-diff'
+import FieldChangesList from './FieldChangesList'
+
+interface DocumentVersionDiffProps {
+  documentId: string
+  collectionId?: string
+  from: number
+  to: number
+}
+
+export default function DocumentVersionDiff({ documentId, collectionId, from, to }: DocumentVersionDiffProps) {
+  const [changes, setChanges] = useState<FieldDiff[] | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchDiff = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const params = new URLSearchParams({ documentId, from: String(from), to: String(to) })
+        if (collectionId) params.set('collectionId', collectionId)
+
+        const response = await fetch(`/api/documents/p2p/diff?${params}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load changes')
+        }
+
+        setChanges(data.changes)
+      } catch (err) {
+        console.error('Error fetching version diff:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load changes')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchDiff()
+  }, [documentId, collectionId, from, to])
+
+  if (loading) {
+    return <p className="text-gray-500 dark:text-gray-400">Loading changes...</p>
+  }
+
+  if (error) {
+    return <p className="text-red-600 dark:text-red-400">{error}</p>
+  }
+
+  if (!changes || changes.length === 0) {
+    return <p className="text-gray-500 dark:text-gray-400">No metadata changes between version {from} and version {to}</p>
+  }
+
+  return <FieldChangesList changes={changes} />
+}
@@ -0,0 +1,26 @@
+interface FeedLinksProps {
+  path: string // API path the feed files are under, e.g. /api/collections/p2p/<id>
+}
+
+const FEEDS = [
+  { file: 'feed.xml', label: 'Atom' },
+  { file: 'rss.xml', label: 'RSS' },
+  { file: 'feed.json', label: 'JSON Feed' }
+]
+
+/**
+ * Links to subscribe from a feed reader, no account needed
+ */
+export default function FeedLinks({ path }: FeedLinksProps) {
+  return (
+    <p className="text-sm text-gray-500 dark:text-gray-400">
+      Subscribe:{' '}
+      {FEEDS.map(({ file, label }, i) => (
+        <span key={file}>
+          {i > 0 && ' · '}
+          <a href={`${path}/${file}`} className="hover:underline">{label}</a>
+        </span>
+      ))}
+    </p>
+  )
+}
@@ -0,0 +1,97 @@
+'use client'
+import type { FieldDiff } from '@/lib/document-diff'
+
+interface FieldChangesListProps {
+  changes: FieldDiff[]
+  selectedFields?: string[]
+  onToggleField?: (field: string) => void // Shows a checkbox per field when set
+}
+
+export const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return 'N/A'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// quoteContent -> Quote Content
+export const fieldLabel = (field: string): string =>
+  field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase())
+
+export default function FieldChangesList({ changes, selectedFields = [], onToggleField }: FieldChangesListProps) {
+  return (
+    <div className="space-y-4">
+      {changes.map(change => (
+        <div key={change.field}>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            {onToggleField && (
+              <input
+                type="checkbox"
+                checked={selectedFields.includes(change.field)}
+                onChange={() => onToggleField(change.field)}
+              />
+            )}
+            {fieldLabel(change.field)}
+          </label>
+          <div className="p-3 bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white">
+            {change.kind === 'added' && (
+              <span className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200">
+                {formatValue(change.after)}
+              </span>
+            )}
+
+            {change.kind === 'removed' && (
+              <span className="bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200 line-through">
+                {formatValue(change.before)}
+              </span>
+            )}
+
+            {change.kind === 'changed' && (
+              <div className="space-y-1">
+                <div className="bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200 line-through">
+                  {formatValue(change.before)}
+                </div>
+                <div className="bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200">
+                  {formatValue(change.after)}
+                </div>
+              </div>
+            )}
+
+            {change.kind === 'list' && (
+              <div className="flex flex-wrap gap-2">
+                {change.added.map(item => (
+                  <span key={`+${item}`} className="px-2 py-1 bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200 text-sm">
+                    + {item}
+                  </span>
+                ))}
+                {change.removed.map(item => (
+                  <span key={`-${item}`} className="px-2 py-1 bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200 text-sm line-through">
+                    − {item}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {change.kind === 'text' && (
+              <div className="whitespace-pre-wrap">
+                {change.segments.map((segment, i) => (
+                  <span
+                    key={i}
+                    className={
+                      segment.type === 'added'
+                        ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
+                        : segment.type === 'removed'
+                          ? 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200 line-through'
+                          : undefined
+                    }
+                  >
+                    {segment.text}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+import { useEffect, useState } from 'react'
+import type { FollowKind } from '@/lib/follows'
+
+interface FollowButtonProps {
+  kind: FollowKind
+  targetId: string   // Collection ID or user DID
+  targetName: string // Collection name or username
+}
+
+/**
+ * Follow or unfollow a collection or a user, for the following feed
+ * Nothing is shown when logged out, or for the user themselves
+ */
+export default function FollowButton({ kind, targetId, targetName }: FollowButtonProps) {
+  const [peerId, setPeerId] = useState<string | null>(null)
+  const [following, setFollowing] = useState<boolean | null>(null)
+  const [working, setWorking] = useState(false)
+
+  useEffect(() => {
+    const userId = localStorage.getItem('userId')
+    setPeerId(userId)
+    if (!userId) return
+
+    const loadFollows = async () => {
+      try {
+        const response = await fetch(`/api/follows?peerId=${encodeURIComponent(userId)}`)
+        if (!response.ok) throw new Error('Failed to fetch follows')
+
+        const data = await response.json()
+        setFollowing(data.follows.some((follow: { kind: string, id: string }) => follow.kind === kind && follow.id === targetId))
+      } catch (error) {
+        console.error('Error fetching follows:', error)
+      }
+    }
+
+    loadFollows()
+  }, [kind, targetId])
+
+  const toggleFollow = async () => {
+    if (!peerId) return
+
+    setWorking(true)
+    try {
+      const response = following
+        ? await fetch(`/api/follows?${new URLSearchParams({ peerId, kind, targetId })}`, { method: 'DELETE' })
+        : await fetch('/api/follows', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ peerId, kind, targetId, name: targetName })
+        })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to update follow')
+      }
+
+      setFollowing(!following)
+    } catch (error) {
+      console.error('Error updating follow:', error)
+      alert(error instanceof Error ? error.message : 'Failed to update follow')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  if (!peerId || (kind === 'user' && targetId === peerId)) return null
+
+  return (
+    <button
+      onClick={toggleFollow}
+      disabled={working || following === null}
+      title={following ? `Stop following ${targetName}` : `Show ${targetName} in your following feed`}
+      className={`px-4 py-2 text-sm disabled:opacity-50 ${
+        following
+          ? 'border border-gray-900 dark:border-gray-100 text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-800'
+          : 'bg-gray-900 dark:bg-gray-100 text-white dark:text-black hover:bg-gray-700 dark:hover:bg-gray-300'
+      }`}
+    >
+      {following ? 'Following' : 'Follow'}
+    </button>
+  )
+}
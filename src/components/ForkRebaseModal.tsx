@@ -0,0 +1,173 @@
+'use client'
+import { useCallback, useEffect, useState } from 'react'
+import type { RebaseConflict, UpstreamStatus } from '@/lib/fork-rebase'
+import { fieldLabel, formatValue } from './FieldChangesList'
+
+interface ForkRebaseModalProps {
+  documentId: string
+  documentTitle: string
+  collectionId: string
+  onClose: () => void
+  onRebased: () => Promise<void>
+}
+
+interface RebasePreview {
+  upstream: UpstreamStatus
+  applied: string[]
+  conflicts: RebaseConflict[]
+}
+
+export default function ForkRebaseModal({ documentId, documentTitle, collectionId, onClose, onRebased }: ForkRebaseModalProps) {
+  const [preview, setPreview] = useState<RebasePreview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [rebasing, setRebasing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const requestRebase = useCallback(async (dryRun: boolean) => {
+    const userId = localStorage.getItem('userId')
+    if (!userId) {
+      throw new Error('User not authenticated')
+    }
+
+    const response = await fetch('/api/documents/p2p/rebase', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ documentId, collectionId, peerId: userId, dryRun })
+    })
+
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to rebase fork')
+    }
+    return data
+  }, [documentId, collectionId])
+
+  useEffect(() => {
+    const fetchPreview = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        setPreview(await requestRebase(true))
+      } catch (err) {
+        console.error('Error previewing rebase:', err)
+        setError(err instanceof Error ? err.message : 'Failed to preview rebase')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPreview()
+  }, [requestRebase])
+
+  const handleRebase = async () => {
+    setRebasing(true)
+    setError(null)
+    try {
+      await requestRebase(false)
+      await onRebased()
+    } catch (err) {
+      console.error('Error rebasing fork:', err)
+      setError(err instanceof Error ? err.message : 'Failed to rebase fork')
+    } finally {
+      setRebasing(false)
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-900 border-2 border-gray-900 dark:border-gray-100 max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="border-b border-gray-900 dark:border-gray-100 p-6 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+              Rebase Fork
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {documentTitle}
+              {preview && ` • Parent version ${preview.upstream.baseVersion} → ${preview.upstream.latestVersion}`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-900 dark:hover:text-white text-3xl font-bold leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Preview */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {loading && <p className="text-gray-500 dark:text-gray-400">Comparing with the parent document...</p>}
+
+          {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+          {preview && (
+            <>
+              <div>
+                <h3 className="font-semibold text-gray-900 dark:text-white mb-2">Updated from the parent</h3>
+                {preview.applied.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {preview.applied.map(field => (
+                      <span key={field} className="px-2 py-1 bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200 text-sm">
+                        {fieldLabel(field)}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No fields can be updated without conflicts</p>
+                )}
+              </div>
+
+              {preview.conflicts.length > 0 && (
+                <div>
+                  <h3 className="font-semibold text-gray-900 dark:text-white mb-1">Conflicts</h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                    You and the parent both changed these fields. Your values are kept, edit the fork to take the parent&apos;s.
+                  </p>
+                  <div className="space-y-4">
+                    {preview.conflicts.map(conflict => (
+                      <div key={conflict.field}>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                          {fieldLabel(conflict.field)}
+                        </label>
+                        <div className="p-3 bg-gray-50 dark:bg-gray-800 border border-red-600 dark:border-red-400 text-sm text-gray-900 dark:text-white space-y-1">
+                          <div><strong>Yours:</strong> {formatValue(conflict.fork)}</div>
+                          <div><strong>Parent:</strong> {formatValue(conflict.upstream)}</div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="border-t border-gray-900 dark:border-gray-100 p-6 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-900 dark:border-gray-100 text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-800 text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRebase}
+            disabled={!preview || rebasing}
+            className="px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-black hover:bg-gray-700 dark:hover:bg-gray-300 text-sm disabled:opacity-50"
+          >
+            {rebasing ? 'Rebasing...' : 'Rebase'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -11,6 +11,7 @@ interface P2PDocument {
   created: number
   parentDocumentId?: string
   childDocumentIds?: string[]
+  placeholder?: boolean // Document in a collection that couldn't be reached
 }
 
 interface TreeNode {
@@ -20,7 +21,9 @@ interface TreeNode {
     version: number
     uploadedBy: string
     documentType: string
+    collectionId: string
     isCurrent: boolean
+    isPlaceholder: boolean
   }
   children?: TreeNode[]
 }
@@ -29,7 +32,7 @@ interface ForkTreeViewProps {
   documentId: string
   collectionId: string
   onClose: () => void
-  onNodeClick?: (documentId: string) => void
+  onNodeClick?: (documentId: string, collectionId?: string) => void
 }
 
 export default function ForkTreeView({
@@ -58,10 +61,10 @@ export default function ForkTreeView({
         }
 
         const data = await response.json()
-        const { documents, rootId } = data
+        const { documents, documentCollections, rootId } = data
 
         // Build the tree structure
-        const tree = buildTree(documents, rootId)
+        const tree = buildTree(documents, documentCollections || {}, rootId)
         setTreeData(tree)
       } catch (err) {
         console.error('Error fetching fork tree:', err)
@@ -90,7 +93,11 @@ export default function ForkTreeView({
     return () => window.removeEventListener('resize', updateTranslate)
   }, [])
 
-  const buildTree = (documents: Record<string, P2PDocument>, rootId: string): TreeNode => {
+  const buildTree = (
+    documents: Record<string, P2PDocument>,
+    documentCollections: Record<string, string>,
+    rootId: string
+  ): TreeNode => {
     const buildNode = (docId: string): TreeNode => {
       const doc = documents[docId]
       if (!doc) {
@@ -101,7 +108,9 @@ export default function ForkTreeView({
             version: 0,
             uploadedBy: '',
             documentType: '',
-            isCurrent: false
+            collectionId: '',
+            isCurrent: false,
+            isPlaceholder: true
           }
         }
       }
@@ -110,6 +119,23 @@ export default function ForkTreeView({
         ?.map(childId => documents[childId] ? buildNode(childId) : null)
         .filter(Boolean) as TreeNode[] || []
 
+      // Unreachable branch, keep its place in the tree
+      if (doc.placeholder) {
+        return {
+          name: 'Unavailable document',
+          attributes: {
+            id: doc.id,
+            version: 0,
+            uploadedBy: '',
+            documentType: '',
+            collectionId: '',
+            isCurrent: false,
+            isPlaceholder: true
+          },
+          children: children.length > 0 ? children : undefined
+        }
+      }
+
       return {
         name: doc.title,
         attributes: {
@@ -117,7 +143,9 @@ export default function ForkTreeView({
           version: doc.version || 1,
           uploadedBy: doc.uploadedBy,
           documentType: doc.documentType,
-          isCurrent: doc.id === documentId
+          collectionId: documentCollections[doc.id] || '',
+          isCurrent: doc.id === documentId,
+          isPlaceholder: false
         },
         children: children.length > 0 ? children : undefined
       }
@@ -127,8 +155,8 @@ export default function ForkTreeView({
   }
 
   const handleNodeClick = (nodeData: any) => {
-    if (onNodeClick && nodeData.attributes?.id) {
-      onNodeClick(nodeData.attributes.id)
+    if (onNodeClick && nodeData.attributes?.id && !nodeData.attributes.isPlaceholder) {
+      onNodeClick(nodeData.attributes.id, nodeData.attributes.collectionId || undefined)
     }
   }
 
@@ -139,6 +167,42 @@ export default function ForkTreeView({
     const uploadedBy = nodeDatum.attributes?.uploadedBy || ''
     const docType = nodeDatum.attributes?.documentType || ''
 
+    if (nodeDatum.attributes?.isPlaceholder) {
+      return (
+        <g>
+          <rect
+            width="200"
+            height="80"
+            x="-100"
+            y="-40"
+            rx="4"
+            fill="#f3f4f6"
+            stroke="#9ca3af"
+            strokeWidth="1"
+            strokeDasharray="4 3"
+          />
+          <text
+            x="0"
+            y="-5"
+            textAnchor="middle"
+            fontSize="12"
+            fill="#6b7280"
+          >
+            {nodeDatum.name}
+          </text>
+          <text
+            x="0"
+            y="15"
+            textAnchor="middle"
+            fontSize="9"
+            fill="#9ca3af"
+          >
+            Collection not reachable
+          </text>
+        </g>
+      )
+    }
+
     return (
       <g>
         {/* Node background */}
@@ -284,6 +348,10 @@ export default function ForkTreeView({
               <div className="w-4 h-4 border border-gray-300 bg-white rounded"></div>
               <span>Other Versions</span>
             </div>
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-4 border border-dashed border-gray-400 bg-gray-100 rounded"></div>
+              <span>Unavailable</span>
+            </div>
             <div className="flex items-center gap-2">
               <span>📝 Quote</span>
               <span>🔗 Link</span>
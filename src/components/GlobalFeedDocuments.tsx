@@ -1,9 +1,19 @@
 'use client'
 import { useState, useEffect, useRef, useCallback } from 'react'
+import Link from 'next/link'
 import DocumentEditModal from './DocumentEditModal'
 import DocumentForkModal from './DocumentForkModal'
 import DocumentVersionBrowser from './DocumentVersionBrowser'
 import ForkTreeView from './ForkTreeView'
+import ForkRebaseModal from './ForkRebaseModal'
+import CiteButton from './CiteButton'
+import SearchFacets from './SearchFacets'
+import type { UpstreamStatus } from '@/lib/fork-rebase'
+import type { FollowReason } from '@/lib/follows'
+import { HIGHLIGHT_END, HIGHLIGHT_START } from '@/lib/search-index'
+import type { FacetBucket, FacetName, SearchFacets as Facets } from '@/lib/search-facets'
+import { normalizeText } from '@/lib/text-analysis'
+import { documentDetailFields, documentKeywords, imageFileInfo } from '@/lib/document-display'
 
 interface P2PDocument {
   id: string
@@ -46,28 +56,76 @@ interface FeedItem {
   collectionId: string
   ownerUsername: string
   ownerDid: string
+  upstream?: UpstreamStatus // Set on forks whose parent is in the feed
+  reason?: FollowReason // Set in the following feed
+  // Set by full-text search
+  score?: number
+  highlights?: string[]
+}
+
+// Advanced search fields, sent as separate parameters to the search API
+export interface CitationSearch {
+  author: string
+  publisher: string
+  yearFrom: string
+  yearTo: string
+  isbn: string
+}
+
+export interface FeedFilters {
+  types: string[]
+  keywords: string[]
+  title: string
+  collections: string[] // Collection IDs
+  owners: string[]      // Owner DIDs
+  citation: CitationSearch
+}
+
+/**
+ * /api/feed/search parameters for the filters, empty when no filter is set
+ */
+export const searchParamsFor = (filters: FeedFilters): Record<string, string> => {
+  const params: Record<string, string> = {}
+  if (filters.title) params.title = filters.title
+  if (filters.keywords.length > 0) params.keywords = filters.keywords.join(',')
+  if (filters.types.length > 0) params.type = filters.types.join(',')
+  if (filters.collections.length > 0) params.collection = filters.collections.join(',')
+  if (filters.owners.length > 0) params.owner = filters.owners.join(',')
+  Object.entries(filters.citation)
+    .filter(([, value]) => value.trim())
+    .forEach(([name, value]) => { params[name] = value.trim() })
+  return params
 }
 
 interface GlobalFeedDocumentsProps {
-  filters: {
-    types: string[]
-    keywords: string[]
-    title: string
+  filters: FeedFilters
+  onRefine?: (facet: FacetName, bucket: FacetBucket) => void // Shows facets when set
+  following?: boolean // Only documents from followed collections and users, filters aside
+}
+
+// What brought a document into the following feed
+const followReasonLabel = (reason: FollowReason): string => {
+  switch (reason.type) {
+    case 'collection': return `In ${reason.collectionName}, which you follow`
+    case 'publish': return `Published by ${reason.username}`
+    case 'fork': return `Forked by ${reason.username}`
   }
 }
 
-export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProps) {
+export default function GlobalFeedDocuments({ filters, onRefine, following = false }: GlobalFeedDocumentsProps) {
   const [feedItems, setFeedItems] = useState<FeedItem[]>([])
   const [loading, setLoading] = useState(true)
   const [loadingMore, setLoadingMore] = useState(false)
   const [hasMore, setHasMore] = useState(true)
-  const [offset, setOffset] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
   const [totalResults, setTotalResults] = useState(0)
+  const [facets, setFacets] = useState<Facets | null>(null)
   const [selectedDocument, setSelectedDocument] = useState<FeedItem | null>(null)
   const [editingDocument, setEditingDocument] = useState<FeedItem | null>(null)
   const [forkingDocument, setForkingDocument] = useState<FeedItem | null>(null)
   const [viewingHistory, setViewingHistory] = useState<FeedItem | null>(null)
   const [viewingForkTree, setViewingForkTree] = useState<FeedItem | null>(null)
+  const [rebasingDocument, setRebasingDocument] = useState<FeedItem | null>(null)
 
   // IPFS content cache: documentId -> content (base64 for images, text for quotes/links)
   const [ipfsContent, setIpfsContent] = useState<Record<string, string>>({})
@@ -113,8 +171,9 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
     }
   }, [ipfsContent])
 
-  // Fetch feed items
-  const fetchFeedItems = useCallback(async (currentOffset: number, append = false) => {
+  // Fetch feed items, the first page or the page after a cursor
+  const fetchFeedItems = useCallback(async (cursor: string | null = null) => {
+    const append = cursor !== null
     try {
       if (append) {
         setLoadingMore(true)
@@ -123,23 +182,19 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
       }
 
       // Build query params
-      const params = new URLSearchParams({
-        limit: limit.toString(),
-        offset: currentOffset.toString()
-      })
+      const params = new URLSearchParams({ limit: limit.toString() })
+      if (cursor) params.set('cursor', cursor)
 
       // Check if we have any active filters
-      const hasFilters = filters.title || filters.keywords.length > 0 || filters.types.length > 0
+      const filterParams = following ? {} : searchParamsFor(filters)
+      const hasFilters = Object.keys(filterParams).length > 0
 
       // Add search filters if active
-      if (hasFilters) {
-        if (filters.title) params.append('title', filters.title)
-        if (filters.keywords.length > 0) params.append('keywords', filters.keywords.join(','))
-        if (filters.types.length > 0) params.append('type', filters.types.join(','))
-      }
+      Object.entries(filterParams).forEach(([name, value]) => params.append(name, value))
+      if (following) params.set('peerId', localStorage.getItem('userId') || '')
 
       // Use search API if filters are active, otherwise use regular feed API
-      const endpoint = hasFilters ? '/api/feed/search' : '/api/feed'
+      const endpoint = following ? '/api/feed/following' : hasFilters ? '/api/feed/search' : '/api/feed'
       const response = await fetch(`${endpoint}?${params}`)
       if (!response.ok) throw new Error('Failed to fetch feed')
 
@@ -156,20 +211,38 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
       }
 
       setHasMore(data.hasMore)
+      setNextCursor(data.nextCursor || null)
       setTotalResults(total)
-      setOffset(currentOffset)
+
+      // Search results come with facets, the unfiltered feed asks the search API for them
+      if (!append && onRefine && !following) {
+        if (data.facets) {
+          setFacets(data.facets)
+        } else {
+          const facetsResponse = await fetch('/api/feed/search?limit=0')
+          if (facetsResponse.ok) setFacets((await facetsResponse.json()).facets)
+        }
+      }
     } catch (error) {
       console.error('Error fetching feed:', error)
     } finally {
       setLoading(false)
       setLoadingMore(false)
     }
-  }, [filters])
+  }, [filters, onRefine, following])
 
   // Trigger search when filters change
   useEffect(() => {
-    fetchFeedItems(0)
-  }, [filters.types.join(','), filters.keywords.join(','), filters.title, fetchFeedItems])
+    fetchFeedItems()
+  }, [
+    filters.types.join(','),
+    filters.keywords.join(','),
+    filters.title,
+    filters.collections.join(','),
+    filters.owners.join(','),
+    JSON.stringify(filters.citation),
+    fetchFeedItems
+  ])
 
   // Fetch IPFS content for all documents when feed items change
   useEffect(() => {
@@ -186,8 +259,8 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
   useEffect(() => {
     const observer = new IntersectionObserver(
       entries => {
-        if (entries[0].isIntersecting && hasMore && !loadingMore && !loading) {
-          fetchFeedItems(offset + limit, true)
+        if (entries[0].isIntersecting && hasMore && nextCursor && !loadingMore && !loading) {
+          fetchFeedItems(nextCursor)
         }
       },
       { threshold: 0.1 }
@@ -203,16 +276,7 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
         observer.unobserve(currentTarget)
       }
     }
-  }, [hasMore, loadingMore, loading, offset, fetchFeedItems])
-
-  // Format file size
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes'
-    const k = 1024
-    const sizes = ['Bytes', 'KB', 'MB', 'GB']
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i]
-  }
+  }, [hasMore, nextCursor, loadingMore, loading, fetchFeedItems])
 
   // Format date
   const formatDate = (timestamp: number): string => {
@@ -227,6 +291,59 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
     return date.toLocaleDateString()
   }
 
+  // Search snippet with the matched words marked, rendered as text
+  const renderHighlight = (snippet: string) =>
+    snippet.split(HIGHLIGHT_START).map((part, i) => {
+      if (i === 0) return part
+      const [match, rest] = part.split(HIGHLIGHT_END)
+      return (
+        <span key={i}>
+          <mark className="bg-yellow-200 dark:bg-yellow-700 text-gray-900 dark:text-white">{match}</mark>
+          {rest}
+        </span>
+      )
+    })
+
+  // Labelled details and keywords of a document in the detail modal
+  const renderDetailFields = (document: P2PDocument) => {
+    const keywords = documentKeywords(document)
+    return (
+      <div className="space-y-2">
+        {documentDetailFields(document).map(field => (
+          <div key={field.label}>
+            <span className="font-medium text-gray-700 dark:text-gray-300">{field.label}: </span>
+            {field.href !== undefined ? (
+              <a
+                href={field.href}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 dark:text-blue-400 hover:underline break-all"
+              >
+                {field.value}
+              </a>
+            ) : (
+              <span className={`text-gray-900 dark:text-white${field.mono ? ' font-mono text-sm break-all' : ''}`}>
+                {field.value}
+              </span>
+            )}
+          </div>
+        ))}
+        {keywords.length > 0 && (
+          <div>
+            <span className="font-medium text-gray-700 dark:text-gray-300">Keywords: </span>
+            <div className="flex flex-wrap gap-2 mt-1">
+              {keywords.map((keyword, i) => (
+                <span key={i} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs">
+                  {keyword}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    )
+  }
+
   const handleEditDocument = (item: FeedItem, e: React.MouseEvent) => {
     e.stopPropagation()
     setEditingDocument(item)
@@ -277,7 +394,7 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
       setForkingDocument(null)
 
       // Refresh the feed to show the new forked document
-      await fetchFeedItems(0)
+      await fetchFeedItems()
 
     } catch (error) {
       console.error('Error forking document:', error)
@@ -310,7 +427,11 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
         throw new Error(error.error || 'Failed to add document to collection')
       }
 
-      alert('Document added to your collection!')
+      const data = await response.json()
+      const duplicateTitles = data.possibleDuplicates.map((match: any) => `- ${match.item.document.title}`)
+      alert(duplicateTitles.length > 0
+        ? `Document added to your collection!\n\nYour collection may already have it as:\n${duplicateTitles.join('\n')}`
+        : 'Document added to your collection!')
       setSelectedDocument(null)
 
     } catch (error) {
@@ -348,15 +469,37 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
     }
 
     // Refresh the feed to show updated document
-    await fetchFeedItems(0)
+    await fetchFeedItems()
     setEditingDocument(null)
   }
 
+  const handleRebased = async () => {
+    // Refresh the feed to show the rebased fork
+    await fetchFeedItems()
+    setRebasingDocument(null)
+  }
 
-  const hasActiveFilters = filters.title || filters.keywords.length > 0 || filters.types.length > 0
+  const hasActiveFilters = Object.keys(searchParamsFor(filters)).length > 0
+
+  // Whether a facet bucket is one of the current filters
+  const isFacetSelected = (facet: FacetName, bucket: FacetBucket): boolean => {
+    switch (facet) {
+      case 'documentType': return filters.types.includes(bucket.value)
+      case 'keywords': return filters.keywords.some(keyword => normalizeText(keyword) === bucket.value)
+      case 'authors': return filters.citation.author === bucket.value
+      case 'collections': return filters.collections.includes(bucket.value)
+      case 'owners': return filters.owners.includes(bucket.value)
+      case 'years': return filters.citation.yearFrom === bucket.value && filters.citation.yearTo === bucket.value
+    }
+  }
 
   return (
     <>
+      {/* Facets - counts per type, keyword, author, collection, owner and year */}
+      {onRefine && facets && (
+        <SearchFacets facets={facets} isSelected={isFacetSelected} onSelect={onRefine} />
+      )}
+
       {/* Show loading indicator when searching (without blocking the view) */}
       {loading && feedItems.length > 0 && (
         <div className="mb-4 text-center">
@@ -374,7 +517,14 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
       {/* No results message */}
       {!loading && feedItems.length === 0 && (
         <div className="bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 p-8 text-center">
-          {hasActiveFilters ? (
+          {following ? (
+            <>
+              <p className="text-gray-500 dark:text-gray-400">Nothing from the collections and users you follow yet</p>
+              <p className="text-sm text-gray-400 dark:text-gray-500 mt-2">
+                Follow collections and users from their pages to see their documents here
+              </p>
+            </>
+          ) : hasActiveFilters ? (
             <>
               <p className="text-gray-500 dark:text-gray-400 text-lg mb-2">No results found</p>
               <p className="text-sm text-gray-400 dark:text-gray-500">
@@ -448,26 +598,52 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
                 <h3 className="font-semibold text-gray-900 dark:text-white mb-1 line-clamp-1">
                   {item.document.title}
                 </h3>
-                {(item.document.mimeType || item.document.contentType) && (item.document.size || item.document.contentSize) && (
+                {imageFileInfo(item.document) && (
                   <p className="text-xs text-gray-500 dark:text-gray-400">
-                    {item.document.mimeType || item.document.contentType} • {formatFileSize(item.document.size || item.document.contentSize || 0)}
+                    {imageFileInfo(item.document)}
                   </p>
                 )}
               </div>
             )}
 
+            {/* Where the search matched */}
+            {item.highlights && item.highlights.length > 0 && (
+              <p className="mt-3 text-xs text-gray-600 dark:text-gray-400 line-clamp-2">
+                {renderHighlight(item.highlights[0])}
+              </p>
+            )}
+
+            {/* Parent updated since the fork was made */}
+            {item.upstream && item.upstream.newerVersions > 0 && (
+              <span className="inline-block mt-3 px-2 py-1 text-xs bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200">
+                Parent has {item.upstream.newerVersions} newer version{item.upstream.newerVersions !== 1 ? 's' : ''}
+              </span>
+            )}
+
+            {/* Why it's in the following feed */}
+            {item.reason && (
+              <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">{followReasonLabel(item.reason)}</p>
+            )}
+
             {/* Collection and user info */}
             <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
               <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
                 <div>
-                  <p className="font-medium text-gray-700 dark:text-gray-300">
+                  <Link
+                    href={`/profile?${new URLSearchParams({ user: item.ownerDid, name: item.ownerUsername })}`}
+                    onClick={e => e.stopPropagation()}
+                    className="block font-medium text-gray-700 dark:text-gray-300 hover:underline"
+                  >
                     {item.ownerUsername}
-                  </p>
+                  </Link>
                   <p className="text-gray-500 dark:text-gray-400">
                     {item.collectionName}
                   </p>
                 </div>
-                <p>{formatDate(item.document.created)}</p>
+                <div className="flex flex-col items-end gap-1">
+                  <p>{formatDate(item.document.created)}</p>
+                  <CiteButton document={item.document} />
+                </div>
               </div>
             </div>
           </div>
@@ -553,6 +729,19 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
                   >
                     Fork
                   </button>
+                  {selectedDocument.upstream && selectedDocument.upstream.newerVersions > 0 &&
+                    selectedDocument.document.uploadedBy === localStorage.getItem('userId') && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        setRebasingDocument(selectedDocument)
+                        setSelectedDocument(null)
+                      }}
+                      className="px-4 py-2 border border-gray-900 dark:border-gray-100 text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-800 text-sm"
+                    >
+                      Rebase
+                    </button>
+                  )}
                   {selectedDocument.document.uploadedBy === localStorage.getItem('userId') && (
                     <button
                       onClick={(e) => {
@@ -585,50 +774,7 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
                     </p>
                   </div>
 
-                  <div className="space-y-2">
-                    {selectedDocument.document.metadata.title && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Source: </span>
-                        <span className="text-gray-900 dark:text-white">{selectedDocument.document.metadata.title}</span>
-                      </div>
-                    )}
-                    {selectedDocument.document.metadata.publisher && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Publisher: </span>
-                        <span className="text-gray-900 dark:text-white">{selectedDocument.document.metadata.publisher}</span>
-                      </div>
-                    )}
-                    {selectedDocument.document.metadata.year && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Year: </span>
-                        <span className="text-gray-900 dark:text-white">{selectedDocument.document.metadata.year}</span>
-                      </div>
-                    )}
-                    {selectedDocument.document.metadata.isbn && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">ISBN: </span>
-                        <span className="text-gray-900 dark:text-white font-mono text-sm">{selectedDocument.document.metadata.isbn}</span>
-                      </div>
-                    )}
-                    {selectedDocument.document.metadata.pageNumbers && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Pages: </span>
-                        <span className="text-gray-900 dark:text-white">{selectedDocument.document.metadata.pageNumbers}</span>
-                      </div>
-                    )}
-                    {selectedDocument.document.metadata.keywords && selectedDocument.document.metadata.keywords.length > 0 && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Keywords: </span>
-                        <div className="flex flex-wrap gap-2 mt-1">
-                          {selectedDocument.document.metadata.keywords.map((keyword: string, i: number) => (
-                            <span key={i} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs">
-                              {keyword}
-                            </span>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-                  </div>
+                  {renderDetailFields(selectedDocument.document)}
                 </div>
               )}
 
@@ -640,43 +786,7 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
                     </p>
                   )}
 
-                  <div className="space-y-2">
-                    <div>
-                      <span className="font-medium text-gray-700 dark:text-gray-300">URL: </span>
-                      <a
-                        href={selectedDocument.document.metadata.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-blue-600 dark:text-blue-400 hover:underline break-all"
-                      >
-                        {selectedDocument.document.metadata.url}
-                      </a>
-                    </div>
-                    {selectedDocument.document.metadata.author && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Author: </span>
-                        <span className="text-gray-900 dark:text-white">{selectedDocument.document.metadata.author}</span>
-                      </div>
-                    )}
-                    {selectedDocument.document.metadata.siteName && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Site: </span>
-                        <span className="text-gray-900 dark:text-white">{selectedDocument.document.metadata.siteName}</span>
-                      </div>
-                    )}
-                    {selectedDocument.document.metadata.keywords && selectedDocument.document.metadata.keywords.length > 0 && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Keywords: </span>
-                        <div className="flex flex-wrap gap-2 mt-1">
-                          {selectedDocument.document.metadata.keywords.map((keyword: string, i: number) => (
-                            <span key={i} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs">
-                              {keyword}
-                            </span>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-                  </div>
+                  {renderDetailFields(selectedDocument.document)}
                 </div>
               )}
 
@@ -700,64 +810,7 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
                     </p>
                   )}
 
-                  <div className="space-y-2">
-                    {(selectedDocument.document.ipfsCID || selectedDocument.document.ipfsHash) && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">IPFS CID: </span>
-                        <span className="text-gray-900 dark:text-white font-mono text-sm break-all">
-                          {selectedDocument.document.ipfsCID || selectedDocument.document.ipfsHash}
-                        </span>
-                      </div>
-                    )}
-                    {selectedDocument.document.filename && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Filename: </span>
-                        <span className="text-gray-900 dark:text-white">{selectedDocument.document.filename}</span>
-                      </div>
-                    )}
-                    {selectedDocument.document.size && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Size: </span>
-                        <span className="text-gray-900 dark:text-white">{formatFileSize(selectedDocument.document.size)}</span>
-                      </div>
-                    )}
-                    {selectedDocument.document.mimeType && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Type: </span>
-                        <span className="text-gray-900 dark:text-white">{selectedDocument.document.mimeType}</span>
-                      </div>
-                    )}
-                    {selectedDocument.document.metadata?.creator && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Creator: </span>
-                        <span className="text-gray-900 dark:text-white">{selectedDocument.document.metadata.creator}</span>
-                      </div>
-                    )}
-                    {selectedDocument.document.metadata?.source && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Source: </span>
-                        <span className="text-gray-900 dark:text-white">{selectedDocument.document.metadata.source}</span>
-                      </div>
-                    )}
-                    {selectedDocument.document.metadata?.date && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Date: </span>
-                        <span className="text-gray-900 dark:text-white">{selectedDocument.document.metadata.date}</span>
-                      </div>
-                    )}
-                    {selectedDocument.document.metadata?.keywords && selectedDocument.document.metadata.keywords.length > 0 && (
-                      <div>
-                        <span className="font-medium text-gray-700 dark:text-gray-300">Keywords: </span>
-                        <div className="flex flex-wrap gap-2 mt-1">
-                          {selectedDocument.document.metadata.keywords.map((keyword: string, i: number) => (
-                            <span key={i} className="px-2 py-1 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs">
-                              {keyword}
-                            </span>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-                  </div>
+                  {renderDetailFields(selectedDocument.document)}
                 </div>
               )}
 
@@ -834,6 +887,7 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
       {viewingHistory && (
         <DocumentVersionBrowser
           document={viewingHistory.document}
+          collectionId={viewingHistory.collectionId}
           onClose={() => setViewingHistory(null)}
         />
       )}
@@ -850,6 +904,17 @@ export default function GlobalFeedDocuments({ filters }: GlobalFeedDocumentsProp
           }}
         />
       )}
+
+      {/* Rebase onto the parent's newer versions */}
+      {rebasingDocument && (
+        <ForkRebaseModal
+          documentId={rebasingDocument.document.id}
+          documentTitle={rebasingDocument.document.title}
+          collectionId={rebasingDocument.collectionId}
+          onClose={() => setRebasingDocument(null)}
+          onRebased={handleRebased}
+        />
+      )}
     </>
   )
 }
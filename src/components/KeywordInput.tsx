@@ -0,0 +1,129 @@
+'use client'
+import { useEffect, useState } from 'react'
+import type { KeywordUsage } from '@/lib/keywords'
+
+interface KeywordInputProps {
+  value: string[]
+  onChange: (keywords: string[]) => void
+  className?: string
+  placeholder?: string
+}
+
+const SUGGESTION_LIMIT = 8
+const SUGGESTION_DELAY = 200 // ms after the last keystroke
+
+const parseKeywords = (text: string): string[] =>
+  text.split(',').map(k => k.trim()).filter(k => k.length > 0)
+
+/**
+ * Comma-separated keywords, suggesting keywords already in use for the one being typed
+ */
+export default function KeywordInput({ value, onChange, className, placeholder }: KeywordInputProps) {
+  const [text, setText] = useState(value.join(', '))
+  const [suggestions, setSuggestions] = useState<KeywordUsage[]>([])
+  const [highlighted, setHighlighted] = useState(0)
+  const [focused, setFocused] = useState(false)
+
+  // Keywords set from outside, e.g. a form reset
+  useEffect(() => {
+    if (parseKeywords(text).join('\n') !== value.join('\n')) {
+      setText(value.join(', '))
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [value])
+
+  const typing = text.split(',').pop()!.trim()
+
+  useEffect(() => {
+    if (!focused || !typing) {
+      setSuggestions([])
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/keywords?q=${encodeURIComponent(typing)}&limit=${SUGGESTION_LIMIT}`)
+        if (!response.ok) return
+
+        const data = await response.json()
+        const chosen = new Set(parseKeywords(text).slice(0, -1).map(k => k.toLowerCase()))
+        setSuggestions((data.keywords as KeywordUsage[]).filter(({ label }) => !chosen.has(label.toLowerCase())))
+        setHighlighted(0)
+      } catch (error) {
+        console.error('Error fetching keyword suggestions:', error)
+      }
+    }, SUGGESTION_DELAY)
+
+    return () => clearTimeout(timer)
+  }, [typing, focused, text])
+
+  const update = (newText: string) => {
+    setText(newText)
+    onChange(parseKeywords(newText))
+  }
+
+  // Replace the keyword being typed with the suggestion
+  const choose = (suggestion: KeywordUsage) => {
+    const previous = text.split(',').slice(0, -1).map(k => k.trim()).filter(k => k.length > 0)
+    update([...previous, suggestion.label].join(', ') + ', ')
+    setSuggestions([])
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setHighlighted((highlighted + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      choose(suggestions[highlighted])
+    } else if (e.key === 'Escape') {
+      setSuggestions([])
+    }
+  }
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={text}
+        onChange={e => update(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setFocused(true)}
+        onBlur={() => {
+          setFocused(false)
+          setText(value.join(', '))
+        }}
+        className={className}
+        placeholder={placeholder}
+        autoComplete="off"
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 left-0 right-0 mt-1 max-h-60 overflow-y-auto bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 shadow-lg">
+          {suggestions.map((suggestion, i) => (
+            <li
+              key={suggestion.key}
+              // Chosen before the input loses focus
+              onMouseDown={e => {
+                e.preventDefault()
+                choose(suggestion)
+              }}
+              className={`flex justify-between px-3 py-1.5 text-sm cursor-pointer ${
+                i === highlighted
+                  ? 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white'
+                  : 'text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <span>{suggestion.label}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">{suggestion.count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+'use client'
+import { useState } from 'react'
+import type { MergeRequest } from '@/lib/merge-requests'
+import FieldChangesList from './FieldChangesList'
+
+interface MergeRequestsModalProps {
+  documentTitle: string
+  mergeRequests: MergeRequest[]
+  onClose: () => void
+  onResolved: () => Promise<void> // Reload documents and merge requests
+}
+
+export default function MergeRequestsModal({ documentTitle, mergeRequests, onClose, onResolved }: MergeRequestsModalProps) {
+  // Accepted fields per merge request, every field to start with
+  const [selectedFields, setSelectedFields] = useState<Record<string, string[]>>(() =>
+    Object.fromEntries(mergeRequests.map(request => [request.id, request.changes.map(change => change.field)]))
+  )
+  const [resolving, setResolving] = useState<string | null>(null)
+
+  const toggleField = (requestId: string, field: string) => {
+    const fields = selectedFields[requestId] || []
+    setSelectedFields({
+      ...selectedFields,
+      [requestId]: fields.includes(field) ? fields.filter(f => f !== field) : [...fields, field]
+    })
+  }
+
+  const resolve = async (request: MergeRequest, action: 'accept' | 'reject', fields?: string[]) => {
+    const userId = localStorage.getItem('userId')
+    if (!userId) {
+      alert('Please log in to review merge requests')
+      return
+    }
+
+    let comment: string | null = ''
+    if (action === 'reject') {
+      comment = prompt('Why are you rejecting these changes?')
+      if (!comment) return
+    }
+
+    setResolving(request.id)
+    try {
+      const response = await fetch(`/api/documents/p2p/merge-requests/${request.id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ peerId: userId, action, fields, comment })
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to resolve merge request')
+      }
+
+      await onResolved()
+    } catch (error) {
+      console.error('Merge request error:', error)
+      alert('Merge request failed: ' + (error as Error).message)
+    } finally {
+      setResolving(null)
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-900 border-2 border-gray-900 dark:border-gray-100 max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="border-b border-gray-900 dark:border-gray-100 p-6 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+              Merge Requests
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {documentTitle} • {mergeRequests.length} open
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-900 dark:hover:text-white text-3xl font-bold leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Requests */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-8">
+          {mergeRequests.length === 0 && (
+            <p className="text-gray-500 dark:text-gray-400">No open merge requests</p>
+          )}
+
+          {mergeRequests.map(request => {
+            const fields = selectedFields[request.id] || []
+            const allSelected = fields.length === request.changes.length
+
+            return (
+              <div key={request.id} className="border border-gray-300 dark:border-gray-700 p-4">
+                <div className="mb-4">
+                  <p className="text-sm text-gray-900 dark:text-white">{request.comment}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    By {request.proposedBy.slice(0, 16)}... • {new Date(request.created).toLocaleString()} • Changes against version {request.baseVersion}
+                  </p>
+                </div>
+
+                <FieldChangesList
+                  changes={request.changes}
+                  selectedFields={fields}
+                  onToggleField={field => toggleField(request.id, field)}
+                />
+
+                <div className="flex justify-end gap-2 mt-4">
+                  <button
+                    onClick={() => resolve(request, 'reject')}
+                    disabled={resolving !== null}
+                    className="px-4 py-2 border border-gray-900 dark:border-gray-100 text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-800 text-sm disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                  <button
+                    onClick={() => resolve(request, 'accept', fields)}
+                    disabled={resolving !== null || fields.length === 0}
+                    className="px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-black hover:bg-gray-700 dark:hover:bg-gray-300 text-sm disabled:opacity-50"
+                  >
+                    {resolving === request.id
+                      ? 'Merging...'
+                      : allSelected ? 'Accept all' : `Accept ${fields.length} field${fields.length !== 1 ? 's' : ''}`}
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
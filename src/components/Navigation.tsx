@@ -3,6 +3,7 @@ import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
 import { useState, useEffect } from 'react'
 import { useTheme } from '@/contexts/ThemeContext'
+import SavedSearchNotifications from './SavedSearchNotifications'
 
 export default function Navigation() {
   const pathname = usePathname()
@@ -26,6 +27,7 @@ export default function Navigation() {
   const navItems = [
     { href: '/feed', label: 'Global Feed' },
     { href: '/collections', label: 'Collections' },
+    { href: '/keywords', label: 'Keywords' },
     { href: '/chat', label: 'Chat' },
     { href: '/profile', label: 'Profile' },
   ]
@@ -57,6 +59,7 @@ export default function Navigation() {
             </div>
           </div>
           <div className="flex items-center space-x-2">
+            <SavedSearchNotifications />
             <button
               onClick={toggleTheme}
               className="text-sm text-black dark:text-white hover:bg-gray-100 dark:hover:bg-gray-900 px-3 py-2 transition-colors"
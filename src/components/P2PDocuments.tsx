@@ -4,6 +4,7 @@
 import { useState, useEffect } from 'react'
 import { useP2P } from '@/contexts/P2PContext'
 import type { CollectionEntry } from '@/lib/p2p-collections'
+import KeywordInput from './KeywordInput'
 
 interface P2PDocumentsProps {
   userId: string
@@ -634,10 +635,9 @@ export default function P2PDocuments({ userId, collectionId }: P2PDocumentsProps
                   </div>
                   <div>
                     <label className="block text-sm font-medium mb-1">Keywords (comma-separated)</label>
-                    <input
-                      type="text"
-                      value={uploadForm.keywords.join(', ')}
-                      onChange={(e) => setUploadForm({ ...uploadForm, keywords: e.target.value.split(',').map(k => k.trim()).filter(k => k) })}
+                    <KeywordInput
+                      value={uploadForm.keywords}
+                      onChange={keywords => setUploadForm({ ...uploadForm, keywords })}
                       className="w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
                       placeholder="keyword1, keyword2, keyword3"
                     />
@@ -692,10 +692,9 @@ export default function P2PDocuments({ userId, collectionId }: P2PDocumentsProps
                   </div>
                   <div>
                     <label className="block text-sm font-medium mb-1">Keywords (comma-separated)</label>
-                    <input
-                      type="text"
-                      value={uploadForm.keywords.join(', ')}
-                      onChange={(e) => setUploadForm({ ...uploadForm, keywords: e.target.value.split(',').map(k => k.trim()).filter(k => k) })}
+                    <KeywordInput
+                      value={uploadForm.keywords}
+                      onChange={keywords => setUploadForm({ ...uploadForm, keywords })}
                       className="w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
                       placeholder="keyword1, keyword2, keyword3"
                     />
@@ -749,10 +748,9 @@ export default function P2PDocuments({ userId, collectionId }: P2PDocumentsProps
                   </div>
                   <div>
                     <label className="block text-sm font-medium mb-1">Keywords (comma-separated)</label>
-                    <input
-                      type="text"
-                      value={uploadForm.keywords.join(', ')}
-                      onChange={(e) => setUploadForm({ ...uploadForm, keywords: e.target.value.split(',').map(k => k.trim()).filter(k => k) })}
+                    <KeywordInput
+                      value={uploadForm.keywords}
+                      onChange={keywords => setUploadForm({ ...uploadForm, keywords })}
                       className="w-full px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
                       placeholder="keyword1, keyword2, keyword3"
                     />
@@ -3,6 +3,14 @@
 import { useState, useEffect } from 'react'
 import DocumentEditModal from './DocumentEditModal'
 import DocumentVersionBrowser from './DocumentVersionBrowser'
+import MergeRequestsModal from './MergeRequestsModal'
+import PossibleDuplicates from './PossibleDuplicates'
+import KeywordInput from './KeywordInput'
+import BibliographyImport from './BibliographyImport'
+import CiteButton from './CiteButton'
+import type { MergeRequest } from '@/lib/merge-requests'
+import type { DuplicateMatch } from '@/lib/duplicates'
+import { perceptualHashOf } from '@/lib/image-hash'
 
 interface P2PDocument {
   id: string
@@ -28,22 +36,28 @@ interface P2PDocument {
     changeComment: string
     previousMetadata: any
   }>
+  parentDocumentId?: string // Set on forks
 }
 
 interface P2PDocumentsApiProps {
   collectionId: string
+  asOf?: number | null // Show the collection as it was at this timestamp (read-only)
 }
 
-export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps) {
+export default function P2PDocumentsApi({ collectionId, asOf = null }: P2PDocumentsApiProps) {
   const [documents, setDocuments] = useState<P2PDocument[]>([])
   const [loading, setLoading] = useState(false)
   const [uploading, setUploading] = useState(false)
   const [showUpload, setShowUpload] = useState(false)
-  const [uploadStep, setUploadStep] = useState<'type' | 'form'>('type') // Two-step flow
+  const [uploadStep, setUploadStep] = useState<'type' | 'form' | 'import'>('type') // Two-step flow, or a bibliography import
   const [documentType, setDocumentType] = useState<'quote' | 'link' | 'image'>('quote')
   const [selectedDocument, setSelectedDocument] = useState<P2PDocument | null>(null)
   const [editingDocument, setEditingDocument] = useState<P2PDocument | null>(null)
   const [viewingHistory, setViewingHistory] = useState<P2PDocument | null>(null)
+  const [mergeRequests, setMergeRequests] = useState<MergeRequest[]>([]) // Open requests against this collection
+  const [reviewingMerges, setReviewingMerges] = useState<P2PDocument | null>(null)
+  const [uploadDuplicates, setUploadDuplicates] = useState<DuplicateMatch[]>([]) // Found before upload, shown until confirmed
+  const [documentDuplicates, setDocumentDuplicates] = useState<DuplicateMatch[]>([]) // Of the selected document
   const [uploadForm, setUploadForm] = useState({
     title: '',
     description: '',
@@ -71,13 +85,20 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
 
   useEffect(() => {
     loadDocuments()
-  }, [collectionId])
+    if (asOf === null) {
+      loadMergeRequests()
+    } else {
+      setMergeRequests([])
+    }
+  }, [collectionId, asOf])
 
   const loadDocuments = async () => {
     try {
       setLoading(true)
       const peerId = localStorage.getItem('userId') || ''
-      const url = `/api/documents/p2p?collectionId=${encodeURIComponent(collectionId)}&peerId=${encodeURIComponent(peerId)}`
+      const url = asOf !== null
+        ? `/api/collections/p2p/${encodeURIComponent(collectionId)}/at?timestamp=${asOf}`
+        : `/api/documents/p2p?collectionId=${encodeURIComponent(collectionId)}&peerId=${encodeURIComponent(peerId)}`
       const response = await fetch(url)
 
       if (response.ok) {
@@ -93,7 +114,90 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
     }
   }
 
-  const handleUpload = async () => {
+  const loadMergeRequests = async () => {
+    try {
+      const response = await fetch(`/api/documents/p2p/merge-requests?collectionId=${encodeURIComponent(collectionId)}&status=open`)
+
+      if (response.ok) {
+        const data = await response.json()
+        setMergeRequests(data.mergeRequests || [])
+      } else {
+        console.error('Failed to load merge requests:', await response.text())
+      }
+    } catch (error) {
+      console.error('Error loading merge requests:', error)
+    }
+  }
+
+  const openMergeRequestsFor = (doc: P2PDocument) =>
+    mergeRequests.filter(request => request.documentId === doc.id)
+
+  const handleProposeMerge = async (doc: P2PDocument) => {
+    const userId = localStorage.getItem('userId')
+    if (!userId) {
+      alert('Please log in to propose changes')
+      return
+    }
+
+    const comment = prompt('Describe the changes you are proposing to the original document:')
+    if (!comment) return
+
+    try {
+      const response = await fetch('/api/documents/p2p/merge-requests', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          forkDocumentId: doc.id,
+          forkCollectionId: collectionId,
+          peerId: userId,
+          comment
+        })
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        alert(`Merge request opened with ${data.mergeRequest.changes.length} changed field(s)`)
+      } else {
+        alert('Merge request failed: ' + data.error)
+      }
+    } catch (error) {
+      console.error('Merge request error:', error)
+      alert('Merge request failed: ' + (error as Error).message)
+    }
+  }
+
+  const handleMergeResolved = async () => {
+    setReviewingMerges(null)
+    await Promise.all([loadDocuments(), loadMergeRequests()])
+  }
+
+  // Look for possible duplicates of the selected document across all collections
+  useEffect(() => {
+    setDocumentDuplicates([])
+    if (!selectedDocument) return
+
+    let cancelled = false
+    fetch(`/api/documents/p2p/duplicates?documentId=${encodeURIComponent(selectedDocument.id)}`)
+      .then(response => response.ok ? response.json() : { duplicates: [] })
+      .then(data => {
+        if (!cancelled) setDocumentDuplicates(data.duplicates)
+      })
+      .catch(error => console.error('Error finding duplicates:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedDocument])
+
+  // A changed form has to be checked again
+  useEffect(() => {
+    setUploadDuplicates([])
+  }, [uploadForm, documentType])
+
+  // confirmed: the user has seen the possible duplicates and uploads anyway
+  const handleUpload = async (confirmed = false) => {
     // Validation based on document type
     if (!uploadForm.title) {
       alert('Please provide a title')
@@ -138,10 +242,18 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
     setUploading(true)
 
     try {
+      // Images are compared by a perceptual hash only the browser can work out
+      const perceptualHash = documentType === 'image' && uploadForm.file
+        ? await perceptualHashOf(uploadForm.file)
+        : null
+
       const formData = new FormData()
       if (uploadForm.file) {
         formData.append('file', uploadForm.file)
       }
+      if (perceptualHash) {
+        formData.append('perceptualHash', perceptualHash)
+      }
       formData.append('documentType', documentType)
       formData.append('title', uploadForm.title)
       formData.append('description', uploadForm.description || '')
@@ -187,6 +299,25 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
         formData.append('metadata', JSON.stringify(imageMetadata))
       }
 
+      if (!confirmed) {
+        const checkResponse = await fetch('/api/documents/p2p/duplicates', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            documentType,
+            metadata: JSON.parse(formData.get('metadata') as string),
+            perceptualHash
+          })
+        })
+        if (checkResponse.ok) {
+          const { duplicates } = await checkResponse.json()
+          if (duplicates.length > 0) {
+            setUploadDuplicates(duplicates)
+            return
+          }
+        }
+      }
+
       const response = await fetch('/api/documents/p2p', {
         method: 'POST',
         body: formData
@@ -219,6 +350,7 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
         })
         setUploadStep('type')
         setShowUpload(false)
+        setUploadDuplicates([])
         await loadDocuments()
       } else {
         const error = await response.json()
@@ -330,6 +462,37 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
     setEditingDocument(null)
   }
 
+  const handleRestoreVersion = async (version: number) => {
+    if (!viewingHistory) return
+
+    const userId = localStorage.getItem('userId')
+    if (!userId) {
+      throw new Error('User not authenticated')
+    }
+
+    const response = await fetch('/api/documents/p2p/edit', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        documentId: viewingHistory.id,
+        collectionId: collectionId,
+        peerId: userId,
+        revertToVersion: version,
+        documentType: viewingHistory.documentType
+      })
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to restore version')
+    }
+
+    setViewingHistory(null)
+    await loadDocuments()
+  }
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes'
     const k = 1024
@@ -349,16 +512,42 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
           <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
             Collection: {collectionId}
           </p>
+          {asOf !== null && (
+            <p className="text-sm text-amber-700 dark:text-amber-400 mt-1">
+              As of {new Date(asOf).toLocaleString()} (read-only)
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {documents.length > 0 && (
+            <select
+              value=""
+              onChange={e => {
+                if (e.target.value) {
+                  window.location.href = `/api/documents/p2p/citations?${new URLSearchParams({ collectionId, format: e.target.value, download: 'true' })}`
+                }
+              }}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-black text-gray-900 dark:text-white"
+            >
+              <option value="">Export citations</option>
+              <option value="bibtex">BibTeX</option>
+              <option value="ris">RIS</option>
+              <option value="csl-json">CSL-JSON</option>
+              <option value="iso690">ISO-690 references</option>
+            </select>
+          )}
+          {asOf === null && (
+            <button
+              onClick={() => setShowUpload(true)}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center"
+            >
+              <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+              </svg>
+              Upload to P2P
+            </button>
+          )}
         </div>
-        <button
-          onClick={() => setShowUpload(true)}
-          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center"
-        >
-          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-          </svg>
-          Upload to P2P
-        </button>
       </div>
 
       {/* Documents List */}
@@ -368,10 +557,16 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
           <p className="text-gray-500">Loading P2P documents...</p>
         </div>
       ) : documents.length === 0 ? (
-        <div className="text-center py-8 text-gray-500">
-          <p className="text-lg mb-2">No P2P documents yet</p>
-          <p className="text-sm">Upload your first document to the decentralized network</p>
-        </div>
+        asOf !== null ? (
+          <div className="text-center py-8 text-gray-500">
+            <p className="text-lg mb-2">No documents at this date</p>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            <p className="text-lg mb-2">No P2P documents yet</p>
+            <p className="text-sm">Upload your first document to the decentralized network</p>
+          </div>
+        )
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {documents.map((doc) => (
@@ -380,6 +575,11 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
               onClick={() => setSelectedDocument(doc)}
               className="border dark:border-gray-700 p-4 hover:border-gray-900 dark:hover:border-gray-100 transition-colors cursor-pointer bg-white dark:bg-gray-900"
             >
+              {openMergeRequestsFor(doc).length > 0 && (
+                <span className="inline-block mb-2 px-2 py-1 text-xs bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200">
+                  {openMergeRequestsFor(doc).length} merge request{openMergeRequestsFor(doc).length !== 1 ? 's' : ''}
+                </span>
+              )}
               {/* Quote */}
               {doc.documentType === 'quote' && (
                 <div>
@@ -422,6 +622,10 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
                   </p>
                 </div>
               )}
+
+              <div className="mt-3 flex justify-end">
+                <CiteButton document={doc} />
+              </div>
             </div>
           ))}
         </div>
@@ -474,6 +678,14 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
                   </button>
                 </div>
 
+                <button
+                  onClick={() => setUploadStep('import')}
+                  className="w-full mb-6 p-4 border border-dashed border-gray-300 dark:border-gray-600 hover:border-gray-900 dark:hover:border-gray-100 transition-colors text-left"
+                >
+                  <h4 className="font-semibold text-gray-900 dark:text-white mb-1">Import Bibliography</h4>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">Many quotes at once from a BibTeX, RIS or CSL-JSON file</p>
+                </button>
+
                 <div className="flex justify-end">
                   <button
                     onClick={() => {
@@ -488,6 +700,18 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
               </>
             )}
 
+            {/* Quotes from a reference manager export */}
+            {uploadStep === 'import' && (
+              <BibliographyImport
+                collectionId={collectionId}
+                onImported={loadDocuments}
+                onCancel={() => {
+                  setShowUpload(false)
+                  setUploadStep('type')
+                }}
+              />
+            )}
+
             {/* Step 2: Fill Form based on selected type */}
             {uploadStep === 'form' && (
               <>
@@ -574,10 +798,9 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
                       </div>
                       <div>
                         <label className="block text-sm font-medium mb-1">Keywords (comma-separated)</label>
-                        <input
-                          type="text"
-                          value={uploadForm.keywords.join(', ')}
-                          onChange={(e) => setUploadForm({ ...uploadForm, keywords: e.target.value.split(',').map(k => k.trim()).filter(k => k) })}
+                        <KeywordInput
+                          value={uploadForm.keywords}
+                          onChange={keywords => setUploadForm({ ...uploadForm, keywords })}
                           className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-900 dark:text-white"
                           placeholder="keyword1, keyword2"
                         />
@@ -620,10 +843,9 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
                       </div>
                       <div>
                         <label className="block text-sm font-medium mb-1">Keywords (comma-separated)</label>
-                        <input
-                          type="text"
-                          value={uploadForm.keywords.join(', ')}
-                          onChange={(e) => setUploadForm({ ...uploadForm, keywords: e.target.value.split(',').map(k => k.trim()).filter(k => k) })}
+                        <KeywordInput
+                          value={uploadForm.keywords}
+                          onChange={keywords => setUploadForm({ ...uploadForm, keywords })}
                           className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-900 dark:text-white"
                           placeholder="keyword1, keyword2"
                         />
@@ -665,10 +887,9 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
                       </div>
                       <div>
                         <label className="block text-sm font-medium mb-1">Keywords (comma-separated)</label>
-                        <input
-                          type="text"
-                          value={uploadForm.keywords.join(', ')}
-                          onChange={(e) => setUploadForm({ ...uploadForm, keywords: e.target.value.split(',').map(k => k.trim()).filter(k => k) })}
+                        <KeywordInput
+                          value={uploadForm.keywords}
+                          onChange={keywords => setUploadForm({ ...uploadForm, keywords })}
                           className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-900 dark:text-white"
                           placeholder="keyword1, keyword2"
                         />
@@ -677,11 +898,18 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
                   )}
                 </div>
 
+                {uploadDuplicates.length > 0 && (
+                  <div className="mt-6">
+                    <PossibleDuplicates duplicates={uploadDuplicates} title="This document may already exist" />
+                  </div>
+                )}
+
                 <div className="flex justify-end space-x-2 mt-6">
                   <button
                     onClick={() => {
                       setShowUpload(false)
                       setUploadStep('type')
+                      setUploadDuplicates([])
                     }}
                     className="px-4 py-2 border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800"
                     disabled={uploading}
@@ -689,11 +917,11 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
                     Cancel
                   </button>
                   <button
-                    onClick={handleUpload}
+                    onClick={() => handleUpload(uploadDuplicates.length > 0)}
                     disabled={uploading}
                     className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
                   >
-                    {uploading ? 'Adding...' : 'Add Document'}
+                    {uploading ? 'Adding...' : uploadDuplicates.length > 0 ? 'Add Anyway' : 'Add Document'}
                   </button>
                 </div>
               </>
@@ -721,15 +949,40 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
                     View History
                   </button>
                 )}
-                <button
-                  onClick={(e) => {
-                    handleEditDocument(selectedDocument, e)
-                    setSelectedDocument(null)
-                  }}
-                  className="px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-black hover:bg-gray-700 dark:hover:bg-gray-300 text-sm"
-                >
-                  Edit
-                </button>
+                {asOf === null && openMergeRequestsFor(selectedDocument).length > 0 && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setReviewingMerges(selectedDocument)
+                      setSelectedDocument(null)
+                    }}
+                    className="px-4 py-2 border border-gray-900 dark:border-gray-100 text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-800 text-sm"
+                  >
+                    Merge Requests ({openMergeRequestsFor(selectedDocument).length})
+                  </button>
+                )}
+                {asOf === null && selectedDocument.parentDocumentId && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleProposeMerge(selectedDocument)
+                    }}
+                    className="px-4 py-2 border border-gray-900 dark:border-gray-100 text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-800 text-sm"
+                  >
+                    Propose to Upstream
+                  </button>
+                )}
+                {asOf === null && (
+                  <button
+                    onClick={(e) => {
+                      handleEditDocument(selectedDocument, e)
+                      setSelectedDocument(null)
+                    }}
+                    className="px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-black hover:bg-gray-700 dark:hover:bg-gray-300 text-sm"
+                  >
+                    Edit
+                  </button>
+                )}
                 <button
                   onClick={() => setSelectedDocument(null)}
                   className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
@@ -842,6 +1095,12 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
               </div>
             )}
 
+            {documentDuplicates.length > 0 && (
+              <div className="mt-6">
+                <PossibleDuplicates duplicates={documentDuplicates} />
+              </div>
+            )}
+
             {/* Common Info */}
             <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
               <div className="grid grid-cols-2 gap-4 text-xs text-gray-500 dark:text-gray-400">
@@ -912,7 +1171,19 @@ export default function P2PDocumentsApi({ collectionId }: P2PDocumentsApiProps)
       {viewingHistory && (
         <DocumentVersionBrowser
           document={viewingHistory}
+          collectionId={collectionId}
           onClose={() => setViewingHistory(null)}
+          onRestore={asOf === null ? handleRestoreVersion : undefined}
+        />
+      )}
+
+      {/* Merge Requests */}
+      {reviewingMerges && (
+        <MergeRequestsModal
+          documentTitle={reviewingMerges.title}
+          mergeRequests={openMergeRequestsFor(reviewingMerges)}
+          onClose={() => setReviewingMerges(null)}
+          onResolved={handleMergeResolved}
         />
       )}
     </div>
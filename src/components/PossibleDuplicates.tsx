@@ -0,0 +1,36 @@
+'use client'
+import type { DuplicateMatch } from '@/lib/duplicates'
+
+interface PossibleDuplicatesProps {
+  duplicates: DuplicateMatch[]
+  title?: string
+}
+
+const KIND_LABELS: Record<DuplicateMatch['kind'], string> = {
+  text: 'similar quote text',
+  url: 'same URL',
+  image: 'similar image'
+}
+
+export default function PossibleDuplicates({ duplicates, title = 'Possible duplicates' }: PossibleDuplicatesProps) {
+  if (duplicates.length === 0) return null
+
+  return (
+    <div className="p-3 border border-yellow-400 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/20">
+      <h4 className="text-sm font-semibold text-yellow-900 dark:text-yellow-200 mb-2">
+        {title} ({duplicates.length})
+      </h4>
+      <ul className="space-y-1">
+        {duplicates.map(({ item, kind, similarity }) => (
+          <li key={`${item.collectionId}-${item.document.id}`} className="text-sm text-gray-800 dark:text-gray-200">
+            <span className="font-medium">{item.document.title}</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {' '}• {item.collectionName} • {item.owner} • {KIND_LABELS[kind]}
+              {similarity < 1 && ` (${Math.round(similarity * 100)}%)`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+'use client'
+import Link from 'next/link'
+import { useEffect, useRef, useState } from 'react'
+
+interface SavedSearchSummary {
+  id: string
+  name: string
+  newCount: number
+  latest: { id: string, title: string, created: number }[]
+}
+
+// How often saved searches are checked for new results
+const POLL_INTERVAL = 30000
+const TOAST_DURATION = 8000
+
+export default function SavedSearchNotifications() {
+  const [newCount, setNewCount] = useState(0)
+  const [toast, setToast] = useState<SavedSearchSummary[] | null>(null)
+  const previousCounts = useRef<Record<string, number> | null>(null)
+
+  useEffect(() => {
+    const peerId = localStorage.getItem('userId')
+    if (!peerId) return
+
+    const checkSavedSearches = async () => {
+      try {
+        const response = await fetch(`/api/saved-searches?peerId=${encodeURIComponent(peerId)}`)
+        if (!response.ok) return
+
+        const data = await response.json()
+        const searches: SavedSearchSummary[] = data.savedSearches
+        setNewCount(data.newCount)
+
+        // Notify about searches with more new results than at the last check,
+        // not about those already counted when the page loaded
+        if (previousCounts.current) {
+          const grown = searches.filter(search => search.newCount > (previousCounts.current![search.id] || 0))
+          if (grown.length > 0) setToast(grown)
+        }
+        previousCounts.current = Object.fromEntries(searches.map(search => [search.id, search.newCount]))
+      } catch (error) {
+        console.error('Error checking saved searches:', error)
+      }
+    }
+
+    checkSavedSearches()
+    const interval = setInterval(checkSavedSearches, POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [])
+
+  useEffect(() => {
+    if (!toast) return
+    const timer = setTimeout(() => setToast(null), TOAST_DURATION)
+    return () => clearTimeout(timer)
+  }, [toast])
+
+  return (
+    <>
+      <Link
+        href="/feed?tab=saved"
+        className="relative text-sm text-black dark:text-white hover:bg-gray-100 dark:hover:bg-gray-900 px-3 py-2 transition-colors"
+        title="Saved searches"
+      >
+        Saved searches
+        {newCount > 0 && (
+          <span className="ml-1 px-1.5 py-0.5 text-xs bg-blue-600 text-white">{newCount}</span>
+        )}
+      </Link>
+
+      {toast && (
+        <div className="fixed bottom-4 right-4 z-50 w-80 p-4 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 shadow-lg">
+          <div className="flex justify-between items-start mb-2">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">New results for your saved searches</h3>
+            <button
+              onClick={() => setToast(null)}
+              className="text-gray-500 hover:text-gray-900 dark:hover:text-white"
+              title="Dismiss"
+            >
+              ✕
+            </button>
+          </div>
+          <ul className="space-y-2">
+            {toast.map(search => (
+              <li key={search.id} className="text-sm">
+                <span className="font-medium text-gray-900 dark:text-white">{search.name}</span>
+                <span className="text-gray-500 dark:text-gray-400"> • {search.newCount} new</span>
+                {search.latest[0] && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{search.latest[0].title}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+          <Link
+            href="/feed?tab=saved"
+            onClick={() => setToast(null)}
+            className="mt-3 inline-block text-xs underline text-gray-700 dark:text-gray-300"
+          >
+            View results
+          </Link>
+        </div>
+      )}
+    </>
+  )
+}
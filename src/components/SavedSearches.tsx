@@ -0,0 +1,201 @@
+'use client'
+import { useCallback, useEffect, useState } from 'react'
+
+interface SavedSearch {
+  id: string
+  name: string
+  params: Record<string, string>
+  created: number
+  lastSeen: number
+  newCount: number
+}
+
+interface SavedSearchResult {
+  document: any
+  collectionId: string
+  collectionName: string
+  owner: string
+  isNew: boolean
+}
+
+// title: "rhizome", type: quote -> rhizome • type: quote
+const describeParams = (params: Record<string, string>): string =>
+  Object.entries(params)
+    .map(([name, value]) => name === 'title' ? value : `${name}: ${value}`)
+    .join(' • ')
+
+export default function SavedSearches() {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<SavedSearch | null>(null)
+  const [results, setResults] = useState<SavedSearchResult[]>([])
+  const [loadingResults, setLoadingResults] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSavedSearches = useCallback(async () => {
+    const peerId = localStorage.getItem('userId')
+    if (!peerId) return
+
+    try {
+      const response = await fetch(`/api/saved-searches?peerId=${encodeURIComponent(peerId)}`)
+      if (!response.ok) throw new Error('Failed to fetch saved searches')
+
+      const data = await response.json()
+      setSavedSearches(data.savedSearches)
+    } catch (error) {
+      console.error('Error fetching saved searches:', error)
+      setError('Could not load saved searches')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSavedSearches()
+  }, [fetchSavedSearches])
+
+  const openSearch = async (search: SavedSearch) => {
+    const peerId = localStorage.getItem('userId')
+    if (!peerId) return
+
+    setSelected(search)
+    setLoadingResults(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/saved-searches/${search.id}?peerId=${encodeURIComponent(peerId)}&limit=50`)
+      if (!response.ok) throw new Error('Failed to fetch results')
+
+      const data = await response.json()
+      setResults(data.items)
+
+      // Results shown, they're no longer new
+      if (search.newCount > 0) {
+        await fetch(`/api/saved-searches/${search.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ peerId, seen: true })
+        })
+        setSavedSearches(prev => prev.map(s => s.id === search.id ? { ...s, newCount: 0 } : s))
+      }
+    } catch (error) {
+      console.error('Error fetching saved search results:', error)
+      setError('Could not load results')
+    } finally {
+      setLoadingResults(false)
+    }
+  }
+
+  const deleteSearch = async (search: SavedSearch) => {
+    const peerId = localStorage.getItem('userId')
+    if (!peerId || !confirm(`Delete saved search "${search.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/saved-searches/${search.id}?peerId=${encodeURIComponent(peerId)}`, {
+        method: 'DELETE'
+      })
+      if (!response.ok) throw new Error('Failed to delete saved search')
+
+      setSavedSearches(prev => prev.filter(s => s.id !== search.id))
+      if (selected?.id === search.id) {
+        setSelected(null)
+        setResults([])
+      }
+    } catch (error) {
+      console.error('Error deleting saved search:', error)
+      setError('Could not delete saved search')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin h-12 w-12 border-b-2 border-gray-900 dark:border-gray-100"></div>
+      </div>
+    )
+  }
+
+  if (savedSearches.length === 0) {
+    return (
+      <div className="bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 p-8 text-center">
+        <p className="text-gray-500 dark:text-gray-400">No saved searches yet</p>
+        <p className="text-sm text-gray-400 dark:text-gray-500 mt-2">
+          Search the feed and click Save search to be notified of new matching documents
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {/* Saved search list */}
+      <div className="space-y-2">
+        {savedSearches.map(search => (
+          <div
+            key={search.id}
+            className={`p-3 border cursor-pointer ${
+              selected?.id === search.id
+                ? 'border-gray-900 dark:border-white bg-gray-50 dark:bg-gray-800'
+                : 'border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 hover:bg-gray-50 dark:hover:bg-gray-800'
+            }`}
+            onClick={() => openSearch(search)}
+          >
+            <div className="flex justify-between items-start gap-2">
+              <h3 className="font-medium text-gray-900 dark:text-white">{search.name}</h3>
+              {search.newCount > 0 && (
+                <span className="px-2 py-0.5 text-xs bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200">
+                  {search.newCount} new
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">{describeParams(search.params)}</p>
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                deleteSearch(search)
+              }}
+              className="mt-2 text-xs text-red-600 dark:text-red-400 hover:underline"
+            >
+              Delete
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Results of the selected search */}
+      <div className="md:col-span-2">
+        {error && (
+          <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+        {!selected ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Select a saved search to see its results</p>
+        ) : loadingResults ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading results...</p>
+        ) : results.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No documents match this search yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {results.map(result => (
+              <li
+                key={`${result.collectionId}-${result.document.id}`}
+                className="p-3 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700"
+              >
+                <div className="flex justify-between items-start gap-2">
+                  <h4 className="font-medium text-gray-900 dark:text-white">{result.document.title}</h4>
+                  {result.isNew && (
+                    <span className="px-2 py-0.5 text-xs bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200">
+                      New
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {result.document.documentType} • {result.collectionName} • {result.owner} • {new Date(result.document.created).toLocaleDateString()}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+'use client'
+import type { FacetBucket, FacetName, SearchFacets as Facets } from '@/lib/search-facets'
+
+interface SearchFacetsProps {
+  facets: Facets
+  isSelected: (facet: FacetName, bucket: FacetBucket) => boolean
+  onSelect: (facet: FacetName, bucket: FacetBucket) => void
+}
+
+const FACET_TITLES: Record<Exclude<FacetName, 'years'>, string> = {
+  documentType: 'Type',
+  keywords: 'Keywords',
+  authors: 'Authors',
+  collections: 'Collections',
+  owners: 'Owners'
+}
+
+export default function SearchFacets({ facets, isSelected, onSelect }: SearchFacetsProps) {
+  const maxYearCount = Math.max(0, ...facets.years.map(bucket => bucket.count))
+
+  return (
+    <div className="mb-6 p-4 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+        {(Object.keys(FACET_TITLES) as (keyof typeof FACET_TITLES)[])
+          .filter(facet => facets[facet].length > 0)
+          .map(facet => (
+            <div key={facet}>
+              <h3 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-2">
+                {FACET_TITLES[facet]}
+              </h3>
+              <ul className="space-y-1">
+                {facets[facet].map(bucket => (
+                  <li key={bucket.value}>
+                    <button
+                      onClick={() => onSelect(facet, bucket)}
+                      className={`w-full flex justify-between gap-2 text-left text-sm ${
+                        isSelected(facet, bucket)
+                          ? 'font-semibold text-gray-900 dark:text-white'
+                          : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                      }`}
+                      title={isSelected(facet, bucket) ? 'Remove filter' : 'Filter by this'}
+                    >
+                      <span className="truncate">{isSelected(facet, bucket) && '✓ '}{bucket.label}</span>
+                      <span className="text-xs text-gray-400 dark:text-gray-500">{bucket.count}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+      </div>
+
+      {/* Year histogram */}
+      {facets.years.length > 0 && (
+        <div className="mt-4">
+          <h3 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-2">Years</h3>
+          <div className="flex items-end gap-1 h-16 overflow-x-auto">
+            {facets.years.map(bucket => (
+              <button
+                key={bucket.value}
+                onClick={() => onSelect('years', bucket)}
+                className={`min-w-[8px] flex-1 ${
+                  isSelected('years', bucket)
+                    ? 'bg-gray-900 dark:bg-white'
+                    : 'bg-gray-300 dark:bg-gray-600 hover:bg-gray-500 dark:hover:bg-gray-400'
+                }`}
+                style={{ height: `${Math.max(10, (bucket.count / maxYearCount) * 100)}%` }}
+                title={`${bucket.label}: ${bucket.count}`}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-gray-400 dark:text-gray-500 mt-1">
+            <span>{facets.years[0].label}</span>
+            <span>{facets.years[facets.years.length - 1].label}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
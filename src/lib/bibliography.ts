@@ -0,0 +1,447 @@
+/**
+ * Bibliography Import
+ *
+ * Reads reference manager exports (BibTeX, RIS and CSL-JSON) into quote
+ * document metadata (QuoteMetadata), one entry per reference.
+ *
+ * Field mapping:
+ * - author, title, publisher, year, isbn, edition, keywords as they are named
+ * - the page range cited (BibTeX pages, RIS SP-EP, CSL page) -> pageNumbers
+ * - the total page count (BibTeX pagetotal, CSL number-of-pages) -> pages
+ * - the quote text from BibTeX quote or annote, RIS N1, CSL note
+ *
+ * Entries missing what a quote document needs get errors and aren't imported.
+ */
+
+import { normalizeISBN } from './citation-query'
+import type { QuoteMetadata } from './p2p/types'
+
+export type BibliographyFormat = 'bibtex' | 'ris' | 'csl-json'
+
+export const BIBLIOGRAPHY_FORMATS: BibliographyFormat[] = ['bibtex', 'ris', 'csl-json']
+
+export type ImportedQuoteMetadata = QuoteMetadata & { quoteContent: string }
+
+export interface ImportedEntry {
+  index: number // Position in the file, from 1
+  key: string   // Citation key or ID, empty if the file has none
+  metadata: ImportedQuoteMetadata
+  errors: string[] // Entries with errors aren't imported
+}
+
+// Fields read from every format before validation
+interface ReferenceFields {
+  key: string
+  authors: string[] // "Given Family"
+  title: string
+  publisher: string
+  year: string
+  isbn: string
+  edition: string
+  pageNumbers: string
+  pages: string
+  keywords: string[]
+  quote: string
+}
+
+/**
+ * Guess the format from the file name, or else from the content
+ *
+ * @returns null if it doesn't look like any of them
+ */
+export function detectBibliographyFormat(text: string, filename = ''): BibliographyFormat | null {
+  const extension = filename.toLowerCase().split('.').pop()
+  if (extension === 'bib' || extension === 'bibtex') return 'bibtex'
+  if (extension === 'ris') return 'ris'
+  if (extension === 'json') return 'csl-json'
+
+  const start = text.trimStart()
+  if (start.startsWith('[') || start.startsWith('{')) return 'csl-json'
+  if (/^TY {2}- /m.test(text)) return 'ris'
+  if (/@\w+\s*[{(]/.test(text)) return 'bibtex'
+  return null
+}
+
+/**
+ * Entries of a bibliography, each checked for what a quote document needs
+ *
+ * @returns null if the file can't be read in that format at all
+ */
+export function parseBibliography(text: string, format: BibliographyFormat): ImportedEntry[] | null {
+  const references = format === 'bibtex' ? parseBibTeX(text)
+    : format === 'ris' ? parseRIS(text)
+      : parseCSLJSON(text)
+  if (!references) return null
+
+  return references.map((fields, i) => toEntry(fields, i + 1))
+}
+
+function toEntry(fields: ReferenceFields, index: number): ImportedEntry {
+  const errors: string[] = []
+
+  if (!fields.title) errors.push('Missing title')
+  if (fields.authors.length === 0) errors.push('Missing author')
+  if (!fields.quote) errors.push('Missing quote text (BibTeX quote or annote, RIS N1, CSL-JSON note)')
+
+  let year = ''
+  if (fields.year) {
+    const match = fields.year.match(/\b(\d{4})\b/)
+    if (match) {
+      year = match[1]
+    } else {
+      errors.push(`Year "${fields.year}" has no four digit year`)
+    }
+  }
+
+  // Several ISBNs (e.g. paperback and hardback), the first valid one is kept
+  let isbn = ''
+  if (fields.isbn) {
+    isbn = fields.isbn.split(/[\s,;]+/).find(candidate => normalizeISBN(candidate)) || ''
+    if (!isbn) errors.push(`Invalid ISBN "${fields.isbn}"`)
+  }
+
+  return {
+    index,
+    key: fields.key,
+    metadata: {
+      quoteContent: fields.quote,
+      author: fields.authors.join(', '),
+      title: fields.title,
+      publisher: fields.publisher,
+      year,
+      isbn,
+      edition: fields.edition,
+      pages: fields.pages,
+      keywords: [...new Set(fields.keywords)],
+      pageNumbers: fields.pageNumbers
+    },
+    errors
+  }
+}
+
+function emptyFields(): ReferenceFields {
+  return {
+    key: '', authors: [], title: '', publisher: '', year: '', isbn: '', edition: '',
+    pageNumbers: '', pages: '', keywords: [], quote: ''
+  }
+}
+
+const clean = (value: string): string => value.replace(/\s+/g, ' ').trim()
+
+// "Deleuze, Gilles" -> "Gilles Deleuze", "Huxley, Jr, Julian" -> "Julian Huxley Jr"
+function displayName(name: string): string {
+  const parts = name.split(',').map(clean).filter(Boolean)
+  if (parts.length === 2) return `${parts[1]} ${parts[0]}`
+  if (parts.length === 3) return `${parts[2]} ${parts[0]} ${parts[1]}`
+  return clean(name)
+}
+
+const splitKeywords = (value: string): string[] => value.split(/[,;]/).map(clean).filter(Boolean)
+
+// "45--52" -> "45-52"
+const pageRange = (value: string): string => clean(value).replace(/\s*[-–—]+\s*/g, '-')
+
+// ===== BibTeX =====
+
+// Combining marks for LaTeX accent commands
+const LATEX_ACCENTS: Record<string, string> = {
+  "'": '\u0301', '`': '\u0300', '^': '\u0302', '"': '\u0308', '~': '\u0303', '=': '\u0304',
+  '.': '\u0307', u: '\u0306', v: '\u030C', H: '\u030B', c: '\u0327', k: '\u0328'
+}
+
+const LATEX_SYMBOLS: Record<string, string> = {
+  ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', i: 'ı'
+}
+
+/**
+ * Plain text of a BibTeX value: accents, escapes and grouping braces resolved
+ */
+export function latexToText(value: string): string {
+  return clean(
+    value
+      // \'e, \'{e}, {\'e}
+      .replace(/\\([`'^"~=.]|[uvHck](?=[{\s]))\s*\{?\s*(\\?[A-Za-z])\}?/g, (_, accent: string, letter: string) =>
+        (letter.replace('\\', '') + LATEX_ACCENTS[accent]).normalize('NFC'))
+      .replace(/\\(ss|ae|AE|oe|OE|aa|AA|[oOlLi])\b\s*/g, (_, symbol: string) => LATEX_SYMBOLS[symbol])
+      .replace(/\\([&%$#_{}])/g, '$1')
+      .replace(/\\textemdash\b\s*|---/g, '—')
+      .replace(/\\textendash\b\s*|--/g, '–')
+      .replace(/~/g, ' ')
+      // Remaining commands keep their argument, e.g. \emph{Mille plateaux}
+      .replace(/\\[A-Za-z]+\s*/g, '')
+      .replace(/[{}]/g, '')
+  )
+}
+
+// Split on "and" outside braces, {Barnes and Noble} is one name
+function splitBibTeXNames(value: string): string[] {
+  const names: string[] = []
+  const separator = /\s+and\s+/iy
+  let depth = 0
+  let current = ''
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]
+    if (char === '{') depth++
+    if (char === '}') depth--
+
+    // Sticky match, so the separator is only looked for at this position
+    separator.lastIndex = i
+    const match = depth === 0 && separator.exec(value)
+    if (match) {
+      names.push(current)
+      current = ''
+      i += match[0].length - 1
+      continue
+    }
+    current += char
+  }
+  names.push(current)
+
+  return names.map(name => displayName(latexToText(name))).filter(Boolean)
+}
+
+/**
+ * Raw field values of each BibTeX entry, @string macros expanded
+ *
+ * @returns null if no entry could be read
+ */
+function readBibTeX(text: string): { type: string, key: string, fields: Record<string, string> }[] | null {
+  const entries: { type: string, key: string, fields: Record<string, string> }[] = []
+  const macros: Record<string, string> = {}
+  let position = 0
+
+  // Value in braces or quotes, a number or a macro name, joined by #
+  const readValue = (): string => {
+    let value = ''
+    for (;;) {
+      skipSpace()
+      const char = text[position]
+      if (char === '{') {
+        const end = matchingBrace(position)
+        value += text.slice(position + 1, end)
+        position = end + 1
+      } else if (char === '"') {
+        let end = position + 1
+        let depth = 0
+        while (end < text.length && !(text[end] === '"' && depth === 0)) {
+          if (text[end] === '{') depth++
+          if (text[end] === '}') depth--
+          end++
+        }
+        value += text.slice(position + 1, end)
+        position = end + 1
+      } else {
+        const word = text.slice(position).match(/^[^\s,#})]+/)?.[0] || ''
+        value += /^\d+$/.test(word) ? word : macros[word.toLowerCase()] ?? word
+        position += word.length
+      }
+
+      skipSpace()
+      if (text[position] !== '#') return value
+      position++
+    }
+  }
+
+  const skipSpace = () => {
+    while (position < text.length && /\s/.test(text[position])) position++
+  }
+
+  const matchingBrace = (open: number): number => {
+    let depth = 0
+    for (let i = open; i < text.length; i++) {
+      if (text[i] === '{') depth++
+      if (text[i] === '}' && --depth === 0) return i
+    }
+    return text.length
+  }
+
+  while ((position = text.indexOf('@', position)) !== -1) {
+    const header = text.slice(position).match(/^@(\w+)\s*([{(])/)
+    if (!header) {
+      position++
+      continue
+    }
+    const type = header[1].toLowerCase()
+    const close = header[2] === '{' ? '}' : ')'
+    position += header[0].length
+
+    if (type === 'comment' || type === 'preamble') {
+      position = header[2] === '{' ? matchingBrace(position - 1) + 1 : text.indexOf(')', position) + 1
+      continue
+    }
+
+    if (type === 'string') {
+      skipSpace()
+      const name = text.slice(position).match(/^[^\s=]+/)?.[0] || ''
+      position += name.length
+      skipSpace()
+      if (text[position] === '=') {
+        position++
+        macros[name.toLowerCase()] = readValue()
+      }
+      skipSpace()
+      if (text[position] === close) position++
+      continue
+    }
+
+    skipSpace()
+    const key = text.slice(position).match(/^[^,\s})]*/)?.[0] || ''
+    position += key.length
+    const fields: Record<string, string> = {}
+
+    for (;;) {
+      skipSpace()
+      if (text[position] === ',') position++
+      skipSpace()
+      if (position >= text.length || text[position] === close) {
+        position++
+        break
+      }
+
+      const name = text.slice(position).match(/^[^\s=,})]+/)?.[0]
+      if (!name) {
+        position++
+        continue
+      }
+      position += name.length
+      skipSpace()
+      if (text[position] !== '=') continue
+      position++
+      fields[name.toLowerCase()] = readValue()
+    }
+
+    entries.push({ type, key, fields })
+  }
+
+  return entries.length > 0 ? entries : null
+}
+
+function parseBibTeX(text: string): ReferenceFields[] | null {
+  const entries = readBibTeX(text)
+  if (!entries) return null
+
+  return entries.map(({ key, fields }) => {
+    const field = (name: string) => latexToText(fields[name] || '')
+    return {
+      ...emptyFields(),
+      key,
+      authors: splitBibTeXNames(fields.author || fields.editor || ''),
+      title: field('title'),
+      publisher: field('publisher'),
+      year: field('year') || field('date'),
+      isbn: field('isbn'),
+      edition: field('edition'),
+      pageNumbers: pageRange(field('pages')),
+      pages: field('pagetotal'),
+      keywords: splitKeywords(field('keywords')),
+      quote: field('quote') || field('annote')
+    }
+  })
+}
+
+// ===== RIS =====
+
+function parseRIS(text: string): ReferenceFields[] | null {
+  const references: ReferenceFields[] = []
+  let current: Record<string, string[]> | null = null
+
+  const finish = () => {
+    if (!current) return
+    const first = (...tags: string[]) => clean(tags.map(tag => current![tag]?.[0] || '').find(Boolean) || '')
+    const start = first('SP')
+    const end = first('EP')
+
+    references.push({
+      ...emptyFields(),
+      key: first('ID'),
+      authors: [...(current.AU || []), ...(current.A1 || [])].map(displayName).filter(Boolean),
+      title: first('TI', 'T1', 'BT'),
+      publisher: first('PB'),
+      year: first('PY', 'Y1', 'DA'),
+      isbn: (current.SN || []).find(value => value.split(/[\s,;]+/).some(candidate => normalizeISBN(candidate))) || '',
+      edition: first('ET'),
+      pageNumbers: start && end && start !== end ? pageRange(`${start}-${end}`) : pageRange(start),
+      keywords: (current.KW || []).flatMap(splitKeywords),
+      quote: clean((current.N1 || []).join(' '))
+    })
+    current = null
+  }
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(/^([A-Z][A-Z0-9]) {2}-(?: (.*))?$/)
+    if (!match) {
+      // Continuation of a long value
+      const lastTag = current && Object.keys(current).pop()
+      if (current && lastTag && line.trim()) {
+        const values = current[lastTag]
+        values[values.length - 1] += ` ${line.trim()}`
+      }
+      continue
+    }
+
+    const [, tag, value = ''] = match
+    if (tag === 'TY') {
+      finish()
+      current = {}
+    } else if (tag === 'ER') {
+      finish()
+    } else if (current) {
+      // Moved to the end so continuation lines find it
+      const values = current[tag] || []
+      delete current[tag]
+      current[tag] = [...values, value.trim()]
+    }
+  }
+  finish()
+
+  return references.length > 0 ? references : null
+}
+
+// ===== CSL-JSON =====
+
+interface CSLName {
+  family?: string
+  given?: string
+  literal?: string
+  suffix?: string
+}
+
+function parseCSLJSON(json: string): ReferenceFields[] | null {
+  let items: unknown
+  try {
+    items = JSON.parse(json)
+  } catch {
+    return null
+  }
+  if (!Array.isArray(items)) items = [items]
+
+  const references = (items as unknown[]).filter((item): item is Record<string, unknown> =>
+    typeof item === 'object' && item !== null && !Array.isArray(item))
+  if (references.length === 0) return null
+
+  return references.map(item => {
+    const text = (value: unknown) => typeof value === 'string' || typeof value === 'number' ? clean(String(value)) : ''
+    const names: CSLName[] = Array.isArray(item.author) ? item.author : Array.isArray(item.editor) ? item.editor : []
+    const issued = (item.issued || {}) as { 'date-parts'?: unknown[][], raw?: unknown, literal?: unknown }
+    const keywords = Array.isArray(item.keyword) ? item.keyword.map(text).join(',') : text(item.keyword)
+
+    return {
+      ...emptyFields(),
+      key: text(item.id),
+      authors: names
+        .map(name => name.literal || [name.given, name.family, name.suffix].filter(Boolean).join(' '))
+        .map(clean)
+        .filter(Boolean),
+      title: text(item.title),
+      publisher: text(item.publisher),
+      year: text(issued['date-parts']?.[0]?.[0]) || text(issued.raw) || text(issued.literal),
+      isbn: text(item.ISBN),
+      edition: text(item.edition),
+      pageNumbers: pageRange(text(item.page)),
+      pages: text(item['number-of-pages']),
+      keywords: splitKeywords(keywords),
+      quote: text(item.note)
+    }
+  })
+}
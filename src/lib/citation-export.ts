@@ -0,0 +1,295 @@
+/**
+ * Citation Export
+ *
+ * References for documents in BibTeX, RIS and CSL-JSON, and as ISO-690
+ * reference strings. Quotes are cited as books (QuoteMetadata follows
+ * ISO-690), links as web pages and images as graphics.
+ *
+ * Fields are written back the way the bibliography import reads them, so an
+ * export can be imported again: the cited pages (pageNumbers) go to BibTeX
+ * pages, RIS SP-EP and CSL page, and the quote text to quote, N1 and note.
+ */
+
+import type { BibliographyFormat } from './bibliography'
+
+export type CitationFormat = BibliographyFormat | 'iso690'
+
+export const CITATION_FORMATS: CitationFormat[] = ['bibtex', 'ris', 'csl-json', 'iso690']
+
+// What a download of each format is served as
+export const CITATION_FILES: Record<CitationFormat, { extension: string, contentType: string }> = {
+  bibtex: { extension: 'bib', contentType: 'application/x-bibtex' },
+  ris: { extension: 'ris', contentType: 'application/x-research-info-systems' },
+  'csl-json': { extension: 'json', contentType: 'application/vnd.citationstyles.csl+json' },
+  iso690: { extension: 'txt', contentType: 'text/plain' }
+}
+
+export interface PersonName {
+  family: string
+  given: string // Empty for single names, e.g. "Plato" or an organisation
+}
+
+// The stored document fields a reference is read from
+export interface CitableDocument {
+  id: string
+  documentType?: string
+  title?: string
+  created?: number
+  metadata?: Record<string, unknown>
+}
+
+// Fields shared by every format, read from any document type
+interface Reference {
+  kind: 'book' | 'webpage' | 'graphic'
+  authors: PersonName[]
+  title: string
+  publisher: string
+  year: string
+  date: string // Full date where the metadata has one, e.g. a link's publicationDate
+  isbn: string
+  edition: string
+  pages: string
+  pageNumbers: string
+  url: string
+  keywords: string[]
+  quote: string
+  accessed: string // YYYY-MM-DD the document was added, for online references
+}
+
+const clean = (value: unknown): string => typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : ''
+
+/**
+ * Split an author field into names
+ *
+ * Authors are separated by ";", " and ", " & " or commas. A single comma
+ * between two one-word parts is read as "Family, Given" instead.
+ */
+export function splitAuthors(value: string): PersonName[] {
+  const text = clean(value)
+  if (!text) return []
+
+  const commaParts = text.split(',').map(clean).filter(Boolean)
+  if (!/;| and | & /.test(text) && commaParts.length === 2 && !commaParts[0].includes(' ') && !commaParts[1].includes(' ')) {
+    return [{ family: commaParts[0], given: commaParts[1] }]
+  }
+
+  return text
+    .split(/;| and | & |,/)
+    .map(clean)
+    .filter(Boolean)
+    .map(personName)
+}
+
+// "Simone de Beauvoir" -> de Beauvoir, Simone (lowercase particles belong to the family name)
+function personName(name: string): PersonName {
+  const words = name.split(' ')
+  if (words.length === 1) return { family: name, given: '' }
+
+  let start = words.length - 1
+  while (start > 1 && /^[a-z]/.test(words[start - 1])) start--
+  return {
+    family: words.slice(start).join(' '),
+    given: words.slice(0, start).join(' ')
+  }
+}
+
+function toReference(document: CitableDocument): Reference {
+  const metadata = document.metadata || {}
+  const type = document.documentType
+  const yearMatch = (value: string) => value.match(/\b(\d{4})\b/)?.[1] || ''
+  const date = clean(type === 'link' ? metadata.publicationDate : type === 'image' ? metadata.date : '')
+
+  return {
+    kind: type === 'link' ? 'webpage' : type === 'image' ? 'graphic' : 'book',
+    authors: splitAuthors(clean(type === 'image' ? metadata.creator : metadata.author)),
+    title: clean(metadata.title) || clean(document.title),
+    publisher: clean(type === 'link' ? metadata.siteName : metadata.publisher),
+    year: yearMatch(clean(metadata.year)) || yearMatch(date),
+    date,
+    isbn: clean(metadata.isbn),
+    edition: clean(metadata.edition),
+    pages: clean(metadata.pages),
+    pageNumbers: clean(metadata.pageNumbers),
+    url: clean(type === 'link' ? metadata.url : type === 'image' ? metadata.source : ''),
+    keywords: Array.isArray(metadata.keywords) ? metadata.keywords.map(clean).filter(Boolean) : [],
+    quote: typeof metadata.quoteContent === 'string' ? metadata.quoteContent.trim() : '',
+    accessed: document.created ? new Date(document.created).toISOString().slice(0, 10) : ''
+  }
+}
+
+// ===== BibTeX =====
+
+const BIBTEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}', '{': '\\{', '}': '\\}', '&': '\\&', '%': '\\%',
+  $: '\\$', '#': '\\#', _: '\\_', '~': '\\textasciitilde{}', '^': '\\textasciicircum{}'
+}
+
+const bibtexValue = (value: string): string => value.replace(/[\\{}&%$#_~^]/g, char => BIBTEX_ESCAPES[char])
+
+// "deleuze1980mille", with a, b... added when keys repeat
+function citationKeys(references: Reference[]): string[] {
+  const bases = references.map(reference => {
+    const ascii = (value: string) => value.normalize('NFD').replace(/[^A-Za-z0-9]/g, '').toLowerCase()
+    const family = ascii(reference.authors[0]?.family || '') || 'anon'
+    const word = reference.title.split(' ').map(ascii).find(w => w.length > 3) || ascii(reference.title.split(' ')[0] || '')
+    return `${family}${reference.year}${word}`
+  })
+
+  const counts: Record<string, number> = {}
+  bases.forEach(base => { counts[base] = (counts[base] || 0) + 1 })
+  const seen: Record<string, number> = {}
+  return bases.map(base => {
+    if (counts[base] === 1) return base
+    seen[base] = (seen[base] || 0) + 1
+    return base + String.fromCharCode(96 + seen[base])
+  })
+}
+
+function toBibTeX(references: Reference[]): string {
+  const keys = citationKeys(references)
+
+  return references.map((reference, i) => {
+    const fields: [string, string][] = [
+      ['author', reference.authors.map(name => name.given
+        ? `${bibtexValue(name.family)}, ${bibtexValue(name.given)}`
+        : `{${bibtexValue(name.family)}}`).join(' and ')],
+      ['title', `{${bibtexValue(reference.title)}}`], // Double braces keep the capitalisation
+      ['publisher', reference.kind === 'book' ? reference.publisher : ''],
+      ['howpublished', reference.kind !== 'book' ? reference.publisher : ''],
+      ['year', reference.year],
+      ['edition', reference.edition],
+      ['isbn', reference.isbn],
+      ['pages', reference.pageNumbers.replace(/-/g, '--')],
+      ['pagetotal', reference.pages],
+      ['url', reference.url],
+      ['urldate', reference.url ? reference.accessed : ''],
+      ['keywords', reference.keywords.join(', ')],
+      ['quote', reference.quote]
+    ]
+
+    const body = fields
+      .filter(([, value]) => value)
+      // Names and the title were escaped before the grouping braces were added
+      .map(([name, value]) => `  ${name} = {${name === 'author' || name === 'title' ? value : bibtexValue(value)}}`)
+      .join(',\n')
+    return `@${reference.kind === 'book' ? 'book' : 'misc'}{${keys[i]},\n${body}\n}`
+  }).join('\n\n') + '\n'
+}
+
+// ===== RIS =====
+
+const RIS_TYPES: Record<Reference['kind'], string> = { book: 'BOOK', webpage: 'ELEC', graphic: 'FIGURE' }
+
+function toRIS(references: Reference[]): string {
+  return references.map(reference => {
+    const [startPage, endPage] = reference.pageNumbers.split('-').map(clean)
+    const lines: [string, string][] = [
+      ['TY', RIS_TYPES[reference.kind]],
+      ...reference.authors.map((name): [string, string] => ['AU', name.given ? `${name.family}, ${name.given}` : name.family]),
+      ['TI', reference.title],
+      ['PB', reference.publisher],
+      ['PY', reference.year],
+      ['DA', reference.date],
+      ['ET', reference.edition],
+      ['SN', reference.isbn],
+      ['SP', startPage || ''],
+      ['EP', endPage || ''],
+      ['UR', reference.url],
+      ['Y2', reference.url ? reference.accessed : ''],
+      ...reference.keywords.map((keyword): [string, string] => ['KW', keyword]),
+      ['N1', reference.quote]
+    ]
+
+    return lines
+      .filter(([, value]) => value)
+      .map(([tag, value]) => `${tag}  - ${value}`)
+      .concat('ER  - ')
+      .join('\n')
+  }).join('\n\n') + '\n'
+}
+
+// ===== CSL-JSON =====
+
+function toCSL(references: Reference[], ids: string[]): object[] {
+  return references.map((reference, i) => {
+    const item: Record<string, unknown> = {
+      id: ids[i],
+      type: reference.kind === 'book' ? 'book' : reference.kind,
+      title: reference.title
+    }
+    if (reference.authors.length > 0) {
+      item.author = reference.authors.map(name => name.given ? { family: name.family, given: name.given } : { literal: name.family })
+    }
+    if (reference.publisher) item[reference.kind === 'webpage' ? 'container-title' : 'publisher'] = reference.publisher
+    if (reference.year) item.issued = { 'date-parts': [[Number(reference.year)]] }
+    if (reference.edition) item.edition = reference.edition
+    if (reference.isbn) item.ISBN = reference.isbn
+    if (reference.pageNumbers) item.page = reference.pageNumbers
+    if (reference.pages) item['number-of-pages'] = reference.pages
+    if (reference.url) {
+      item.URL = reference.url
+      if (reference.accessed) item.accessed = { 'date-parts': [reference.accessed.split('-').map(Number)] }
+    }
+    if (reference.keywords.length > 0) item.keyword = reference.keywords.join(', ')
+    if (reference.quote) item.note = reference.quote
+    return item
+  })
+}
+
+// ===== ISO-690 =====
+
+// "DELEUZE, Gilles and GUATTARI, Félix", more than three creators become "et al."
+function iso690Creators(names: PersonName[]): string {
+  const formatted = names.map(name => name.given ? `${name.family.toUpperCase()}, ${name.given}` : name.family.toUpperCase())
+  if (formatted.length > 3) return `${formatted[0]} et al.`
+  if (formatted.length <= 1) return formatted[0] || ''
+  return `${formatted.slice(0, -1).join(', ')} and ${formatted[formatted.length - 1]}`
+}
+
+// "2" -> "2nd ed.", "Revised" -> "Revised ed."
+function iso690Edition(edition: string): string {
+  if (!/^\d+$/.test(edition)) return /\bed\.?$/i.test(edition) ? edition : `${edition} ed.`
+  const n = Number(edition)
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th'
+  return `${n}${suffix} ed.`
+}
+
+/**
+ * ISO-690 reference for a document, with the page(s) a quote is on
+ *
+ * e.g. "DELEUZE, Gilles and GUATTARI, Félix. Mille plateaux. Minuit, 1980. ISBN 978-2-7073-0307-3. p. 45-52."
+ */
+export function formatISO690(document: CitableDocument): string {
+  const reference = toReference(document)
+  const parts: string[] = []
+  const sentence = (text: string) => { if (text) parts.push(/[.?!]$/.test(text) ? text : `${text}.`) }
+
+  sentence(iso690Creators(reference.authors))
+  sentence(reference.title + (reference.kind === 'webpage' ? ' [online]' : reference.kind === 'graphic' ? ' [image]' : ''))
+  if (reference.edition) sentence(iso690Edition(reference.edition))
+  sentence([reference.publisher, reference.date || reference.year].filter(Boolean).join(', '))
+  if (reference.pages) sentence(`${reference.pages} p`)
+  if (reference.isbn) sentence(`ISBN ${reference.isbn}`)
+  if (reference.pageNumbers) sentence(`p. ${reference.pageNumbers}`)
+  if (reference.url) {
+    if (reference.accessed && reference.kind === 'webpage') parts.push(`[viewed ${reference.accessed}].`)
+    parts.push(`Available from: ${reference.url}`)
+  }
+
+  return parts.join(' ')
+}
+
+/**
+ * Documents as a citation file in the given format
+ * ISO-690 references are one per line
+ */
+export function exportCitations(documents: CitableDocument[], format: CitationFormat): string {
+  if (format === 'iso690') {
+    return documents.map(formatISO690).join('\n') + '\n'
+  }
+
+  const references = documents.map(toReference)
+  if (format === 'bibtex') return toBibTeX(references)
+  if (format === 'ris') return toRIS(references)
+  return JSON.stringify(toCSL(references, documents.map(document => document.id)), null, 2) + '\n'
+}
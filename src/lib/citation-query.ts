@@ -0,0 +1,143 @@
+/**
+ * Citation Query
+ *
+ * Fielded search over bibliographic metadata (QuoteMetadata):
+ * - author:deleuze or author:"Gilles Deleuze"
+ * - publisher:minuit
+ * - year:1968..1980, year:1968, year:1968.. or year:..1980
+ * - isbn:2-7073-0154-9, ISBN-10 and ISBN-13 forms of a book match each other
+ *
+ * Whatever isn't a field is left as free text for the full-text index.
+ */
+
+export interface CitationFilters {
+  author?: string
+  publisher?: string
+  yearFrom?: number
+  yearTo?: number
+  isbn?: string // Normalised, see normalizeISBN
+}
+
+export interface CitationQuery {
+  text: string
+  filters: CitationFilters
+}
+
+// field:"quoted value" or field:value
+const FIELD_PATTERN = /\b(author|publisher|year|isbn):(?:"([^"]*)"?|(\S+))/gi
+
+/**
+ * ISBN-13 form of an ISBN-10 or ISBN-13, ignoring hyphens and spaces
+ *
+ * @returns null if the value isn't a valid ISBN
+ */
+export function normalizeISBN(value: string): string | null {
+  const isbn = value.replace(/[\s-]/g, '').toUpperCase()
+
+  if (/^\d{9}[\dX]$/.test(isbn)) {
+    const sum = [...isbn].reduce((total, char, i) => total + (char === 'X' ? 10 : Number(char)) * (10 - i), 0)
+    if (sum % 11 !== 0) return null
+
+    const isbn13 = '978' + isbn.slice(0, 9)
+    return isbn13 + isbn13CheckDigit(isbn13)
+  }
+
+  if (/^97[89]\d{10}$/.test(isbn)) {
+    return isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12] ? isbn : null
+  }
+
+  return null
+}
+
+function isbn13CheckDigit(first12: string): string {
+  const sum = [...first12].reduce((total, char, i) => total + Number(char) * (i % 2 === 0 ? 1 : 3), 0)
+  return String((10 - (sum % 10)) % 10)
+}
+
+/**
+ * Parse 1968..1980, 1968-1980, 1968, 1968.. or ..1980
+ *
+ * @returns null if the value isn't a year or year range
+ */
+export function parseYearRange(value: string): { yearFrom?: number, yearTo?: number } | null {
+  const match = value.trim().match(/^(\d{4})?\s*(\.\.|-|–)?\s*(\d{4})?$/)
+  if (!match || (!match[1] && !match[3])) return null
+
+  const [, from, separator, to] = match
+  if (!separator) {
+    if (to) return null
+    return { yearFrom: Number(from), yearTo: Number(from) }
+  }
+
+  return {
+    ...(from && { yearFrom: Number(from) }),
+    ...(to && { yearTo: Number(to) })
+  }
+}
+
+/**
+ * Split a query into citation fields and free text
+ * Unparseable year and ISBN values are kept as free text
+ */
+export function parseCitationQuery(query: string): CitationQuery {
+  const filters: CitationFilters = {}
+
+  const text = query.replace(FIELD_PATTERN, (whole, name: string, quoted?: string, bare?: string) => {
+    const value = (quoted ?? bare ?? '').trim()
+    if (!value) return ''
+
+    switch (name.toLowerCase()) {
+      case 'author':
+        filters.author = filters.author ? `${filters.author} ${value}` : value
+        return ''
+      case 'publisher':
+        filters.publisher = filters.publisher ? `${filters.publisher} ${value}` : value
+        return ''
+      case 'year': {
+        const range = parseYearRange(value)
+        if (!range) return whole
+        Object.assign(filters, range)
+        return ''
+      }
+      default: {
+        const isbn = normalizeISBN(value)
+        if (!isbn) return whole
+        filters.isbn = isbn
+        return ''
+      }
+    }
+  })
+
+  return { text: text.replace(/\s+/g, ' ').trim(), filters }
+}
+
+/**
+ * Publication year of a document's metadata
+ * Quotes have a year, links a publication date and images a date
+ */
+export function yearOf(metadata: Record<string, unknown> | undefined): number | null {
+  const value = metadata?.year ?? metadata?.publicationDate ?? metadata?.date
+  const match = String(value ?? '').match(/\d{4}/)
+  return match ? Number(match[0]) : null
+}
+
+/**
+ * Whether a document falls in the year range and has the ISBN
+ * Author and publisher are matched by the full-text index
+ */
+export function matchesCitationFilters(document: { metadata?: Record<string, unknown> }, filters: CitationFilters): boolean {
+  const metadata = document.metadata || {}
+
+  if (filters.yearFrom !== undefined || filters.yearTo !== undefined) {
+    const year = yearOf(metadata)
+    if (year === null) return false
+    if (filters.yearFrom !== undefined && year < filters.yearFrom) return false
+    if (filters.yearTo !== undefined && year > filters.yearTo) return false
+  }
+
+  if (filters.isbn) {
+    if (!metadata.isbn || normalizeISBN(String(metadata.isbn)) !== filters.isbn) return false
+  }
+
+  return true
+}
@@ -0,0 +1,153 @@
+/**
+ * Collection Archives
+ *
+ * A collection packed for moving between deployments or keeping offline.
+ * The archive manifest holds the collection's metadata and its documents as
+ * they are stored, versionHistory and fork links included. The orbitdb-service
+ * writes it into a CARv1 file with every IPFS block the documents reference
+ * (quote text, link URLs, images), and checks those blocks on import.
+ *
+ * Imported documents keep their IDs, authors (uploadedBy, editedBy) and
+ * dates, so forks made from them elsewhere still find their parent.
+ */
+
+import type { VersionHistoryEntry } from './document-history'
+
+export const ARCHIVE_FORMAT = 'retcon-collection'
+export const ARCHIVE_VERSION = 1
+
+export interface CollectionArchive {
+  format: typeof ARCHIVE_FORMAT
+  version: number
+  exportedAt: number
+  collection: {
+    id: string // Store name where it was exported from
+    name: string
+    description?: string
+    owner: string
+    created: number
+  }
+  documents: ArchivedDocument[]
+}
+
+export interface ArchivedDocument {
+  id: string
+  documentType: string
+  title?: string
+  metadata?: Record<string, unknown>
+  versionHistory?: VersionHistoryEntry[]
+  parentDocumentId?: string
+  parentCollectionId?: string
+  [field: string]: unknown
+}
+
+// Collection metadata as the orbitdb-service stores it
+interface ArchivedCollectionMetadata {
+  id?: string
+  storeName?: string
+  name: string
+  description?: string
+  owner: string
+  created: number
+}
+
+/**
+ * Manifest for a collection and its documents
+ */
+export function buildCollectionArchive(metadata: ArchivedCollectionMetadata, documents: object[], exportedAt: number = Date.now()): CollectionArchive {
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt,
+    collection: {
+      id: (metadata.id || metadata.storeName)!,
+      name: metadata.name,
+      ...(metadata.description && { description: metadata.description }),
+      owner: metadata.owner,
+      created: metadata.created
+    },
+    // Through JSON so the manifest encodes as dag-json (no undefined values)
+    documents: JSON.parse(JSON.stringify(documents))
+  }
+}
+
+/**
+ * Every IPFS CID the documents reference, in their current and past versions
+ */
+export function archiveContentCIDs(documents: object[]): string[] {
+  const cids = new Set<string>()
+
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect)
+    } else if (value && typeof value === 'object') {
+      for (const [key, field] of Object.entries(value)) {
+        if (key === 'ipfsCID' && typeof field === 'string' && field) {
+          cids.add(field)
+        } else {
+          collect(field)
+        }
+      }
+    }
+  }
+
+  documents.forEach(collect)
+  return [...cids].sort()
+}
+
+/**
+ * Check a manifest read back from a CAR file
+ *
+ * @returns null if it isn't a collection archive this version can import
+ */
+export function readCollectionArchive(manifest: unknown): CollectionArchive | null {
+  if (!manifest || typeof manifest !== 'object') return null
+  const archive = manifest as Partial<CollectionArchive>
+  if (archive.format !== ARCHIVE_FORMAT) return null
+  if (typeof archive.version !== 'number' || archive.version > ARCHIVE_VERSION) return null
+
+  const collection = archive.collection
+  if (!collection || typeof collection.id !== 'string' || typeof collection.name !== 'string') return null
+  if (!Array.isArray(archive.documents)) return null
+  if (!archive.documents.every(doc => doc && typeof doc.id === 'string' && typeof doc.documentType === 'string')) {
+    return null
+  }
+
+  return archive as CollectionArchive
+}
+
+/**
+ * IPFS CIDs documents reference that the archive doesn't contain
+ * Keyed by document ID, documents with all their content are left out
+ */
+export function missingArchiveContent(documents: ArchivedDocument[], contentCIDs: string[]): Record<string, string[]> {
+  const content = new Set(contentCIDs)
+  const missing: Record<string, string[]> = {}
+
+  for (const doc of documents) {
+    const cids = archiveContentCIDs([doc]).filter(cid => !content.has(cid))
+    if (cids.length > 0) {
+      missing[doc.id] = cids
+    }
+  }
+
+  return missing
+}
+
+/**
+ * The archive's documents as stored in the new collection
+ *
+ * Forks of documents in the same archive point to the new collection; forks
+ * of documents elsewhere keep pointing where they did.
+ */
+export function importedDocuments(archive: CollectionArchive, collectionStoreName: string): ArchivedDocument[] {
+  const archivedIds = new Set(archive.documents.map(doc => doc.id))
+
+  return archive.documents.map(doc => ({
+    ...doc,
+    collectionId: collectionStoreName,
+    ...(doc.parentCollectionId === archive.collection.id && !!doc.parentDocumentId && archivedIds.has(doc.parentDocumentId) && {
+      parentCollectionId: collectionStoreName
+    })
+  }))
+}
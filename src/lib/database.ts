@@ -193,6 +193,31 @@ function initializeDatabase() {
     )
   `)
 
+  // Feed search index - collections it has read from OrbitDB
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS search_index_collections (
+      store_name TEXT PRIMARY KEY,
+      collection_id TEXT NOT NULL,
+      name TEXT,
+      owner_id TEXT,
+      owner_username TEXT,
+      synced_at INTEGER DEFAULT 0
+    )
+  `)
+
+  // Feed search index - tokenized documents, the inverted index is rebuilt from them on startup
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS search_index_documents (
+      store_name TEXT NOT NULL,
+      document_id TEXT NOT NULL,
+      document TEXT NOT NULL,
+      entry TEXT NOT NULL,
+      content_cid TEXT,
+      content TEXT,
+      PRIMARY KEY (store_name, document_id)
+    )
+  `)
+
   // Create indexes
   db.exec(`
     CREATE INDEX IF NOT EXISTS idx_documents_collection ON documents(collection_id);
@@ -0,0 +1,149 @@
+/**
+ * P2P Document Diff
+ *
+ * Field-by-field comparison of two versions of a document's metadata
+ * (QuoteMetadata, LinkMetadata or ImageMetadata).
+ *
+ * - Keyword lists report added and removed keywords
+ * - Long text fields (quoteContent, descriptions...) get a word-level diff
+ * - Every other field reports its value before and after
+ */
+
+export interface TextSegment {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+export type FieldDiff =
+  | { field: string, kind: 'added', after: unknown }
+  | { field: string, kind: 'removed', before: unknown }
+  | { field: string, kind: 'changed', before: unknown, after: unknown }
+  | { field: string, kind: 'list', added: string[], removed: string[] }
+  | { field: string, kind: 'text', segments: TextSegment[] }
+
+// Fields shown first, in the order the edit forms use
+const FIELD_ORDER: Record<string, string[]> = {
+  quote: ['quoteContent', 'author', 'title', 'publisher', 'year', 'isbn', 'edition', 'pages', 'pageNumbers', 'keywords'],
+  link: ['url', 'title', 'description', 'author', 'publicationDate', 'siteName', 'keywords', 'thumbnail', 'archived'],
+  image: ['title', 'description', 'creator', 'source', 'date', 'dimensions', 'format', 'keywords']
+}
+
+// Always diffed word by word, other strings only once they get long
+const TEXT_FIELDS = ['quoteContent', 'description']
+const LONG_TEXT_LENGTH = 80
+
+// Word diffs are quadratic, beyond this the whole text is reported as replaced
+const MAX_DIFF_CELLS = 250000
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+function isLongText(field: string, before: unknown, after: unknown): boolean {
+  if (typeof before !== 'string' || typeof after !== 'string') return false
+  return TEXT_FIELDS.includes(field) || Math.max(before.length, after.length) > LONG_TEXT_LENGTH
+}
+
+/**
+ * Word-level diff of two texts, whitespace is kept with the following word
+ */
+export function diffWords(before: string, after: string): TextSegment[] {
+  const a = before.match(/\S+\s*|\s+/g) || []
+  const b = after.match(/\S+\s*|\s+/g) || []
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : [])
+    ]
+  }
+
+  // Longest common subsequence table, lcs[i][j] covers a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].trim() === b[j].trim()
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const segments: TextSegment[] = []
+  const push = (type: TextSegment['type'], text: string) => {
+    const last = segments[segments.length - 1]
+    if (last?.type === type) {
+      last.text += text
+    } else {
+      segments.push({ type, text })
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      push('equal', b[j])
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++])
+    } else {
+      push('added', b[j++])
+    }
+  }
+  while (i < a.length) push('removed', a[i++])
+  while (j < b.length) push('added', b[j++])
+
+  return segments
+}
+
+/**
+ * Compare two metadata objects field by field
+ * Unchanged fields are left out
+ */
+export function diffMetadata(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined,
+  documentType?: string
+): FieldDiff[] {
+  const previous = before || {}
+  const next = after || {}
+
+  const knownFields = FIELD_ORDER[documentType || ''] || []
+  const otherFields = [...new Set([...Object.keys(previous), ...Object.keys(next)])]
+    .filter(field => !knownFields.includes(field))
+    .sort()
+
+  const changes: FieldDiff[] = []
+
+  for (const field of [...knownFields, ...otherFields]) {
+    const from = previous[field]
+    const to = next[field]
+
+    if (JSON.stringify(from) === JSON.stringify(to) || (isEmpty(from) && isEmpty(to))) continue
+
+    if (Array.isArray(from) || Array.isArray(to)) {
+      const fromList: string[] = Array.isArray(from) ? from : []
+      const toList: string[] = Array.isArray(to) ? to : []
+      const added = toList.filter(item => !fromList.includes(item))
+      const removed = fromList.filter(item => !toList.includes(item))
+
+      // Same elements in another order
+      if (added.length === 0 && removed.length === 0) {
+        changes.push({ field, kind: 'changed', before: from, after: to })
+      } else {
+        changes.push({ field, kind: 'list', added, removed })
+      }
+    } else if (isEmpty(from)) {
+      changes.push({ field, kind: 'added', after: to })
+    } else if (isEmpty(to)) {
+      changes.push({ field, kind: 'removed', before: from })
+    } else if (isLongText(field, from, to)) {
+      changes.push({ field, kind: 'text', segments: diffWords(from as string, to as string) })
+    } else {
+      changes.push({ field, kind: 'changed', before: from, after: to })
+    }
+  }
+
+  return changes
+}
@@ -0,0 +1,100 @@
+/**
+ * Document Display
+ *
+ * What is shown for each document type, shared by the feed
+ * (GlobalFeedDocuments) and the static site export so a document reads the
+ * same in both:
+ * - quote: the quote text, its author, then the source's citation fields
+ * - link: title, description and URL, then author and site
+ * - image: the image and its title, then file and creator details
+ */
+
+export interface DetailField {
+  label: string
+  value: string
+  href?: string  // Shown as a link
+  mono?: boolean // Identifiers, shown in a fixed-width font
+}
+
+// The stored document fields shown, like VersionedDocument for the history
+export interface DisplayedDocument {
+  documentType?: string
+  ipfsCID?: string
+  ipfsHash?: string
+  filename?: string
+  mimeType?: string
+  contentType?: string
+  size?: number
+  contentSize?: number
+  metadata?: Record<string, unknown>
+}
+
+// Metadata value as shown, years can be stored as numbers
+const text = (value: unknown): string =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : ''
+
+export function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 Bytes'
+  const k = 1024
+  const sizes = ['Bytes', 'KB', 'MB', 'GB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i]
+}
+
+/**
+ * "image/png • 2 KB" under an image's title on its card
+ *
+ * @returns null if the type or the size is unknown
+ */
+export function imageFileInfo(document: DisplayedDocument): string | null {
+  const type = document.mimeType || document.contentType
+  const size = document.size || document.contentSize
+  if (!type || !size) return null
+  return `${type} • ${formatFileSize(size || 0)}`
+}
+
+/**
+ * Labelled details of a document, in display order, skipping empty ones
+ * Keywords are listed separately (documentKeywords)
+ */
+export function documentDetailFields(document: DisplayedDocument): DetailField[] {
+  const metadata = document.metadata || {}
+  let fields: (DetailField | false)[] = []
+
+  if (document.documentType === 'quote') {
+    const [title, publisher, year, isbn, pageNumbers] = [metadata.title, metadata.publisher, metadata.year, metadata.isbn, metadata.pageNumbers].map(text)
+    fields = [
+      !!title && { label: 'Source', value: title },
+      !!publisher && { label: 'Publisher', value: publisher },
+      !!year && { label: 'Year', value: year },
+      !!isbn && { label: 'ISBN', value: isbn, mono: true },
+      !!pageNumbers && { label: 'Pages', value: pageNumbers }
+    ]
+  } else if (document.documentType === 'link') {
+    const [url, author, siteName] = [metadata.url, metadata.author, metadata.siteName].map(text)
+    fields = [
+      { label: 'URL', value: url, href: url || undefined },
+      !!author && { label: 'Author', value: author },
+      !!siteName && { label: 'Site', value: siteName }
+    ]
+  } else if (document.documentType === 'image') {
+    const cid = document.ipfsCID || document.ipfsHash
+    const [creator, source, date] = [metadata.creator, metadata.source, metadata.date].map(text)
+    fields = [
+      !!cid && { label: 'IPFS CID', value: cid, mono: true },
+      !!document.filename && { label: 'Filename', value: document.filename },
+      !!document.size && { label: 'Size', value: formatFileSize(document.size) },
+      !!document.mimeType && { label: 'Type', value: document.mimeType },
+      !!creator && { label: 'Creator', value: creator },
+      !!source && { label: 'Source', value: source },
+      !!date && { label: 'Date', value: date }
+    ]
+  }
+
+  return fields.filter((field): field is DetailField => !!field)
+}
+
+export function documentKeywords(document: DisplayedDocument): string[] {
+  const keywords = document.metadata?.keywords
+  return Array.isArray(keywords) ? keywords.map(String) : []
+}
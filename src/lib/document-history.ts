@@ -0,0 +1,133 @@
+/**
+ * P2P Document History
+ *
+ * Point-in-time views of documents stored in OrbitDB collections.
+ *
+ * Documents keep their current metadata plus a versionHistory, where the
+ * entry for version N records when it was made and holds the metadata of
+ * version N-1 (previousMetadata). Walking that history backwards gives the
+ * document as it was at any past moment.
+ *
+ * Note: documents removed from a collection are gone from its store, so
+ * they can't appear in past views of the collection.
+ */
+
+export interface VersionHistoryEntry {
+  version: number
+  editedBy: string
+  editedAt: number
+  changeComment: string
+  previousMetadata: Record<string, unknown>
+  previousTitle?: string // Title of version N-1, recorded since time-travel queries
+  revertedToVersion?: number // Set when this version restored an earlier one
+  mergedFrom?: { // Set when this version merged a fork's changes
+    mergeRequestId: string
+    collectionId: string
+    documentId: string
+    author: string
+  }
+  rebasedOnto?: { // Set when this version rebased a fork onto its parent
+    version: number
+    conflicts: string[] // Fields that kept the fork's value
+  }
+}
+
+export interface DocumentVersion {
+  version: number
+  title: string
+  metadata: Record<string, unknown>
+  editedBy?: string
+  editedAt: number
+  changeComment?: string
+}
+
+// The fields of a stored document its history is read from
+export interface VersionedDocument {
+  documentType?: string
+  title: string
+  created: number
+  uploadedBy?: string
+  version?: number
+  metadata?: Record<string, unknown>
+  versionHistory?: VersionHistoryEntry[]
+}
+
+/**
+ * Display title for a document's metadata, same rules as the edit and fork routes
+ */
+export function displayTitleFor(documentType: string | undefined, metadata: Record<string, unknown> | undefined, fallback: string): string {
+  const title = documentType === 'link' ? metadata?.siteName || metadata?.title : metadata?.title
+  return typeof title === 'string' && title ? title : fallback
+}
+
+/**
+ * Every known version of a document, oldest first
+ */
+export function getDocumentVersions(document: VersionedDocument): DocumentVersion[] {
+  const currentVersion = document.version || 1
+  const history = document.versionHistory || []
+  const entryFor = (version: number) => history.find(entry => entry.version === version)
+
+  const versions: DocumentVersion[] = []
+  let metadata = document.metadata || {}
+  let title = document.title
+
+  for (let version = currentVersion; version >= 1; version--) {
+    const entry = entryFor(version)
+
+    versions.unshift({
+      version,
+      title,
+      metadata,
+      editedBy: entry?.editedBy || (version === 1 ? document.uploadedBy : undefined),
+      editedAt: entry?.editedAt || document.created,
+      changeComment: entry?.changeComment
+    })
+
+    // The entry for this version knows what the previous one looked like
+    if (!entry?.previousMetadata) break
+    metadata = entry.previousMetadata
+    title = entry.previousTitle || displayTitleFor(document.documentType, metadata, title)
+  }
+
+  return versions
+}
+
+/**
+ * A document as it was at a timestamp, or null if it didn't exist yet
+ */
+export function getDocumentAt<T extends VersionedDocument>(document: T, timestamp: number): T | null {
+  if (document.created > timestamp) {
+    return null
+  }
+
+  const versions = getDocumentVersions(document)
+  const version = [...versions].reverse().find(v => v.editedAt <= timestamp) || versions[0]
+
+  return {
+    ...document,
+    title: version.title,
+    metadata: version.metadata,
+    version: version.version,
+    versionHistory: (document.versionHistory || []).filter(entry => entry.version <= version.version)
+  }
+}
+
+/**
+ * The documents of a collection as they were at a timestamp
+ */
+export function getCatalogAt<T extends VersionedDocument>(documents: T[], timestamp: number): T[] {
+  return documents
+    .map(document => getDocumentAt(document, timestamp))
+    .filter((document): document is T => document !== null)
+}
+
+/**
+ * Parse a timestamp query parameter, either milliseconds or an ISO 8601 date
+ */
+export function parseTimestamp(value: string | null): number | null {
+  if (!value) return null
+
+  const timestamp = /^\d+$/.test(value) ? Number(value) : new Date(value).getTime()
+  return Number.isNaN(timestamp) ? null : timestamp
+}
@@ -0,0 +1,341 @@
+/**
+ * Duplicate Detection
+ *
+ * Finds documents that are probably the same source added more than once,
+ * with different IDs and slightly different metadata:
+ * - Quotes: MinHash signatures of the quote text's word shingles, compared
+ *   by estimated Jaccard similarity, so small edits still match
+ * - Links: canonical URLs (scheme, www, tracking parameters, fragments... ignored)
+ * - Images: perceptual difference hashes compared by Hamming distance,
+ *   or the same IPFS CID
+ *
+ * Copies of a document added to other collections keep its ID, and forks
+ * point at their parent, so neither is reported as a duplicate.
+ */
+
+import type { FeedSearchItem } from './feed-search-index'
+import { words } from './text-analysis'
+
+export type Fingerprint =
+  | { kind: 'text', signature: number[] }
+  | { kind: 'url', url: string }
+  | { kind: 'image', hash?: string, cid?: string }
+
+// The stored document fields duplicates are found by
+export interface FingerprintedDocument {
+  id?: string // Unset for a document that isn't stored yet
+  documentType?: string
+  parentDocumentId?: string
+  perceptualHash?: string
+  ipfsCID?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface DuplicateMatch {
+  item: FeedSearchItem
+  kind: Fingerprint['kind']
+  similarity: number // 0 to 1
+}
+
+export interface DuplicateCluster {
+  kind: Fingerprint['kind']
+  similarity: number // Lowest similarity between linked members
+  items: FeedSearchItem[]
+}
+
+const SHINGLE_SIZE = 3 // Words per shingle
+const SIGNATURE_SIZE = 64
+const LSH_BANDS = 16 // Bands of SIGNATURE_SIZE / LSH_BANDS rows
+
+// Least similarity for two documents to count as duplicates
+const TEXT_SIMILARITY = 0.7 // A word or two changed in a 30 word quote
+const IMAGE_SIMILARITY = 0.875 // At most 8 of the 64 hash bits differ
+
+// Query parameters that track clicks rather than identify a page
+const TRACKING_PARAMS = /^(utm_.*|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|ref|ref_src|igshid|_hsenc|_hsmi)$/i
+
+/**
+ * Overlapping runs of SHINGLE_SIZE normalised words
+ */
+export function shingles(text: string): Set<string> {
+  const tokens = words(text).map(({ word }) => word)
+  if (tokens.length <= SHINGLE_SIZE) return new Set(tokens.length > 0 ? [tokens.join(' ')] : [])
+
+  const result = new Set<string>()
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    result.add(tokens.slice(i, i + SHINGLE_SIZE).join(' '))
+  }
+  return result
+}
+
+// 32-bit FNV-1a
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// One of SIGNATURE_SIZE independent hash functions, by seed
+function rehash(hash: number, seed: number): number {
+  let h = Math.imul(hash ^ seed, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h >>> 0
+}
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => Math.imul(i + 1, 0x9e3779b1) >>> 0)
+
+/**
+ * MinHash signature of a text, null if it has no words
+ */
+export function minhashSignature(text: string): number[] | null {
+  const hashes = [...shingles(text)].map(hashString)
+  if (hashes.length === 0) return null
+
+  return SEEDS.map(seed => hashes.reduce((min, hash) => Math.min(min, rehash(hash, seed)), Infinity))
+}
+
+/**
+ * Estimated Jaccard similarity of the texts two signatures were made from
+ */
+export function signatureSimilarity(a: number[], b: number[]): number {
+  let same = 0
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    if (a[i] === b[i]) same++
+  }
+  return same / SIGNATURE_SIZE
+}
+
+/**
+ * URL with the differences that don't change the page removed
+ * e.g. http://www.Example.com:80/a/?utm_source=x&b=2&a=1#top -> https://example.com/a?a=1&b=2
+ *
+ * @returns null if the value isn't an http(s) URL
+ */
+export function canonicalizeUrl(value: string): string | null {
+  let url: URL
+  try {
+    url = new URL(value.trim())
+  } catch {
+    return null
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+
+  const host = url.hostname.toLowerCase().replace(/^(www|m)\./, '')
+  const path = url.pathname.replace(/\/(index\.html?)?$/, '') || ''
+  const params = [...url.searchParams.entries()]
+    .filter(([name]) => !TRACKING_PARAMS.test(name))
+    .sort(([a, aValue], [b, bValue]) => a.localeCompare(b) || aValue.localeCompare(bValue))
+  const query = params.length > 0 ? '?' + new URLSearchParams(params).toString() : ''
+
+  return `https://${host}${path}${query}`
+}
+
+/**
+ * 64-bit difference hash of a 9x8 grayscale image, as 16 hex digits
+ * Each bit tells whether a pixel is brighter than its right neighbour
+ */
+export function differenceHash(pixels: ArrayLike<number>): string {
+  let hex = ''
+  for (let row = 0; row < 8; row++) {
+    let byte = 0
+    for (let col = 0; col < 8; col++) {
+      const left = pixels[row * 9 + col]
+      const right = pixels[row * 9 + col + 1]
+      byte = (byte << 1) | (left > right ? 1 : 0)
+    }
+    hex += byte.toString(16).padStart(2, '0')
+  }
+  return hex
+}
+
+/**
+ * Number of differing bits between two hex hashes of the same length
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+    while (bits) {
+      distance += bits & 1
+      bits >>= 1
+    }
+  }
+  return distance
+}
+
+export function isPerceptualHash(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f]{16}$/.test(value)
+}
+
+// Documents are re-read from the index unchanged, fingerprint each once
+const fingerprintCache = new WeakMap<object, Fingerprint | null>()
+
+/**
+ * What a document is compared by, null if there's nothing to compare
+ */
+export function fingerprintOf(document: FingerprintedDocument): Fingerprint | null {
+  if (fingerprintCache.has(document)) return fingerprintCache.get(document)!
+
+  const metadata = document.metadata || {}
+  let fingerprint: Fingerprint | null = null
+
+  if (document.documentType === 'quote' && metadata.quoteContent) {
+    const signature = minhashSignature(String(metadata.quoteContent))
+    if (signature) fingerprint = { kind: 'text', signature }
+  } else if (document.documentType === 'link' && metadata.url) {
+    const url = canonicalizeUrl(String(metadata.url))
+    if (url) fingerprint = { kind: 'url', url }
+  } else if (document.documentType === 'image' && (document.perceptualHash || document.ipfsCID)) {
+    fingerprint = {
+      kind: 'image',
+      ...(isPerceptualHash(document.perceptualHash) && { hash: document.perceptualHash }),
+      ...(document.ipfsCID && { cid: document.ipfsCID })
+    }
+  }
+
+  fingerprintCache.set(document, fingerprint)
+  return fingerprint
+}
+
+/**
+ * How alike two fingerprints are, 0 for different kinds
+ */
+export function fingerprintSimilarity(a: Fingerprint, b: Fingerprint): number {
+  if (a.kind === 'text' && b.kind === 'text') return signatureSimilarity(a.signature, b.signature)
+  if (a.kind === 'url' && b.kind === 'url') return a.url === b.url ? 1 : 0
+  if (a.kind === 'image' && b.kind === 'image') {
+    if (a.cid && a.cid === b.cid) return 1
+    if (a.hash && b.hash) return 1 - hammingDistance(a.hash, b.hash) / 64
+  }
+  return 0
+}
+
+function isDuplicateSimilarity(kind: Fingerprint['kind'], similarity: number): boolean {
+  if (kind === 'text') return similarity >= TEXT_SIMILARITY
+  if (kind === 'image') return similarity >= IMAGE_SIMILARITY
+  return similarity === 1
+}
+
+// Same document in another collection, or a fork and its parent
+function areRelated(a: FingerprintedDocument, b: FingerprintedDocument): boolean {
+  return a.id === b.id || a.parentDocumentId === b.id || b.parentDocumentId === a.id
+}
+
+/**
+ * Indexed documents that are probably duplicates of a document, most alike first
+ * The document doesn't have to be stored yet
+ */
+export function findDuplicates(document: FingerprintedDocument, items: FeedSearchItem[]): DuplicateMatch[] {
+  const fingerprint = fingerprintOf(document)
+  if (!fingerprint) return []
+
+  const matches: DuplicateMatch[] = []
+  for (const item of items) {
+    if (document.id && areRelated(document, item.document)) continue
+
+    const other = fingerprintOf(item.document)
+    if (!other) continue
+
+    const similarity = fingerprintSimilarity(fingerprint, other)
+    if (similarity > 0 && isDuplicateSimilarity(fingerprint.kind, similarity)) {
+      matches.push({ item, kind: fingerprint.kind, similarity })
+    }
+  }
+
+  return matches.sort((a, b) => b.similarity - a.similarity)
+}
+
+/**
+ * Groups of documents that are duplicates of one another, largest first
+ * Candidate pairs come from shared LSH bands, canonical URLs and image CIDs,
+ * so most documents are never compared
+ */
+export function clusterDuplicates(items: FeedSearchItem[]): DuplicateCluster[] {
+  const entries = items
+    .map(item => ({ item, fingerprint: fingerprintOf(item.document) }))
+    .filter((entry): entry is { item: FeedSearchItem, fingerprint: Fingerprint } => entry.fingerprint !== null)
+
+  // Documents sharing a bucket are compared
+  const buckets = new Map<string, number[]>()
+  const addToBucket = (key: string, index: number) => {
+    const bucket = buckets.get(key)
+    if (bucket) bucket.push(index)
+    else buckets.set(key, [index])
+  }
+
+  const rows = SIGNATURE_SIZE / LSH_BANDS
+  entries.forEach(({ fingerprint }, index) => {
+    if (fingerprint.kind === 'text') {
+      for (let band = 0; band < LSH_BANDS; band++) {
+        addToBucket(`text:${band}:${fingerprint.signature.slice(band * rows, (band + 1) * rows).join(',')}`, index)
+      }
+    } else if (fingerprint.kind === 'url') {
+      addToBucket(`url:${fingerprint.url}`, index)
+    } else {
+      if (fingerprint.cid) addToBucket(`cid:${fingerprint.cid}`, index)
+      // Hashes 8 bits apart at most share at least one of their 9 7-bit chunks
+      if (fingerprint.hash) {
+        const bits = [...fingerprint.hash].map(digit => parseInt(digit, 16).toString(2).padStart(4, '0')).join('')
+        for (let chunk = 0; chunk < 9; chunk++) {
+          addToBucket(`image:${chunk}:${bits.slice(chunk * 7, chunk * 7 + 7)}`, index)
+        }
+      }
+    }
+  })
+
+  // Union-find over the duplicate pairs
+  const parent = entries.map((_, index) => index)
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]]
+      index = parent[index]
+    }
+    return index
+  }
+
+  const lowest = new Map<number, number>() // Root -> lowest linking similarity
+  const compared = new Set<string>()
+
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [a, b] = [bucket[i], bucket[j]]
+        const pair = `${a}:${b}`
+        if (compared.has(pair)) continue
+        compared.add(pair)
+
+        if (areRelated(entries[a].item.document, entries[b].item.document)) continue
+
+        const similarity = fingerprintSimilarity(entries[a].fingerprint, entries[b].fingerprint)
+        if (!isDuplicateSimilarity(entries[a].fingerprint.kind, similarity)) continue
+
+        const [rootA, rootB] = [find(a), find(b)]
+        const linked = Math.min(similarity, lowest.get(rootA) ?? 1, lowest.get(rootB) ?? 1)
+        parent[rootB] = rootA
+        lowest.set(rootA, linked)
+      }
+    }
+  }
+
+  const clusters = new Map<number, FeedSearchItem[]>()
+  entries.forEach(({ item }, index) => {
+    const root = find(index)
+    const members = clusters.get(root) || []
+    members.push(item)
+    clusters.set(root, members)
+  })
+
+  return [...clusters.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      kind: entries[root].fingerprint.kind,
+      similarity: lowest.get(root) ?? 1,
+      items: members
+    }))
+    .sort((a, b) => b.items.length - a.items.length || b.similarity - a.similarity)
+}
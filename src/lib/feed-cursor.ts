@@ -0,0 +1,105 @@
+/**
+ * Feed Cursors
+ *
+ * Pages of /api/feed and /api/feed/search continue after the last item of
+ * the previous page instead of skipping a number of items, so documents
+ * written in the meantime don't shift what the next page holds.
+ *
+ * Feeds are ordered newest first by creation date, then document ID, then
+ * collection (the same document can be in several collections). Relevance
+ * ranked searches order by score first. A cursor is that position of the last
+ * item, encoded so clients pass it back as it is.
+ */
+
+import type { FeedSearchItem } from './feed-search-index'
+
+export interface FeedPosition {
+  created: number
+  id: string
+  collectionId: string
+  score?: number // Relevance ranked searches
+}
+
+export interface FeedPage<T> {
+  items: T[]
+  hasMore: boolean
+  nextCursor: string | null // Continues after this page, null on the last page
+}
+
+type FeedEntry = FeedSearchItem & { score?: number }
+
+export function positionOf(item: FeedEntry): FeedPosition {
+  const position: FeedPosition = {
+    created: Number(item.document.created) || 0,
+    id: String(item.document.id),
+    collectionId: item.collectionId
+  }
+  if (item.score) position.score = item.score
+  return position
+}
+
+/**
+ * Feed order: best score first, then newest, then by document ID and collection
+ */
+export function compareFeedOrder(a: FeedEntry, b: FeedEntry): number {
+  return comparePositions(positionOf(a), positionOf(b))
+}
+
+function comparePositions(a: FeedPosition, b: FeedPosition): number {
+  return (b.score || 0) - (a.score || 0)
+    || b.created - a.created
+    || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+    || (a.collectionId < b.collectionId ? 1 : a.collectionId > b.collectionId ? -1 : 0)
+}
+
+export function encodeFeedCursor(position: FeedPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url')
+}
+
+/**
+ * @returns null if the cursor wasn't made by encodeFeedCursor
+ */
+export function decodeFeedCursor(cursor: string): FeedPosition | null {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (
+      typeof position?.created !== 'number' ||
+      typeof position.id !== 'string' ||
+      typeof position.collectionId !== 'string' ||
+      (position.score !== undefined && typeof position.score !== 'number')
+    ) {
+      return null
+    }
+    return position
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The page of items following the cursor's position
+ * Items must be in feed order, the cursor's own item may have been removed since
+ */
+export function pageAfter<T extends FeedEntry>(items: T[], after: FeedPosition | null, limit: number): FeedPage<T> {
+  // First item past the cursor, by binary search
+  let start = 0
+  if (after) {
+    let end = items.length
+    while (start < end) {
+      const middle = (start + end) >> 1
+      if (comparePositions(positionOf(items[middle]), after) <= 0) {
+        start = middle + 1
+      } else {
+        end = middle
+      }
+    }
+  }
+
+  const page = items.slice(start, start + limit)
+  const hasMore = start + limit < items.length
+  return {
+    items: page,
+    hasMore,
+    nextCursor: hasMore && page.length > 0 ? encodeFeedCursor(positionOf(page[page.length - 1])) : null
+  }
+}
@@ -0,0 +1,521 @@
+/**
+ * Feed Search Index
+ *
+ * Persistent full-text index of every document in the registered OrbitDB
+ * collections, used by /api/feed/search instead of scanning all collections
+ * on every request.
+ *
+ * - Tokenized documents are kept in SQLite and loaded into an InvertedIndex on startup
+ * - Routes writing to a collection update the index for that document right away
+ * - Writes replicated from other peers are picked up by a periodic refresh,
+ *   which re-tokenizes only the documents that changed
+ *
+ * Indexed: titles, descriptions, keywords, every text metadata field and the
+ * quote text stored on IPFS. The index also keeps every document in feed
+ * order (newest first), which /api/feed pages through with cursors.
+ *
+ * Note: This is a singleton instance shared across the application.
+ */
+
+import { orbitdbClient } from './orbitdb-client'
+import { userCollectionRegistry } from './user-collection-registry'
+import { getDatabase } from './database'
+import { ANALYZER_VERSION, IndexedDocument, InvertedIndex } from './search-index'
+import { CitationFilters, matchesCitationFilters, normalizeISBN, parseCitationQuery } from './citation-query'
+import { matchesText } from './text-analysis'
+import { expandKeywords } from './keywords'
+import { compareFeedOrder } from './feed-cursor'
+import type { SynonymGroup } from './keywords'
+import type { VersionedDocument } from './document-history'
+import type { SearchResult } from './p2p/types'
+
+// A collection document as stored and indexed, with whatever other fields it was stored with
+export interface FeedDocument extends VersionedDocument {
+  id: string
+  description?: string
+  filename?: string
+  ipfsCID?: string
+  parentDocumentId?: string
+  parentCollectionId?: string
+  childDocumentIds?: string[]
+  [field: string]: unknown
+}
+
+export interface FeedSearchItem {
+  document: FeedDocument
+  collectionId: string
+  collectionName: string
+  owner: string   // Owner username
+  ownerId: string // Owner DID
+}
+
+export type FeedSearchResult = FeedSearchItem & Pick<SearchResult, 'score' | 'highlights'>
+
+export interface FeedSearchOptions {
+  query?: string
+  types?: string[]
+  keywords?: string[] // Matches ANY keyword, allowing for accents, word endings and typos
+  collections?: string[] // Collection IDs
+  owners?: string[]      // Owner DIDs
+  citation?: CitationFilters
+  synonyms?: SynonymGroup[] // Keywords also match their synonyms
+}
+
+// Search API parameters, saved searches keep them as they are
+export const SEARCH_PARAMS = [
+  'title', 'type', 'keywords', 'collection', 'owner', 'author', 'publisher', 'yearFrom', 'yearTo', 'isbn'
+] as const
+
+/**
+ * Search options from /api/feed/search parameters
+ * Citation fields can be inline in the title or separate, separate ones win
+ *
+ * @returns null if the ISBN parameter isn't a valid ISBN
+ */
+export function searchOptionsFromParams(params: URLSearchParams): FeedSearchOptions | null {
+  const list = (name: string) => (params.get(name) || '').split(',').map(value => value.trim()).filter(Boolean)
+
+  const { text, filters: citation } = parseCitationQuery(params.get('title') || '')
+  const author = params.get('author')
+  const publisher = params.get('publisher')
+  const yearFrom = params.get('yearFrom')
+  const yearTo = params.get('yearTo')
+  const isbn = params.get('isbn')
+
+  if (author) citation.author = author
+  if (publisher) citation.publisher = publisher
+  if (yearFrom) citation.yearFrom = parseInt(yearFrom)
+  if (yearTo) citation.yearTo = parseInt(yearTo)
+  if (isbn) {
+    const normalized = normalizeISBN(isbn)
+    if (!normalized) return null
+    citation.isbn = normalized
+  }
+
+  return {
+    query: text || undefined,
+    types: list('type'),
+    keywords: list('keywords'),
+    collections: list('collection'),
+    owners: list('owner'),
+    citation
+  }
+}
+
+// Rows of the SQLite tables the index is kept in
+interface CollectionRow {
+  store_name: string
+  collection_id: string
+  name: string | null
+  owner_id: string | null
+  owner_username: string | null
+  synced_at: number | null
+}
+
+interface DocumentRow {
+  store_name: string
+  document: string // FeedDocument JSON
+  entry: string    // IndexedDocument JSON
+}
+
+interface IndexedCollection {
+  collectionId: string
+  name: string
+  ownerId: string
+  ownerUsername: string
+}
+
+// Collections are re-read from OrbitDB in the background once the index is this old
+const REFRESH_INTERVAL = 30000
+
+// Metadata that isn't worth searching
+const UNINDEXED_METADATA = ['ipfsCID', 'contentType', 'contentSize', 'thumbnail', 'archived']
+
+/**
+ * Searchable text fields of a document
+ */
+function documentFields(document: FeedDocument, content: string | null): Record<string, string> {
+  const metadata = document.metadata || {}
+  const join = (...values: unknown[]) =>
+    [...new Set(values.filter(value => typeof value === 'string' && value))].join(' ')
+
+  const fields: Record<string, string> = {
+    title: join(document.title, metadata.title),
+    description: join(document.description, metadata.description),
+    keywords: Array.isArray(metadata.keywords) ? metadata.keywords.join(', ') : '',
+    quoteContent: join(metadata.quoteContent),
+    filename: join(document.filename)
+  }
+
+  // Quote text on IPFS, when edits haven't made it the same as quoteContent
+  if (content && content !== metadata.quoteContent) {
+    fields.content = content
+  }
+
+  for (const [field, value] of Object.entries(metadata)) {
+    if (field in fields || UNINDEXED_METADATA.includes(field)) continue
+    if (typeof value === 'string' || typeof value === 'number') {
+      fields[field] = String(value)
+    }
+  }
+
+  return fields
+}
+
+/**
+ * FeedSearchIndex Class
+ *
+ * Keeps the inverted index in step with OrbitDB collections and SQLite.
+ */
+class FeedSearchIndex {
+  private index = new InvertedIndex<FeedSearchItem>()
+
+  // Store name -> collection info, for the collections in the index
+  private collections = new Map<string, IndexedCollection>()
+
+  // Every document in feed order, sorted again after the index changes
+  private ordered: { id: string, data: FeedSearchItem }[] | null = null
+
+  // Tracks whether the index has been read back from SQLite
+  private loaded = false
+
+  // Stored documents tokenized by an older analyzer, left out until re-indexed
+  private staleEntries = false
+
+  private lastRefresh = 0
+  private refreshing: Promise<void> | null = null
+
+  /**
+   * Load the index on first use and refresh it when stale
+   * Only the very first build, or a rebuild for a new analyzer, waits for OrbitDB
+   */
+  async ready(): Promise<void> {
+    this.ensureLoaded()
+
+    if (this.collections.size === 0 || this.staleEntries) {
+      await this.refresh()
+      this.staleEntries = false
+    } else if (Date.now() - this.lastRefresh > REFRESH_INTERVAL) {
+      this.refresh().catch(error => console.error('Search index refresh failed:', error))
+    }
+  }
+
+  /**
+   * Re-read every registered collection, re-indexing changed documents
+   */
+  async refresh(): Promise<void> {
+    this.refreshing ??= this.syncAll().finally(() => {
+      this.refreshing = null
+    })
+    return this.refreshing
+  }
+
+  /**
+   * Index a document just written to a collection
+   * Failures are logged, the write itself already succeeded
+   */
+  async indexDocument(storeNameOrAddress: string, document: FeedDocument): Promise<void> {
+    const storeName = storeNameOf(storeNameOrAddress)
+    try {
+      this.ensureLoaded()
+      const collection = this.collections.get(storeName) || await this.readCollection(storeName)
+      if (collection) {
+        await this.upsert(storeName, collection, document)
+      }
+    } catch (error) {
+      console.error(`Failed to index document ${document?.id}:`, error)
+    }
+  }
+
+  /**
+   * Drop a document removed from a collection
+   */
+  removeDocument(storeNameOrAddress: string, documentId: string): void {
+    const storeName = storeNameOf(storeNameOrAddress)
+    try {
+      this.ensureLoaded()
+      this.index.remove(`${storeName}/${documentId}`)
+      this.ordered = null
+      this.db.prepare('DELETE FROM search_index_documents WHERE store_name = ? AND document_id = ?')
+        .run(storeName, documentId)
+    } catch (error) {
+      console.error(`Failed to remove document ${documentId} from search index:`, error)
+    }
+  }
+
+  /**
+   * Documents matching the query and filters, best first
+   * Without a query, every matching document in feed order
+   */
+  search(options: FeedSearchOptions): FeedSearchResult[] {
+    const types = options.types || []
+    const keywords = expandKeywords(options.keywords || [], options.synonyms || [])
+    const collections = options.collections || []
+    const owners = options.owners || []
+    const citation = options.citation || {}
+
+    const candidates = this.orderedEntries().filter(({ data }) => {
+      if (types.length > 0 && !types.includes(data.document.documentType || '')) return false
+      if (collections.length > 0 && !collections.includes(data.collectionId)) return false
+      if (owners.length > 0 && !owners.includes(data.ownerId)) return false
+      if (!matchesCitationFilters(data.document, citation)) return false
+      if (keywords.length > 0) {
+        const documentKeywords = data.document.metadata?.keywords
+        return Array.isArray(documentKeywords) && keywords.some(keyword =>
+          documentKeywords.some(documentKeyword => matchesText(String(documentKeyword), keyword))
+        )
+      }
+      return true
+    })
+
+    // Free text over every field, author and publisher within their own field
+    const queries: [string, string | undefined][] = [
+      [options.query || '', undefined],
+      [citation.author || '', 'author'],
+      [citation.publisher || '', 'publisher']
+    ]
+    const activeQueries = queries.filter(([query]) => query.trim())
+
+    if (activeQueries.length === 0) {
+      return candidates.map(({ data }) => ({ ...data, score: 0, highlights: [] }))
+    }
+
+    // Each query narrows the previous one's matches, scores add up
+    let matching = new Set(candidates.map(({ id }) => id))
+    const results = new Map<string, FeedSearchResult>()
+
+    for (const [query, field] of activeQueries) {
+      const hits = this.index.search(query, matching, field)
+      matching = new Set(hits.map(hit => hit.id))
+
+      for (const hit of hits) {
+        const previous = results.get(hit.id)
+        results.set(hit.id, {
+          ...hit.data,
+          score: (previous?.score || 0) + hit.score,
+          highlights: [...new Set([...(previous?.highlights || []), ...hit.highlights])]
+        })
+      }
+    }
+
+    return [...matching]
+      .map(id => results.get(id)!)
+      .sort(compareFeedOrder)
+  }
+
+  /**
+   * Every indexed document
+   */
+  allItems(): FeedSearchItem[] {
+    return this.index.all().map(({ data }) => data)
+  }
+
+  /**
+   * Every indexed document in feed order, newest first
+   */
+  feedItems(): FeedSearchItem[] {
+    return this.orderedEntries().map(({ data }) => data)
+  }
+
+  private orderedEntries(): { id: string, data: FeedSearchItem }[] {
+    this.ordered ??= this.index.all().sort((a, b) => compareFeedOrder(a.data, b.data))
+    return this.ordered
+  }
+
+  private get db() {
+    return getDatabase()
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) return
+
+    const collectionRows = this.db.prepare('SELECT * FROM search_index_collections').all() as CollectionRow[]
+    for (const row of collectionRows) {
+      this.collections.set(row.store_name, {
+        collectionId: row.collection_id,
+        name: row.name || '',
+        ownerId: row.owner_id || '',
+        ownerUsername: row.owner_username || ''
+      })
+      this.lastRefresh = Math.max(this.lastRefresh, row.synced_at || 0)
+    }
+
+    const documentRows = this.db.prepare('SELECT store_name, document, entry FROM search_index_documents').all() as DocumentRow[]
+    for (const row of documentRows) {
+      const collection = this.collections.get(row.store_name)
+      if (!collection) continue
+
+      const entry: IndexedDocument = JSON.parse(row.entry)
+      if (entry.analyzer !== ANALYZER_VERSION) {
+        this.staleEntries = true
+        continue
+      }
+
+      const document: FeedDocument = JSON.parse(row.document)
+      this.index.load(`${row.store_name}/${document.id}`, entry, itemFor(collection, document))
+    }
+
+    this.loaded = true
+  }
+
+  private async syncAll(): Promise<void> {
+    this.ensureLoaded()
+
+    const health = await orbitdbClient.health()
+    if (!health.ok) {
+      throw new Error('OrbitDB service is not available')
+    }
+
+    const storeNames = await userCollectionRegistry.getAllCollections()
+
+    for (const storeName of storeNames) {
+      try {
+        await this.syncCollection(storeName)
+      } catch (error) {
+        console.error(`Failed to index collection ${storeName}:`, error)
+      }
+    }
+
+    // Collections no longer in the registry
+    for (const storeName of [...this.collections.keys()]) {
+      if (!storeNames.includes(storeName)) {
+        this.dropCollection(storeName)
+      }
+    }
+
+    this.lastRefresh = Date.now()
+  }
+
+  private async syncCollection(storeName: string): Promise<void> {
+    const collection = await this.readCollection(storeName)
+    if (!collection) {
+      this.dropCollection(storeName)
+      return
+    }
+
+    const documents = await orbitdbClient.getCollectionDocuments(storeName)
+    for (const document of documents) {
+      await this.upsert(storeName, collection, document)
+    }
+
+    // Documents removed from the collection
+    const documentIds = new Set(documents.map(document => document.id))
+    const indexedRows = this.db.prepare('SELECT document_id FROM search_index_documents WHERE store_name = ?')
+      .all(storeName) as { document_id: string }[]
+    for (const { document_id } of indexedRows) {
+      if (!documentIds.has(document_id)) {
+        this.removeDocument(storeName, document_id)
+      }
+    }
+
+    this.db.prepare('UPDATE search_index_collections SET synced_at = ? WHERE store_name = ?')
+      .run(Date.now(), storeName)
+  }
+
+  /**
+   * Read a collection's metadata from OrbitDB and record it
+   */
+  private async readCollection(storeName: string): Promise<IndexedCollection | null> {
+    const metadata = await orbitdbClient.getCollection(storeName)
+    if (!metadata) return null
+
+    const collection: IndexedCollection = {
+      collectionId: metadata.id || storeName,
+      name: metadata.name || '',
+      ownerId: metadata.owner || '',
+      ownerUsername: this.usernameFor(metadata.owner || '')
+    }
+
+    this.db.prepare(`
+      INSERT INTO search_index_collections (store_name, collection_id, name, owner_id, owner_username)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(store_name) DO UPDATE SET
+        collection_id = excluded.collection_id,
+        name = excluded.name,
+        owner_id = excluded.owner_id,
+        owner_username = excluded.owner_username
+    `).run(storeName, collection.collectionId, collection.name, collection.ownerId, collection.ownerUsername)
+
+    this.collections.set(storeName, collection)
+    return collection
+  }
+
+  private dropCollection(storeName: string): void {
+    const rows = this.db.prepare('SELECT document_id FROM search_index_documents WHERE store_name = ?')
+      .all(storeName) as { document_id: string }[]
+    for (const { document_id } of rows) {
+      this.index.remove(`${storeName}/${document_id}`)
+    }
+    this.ordered = null
+
+    this.db.prepare('DELETE FROM search_index_documents WHERE store_name = ?').run(storeName)
+    this.db.prepare('DELETE FROM search_index_collections WHERE store_name = ?').run(storeName)
+    this.collections.delete(storeName)
+  }
+
+  /**
+   * Index a document unless it is unchanged since it was last indexed
+   */
+  private async upsert(storeName: string, collection: IndexedCollection, document: FeedDocument): Promise<void> {
+    const key = `${storeName}/${document.id}`
+    const serialized = JSON.stringify(document)
+    const existing = this.db.prepare(
+      'SELECT document, content_cid, content FROM search_index_documents WHERE store_name = ? AND document_id = ?'
+    ).get(storeName, document.id) as { document: string, content_cid: string | null, content: string | null } | undefined
+
+    if (existing?.document === serialized && this.index.get(key)) return
+
+    // Quote text lives on IPFS, only fetched again when its CID changes
+    let contentCid: string | null = null
+    let content: string | null = null
+    if (document.documentType === 'quote' && document.ipfsCID) {
+      contentCid = document.ipfsCID
+      if (existing?.content_cid === contentCid) {
+        content = existing.content
+      } else {
+        content = await orbitdbClient.retrieveTextFromIPFS(contentCid!).catch(error => {
+          console.error(`Failed to read quote text ${contentCid} from IPFS:`, error)
+          return null
+        })
+      }
+    }
+
+    const entry = this.index.add(key, documentFields(document, content), itemFor(collection, document))
+    this.ordered = null
+
+    this.db.prepare(`
+      INSERT OR REPLACE INTO search_index_documents (store_name, document_id, document, entry, content_cid, content)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(storeName, document.id, serialized, JSON.stringify(entry), contentCid, content)
+  }
+
+  private usernameFor(ownerId: string): string {
+    const user = this.db.prepare('SELECT username FROM users WHERE id = ?').get(ownerId) as { username: string } | undefined
+    if (user?.username) return user.username
+
+    // Map known DIDs to usernames
+    if (ownerId === 'did:p2p:da3871dbd67db0bd27bcda5289f2efed') return 'theodore'
+    if (ownerId === 'did:p2p:3209956da445dbb96966c91ba431cc80') return 'dummy'
+    return 'Unknown'
+  }
+}
+
+// Same as the OrbitDB client, collections may be passed by address
+function storeNameOf(storeNameOrAddress: string): string {
+  return storeNameOrAddress.includes('/orbitdb/')
+    ? storeNameOrAddress.split('/').pop() || storeNameOrAddress
+    : storeNameOrAddress
+}
+
+function itemFor(collection: IndexedCollection, document: FeedDocument): FeedSearchItem {
+  return {
+    document,
+    collectionId: collection.collectionId,
+    collectionName: collection.name,
+    owner: collection.ownerUsername,
+    ownerId: collection.ownerId
+  }
+}
+
+// Shared instance, like the user collection registry
+export const feedSearchIndex = new FeedSearchIndex()
@@ -0,0 +1,205 @@
+/**
+ * Follows
+ *
+ * Collections and users someone follows, and the following feed made from them.
+ *
+ * Follows are kept as 'follow' and 'unfollow' entries in the user's public
+ * activity store on the orbitdb service. This is not the UserActivity eventlog
+ * of peers running their own node. What someone follows is worked out by
+ * replaying their entries, the latest one for a target wins.
+ *
+ * The following feed merges, newest first:
+ * - documents in followed collections
+ * - documents followed users publish or fork, whichever collection they're in
+ *
+ * Data Structure (store "<did>-public-activity"):
+ * {
+ *   "activity:<timestamp>-<id>": { type: 'follow' | 'unfollow', timestamp, data: { collectionId, collectionName } | { userId, username }, authorDID }
+ * }
+ */
+
+import { orbitdbClient } from './orbitdb-client'
+import type { FeedSearchItem } from './feed-search-index'
+
+export type FollowKind = 'collection' | 'user'
+
+export interface FollowTarget {
+  kind: FollowKind
+  id: string   // Collection ID or user DID
+  name: string // Collection name or username, as of following
+  followedAt: number
+}
+
+export interface FollowEntry {
+  type: 'follow' | 'unfollow'
+  timestamp: number
+  data: {
+    collectionId?: string
+    collectionName?: string
+    userId?: string
+    username?: string
+  }
+  authorDID: string
+}
+
+// Why a document is in someone's following feed
+export type FollowReason =
+  | { type: 'collection', collectionId: string, collectionName: string }
+  | { type: 'publish' | 'fork', userId: string, username: string }
+
+export type FollowingFeedItem = FeedSearchItem & { reason: FollowReason }
+
+/**
+ * Activity entry recording a follow or unfollow
+ */
+export function followEntry(
+  type: FollowEntry['type'],
+  target: Pick<FollowTarget, 'kind' | 'id' | 'name'>,
+  authorDID: string
+): FollowEntry {
+  return {
+    type,
+    timestamp: Date.now(),
+    data: target.kind === 'collection'
+      ? { collectionId: target.id, collectionName: target.name }
+      : { userId: target.id, username: target.name },
+    authorDID
+  }
+}
+
+/**
+ * What the entries leave followed, most recently followed first
+ * Entries of other activity types are skipped
+ */
+export function currentFollows(entries: { type: string, timestamp: number, data: FollowEntry['data'] }[]): FollowTarget[] {
+  const follows = new Map<string, FollowTarget>()
+
+  for (const entry of [...entries].sort((a, b) => a.timestamp - b.timestamp)) {
+    if (entry.type !== 'follow' && entry.type !== 'unfollow') continue
+
+    const kind: FollowKind | null = entry.data.collectionId ? 'collection' : entry.data.userId ? 'user' : null
+    if (!kind) continue
+    const id = kind === 'collection' ? entry.data.collectionId! : entry.data.userId!
+    const key = `${kind}:${id}`
+
+    if (entry.type === 'unfollow') {
+      follows.delete(key)
+    } else {
+      follows.set(key, {
+        kind,
+        id,
+        name: (kind === 'collection' ? entry.data.collectionName : entry.data.username) || '',
+        followedAt: entry.timestamp
+      })
+    }
+  }
+
+  return [...follows.values()].sort((a, b) => b.followedAt - a.followedAt)
+}
+
+/**
+ * Items of the following feed, in the order they're given (feed order)
+ * A document in several collections shows once, preferably from its uploader's collection
+ */
+export function followingFeed(items: FeedSearchItem[], follows: FollowTarget[]): FollowingFeedItem[] {
+  const collections = new Map(follows.filter(f => f.kind === 'collection').map(f => [f.id, f]))
+  const users = new Map(follows.filter(f => f.kind === 'user').map(f => [f.id, f]))
+
+  const byDocument = new Map<string, FollowingFeedItem>()
+  const order: string[] = []
+
+  for (const item of items) {
+    const reason = reasonFor(item, collections, users)
+    if (!reason) continue
+
+    const documentId = item.document.id
+    const previous = byDocument.get(documentId)
+    if (!previous) {
+      order.push(documentId)
+      byDocument.set(documentId, { ...item, reason })
+    } else if (previous.ownerId !== item.document.uploadedBy && item.ownerId === item.document.uploadedBy) {
+      byDocument.set(documentId, { ...item, reason })
+    }
+  }
+
+  return order.map(documentId => byDocument.get(documentId)!)
+}
+
+function reasonFor(
+  item: FeedSearchItem,
+  collections: Map<string, FollowTarget>,
+  users: Map<string, FollowTarget>
+): FollowReason | null {
+  const author = item.document.uploadedBy ? users.get(item.document.uploadedBy) : undefined
+  if (author) {
+    return { type: item.document.parentDocumentId ? 'fork' : 'publish', userId: author.id, username: author.name }
+  }
+
+  const collection = collections.get(item.collectionId)
+  if (collection) {
+    return { type: 'collection', collectionId: item.collectionId, collectionName: item.collectionName || collection.name }
+  }
+  return null
+}
+
+/**
+ * FollowStore Class
+ *
+ * Appends follow entries to each user's public activity store and reads them back.
+ */
+class FollowStore {
+  // Stores opened so far, by name
+  private opened = new Set<string>()
+
+  private storeNameFor(userId: string): string {
+    return `${userId}-public-activity`
+  }
+
+  /**
+   * Open a user's store on first use
+   */
+  private async ensureOpen(userId: string): Promise<string> {
+    const storeName = this.storeNameFor(userId)
+    if (this.opened.has(storeName)) return storeName
+
+    try {
+      await orbitdbClient.openKV(storeName)
+      this.opened.add(storeName)
+      return storeName
+    } catch (error) {
+      console.error(`Failed to open public activity for ${userId}:`, error)
+      throw error
+    }
+  }
+
+  /**
+   * What a user follows, most recently followed first
+   */
+  async list(userId: string): Promise<FollowTarget[]> {
+    const storeName = await this.ensureOpen(userId)
+    const allData = await orbitdbClient.getAllKV(storeName)
+
+    return currentFollows(
+      Object.entries(allData)
+        .filter(([key, value]) => key.startsWith('activity:') && value)
+        .map(([, value]) => value as FollowEntry)
+    )
+  }
+
+  async follow(userId: string, target: Pick<FollowTarget, 'kind' | 'id' | 'name'>, entryId: string): Promise<FollowEntry> {
+    return this.append(userId, followEntry('follow', target, userId), entryId)
+  }
+
+  async unfollow(userId: string, target: Pick<FollowTarget, 'kind' | 'id' | 'name'>, entryId: string): Promise<FollowEntry> {
+    return this.append(userId, followEntry('unfollow', target, userId), entryId)
+  }
+
+  private async append(userId: string, entry: FollowEntry, entryId: string): Promise<FollowEntry> {
+    const storeName = await this.ensureOpen(userId)
+    await orbitdbClient.putKV(storeName, `activity:${entry.timestamp}-${entryId}`, entry)
+    return entry
+  }
+}
+
+// Shared instance, like the user collection registry
+export const followStore = new FollowStore()
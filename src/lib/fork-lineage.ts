@@ -0,0 +1,156 @@
+/**
+ * P2P Fork Lineage
+ *
+ * Resolves the fork tree of a document across collections.
+ *
+ * Forking writes the new document into the forker's own collection, so a
+ * lineage usually spans several OrbitDB stores:
+ * - parentDocumentId + parentCollectionId point up to the forked document
+ * - childDocumentIds point down to its forks, wherever they live
+ *
+ * Documents that can't be found (collection unreachable, document removed,
+ * forks made before parentCollectionId was recorded...) become placeholder
+ * nodes so the rest of the tree still renders.
+ */
+
+// A stored document as far as its lineage goes, other fields are passed through
+export interface ForkDocument {
+  id: string
+  parentDocumentId?: string
+  parentCollectionId?: string
+  childDocumentIds?: string[]
+  [field: string]: unknown
+}
+
+export interface ForkPlaceholder {
+  id: string
+  placeholder: true
+  collectionId?: string // Where the document was expected, if known
+  childDocumentIds: string[]
+}
+
+export interface ForkTree {
+  documents: Record<string, ForkDocument | ForkPlaceholder>
+  documentCollections: Record<string, string> // Document ID -> collection store name
+  rootId: string
+}
+
+// Where documents are read from, the OrbitDB client and registry in the routes
+export interface ForkLineageSource {
+  getCollectionDocuments(storeName: string): Promise<ForkDocument[]>
+  getAllCollections(): Promise<string[]>
+}
+
+interface LocatedDocument {
+  document: ForkDocument
+  storeName: string
+}
+
+/**
+ * Resolve the whole fork tree containing a document
+ *
+ * @returns null if the document itself can't be found
+ */
+export async function resolveForkTree(
+  documentId: string,
+  collectionId: string | null,
+  source: ForkLineageSource
+): Promise<ForkTree | null> {
+  // Each collection is read at most once
+  const collections = new Map<string, Promise<ForkDocument[] | null>>()
+  const loadCollection = (storeName: string) => {
+    if (!collections.has(storeName)) {
+      collections.set(storeName, source.getCollectionDocuments(storeName).catch(error => {
+        console.error(`Failed to read collection ${storeName}:`, error)
+        return null
+      }))
+    }
+    return collections.get(storeName)!
+  }
+
+  let allStoreNames: Promise<string[]> | null = null
+
+  // Look in the expected collection first, then everywhere the registry knows of
+  const findDocument = async (id: string, storeHint?: string): Promise<LocatedDocument | null> => {
+    if (storeHint) {
+      const document = (await loadCollection(storeHint))?.find(doc => doc.id === id)
+      if (document) return { document, storeName: storeHint }
+    }
+
+    allStoreNames ??= source.getAllCollections().catch(error => {
+      console.error('Failed to list collections:', error)
+      return []
+    })
+
+    for (const storeName of await allStoreNames) {
+      if (storeName === storeHint) continue
+      const document = (await loadCollection(storeName))?.find(doc => doc.id === id)
+      if (document) return { document, storeName }
+    }
+
+    return null
+  }
+
+  const target = await findDocument(documentId, collectionId || undefined)
+  if (!target) {
+    return null
+  }
+
+  const documents: ForkTree['documents'] = {}
+  const documentCollections: Record<string, string> = {}
+
+  // Walk up the parent chain to the root
+  let rootId = documentId
+  let current = target
+  const visited = new Set<string>([documentId])
+
+  while (current.document.parentDocumentId && !visited.has(current.document.parentDocumentId)) {
+    const parentId = current.document.parentDocumentId
+    const parentStore = current.document.parentCollectionId || current.storeName
+    visited.add(parentId)
+    rootId = parentId
+
+    const parent = await findDocument(parentId, parentStore)
+    if (!parent) {
+      documents[parentId] = placeholder(parentId, current.document.parentCollectionId, [current.document.id])
+      break
+    }
+    current = parent
+  }
+
+  // Collect the root and all its descendants
+  const queue: { id: string, storeHint?: string }[] = [{ id: rootId, storeHint: current.storeName }]
+
+  while (queue.length > 0) {
+    const { id, storeHint } = queue.shift()!
+    if (documentCollections[id]) continue
+
+    let located: LocatedDocument | null = null
+    if (!documents[id]) {
+      located = await findDocument(id, storeHint)
+      if (!located) {
+        documents[id] = placeholder(id, undefined, [])
+        continue
+      }
+      documents[id] = located.document
+      documentCollections[id] = located.storeName
+    }
+
+    for (const childId of documents[id].childDocumentIds || []) {
+      if (!documents[childId]) {
+        queue.push({ id: childId, storeHint: located?.storeName ?? storeHint })
+      }
+    }
+  }
+
+  return { documents, documentCollections, rootId }
+}
+
+function placeholder(id: string, collectionId: string | undefined, childDocumentIds: string[]): ForkPlaceholder {
+  return {
+    id,
+    placeholder: true,
+    ...(collectionId && { collectionId }),
+    childDocumentIds
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * P2P Fork Rebase
+ *
+ * Keeps forks in step with the document they were forked from.
+ *
+ * Forks record the parent version they were based on (parentVersion). When
+ * the parent gets newer versions, rebasing replays the parent's changes since
+ * that base onto the fork:
+ * - Fields only the parent changed take the parent's value
+ * - Keyword lists replay the parent's added and removed keywords
+ * - Fields both sides changed differently are conflicts, the fork keeps its value
+ */
+
+import { diffMetadata } from './document-diff'
+import { displayTitleFor, getDocumentVersions, VersionHistoryEntry } from './document-history'
+import { getForkBase, MergeableDocument } from './merge-requests'
+
+export interface UpstreamStatus {
+  documentId: string
+  baseVersion: number   // Parent version the fork is based on
+  latestVersion: number // Parent's current version
+  newerVersions: number
+}
+
+export interface RebaseConflict {
+  field: string
+  base: unknown
+  fork: unknown
+  upstream: unknown
+}
+
+export interface RebaseResult {
+  metadata: Record<string, unknown>
+  upstreamVersion: number
+  applied: string[] // Fields updated from the parent
+  conflicts: RebaseConflict[]
+}
+
+/**
+ * How far a fork is behind its parent
+ */
+export function getUpstreamStatus(fork: MergeableDocument, upstream: MergeableDocument): UpstreamStatus {
+  const base = getForkBase(fork, upstream)
+  const latestVersion = getDocumentVersions(upstream).slice(-1)[0].version
+
+  return {
+    documentId: upstream.id,
+    baseVersion: base.version,
+    latestVersion,
+    newerVersions: Math.max(0, latestVersion - base.version)
+  }
+}
+
+/**
+ * Upstream status of every fork whose parent is among the given documents
+ * Keyed by fork document ID
+ */
+export function getUpstreamStatuses(documents: MergeableDocument[]): Record<string, UpstreamStatus> {
+  const byId = new Map<string, MergeableDocument>(documents.map(doc => [doc.id, doc]))
+  const statuses: Record<string, UpstreamStatus> = {}
+
+  for (const doc of documents) {
+    const parent = doc.parentDocumentId && byId.get(doc.parentDocumentId)
+    if (parent) {
+      statuses[doc.id] = getUpstreamStatus(doc, parent)
+    }
+  }
+
+  return statuses
+}
+
+/**
+ * Replay the parent's changes since the fork's base onto the fork's metadata
+ */
+export function rebaseFork(fork: MergeableDocument, upstream: MergeableDocument): RebaseResult {
+  const base = getForkBase(fork, upstream)
+  const baseMetadata: Record<string, unknown> = base.metadata || {}
+  const forkMetadata: Record<string, unknown> = fork.metadata || {}
+  const upstreamMetadata: Record<string, unknown> = upstream.metadata || {}
+
+  const forkChanges = new Map(
+    diffMetadata(baseMetadata, forkMetadata, upstream.documentType).map(change => [change.field, change])
+  )
+
+  const metadata = { ...forkMetadata }
+  const applied: string[] = []
+  const conflicts: RebaseConflict[] = []
+
+  for (const change of diffMetadata(baseMetadata, upstreamMetadata, upstream.documentType)) {
+    const field = change.field
+    const forkChange = forkChanges.get(field)
+
+    if (!forkChange) {
+      if (change.kind === 'removed') {
+        delete metadata[field]
+      } else {
+        metadata[field] = upstreamMetadata[field]
+      }
+      applied.push(field)
+    } else if (change.kind === 'list' && forkChange.kind === 'list') {
+      // Both edited the keywords, keep the fork's edits and replay the parent's
+      const list = (metadata[field] || []) as string[]
+      metadata[field] = [
+        ...list.filter(item => !change.removed.includes(item)),
+        ...change.added.filter(item => !list.includes(item))
+      ]
+      applied.push(field)
+    } else if (JSON.stringify(forkMetadata[field]) !== JSON.stringify(upstreamMetadata[field])) {
+      conflicts.push({
+        field,
+        base: baseMetadata[field],
+        fork: forkMetadata[field],
+        upstream: upstreamMetadata[field]
+      })
+    }
+  }
+
+  return {
+    metadata,
+    upstreamVersion: getDocumentVersions(upstream).slice(-1)[0].version,
+    applied,
+    conflicts
+  }
+}
+
+/**
+ * New version of the fork with a rebase applied, based on the parent's latest version
+ * Conflicting fields are recorded in the version history entry
+ */
+export function applyRebase<T extends MergeableDocument>(fork: T, result: RebaseResult, rebasedBy: string): T {
+  const newVersion = (fork.version || 1) + 1
+  const conflictingFields = result.conflicts.map(conflict => conflict.field)
+
+  const versionEntry: VersionHistoryEntry = {
+    version: newVersion,
+    editedBy: rebasedBy,
+    editedAt: Date.now(),
+    changeComment: `Rebased onto parent version ${result.upstreamVersion}` +
+      (conflictingFields.length > 0 ? ` (kept own ${conflictingFields.join(', ')})` : ''),
+    previousMetadata: { ...(fork.metadata || {}) },
+    previousTitle: fork.title,
+    rebasedOnto: {
+      version: result.upstreamVersion,
+      conflicts: conflictingFields
+    }
+  }
+
+  return {
+    ...fork,
+    metadata: result.metadata,
+    title: displayTitleFor(fork.documentType, result.metadata, fork.title),
+    version: newVersion,
+    versionHistory: [...(fork.versionHistory || []), versionEntry],
+    parentVersion: result.upstreamVersion,
+    lastAccessed: Date.now()
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Image Hashing (browser only)
+ *
+ * Perceptual hashes of images picked for upload, worked out in the browser
+ * since the server has no image decoder. See differenceHash in duplicates.ts.
+ */
+
+import { differenceHash } from './duplicates'
+
+/**
+ * Difference hash of an image file, null if the browser can't decode it
+ */
+export async function perceptualHashOf(file: Blob): Promise<string | null> {
+  try {
+    const bitmap = await createImageBitmap(file)
+    const canvas = document.createElement('canvas')
+    canvas.width = 9
+    canvas.height = 8
+
+    const context = canvas.getContext('2d')
+    if (!context) return null
+    context.drawImage(bitmap, 0, 0, 9, 8)
+    bitmap.close()
+
+    // RGBA -> luminance
+    const { data } = context.getImageData(0, 0, 9, 8)
+    const pixels = new Array<number>(72)
+    for (let i = 0; i < 72; i++) {
+      pixels[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+    }
+    return differenceHash(pixels)
+  } catch (error) {
+    console.error('Failed to hash image:', error)
+    return null
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Keyword Vocabulary
+ *
+ * The shared vocabulary of document keywords, with how many documents use
+ * each one, and the synonym groups feed search expands keywords with.
+ *
+ * Usage counts are worked out from the feed search index, which covers every
+ * collection, and written back to OrbitDB so other peers see the same
+ * vocabulary. Merging or renaming keywords is applied to the documents
+ * themselves (see /api/keywords/merge); peers running their own node record
+ * it as signed TAG operations (see CollectionCQRS.renameKeyword).
+ *
+ * Data Structure:
+ * {
+ *   "keyword:<key>": { key, label, count },
+ *   "synonyms:<id>": { id, keywords: [<key>, ...], created, createdBy }
+ * }
+ */
+
+import { orbitdbClient } from './orbitdb-client'
+import { feedSearchIndex } from './feed-search-index'
+import { countKeywords, keywordKey, KeywordUsage, SynonymGroup } from './keywords'
+
+// Usage counts and synonym groups are re-read once they're this old
+const SYNC_INTERVAL = 30000
+
+/**
+ * KeywordVocabulary Class
+ *
+ * Keeps the vocabulary in a global OrbitDB store, next to the user collection registry.
+ */
+class KeywordVocabulary {
+  // Name of the OrbitDB store containing the vocabulary
+  private storeName = 'global-keyword-vocabulary'
+
+  // Tracks whether the store has been opened
+  private initialized = false
+
+  private usage: KeywordUsage[] = []
+  private lastSync = 0
+  private syncing: Promise<void> | null = null
+  private synonymCache: SynonymGroup[] | null = null
+  private synonymsRead = 0
+
+  /**
+   * Open the OrbitDB store on first use
+   */
+  async ensureInitialized(): Promise<void> {
+    if (this.initialized) return
+
+    try {
+      await orbitdbClient.openKV(this.storeName)
+      this.initialized = true
+    } catch (error) {
+      console.error('Failed to initialize keyword vocabulary:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Every keyword in use, most used first
+   */
+  async list(): Promise<KeywordUsage[]> {
+    if (Date.now() - this.lastSync > SYNC_INTERVAL) {
+      this.syncing ??= this.sync().finally(() => {
+        this.syncing = null
+      })
+      await this.syncing
+    }
+    return this.usage
+  }
+
+  /**
+   * Recount keyword usage over all indexed documents, storing what changed
+   */
+  async sync(): Promise<void> {
+    await this.ensureInitialized()
+    await feedSearchIndex.ready()
+
+    const usage = countKeywords(feedSearchIndex.allItems())
+    const stored = await orbitdbClient.getAllKV(this.storeName)
+
+    for (const entry of usage) {
+      const previous = stored[`keyword:${entry.key}`]
+      if (!previous || previous.count !== entry.count || previous.label !== entry.label) {
+        await orbitdbClient.putKV(this.storeName, `keyword:${entry.key}`, entry)
+      }
+    }
+
+    // Keywords no document uses anymore
+    const inUse = new Set(usage.map(({ key }) => `keyword:${key}`))
+    for (const key of Object.keys(stored)) {
+      if (key.startsWith('keyword:') && !inUse.has(key)) {
+        await orbitdbClient.deleteKV(this.storeName, key)
+      }
+    }
+
+    this.usage = usage
+    this.lastSync = Date.now()
+  }
+
+  /**
+   * Synonym groups, oldest first
+   * Searches go on without synonyms (or with the last ones read) if OrbitDB can't be reached
+   */
+  async synonymGroups(): Promise<SynonymGroup[]> {
+    if (this.synonymCache && Date.now() - this.synonymsRead < SYNC_INTERVAL) {
+      return this.synonymCache
+    }
+
+    try {
+      await this.ensureInitialized()
+      const allData = await orbitdbClient.getAllKV(this.storeName)
+
+      this.synonymCache = Object.entries(allData)
+        .filter(([key, value]) => key.startsWith('synonyms:') && value)
+        .map(([, value]) => value as SynonymGroup)
+        .sort((a, b) => a.created - b.created)
+      this.synonymsRead = Date.now()
+      return this.synonymCache
+    } catch (error) {
+      console.error('Failed to read synonym groups:', error)
+      return this.synonymCache || []
+    }
+  }
+
+  /**
+   * Make keywords synonyms of each other
+   * Groups already holding one of them are merged into one
+   */
+  async addSynonyms(id: string, keywords: string[], createdBy: string): Promise<SynonymGroup> {
+    const keys = [...new Set(keywords.map(keywordKey).filter(Boolean))]
+    const overlapping = (await this.synonymGroups()).filter(group => group.keywords.some(key => keys.includes(key)))
+
+    const group: SynonymGroup = overlapping.length > 0
+      ? { ...overlapping[0], keywords: [...new Set([...overlapping.flatMap(group => group.keywords), ...keys])] }
+      : { id, keywords: keys, created: Date.now(), createdBy }
+
+    await orbitdbClient.putKV(this.storeName, `synonyms:${group.id}`, group)
+    for (const merged of overlapping.slice(1)) {
+      await orbitdbClient.deleteKV(this.storeName, `synonyms:${merged.id}`)
+    }
+
+    this.synonymCache = null
+    return group
+  }
+
+  async removeSynonyms(id: string): Promise<void> {
+    await this.ensureInitialized()
+    await orbitdbClient.deleteKV(this.storeName, `synonyms:${id}`)
+    this.synonymCache = null
+  }
+
+  /**
+   * Point synonym groups at a keyword's new name after a merge or rename
+   */
+  async renameInSynonyms(from: string[], to: string): Promise<void> {
+    const fromKeys = from.map(keywordKey)
+    const toKey = keywordKey(to)
+
+    for (const group of await this.synonymGroups()) {
+      if (!group.keywords.some(key => fromKeys.includes(key))) continue
+
+      const keywords = [...new Set(group.keywords.map(key => fromKeys.includes(key) ? toKey : key))]
+      if (keywords.length > 1) {
+        await orbitdbClient.putKV(this.storeName, `synonyms:${group.id}`, { ...group, keywords })
+      } else {
+        await orbitdbClient.deleteKV(this.storeName, `synonyms:${group.id}`)
+      }
+    }
+
+    this.synonymCache = null
+    this.lastSync = 0
+  }
+}
+
+// Shared instance, like the user collection registry
+export const keywordVocabulary = new KeywordVocabulary()
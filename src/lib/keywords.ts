@@ -0,0 +1,119 @@
+/**
+ * Keywords
+ *
+ * Keywords are free text on every metadata type. Spellings that only differ
+ * by case, accents or spacing ("Philosophy", "philosophy ") count as one
+ * keyword, identified by its key. Different words meaning the same thing
+ * ("philo", "philosophy") are tied together by synonym groups.
+ */
+
+import { normalizeText } from './text-analysis'
+import type { FeedSearchItem } from './feed-search-index'
+
+export interface KeywordUsage {
+  key: string
+  label: string // Most used spelling
+  count: number // Documents using the keyword
+}
+
+export interface SynonymGroup {
+  id: string
+  keywords: string[] // Keys
+  created: number
+  createdBy: string
+}
+
+/**
+ * Key a keyword is identified by, e.g. " Philosophie  Politique" -> "philosophie politique"
+ */
+export function keywordKey(keyword: string): string {
+  return normalizeText(keyword).replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * How many documents use each keyword
+ * Copies of a document in several collections count once
+ */
+export function countKeywords(items: FeedSearchItem[]): KeywordUsage[] {
+  const documents = new Map<string, Set<string>>() // Key -> document IDs
+  const spellings = new Map<string, Map<string, number>>() // Key -> spelling -> uses
+
+  for (const { document } of items) {
+    const keywords: unknown[] = Array.isArray(document.metadata?.keywords) ? document.metadata.keywords : []
+    for (const keyword of keywords) {
+      if (typeof keyword !== 'string') continue
+      const key = keywordKey(keyword)
+      if (!key) continue
+
+      const ids = documents.get(key) || new Set<string>()
+      if (ids.has(document.id)) continue
+      ids.add(document.id)
+      documents.set(key, ids)
+
+      const uses = spellings.get(key) || new Map<string, number>()
+      uses.set(keyword.trim(), (uses.get(keyword.trim()) || 0) + 1)
+      spellings.set(key, uses)
+    }
+  }
+
+  return [...documents.entries()]
+    .map(([key, ids]) => ({
+      key,
+      label: [...spellings.get(key)!.entries()].sort(([a, aUses], [b, bUses]) => bUses - aUses || a.localeCompare(b))[0][0],
+      count: ids.size
+    }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+}
+
+/**
+ * Keywords starting with what's been typed, or with a word starting with it,
+ * most used first
+ */
+export function suggestKeywords(vocabulary: KeywordUsage[], prefix: string, limit: number): KeywordUsage[] {
+  const typed = keywordKey(prefix)
+  if (!typed) return vocabulary.slice(0, limit)
+
+  const starting = vocabulary.filter(({ key }) => key.startsWith(typed))
+  const containing = vocabulary.filter(({ key }) =>
+    !key.startsWith(typed) && key.split(' ').some(word => word.startsWith(typed))
+  )
+  return [...starting, ...containing].slice(0, limit)
+}
+
+/**
+ * Keywords together with their synonyms
+ */
+export function expandKeywords(keywords: string[], groups: SynonymGroup[]): string[] {
+  const expanded = [...keywords]
+  const keys = new Set(keywords.map(keywordKey))
+
+  for (const group of groups) {
+    if (!group.keywords.some(key => keys.has(key))) continue
+    for (const key of group.keywords) {
+      if (!keys.has(key)) {
+        keys.add(key)
+        expanded.push(key)
+      }
+    }
+  }
+  return expanded
+}
+
+/**
+ * Replace some keywords with another, keeping their order
+ * e.g. ['Philo', 'art', 'philosophy'] renaming philo to philosophy -> ['philosophy', 'art']
+ *
+ * @returns null if that changes nothing
+ */
+export function renameKeywords(keywords: string[], from: string[], to: string): string[] | null {
+  const fromKeys = new Set(from.map(keywordKey))
+  const renamed: string[] = []
+  const seen = new Set<string>()
+  for (const keyword of keywords.map(keyword => fromKeys.has(keywordKey(keyword)) ? to : keyword)) {
+    const key = keywordKey(keyword)
+    if (seen.has(key)) continue
+    seen.add(key)
+    renamed.push(keyword)
+  }
+  return renamed.join('\n') === keywords.join('\n') ? null : renamed
+}
@@ -0,0 +1,248 @@
+/**
+ * P2P Merge Requests
+ *
+ * Proposals to merge a fork's changes back into the document it was forked
+ * from. The fork owner opens a merge request against the parent document,
+ * the upstream owner reviews the diff against the version the fork was based
+ * on and accepts it (in whole or field by field) or rejects it with a comment.
+ *
+ * Merge requests are kept in a global OrbitDB KV store, next to the user
+ * collection registry. Peers running their own node record the same flow as
+ * signed PROPOSE_MERGE / ACCEPT_MERGE / REJECT_MERGE operations in the
+ * collection ops log (see CollectionCQRS).
+ *
+ * Data Structure:
+ * {
+ *   "mr:<id>": { id, collectionId, documentId, fork, baseVersion, changes, status, ... }
+ * }
+ */
+
+import { orbitdbClient } from './orbitdb-client'
+import { diffMetadata, FieldDiff } from './document-diff'
+import { displayTitleFor, getDocumentVersions, DocumentVersion, VersionedDocument, VersionHistoryEntry } from './document-history'
+
+// A stored document, with the fields that link a fork to its upstream
+export interface MergeableDocument extends VersionedDocument {
+  id: string
+  parentDocumentId?: string
+  parentCollectionId?: string
+  parentVersion?: number // Upstream version the fork was made from
+}
+
+export interface MergeRequest {
+  id: string
+  collectionId: string // Upstream collection store name
+  documentId: string   // Upstream document
+  fork: {
+    collectionId: string
+    documentId: string
+    version: number
+  }
+  baseVersion: number  // Upstream version the fork was based on
+  proposedBy: string   // Fork author
+  comment: string
+  changes: FieldDiff[] // Fork metadata against the base version
+  proposedMetadata: Record<string, unknown>
+  status: 'open' | 'accepted' | 'rejected'
+  created: number
+  resolvedBy?: string
+  resolvedAt?: number
+  resolutionComment?: string
+  acceptedFields?: string[]
+  mergedVersion?: number // Upstream version created by accepting
+}
+
+/**
+ * Upstream version a fork was based on
+ */
+export function getForkBase(fork: MergeableDocument, upstream: VersionedDocument): DocumentVersion {
+  const versions = getDocumentVersions(upstream)
+
+  const recorded = versions.find(v => v.version === fork.parentVersion)
+  if (recorded) return recorded
+
+  // Older forks only kept the parent's metadata in their first version entry
+  const forkedFrom = (fork.versionHistory || []).find(entry => entry.version === 1)?.previousMetadata
+  const matching = forkedFrom && [...versions].reverse()
+    .find(v => JSON.stringify(v.metadata) === JSON.stringify(forkedFrom))
+
+  return matching || versions[versions.length - 1]
+}
+
+/**
+ * Build a merge request proposing a fork's changes to its upstream document
+ */
+export function createMergeRequest(params: {
+  id: string
+  upstream: MergeableDocument
+  upstreamCollectionId: string
+  fork: MergeableDocument
+  forkCollectionId: string
+  proposedBy: string
+  comment: string
+}): MergeRequest {
+  const { upstream, fork } = params
+  const base = getForkBase(fork, upstream)
+
+  return {
+    id: params.id,
+    collectionId: params.upstreamCollectionId,
+    documentId: upstream.id,
+    fork: {
+      collectionId: params.forkCollectionId,
+      documentId: fork.id,
+      version: fork.version || 1
+    },
+    baseVersion: base.version,
+    proposedBy: params.proposedBy,
+    comment: params.comment,
+    changes: diffMetadata(base.metadata, fork.metadata, upstream.documentType),
+    proposedMetadata: { ...(fork.metadata || {}) },
+    status: 'open',
+    created: Date.now()
+  }
+}
+
+/**
+ * Upstream metadata with the accepted fields of a merge request applied
+ * Keyword changes are replayed onto the current list, other fields take the fork's value
+ */
+export function mergeMetadata(
+  current: Record<string, unknown> | undefined,
+  request: MergeRequest,
+  fields: string[]
+): Record<string, unknown> {
+  const metadata = { ...(current || {}) }
+
+  for (const change of request.changes) {
+    if (!fields.includes(change.field)) continue
+
+    if (change.kind === 'list') {
+      const list = (metadata[change.field] || []) as string[]
+      metadata[change.field] = [
+        ...list.filter(item => !change.removed.includes(item)),
+        ...change.added.filter(item => !list.includes(item))
+      ]
+    } else if (change.kind === 'removed') {
+      delete metadata[change.field]
+    } else {
+      metadata[change.field] = request.proposedMetadata[change.field]
+    }
+  }
+
+  return metadata
+}
+
+/**
+ * New version of the upstream document with the accepted fields merged in
+ * The version history entry credits the fork author
+ */
+export function applyMergeRequest<T extends VersionedDocument>(
+  upstream: T,
+  request: MergeRequest,
+  fields: string[],
+  acceptedBy: string,
+  comment?: string
+): T {
+  const metadata = mergeMetadata(upstream.metadata, request, fields)
+  const newVersion = (upstream.version || 1) + 1
+
+  const versionEntry: VersionHistoryEntry = {
+    version: newVersion,
+    editedBy: acceptedBy,
+    editedAt: Date.now(),
+    changeComment: comment || `Merged changes from ${request.proposedBy}`,
+    previousMetadata: { ...(upstream.metadata || {}) },
+    previousTitle: upstream.title,
+    mergedFrom: {
+      mergeRequestId: request.id,
+      collectionId: request.fork.collectionId,
+      documentId: request.fork.documentId,
+      author: request.proposedBy
+    }
+  }
+
+  return {
+    ...upstream,
+    metadata,
+    title: displayTitleFor(upstream.documentType, metadata, upstream.title),
+    version: newVersion,
+    versionHistory: [...(upstream.versionHistory || []), versionEntry],
+    lastAccessed: Date.now()
+  }
+}
+
+/**
+ * MergeRequestStore Class
+ *
+ * Reads and writes merge requests in the OrbitDB store.
+ */
+class MergeRequestStore {
+  // Name of the OrbitDB store containing merge requests
+  private storeName = 'global-merge-requests'
+
+  // Tracks whether the store has been opened
+  private initialized = false
+
+  /**
+   * Open the OrbitDB store on first use
+   */
+  async ensureInitialized(): Promise<void> {
+    if (this.initialized) return
+
+    try {
+      await orbitdbClient.openKV(this.storeName)
+      this.initialized = true
+    } catch (error) {
+      console.error('Failed to initialize merge request store:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get a merge request by ID, null if it doesn't exist
+   */
+  async get(id: string): Promise<MergeRequest | null> {
+    await this.ensureInitialized()
+    try {
+      return await orbitdbClient.getKV(this.storeName, `mr:${id}`) || null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Merge requests matching every given filter, newest first
+   */
+  async list(filters: {
+    collectionId?: string
+    documentId?: string
+    forkDocumentId?: string
+    status?: MergeRequest['status']
+  } = {}): Promise<MergeRequest[]> {
+    await this.ensureInitialized()
+    const allData = await orbitdbClient.getAllKV(this.storeName)
+
+    return Object.entries(allData)
+      .filter(([key]) => key.startsWith('mr:'))
+      .map(([, value]) => value as MergeRequest)
+      .filter(request =>
+        (!filters.collectionId || request.collectionId === filters.collectionId) &&
+        (!filters.documentId || request.documentId === filters.documentId) &&
+        (!filters.forkDocumentId || request.fork.documentId === filters.forkDocumentId) &&
+        (!filters.status || request.status === filters.status)
+      )
+      .sort((a, b) => b.created - a.created)
+  }
+
+  /**
+   * Save a new or updated merge request
+   */
+  async put(request: MergeRequest): Promise<void> {
+    await this.ensureInitialized()
+    await orbitdbClient.putKV(this.storeName, `mr:${request.id}`, request)
+  }
+}
+
+// Shared instance, like the user collection registry
+export const mergeRequestStore = new MergeRequestStore()
@@ -164,6 +164,29 @@ export class OrbitDBClient {
     }
   }
 
+  /**
+   * Delete a Key
+   *
+   * Removes a key and its value from an OrbitDB KeyValue store.
+   *
+   * @param storeName - Name of the KV store
+   * @param key - Key to delete
+   * @throws Error if delete fails
+   */
+  async deleteKV(storeName: string, key: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/kv/delete`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ name: storeName, key })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete value from OrbitDB: ${response.statusText}`)
+    }
+  }
+
   /**
    * Retrieve a Value by Key
    *
@@ -452,6 +475,61 @@ export class OrbitDBClient {
 
     return response.json()
   }
+
+  // ===== CAR Archive Methods =====
+
+  /**
+   * Export a manifest and the content behind some CIDs as a CARv1 archive
+   *
+   * @param manifest - JSON stored as the archive's root block
+   * @param cids - Content to include, with every block of its DAG
+   * @returns CAR file bytes
+   */
+  async exportCAR(manifest: any, cids: string[]): Promise<ArrayBuffer> {
+    const response = await fetch(`${this.baseUrl}/car/export`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ manifest, cids })
+    })
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}))
+      throw new Error(`Failed to export CAR: ${result.error || response.statusText}`)
+    }
+
+    return response.arrayBuffer()
+  }
+
+  /**
+   * Import a CARv1 archive made by exportCAR
+   * The service checks every block against its CID before storing any
+   *
+   * @param archive - CAR file bytes
+   * @returns The manifest, with the root CID and the content CIDs
+   */
+  async importCAR(archive: ArrayBuffer): Promise<{
+    root: string
+    manifest: any
+    cids: string[]
+    blocks: number
+  }> {
+    const response = await fetch(`${this.baseUrl}/car/import`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/vnd.ipld.car'
+      },
+      body: archive
+    })
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}))
+      throw new Error(`Failed to import CAR: ${result.error || response.statusText}`)
+    }
+
+    return response.json()
+  }
 }
 
 export const orbitdbClient = new OrbitDBClient()
\ No newline at end of file
@@ -2,7 +2,7 @@
 // Handles proper iteration and reading from OrbitDB v2 databases
 
 export interface IteratorOptions {
-  limit?: number
+  limit?: number  // -1 reads every entry
   reverse?: boolean
   gt?: string
   gte?: string
@@ -25,6 +25,8 @@ export async function readDatabaseEntries(
 
   const entries: any[] = []
   const { limit = 100, reverse = false, gt, gte, lt, lte } = options
+  const isFull = (count: number) => limit !== -1 && count >= limit
+  const takeLimit = (items: any[]) => limit === -1 ? items : items.slice(0, limit)
 
   try {
     // Log database type for debugging
@@ -66,14 +68,14 @@ export async function readDatabaseEntries(
           
           for await (const entry of iterator) {
             entries.push(entry)
-            if (entries.length >= limit) break
+            if (isFull(entries.length)) break
           }
         } else if (iterator && typeof iterator.next === 'function') {
           // Fallback to manual iteration if needed
           console.log('[OrbitDB Utils] Using manual iteration')
           
           let result = await iterator.next()
-          while (!result.done && entries.length < limit) {
+          while (!result.done && !isFull(entries.length)) {
             entries.push(result.value)
             result = await iterator.next()
           }
@@ -90,7 +92,7 @@ export async function readDatabaseEntries(
         if (reverse) {
           filtered = filtered.reverse()
         }
-        entries.push(...filtered.slice(0, limit))
+        entries.push(...takeLimit(filtered))
       } else {
         console.error('[OrbitDB Utils] No suitable method to read entries')
       }
@@ -104,7 +106,7 @@ export async function readDatabaseEntries(
         // Convert to array format
         Object.entries(kvEntries).forEach(([key, value]) => {
           entries.push({ key, value })
-          if (entries.length >= limit) return
+          if (isFull(entries.length)) return
         })
       } else if (typeof db.get === 'function') {
         // If no all(), we'd need to know the keys
@@ -121,7 +123,7 @@ export async function readDatabaseEntries(
         entries.push(...docs)
       } else if (typeof db.all === 'function') {
         const allDocs = await db.all()
-        entries.push(...allDocs.slice(0, limit))
+        entries.push(...takeLimit(allDocs))
       }
       
     } else {
@@ -130,7 +132,7 @@ export async function readDatabaseEntries(
       
       if (typeof db.all === 'function') {
         const allEntries = await db.all()
-        entries.push(...(Array.isArray(allEntries) ? allEntries.slice(0, limit) : []))
+        entries.push(...(Array.isArray(allEntries) ? takeLimit(allEntries) : []))
       }
     }
 
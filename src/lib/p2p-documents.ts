@@ -0,0 +1,97 @@
+/**
+ * P2P Documents
+ *
+ * Creating documents in a user's OrbitDB collection, shared by the upload
+ * (/api/documents/p2p) and bibliography import (/api/documents/p2p/import)
+ * routes. Content is uploaded to IPFS by the caller, the document keeps its CID.
+ */
+
+import { orbitdbClient } from './orbitdb-client'
+import { userCollectionRegistry } from './user-collection-registry'
+import { feedSearchIndex } from './feed-search-index'
+
+export interface NewDocument {
+  collectionId: string
+  peerId: string
+  documentType: string // 'quote', 'link', or 'image'
+  title: string
+  description: string
+  metadata: Record<string, any>
+  ipfsCID: string
+  contentType: string
+  contentSize: number
+}
+
+/**
+ * Address of one of the user's collections, by collection ID
+ * 'main' is their first collection, created if they have none unless create is false
+ *
+ * @returns null if the user has no collection with that ID
+ */
+export async function findUserCollection(
+  peerId: string,
+  collectionId: string,
+  options: { create?: boolean } = {}
+): Promise<string | null> {
+  const userCollections = await userCollectionRegistry.getUserCollections(peerId)
+
+  if (collectionId === 'main') {
+    if (userCollections.length === 0) {
+      if (options.create === false) return null
+      // Create a main collection for this user
+      const collection = await orbitdbClient.createCollection(peerId, 'Main Collection', 'Your primary document collection')
+      userCollectionRegistry.addUserCollection(peerId, collection.address)
+      return collection.address
+    }
+    return userCollections[0] // Use first collection as main
+  }
+
+  for (const address of userCollections) {
+    const metadata = await orbitdbClient.getCollection(address)
+    if (metadata && metadata.id === collectionId) {
+      return address
+    }
+  }
+  return null
+}
+
+/**
+ * Add a new document to a collection and to the feed search index
+ * Extra fields (e.g. an image's filename) are set on the document as they are
+ */
+export async function storeNewDocument(
+  collectionAddress: string,
+  fields: NewDocument,
+  extra: Record<string, any> = {}
+): Promise<any> {
+  const document: any = {
+    id: `doc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    documentType: fields.documentType, // 'quote', 'link', or 'image'
+    title: fields.title,
+    description: fields.description || '',
+    collectionId: fields.collectionId,
+    uploadedBy: fields.peerId,
+    created: Date.now(),
+    lastAccessed: Date.now(),
+
+    // IPFS Content Reference
+    ipfsCID: fields.ipfsCID,
+    contentType: fields.contentType,
+    contentSize: fields.contentSize,
+
+    // Metadata (stored in OrbitDB)
+    metadata: fields.metadata,
+
+    replicas: [fields.peerId],
+    pinned: true,
+    type: 'DOCUMENT',
+    version: 1,
+    ...extra
+  }
+
+  // Add document to OrbitDB collection
+  await orbitdbClient.addDocumentToCollection(collectionAddress, document)
+  await feedSearchIndex.indexDocument(collectionAddress, document)
+
+  return document
+}
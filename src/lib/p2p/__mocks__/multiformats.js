@@ -1,10 +1,16 @@
 // Mock for multiformats/hashes/sha2
+// Hashes with WebCrypto where the test environment has it (node), so digests
+// differ per input like the real ones: proof-of-work and signature caches rely on it
+const digestBytes = async (input) => globalThis.crypto?.subtle
+  ? new Uint8Array(await globalThis.crypto.subtle.digest('SHA-256', input))
+  : new Uint8Array(32).fill(1)
+
 export const sha256 = {
   encode: jest.fn((input) => new Uint8Array(32).fill(1)),
-  digest: jest.fn(async (input) => ({
-    bytes: new Uint8Array(32).fill(1),
-    digest: new Uint8Array(32).fill(1)
-  }))
+  digest: jest.fn(async (input) => {
+    const digest = await digestBytes(input)
+    return { bytes: digest, digest }
+  })
 };
 
 export const CID = {
@@ -16,4 +22,4 @@ export const CID = {
     toString: () => 'mock-cid',
     bytes: new Uint8Array(32)
   }))
-};
\ No newline at end of file
+};
@@ -0,0 +1,276 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for DID-based access control
+ */
+
+import {
+  CollectionACL,
+  DIDAccessController,
+  LogEntry,
+  RegistryAccessController,
+  collectionRegistryKey,
+  registrySigningPayload
+} from '../access-controller'
+import { CryptoIdentityManager } from '../crypto-identity'
+import { generateTestKeyPair } from './test-utils'
+import { CryptoIdentity, Operation, OperationType, RegistryEntry } from '../types'
+
+// Log entry appended by the peer the identities mock knows
+const logEntry = (payload: LogEntry['payload']): LogEntry => ({ identity: 'peer-identity-hash', payload })
+
+describe('CollectionACL', () => {
+  let acl: CollectionACL
+
+  beforeEach(() => {
+    acl = new CollectionACL('test-collection', 'did:p2p:owner')
+  })
+
+  const aclOperation = (type: OperationType, authorDID: string, writerDID: string): Operation => ({
+    type,
+    collectionId: 'test-collection',
+    documentId: '_acl',
+    data: { writerDID },
+    version: 1,
+    schemaVersion: '1.0.0',
+    identity: { authorDID } as CryptoIdentity
+  })
+
+  it('should only allow the owner by default', () => {
+    expect(acl.canWrite('did:p2p:owner')).toBe(true)
+    expect(acl.canWrite('did:p2p:writer')).toBe(false)
+  })
+
+  it('should apply grants and revocations signed by the owner', () => {
+    expect(acl.applyOperation(aclOperation('GRANT_WRITE', 'did:p2p:owner', 'did:p2p:writer'))).toBe(true)
+    expect(acl.canWrite('did:p2p:writer')).toBe(true)
+
+    expect(acl.applyOperation(aclOperation('REVOKE_WRITE', 'did:p2p:owner', 'did:p2p:writer'))).toBe(true)
+    expect(acl.canWrite('did:p2p:writer')).toBe(false)
+  })
+
+  it('should ignore grants from other writers', () => {
+    acl.addWriters(['did:p2p:writer'])
+
+    expect(acl.applyOperation(aclOperation('GRANT_WRITE', 'did:p2p:writer', 'did:p2p:friend'))).toBe(false)
+    expect(acl.canWrite('did:p2p:friend')).toBe(false)
+  })
+
+  it('should stop trusting identities of revoked writers', () => {
+    acl.addWriters(['did:p2p:writer'])
+    acl.trustIdentity('did:p2p:writer', 'orbitdb-identity')
+    expect(acl.isTrustedIdentity('orbitdb-identity')).toBe(true)
+
+    acl.applyOperation(aclOperation('REVOKE_WRITE', 'did:p2p:owner', 'did:p2p:writer'))
+    expect(acl.isTrustedIdentity('orbitdb-identity')).toBe(false)
+  })
+
+  describe('authorize', () => {
+    const grant = aclOperation('GRANT_WRITE', 'did:p2p:owner', 'did:p2p:writer')
+    const revoke = aclOperation('REVOKE_WRITE', 'did:p2p:owner', 'did:p2p:writer')
+    const edit = (id: string): Operation => ({ ...aclOperation('UPDATE', 'did:p2p:writer', ''), documentId: id, data: {} })
+
+    it('should judge each operation against the writers of its time', () => {
+      const before = edit('before-grant')
+      const granted = edit('granted')
+      const revoked = edit('after-revoke')
+
+      const { authorized, refused } = acl.authorize([before, grant, granted, revoke, revoked])
+
+      expect(authorized).toEqual([grant, granted, revoke])
+      expect(refused).toEqual([before, revoked])
+    })
+
+    it('should keep a revoked writer\'s earlier operations on replicas seeded after the revocation', () => {
+      // The registry no longer lists the writer, the log still has the grant
+      const seeded = new CollectionACL('test-collection', 'did:p2p:owner', [])
+      const granted = edit('granted')
+
+      expect(seeded.authorize([grant, granted, revoke]).authorized).toContain(granted)
+    })
+
+    it('should only change the writer list when applied', () => {
+      acl.authorize([grant])
+      expect(acl.canWrite('did:p2p:writer')).toBe(false)
+
+      acl.authorize([grant], { apply: true })
+      expect(acl.canWrite('did:p2p:writer')).toBe(true)
+    })
+  })
+})
+
+describe('DIDAccessController', () => {
+  let signer: CryptoIdentityManager
+  let signerDID: string
+  const identities = {
+    getIdentity: jest.fn().mockResolvedValue({ id: 'peer-identity' }),
+    verifyIdentity: jest.fn().mockResolvedValue(true)
+  }
+  const orbitdb = { identity: { id: 'local-identity' } }
+
+  beforeEach(async () => {
+    signer = new CryptoIdentityManager()
+    await signer.initialize(await generateTestKeyPair())
+    signerDID = signer.getIdentityInfo().authorDID
+  })
+
+  const signedOperation = async (type: OperationType, data: Record<string, unknown>): Promise<Operation> => {
+    const unsigned = { type, collectionId: 'test-collection', documentId: 'doc-1', data, version: 1 }
+    return {
+      ...unsigned,
+      schemaVersion: '1.0.0',
+      identity: await signer.signData(unsigned)
+    }
+  }
+
+  it('should accept operations signed by a writer', async () => {
+    const acl = new CollectionACL('test-collection', signerDID)
+    const controller = await DIDAccessController({ acl, role: 'ops' })({ orbitdb, identities })
+
+    const operation = await signedOperation('CREATE', { title: 'Test' })
+
+    expect(await controller.canAppend(logEntry({ op: 'ADD', value: operation }))).toBe(true)
+    expect(acl.isTrustedIdentity('peer-identity')).toBe(true)
+  })
+
+  it('should leave writer membership to the projection, whatever order entries arrive in', async () => {
+    const acl = new CollectionACL('test-collection', 'did:p2p:someone-else')
+    const controller = await DIDAccessController({ acl, role: 'ops' })({ orbitdb, identities })
+
+    const operation = await signedOperation('CREATE', { title: 'Test' })
+
+    expect(await controller.canAppend(logEntry({ op: 'ADD', value: operation }))).toBe(true)
+    expect(acl.canWrite(signerDID)).toBe(false)
+  })
+
+  it('should not change the writer list when accepting ACL operations', async () => {
+    const acl = new CollectionACL('test-collection', signerDID)
+    const controller = await DIDAccessController({ acl, role: 'ops' })({ orbitdb, identities })
+
+    const operation = await signedOperation('GRANT_WRITE', { writerDID: 'did:p2p:friend' })
+
+    expect(await controller.canAppend(logEntry({ op: 'ADD', value: operation }))).toBe(true)
+    expect(acl.canWrite('did:p2p:friend')).toBe(false)
+  })
+
+  it('should reject operations whose signature does not match', async () => {
+    const acl = new CollectionACL('test-collection', signerDID)
+    const controller = await DIDAccessController({ acl, role: 'ops' })({ orbitdb, identities })
+
+    const operation = await signedOperation('CREATE', { title: 'Test' })
+    operation.data.title = 'Tampered'
+
+    expect(await controller.canAppend(logEntry({ op: 'ADD', value: operation }))).toBe(false)
+  })
+
+  it('should report refused operations for quarantine', async () => {
+    const acl = new CollectionACL('test-collection', signerDID)
+    const onReject = jest.fn()
+    const controller = await DIDAccessController({ acl, role: 'ops', onReject })({ orbitdb, identities })
+
+    const operation = await signedOperation('CREATE', { title: 'Test' })
+    operation.data.title = 'Tampered'
+
+    expect(await controller.canAppend({ ...logEntry({ op: 'ADD', value: operation }), hash: 'entry-hash' })).toBe(false)
+    expect(onReject).toHaveBeenCalledWith(expect.objectContaining({ hash: 'entry-hash' }), 'Invalid signature')
+  })
+
+  it('should reject ACL operations from writers who are not the owner', async () => {
+    const acl = new CollectionACL('test-collection', 'did:p2p:someone-else', [signerDID])
+    const controller = await DIDAccessController({ acl, role: 'ops' })({ orbitdb, identities })
+
+    const operation = await signedOperation('GRANT_WRITE', { writerDID: 'did:p2p:friend' })
+
+    expect(await controller.canAppend(logEntry({ op: 'ADD', value: operation }))).toBe(false)
+    expect(acl.canWrite('did:p2p:friend')).toBe(false)
+  })
+
+  it('should only accept catalog entries from local or trusted identities', async () => {
+    const acl = new CollectionACL('test-collection', signerDID)
+    const controller = await DIDAccessController({ acl, role: 'catalog' })({ orbitdb, identities })
+
+    expect(await controller.canAppend(logEntry({ op: 'PUT', key: 'doc-1', value: {} }))).toBe(false)
+
+    acl.trustIdentity(signerDID, 'peer-identity')
+    expect(await controller.canAppend(logEntry({ op: 'PUT', key: 'doc-1', value: {} }))).toBe(true)
+  })
+
+  it('should restore the ACL from its address', async () => {
+    const acl = new CollectionACL('test-collection', signerDID)
+    const created = await DIDAccessController({ acl, role: 'ops' })({ orbitdb, identities })
+    const reopened = await DIDAccessController()({ orbitdb, identities, address: created.address })
+
+    expect(reopened.address).toBe(created.address)
+    expect(reopened.write).toEqual([signerDID])
+  })
+})
+
+describe('RegistryAccessController', () => {
+  let owner: CryptoIdentityManager
+  let ownerDID: string
+  const identities = {
+    getIdentity: jest.fn().mockResolvedValue({ id: 'peer-identity' }),
+    verifyIdentity: jest.fn().mockResolvedValue(true)
+  }
+  const orbitdb = { identity: { id: 'local-identity' } }
+
+  beforeEach(async () => {
+    owner = new CryptoIdentityManager()
+    await owner.initialize(await generateTestKeyPair())
+    ownerDID = owner.getIdentityInfo().authorDID
+  })
+
+  const collectionEntry = async (ownerDIDInMetadata: string, key = collectionRegistryKey(ownerDIDInMetadata, 'test')) => {
+    const entry: RegistryEntry = {
+      type: 'collection',
+      address: 'catalog-address',
+      metadata: { name: 'test', created: 1, lastSeen: 1, opsLogAddress: 'ops-address', ownerDID: ownerDIDInMetadata, writers: [ownerDIDInMetadata] }
+    }
+    entry.identity = await owner.signData(registrySigningPayload(key, entry))
+    return { op: 'PUT', key, value: entry }
+  }
+
+  it('should accept collection entries signed by their owner', async () => {
+    const controller = await RegistryAccessController()({ orbitdb, identities })
+
+    expect(await controller.canAppend(logEntry(await collectionEntry(ownerDID)))).toBe(true)
+  })
+
+  it('should reject unsigned or tampered collection entries', async () => {
+    const controller = await RegistryAccessController()({ orbitdb, identities })
+
+    const unsigned = await collectionEntry(ownerDID)
+    delete unsigned.value.identity
+    expect(await controller.canAppend(logEntry(unsigned))).toBe(false)
+
+    const tampered = await collectionEntry(ownerDID)
+    tampered.value.metadata.writers!.push('did:p2p:intruder')
+    expect(await controller.canAppend(logEntry(tampered))).toBe(false)
+  })
+
+  it('should reject entries claiming another owner', async () => {
+    const controller = await RegistryAccessController()({ orbitdb, identities })
+
+    expect(await controller.canAppend(logEntry(await collectionEntry('did:p2p:someone-else')))).toBe(false)
+  })
+
+  it('should reject entries under another owner\'s key, whatever was appended before', async () => {
+    const controller = await RegistryAccessController()({ orbitdb, identities })
+
+    const takeover = await collectionEntry(ownerDID, collectionRegistryKey('did:p2p:someone-else', 'test'))
+    expect(await controller.canAppend(logEntry(takeover))).toBe(false)
+  })
+
+  it('should never remove collection entries', async () => {
+    const controller = await RegistryAccessController()({ orbitdb, identities })
+
+    expect(await controller.canAppend(logEntry({ op: 'DEL', key: collectionRegistryKey(ownerDID, 'test') }))).toBe(false)
+  })
+
+  it('should accept user entries and refuse unknown keys', async () => {
+    const controller = await RegistryAccessController()({ orbitdb, identities })
+
+    expect(await controller.canAppend(logEntry({ op: 'PUT', key: 'users:alice', value: {} }))).toBe(true)
+    expect(await controller.canAppend(logEntry({ op: 'PUT', key: 'schemas:quote', value: {} }))).toBe(false)
+  })
+})
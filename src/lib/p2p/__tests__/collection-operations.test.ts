@@ -0,0 +1,708 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for the CollectionCQRS operations projected from the ops log:
+ * reverts, merge requests, keywords, relations, writer access, replicated
+ * operation verification, snapshots and time-travel queries
+ */
+
+import { CollectionCQRS } from '../collection-cqrs'
+import { createTestConfig, createMockOrbitDB, createMockHelia, generateTestKeyPair, createTestFile } from './test-utils'
+import { CatalogDocument, KeyPair, Operation, RejectedOperation, RelationType } from '../types'
+import { CollectionACL } from '../access-controller'
+import { CryptoIdentityManager } from '../crypto-identity'
+
+describe('CollectionCQRS operations', () => {
+  let collection: CollectionCQRS
+  let mockOrbitDB: ReturnType<typeof createMockOrbitDB>
+  let mockHelia: ReturnType<typeof createMockHelia>
+  let keyPair: KeyPair
+  const config = createTestConfig()
+
+  beforeEach(async () => {
+    // initialize() starts cleanup intervals, which would keep Jest from exiting
+    jest.useFakeTimers({ doNotFake: ['Date', 'nextTick', 'queueMicrotask', 'setImmediate'] })
+
+    mockOrbitDB = createMockOrbitDB()
+    mockHelia = createMockHelia()
+    collection = new CollectionCQRS(mockOrbitDB, 'test-collection', config)
+    keyPair = await generateTestKeyPair()
+    await collection.initialize(keyPair, mockHelia)
+  })
+
+  afterEach(() => {
+    jest.clearAllTimers()
+    jest.useRealTimers()
+  })
+
+  describe('revertDocument', () => {
+    let operations: Operation[]
+    let documents: Record<string, Partial<CatalogDocument>>
+
+    beforeEach(() => {
+      operations = []
+      documents = {}
+
+      collection['opsLogDB'] = {
+        add: jest.fn().mockImplementation((op: Operation) => {
+          operations.push(op)
+          return Promise.resolve(`op-${operations.length}`)
+        }),
+        all: jest.fn().mockImplementation(() =>
+          Promise.resolve(operations.map((value, i) => ({ hash: `op-${i + 1}`, payload: { value } })))
+        )
+      }
+      collection['catalogDB'] = {
+        get: jest.fn().mockImplementation((id: string) => documents[id] || null),
+        put: jest.fn().mockImplementation((id: string, doc: CatalogDocument) => {
+          documents[id] = doc
+          return Promise.resolve({})
+        })
+      }
+    })
+
+    it('should append a new version with the content of the target version', async () => {
+      const created = await collection.createDocument(createTestFile('test.txt', 'Hello'), {
+        title: 'First Title',
+        tags: ['a'],
+        metadata: { pageNumbers: '1' }
+      })
+      await collection.updateDocument(created._id, {
+        title: 'Second Title',
+        tags: ['a', 'b'],
+        metadata: { pageNumbers: '2', publisher: 'Press' }
+      })
+
+      const reverted = await collection.revertDocument(created._id, 1)
+
+      expect(reverted.title).toBe('First Title')
+      expect(reverted.tags).toEqual(['a'])
+      expect(reverted.metadata).toEqual({ pageNumbers: '1' })
+      expect(reverted.provenance.version).toBe(3)
+
+      // History stays append-only
+      expect(operations.map(op => op.type)).toEqual(['CREATE', 'UPDATE', 'REVERT'])
+      expect(operations[2].data).toEqual(expect.objectContaining({
+        targetVersion: 1,
+        changeComment: 'Reverted to version 1'
+      }))
+    })
+
+    it('should reject reverting to the current version', async () => {
+      const created = await collection.createDocument(createTestFile('test.txt', 'Hello'), { title: 'Title' })
+
+      await expect(collection.revertDocument(created._id, 1)).rejects.toThrow('already at version 1')
+    })
+
+    it('should reject unknown versions', async () => {
+      const created = await collection.createDocument(createTestFile('test.txt', 'Hello'), { title: 'Title' })
+      await collection.updateDocument(created._id, { title: 'Updated' })
+
+      await expect(collection.revertDocument(created._id, 0)).rejects.toThrow('Version 0 not found')
+    })
+  })
+
+  describe('merge requests', () => {
+    let operations: Operation[]
+    let documents: Record<string, Partial<CatalogDocument>>
+
+    const fork = { collectionId: 'fork-collection', documentId: 'fork-doc', version: 2 }
+
+    beforeEach(() => {
+      operations = []
+      documents = {}
+
+      collection['opsLogDB'] = {
+        add: jest.fn().mockImplementation((op: Operation) => {
+          operations.push(op)
+          return Promise.resolve(`op-${operations.length}`)
+        }),
+        all: jest.fn().mockImplementation(() =>
+          Promise.resolve(operations.map((value, i) => ({ hash: `op-${i + 1}`, payload: { value } })))
+        )
+      }
+      collection['catalogDB'] = {
+        get: jest.fn().mockImplementation((id: string) => documents[id] || null),
+        put: jest.fn().mockImplementation((id: string, doc: CatalogDocument) => {
+          documents[id] = doc
+          return Promise.resolve({})
+        })
+      }
+    })
+
+    const createUpstream = () => collection.createDocument(createTestFile('test.txt', 'Hello'), {
+      title: 'Upstream Title',
+      tags: ['a'],
+      metadata: { author: 'Author', pageNumbers: '1', keywords: ['archive'] }
+    })
+
+    it('should describe the proposal against the base version', async () => {
+      const created = await createUpstream()
+
+      const request = await collection.proposeMerge(created._id, {
+        fork,
+        baseVersion: 1,
+        title: 'Fork Title',
+        tags: ['a', 'b'],
+        metadata: { author: 'Author', pageNumbers: '2', keywords: ['archive', 'press'] },
+        comment: 'Fixed the page numbers'
+      })
+
+      expect(request.status).toBe('open')
+      expect(request.fields).toEqual(['title', 'metadata.pageNumbers', 'tags', 'metadata.keywords'])
+      expect(request.changes.title).toBe('Fork Title')
+      expect(request.changes.addedKeywords).toEqual(['press'])
+
+      // The upstream document only changes once the proposal is accepted
+      expect(documents[created._id].title).toBe('Upstream Title')
+      expect(await collection.getMergeRequests(created._id)).toEqual([request])
+    })
+
+    it('should apply only the accepted fields as a new version', async () => {
+      const created = await createUpstream()
+      const request = await collection.proposeMerge(created._id, {
+        fork,
+        baseVersion: 1,
+        title: 'Fork Title',
+        metadata: { pageNumbers: '2' },
+        comment: 'Proposal'
+      })
+
+      const merged = await collection.acceptMergeRequest(request.id, { fields: ['metadata.pageNumbers'] })
+
+      expect(merged.title).toBe('Upstream Title')
+      expect(merged.metadata.pageNumbers).toBe('2')
+      expect(merged.provenance.version).toBe(2)
+      expect(operations[2].data).toEqual(expect.objectContaining({
+        proposedBy: request.proposedBy,
+        acceptedFields: ['metadata.pageNumbers']
+      }))
+
+      const [resolved] = await collection.getMergeRequests(created._id)
+      expect(resolved.status).toBe('accepted')
+      expect(resolved.acceptedFields).toEqual(['metadata.pageNumbers'])
+    })
+
+    it('should reject with a comment and keep the document unchanged', async () => {
+      const created = await createUpstream()
+      const request = await collection.proposeMerge(created._id, {
+        fork,
+        baseVersion: 1,
+        title: 'Fork Title',
+        comment: 'Proposal'
+      })
+
+      const rejected = await collection.rejectMergeRequest(request.id, 'Title is correct as is')
+
+      expect(rejected.status).toBe('rejected')
+      expect(rejected.resolutionComment).toBe('Title is correct as is')
+      expect(documents[created._id].title).toBe('Upstream Title')
+      await expect(collection.acceptMergeRequest(request.id)).rejects.toThrow('already rejected')
+    })
+
+    it('should refuse proposals without changes or unknown fields', async () => {
+      const created = await createUpstream()
+
+      await expect(collection.proposeMerge(created._id, {
+        fork,
+        baseVersion: 1,
+        title: 'Upstream Title',
+        comment: 'Nothing new'
+      })).rejects.toThrow('no changes to merge')
+
+      const request = await collection.proposeMerge(created._id, {
+        fork,
+        baseVersion: 1,
+        title: 'Fork Title',
+        comment: 'Proposal'
+      })
+      await expect(collection.acceptMergeRequest(request.id, { fields: ['description'] }))
+        .rejects.toThrow('among the proposed ones')
+    })
+  })
+
+
+  describe('renameKeyword', () => {
+    let mockOpsDB: { add: jest.Mock }
+    let documents: Record<string, Partial<CatalogDocument>>
+
+    beforeEach(() => {
+      documents = {
+        'doc-1': { _id: 'doc-1', tags: ['Philo', 'art'], metadata: { keywords: ['philo', 'aesthetics'] }, provenance: { created: 1000, updated: 1000, version: 1 } },
+        'doc-2': { _id: 'doc-2', tags: ['music'], metadata: { keywords: ['sound'] }, provenance: { created: 1000, updated: 1000, version: 3 } }
+      }
+
+      mockOpsDB = { add: jest.fn().mockResolvedValue({}) }
+      collection['opsLogDB'] = mockOpsDB
+      collection['catalogDB'] = {
+        query: jest.fn().mockImplementation((filter: (doc: Partial<CatalogDocument>) => boolean) =>
+          Promise.resolve(Object.values(documents).filter(filter))
+        ),
+        get: jest.fn().mockImplementation((id: string) => documents[id] || null),
+        put: jest.fn().mockImplementation((id: string, doc: CatalogDocument) => {
+          documents[id] = doc
+          return Promise.resolve({})
+        })
+      }
+    })
+
+    it('should append a signed TAG operation for each document using the keyword', async () => {
+      const renamed = await collection.renameKeyword(['philo'], 'philosophy')
+
+      expect(renamed.map(doc => doc._id)).toEqual(['doc-1'])
+      expect(renamed[0].tags).toEqual(['art', 'philosophy'])
+      expect(renamed[0].metadata.keywords).toEqual(['aesthetics', 'philosophy'])
+
+      expect(mockOpsDB.add).toHaveBeenCalledTimes(1)
+      expect(mockOpsDB.add).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'TAG',
+          documentId: 'doc-1',
+          version: 2,
+          data: expect.objectContaining({
+            addedTags: ['philosophy'],
+            removedTags: ['Philo'],
+            addedKeywords: ['philosophy'],
+            removedKeywords: ['philo']
+          }),
+          identity: expect.objectContaining({ signature: expect.any(String) })
+        })
+      )
+    })
+  })
+
+  describe('relateDocuments', () => {
+    let mockOpsDB: { add: jest.Mock }
+    let mockCatalogDB: { get: jest.Mock, put: jest.Mock }
+    let documents: Record<string, Partial<CatalogDocument>>
+
+    beforeEach(() => {
+      documents = {
+        'quote-1': { _id: 'quote-1', tags: [], provenance: { created: 1000, updated: 1000, version: 1 } },
+        'image-1': { _id: 'image-1', tags: [], provenance: { created: 1000, updated: 1000, version: 1 } }
+      }
+
+      mockOpsDB = { add: jest.fn().mockResolvedValue({}) }
+      mockCatalogDB = {
+        get: jest.fn().mockImplementation((id: string) => documents[id] || null),
+        put: jest.fn().mockImplementation((id: string, doc: CatalogDocument) => {
+          documents[id] = doc
+          return Promise.resolve({})
+        })
+      }
+      collection['opsLogDB'] = mockOpsDB
+      collection['catalogDB'] = mockCatalogDB
+    })
+
+    it('should append a signed RELATE operation', async () => {
+      const relation = await collection.relateDocuments('quote-1', 'image-1', 'illustrates', { note: 'Cover image' })
+
+      expect(relation).toEqual(expect.objectContaining({
+        sourceId: 'quote-1',
+        targetId: 'image-1',
+        relationType: 'illustrates',
+        note: 'Cover image'
+      }))
+
+      expect(mockOpsDB.add).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'RELATE',
+          documentId: 'quote-1',
+          version: 1,
+          data: expect.objectContaining({
+            action: 'add',
+            targetId: 'image-1',
+            relationType: 'illustrates'
+          })
+        })
+      )
+    })
+
+    it('should project outgoing and incoming edges into the catalog', async () => {
+      await collection.relateDocuments('quote-1', 'image-1', 'illustrates')
+
+      const outgoing = await collection.getRelations('quote-1', { direction: 'outgoing' })
+      const incoming = await collection.getRelations('image-1', { direction: 'incoming' })
+
+      expect(outgoing).toHaveLength(1)
+      expect(incoming).toHaveLength(1)
+      expect(incoming[0].sourceId).toBe('quote-1')
+
+      const related = await collection.getRelatedDocuments('image-1')
+      expect(related[0].document?._id).toBe('quote-1')
+    })
+
+    it('should not create a content version', async () => {
+      await collection.relateDocuments('quote-1', 'image-1', 'illustrates')
+      await collection.unrelateDocuments('quote-1', 'image-1', 'illustrates')
+
+      expect(documents['quote-1'].provenance).toEqual({ created: 1000, updated: 1000, version: 1 })
+    })
+
+    it('should not duplicate an existing relation', async () => {
+      await collection.relateDocuments('quote-1', 'image-1', 'cites')
+      await collection.relateDocuments('quote-1', 'image-1', 'cites')
+
+      expect(await collection.getRelations('quote-1')).toHaveLength(1)
+    })
+
+    it('should remove relations from both ends', async () => {
+      await collection.relateDocuments('quote-1', 'image-1', 'cites')
+      await collection.unrelateDocuments('quote-1', 'image-1', 'cites')
+
+      expect(await collection.getRelations('quote-1')).toHaveLength(0)
+      expect(await collection.getRelations('image-1')).toHaveLength(0)
+    })
+
+    it('should filter relations by type', async () => {
+      await collection.relateDocuments('quote-1', 'image-1', 'cites')
+      await collection.relateDocuments('quote-1', 'image-1', 'same-source-as')
+
+      const relations = await collection.getRelations('quote-1', { relationType: 'cites' })
+      expect(relations).toHaveLength(1)
+      expect(relations[0].relationType).toBe('cites')
+    })
+
+    it('should allow targets in other collections', async () => {
+      const relation = await collection.relateDocuments('quote-1', 'remote-doc', 'responds-to', {
+        targetCollectionId: 'other-collection'
+      })
+
+      expect(relation.targetCollectionId).toBe('other-collection')
+      expect(documents['remote-doc']).toBeUndefined()
+    })
+
+    it('should reject unknown relation types', async () => {
+      await expect(
+        collection.relateDocuments('quote-1', 'image-1', 'likes' as RelationType)
+      ).rejects.toThrow('Unknown relation type')
+    })
+
+    it('should reject self-relations and missing targets', async () => {
+      await expect(
+        collection.relateDocuments('quote-1', 'quote-1', 'cites')
+      ).rejects.toThrow('cannot be related to itself')
+
+      await expect(
+        collection.relateDocuments('quote-1', 'missing', 'cites')
+      ).rejects.toThrow('Related document not found')
+    })
+  })
+
+  describe('writer access control', () => {
+    let mockOpsDB: { add: jest.Mock }
+
+    beforeEach(() => {
+      mockOpsDB = { add: jest.fn().mockResolvedValue({}) }
+      collection['opsLogDB'] = mockOpsDB
+      collection['catalogDB'] = { put: jest.fn().mockResolvedValue({}) }
+    })
+
+    it('should make the local identity owner of a new collection', () => {
+      const { owner, writers } = collection.getPermissions()
+
+      expect(owner).toMatch(/^did:p2p:/)
+      expect(writers).toEqual([owner])
+    })
+
+    it('should grant and revoke writers with signed operations', async () => {
+      const { writers } = await collection.grantWriter('did:p2p:writer')
+      expect(writers).toContain('did:p2p:writer')
+
+      expect(mockOpsDB.add).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'GRANT_WRITE',
+          documentId: '_acl',
+          data: { writerDID: 'did:p2p:writer' }
+        })
+      )
+
+      const revoked = await collection.revokeWriter('did:p2p:writer')
+      expect(revoked.writers).not.toContain('did:p2p:writer')
+      expect(mockOpsDB.add).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'REVOKE_WRITE' })
+      )
+    })
+
+    it('should reject revoking a DID that is not a writer', async () => {
+      await expect(
+        collection.revokeWriter('did:p2p:stranger')
+      ).rejects.toThrow('DID is not a writer of this collection')
+    })
+
+    it('should reject writes from DIDs not on the writer list', async () => {
+      collection['acl'] = new CollectionACL('test-collection', 'did:p2p:someone-else')
+
+      const file = createTestFile('test.txt', 'content')
+
+      await expect(
+        collection.createDocument(file, { title: 'Test' })
+      ).rejects.toThrow('Not authorized to write to this collection')
+      expect(mockOpsDB.add).not.toHaveBeenCalled()
+    })
+
+    it('should only let the owner change writers', async () => {
+      collection['acl'] = new CollectionACL('test-collection', 'did:p2p:someone-else')
+
+      await expect(
+        collection.grantWriter('did:p2p:writer')
+      ).rejects.toThrow('Only the collection owner can change writers')
+    })
+  })
+
+  describe('replicated operation verification', () => {
+    let peer: CryptoIdentityManager
+    let rejected: Record<string, RejectedOperation>
+    let mockCatalogDB: { put: jest.Mock, query: jest.Mock }
+
+    const remoteOperation = async (data: Record<string, unknown> = { title: 'Remote', description: '', tags: [] }): Promise<Operation> => {
+      const unsigned = { type: 'CREATE' as const, collectionId: 'test-collection', documentId: 'remote-doc', data, version: 1 }
+      return {
+        ...unsigned,
+        schemaVersion: '1.0.0',
+        identity: await peer.signData(unsigned)
+      }
+    }
+
+    beforeEach(async () => {
+      peer = new CryptoIdentityManager()
+      await peer.initialize(await generateTestKeyPair())
+
+      rejected = {}
+      collection['rejectedOpsDB'] = {
+        get: jest.fn().mockImplementation((key: string) => rejected[key] || null),
+        put: jest.fn().mockImplementation((key: string, value: RejectedOperation) => {
+          rejected[key] = value
+          return Promise.resolve({})
+        }),
+        all: jest.fn().mockImplementation(() => Promise.resolve(Object.values(rejected)))
+      }
+      mockCatalogDB = { put: jest.fn().mockResolvedValue({}), query: jest.fn().mockResolvedValue([]) }
+      collection['catalogDB'] = mockCatalogDB
+    })
+
+    it('should accept operations with a valid signature', async () => {
+      const operation = await remoteOperation()
+
+      expect(await collection['acceptOperation'](operation)).toBe(true)
+      expect(rejected).toEqual({})
+    })
+
+    it('should quarantine forged operations with the reason', async () => {
+      const operation = await remoteOperation()
+      operation.data.title = 'Forged'
+      operation.hash = 'forged-hash'
+
+      expect(await collection['acceptOperation'](operation)).toBe(false)
+      expect(rejected['forged-hash']).toEqual(expect.objectContaining({
+        hash: 'forged-hash',
+        reason: 'Invalid signature'
+      }))
+    })
+
+    it('should verify again a verified signature copied onto other data', async () => {
+      const operation = await remoteOperation()
+      expect(await collection['acceptOperation'](operation)).toBe(true)
+
+      const copy = { ...operation, data: { ...operation.data, title: 'Forged' }, hash: 'copy-hash' }
+
+      expect(await collection['acceptOperation'](copy)).toBe(false)
+      expect(rejected['copy-hash']).toBeDefined()
+    })
+
+    it('should reject operations missing a required proof-of-work', async () => {
+      const powCollection = new CollectionCQRS(mockOrbitDB, 'test-collection', {
+        ...config,
+        security: { ...config.security, requireProofOfWork: true }
+      })
+      await powCollection.initialize(keyPair, mockHelia)
+      powCollection['rejectedOpsDB'] = collection['rejectedOpsDB']
+
+      const operation = await remoteOperation()
+
+      expect(await powCollection['acceptOperation'](operation)).toBe(false)
+      expect(Object.values(rejected)[0].reason).toBe('Proof-of-work required but not provided')
+    })
+
+    it('should not project forged operations during rebuild', async () => {
+      const forged = await remoteOperation()
+      forged.data.title = 'Forged'
+
+      collection['opsLogDB'] = {
+        all: jest.fn().mockResolvedValue([{ hash: 'forged-hash', payload: { value: forged } }])
+      }
+
+      await collection['rebuildCatalogFromOps']()
+
+      expect(mockCatalogDB.put).not.toHaveBeenCalled()
+      expect(rejected['forged-hash']).toBeDefined()
+    })
+
+    it('should report rejected operations in stats', async () => {
+      const operation = await remoteOperation()
+      operation.data.title = 'Forged'
+      operation.hash = 'forged-hash'
+      await collection['acceptOperation'](operation)
+
+      collection['opsLogDB'] = { all: jest.fn().mockResolvedValue([]) }
+      const stats = await collection.getStats()
+
+      expect(stats.rejectedOperationCount).toBe(1)
+      expect(stats.rejectedOperations[0]).toEqual(expect.objectContaining({
+        hash: 'forged-hash',
+        type: 'CREATE',
+        documentId: 'remote-doc',
+        reason: 'Invalid signature'
+      }))
+    })
+  })
+
+  describe('catalog snapshots', () => {
+    let documents: Record<string, Partial<CatalogDocument>>
+    let stored: Record<string, Uint8Array>
+
+    beforeEach(() => {
+      documents = {
+        'doc-1': { _id: 'doc-1', tags: [], provenance: { created: 1000, updated: 1000, version: 1 } }
+      }
+      stored = {}
+
+      collection['catalogDB'] = {
+        get: jest.fn().mockImplementation((id: string) => documents[id] || null),
+        put: jest.fn().mockImplementation((id: string, doc: CatalogDocument) => {
+          documents[id] = doc
+          return Promise.resolve({})
+        }),
+        query: jest.fn().mockImplementation(() => Promise.resolve(Object.values(documents)))
+      }
+
+      const contentManager = collection['contentManager']!
+      jest.spyOn(contentManager, 'storeContent').mockImplementation(async (file: File) => {
+        stored['snapshot-cid'] = new Uint8Array(await file.arrayBuffer())
+        return 'snapshot-cid'
+      })
+      jest.spyOn(contentManager, 'getContent').mockImplementation(async (cid: string) => stored[cid] || null)
+    })
+
+    it('should refuse to snapshot before any operation is applied', async () => {
+      collection['lastOpHash'] = null
+
+      await expect(collection.createSnapshot()).rejects.toThrow('Nothing to snapshot')
+    })
+
+    it('should store a signed snapshot with the last applied operation', async () => {
+      collection['lastOpHash'] = 'op-hash-1'
+
+      const { cid, snapshot } = await collection.createSnapshot()
+
+      expect(cid).toBe('snapshot-cid')
+      expect(snapshot.lastOpHash).toBe('op-hash-1')
+      expect(snapshot.documents).toHaveLength(1)
+      expect(snapshot.identity.signature).toBeDefined()
+      expect(collection.hasChangesSinceSnapshot()).toBe(false)
+    })
+
+    it('should load the snapshot and replay only newer operations', async () => {
+      collection['lastOpHash'] = 'op-hash-1'
+      await collection.createSnapshot()
+
+      documents = {}
+      const iteratorOptions: Record<string, unknown>[] = []
+      collection['opsLogDB'] = {
+        type: 'eventlog',
+        iterator: (options: Record<string, unknown>) => {
+          iteratorOptions.push(options)
+          return (async function * () {})()
+        }
+      }
+
+      await collection['rebuildCatalogFromOps']('snapshot-cid')
+
+      expect(documents['doc-1']).toBeDefined()
+      expect(iteratorOptions[0]).toEqual(expect.objectContaining({ gt: 'op-hash-1', amount: -1 }))
+    })
+
+    it('should ignore tampered snapshots and rebuild from the full log', async () => {
+      collection['lastOpHash'] = 'op-hash-1'
+      const { snapshot } = await collection.createSnapshot()
+      snapshot.documents.push({ ...snapshot.documents[0], _id: 'injected' })
+      stored['snapshot-cid'] = new TextEncoder().encode(JSON.stringify(snapshot))
+
+      documents = {}
+      const iteratorOptions: Record<string, unknown>[] = []
+      collection['opsLogDB'] = {
+        type: 'eventlog',
+        iterator: (options: Record<string, unknown>) => {
+          iteratorOptions.push(options)
+          return (async function * () {})()
+        }
+      }
+
+      await collection['rebuildCatalogFromOps']('snapshot-cid')
+
+      expect(documents['injected']).toBeUndefined()
+      expect(iteratorOptions[0].gt).toBeUndefined()
+    })
+  })
+
+  describe('time-travel queries', () => {
+    let mockCatalogDB: { get: jest.Mock, put: jest.Mock }
+
+    const operation = (type: string, documentId: string, data: Record<string, unknown>, lamportClock: number, timestamp: string) => ({
+      type,
+      collectionId: 'test-collection',
+      documentId,
+      data,
+      version: lamportClock,
+      schemaVersion: '1.0.0',
+      // Authored by the owner, projection refuses operations from non-writers
+      identity: { lamportClock, timestamp, authorDID: collection.getAuthorDID(), signature: `sig-${lamportClock}` }
+    })
+
+    beforeEach(() => {
+      const operations = [
+        operation('CREATE', 'doc-1', { title: 'First', description: '', tags: ['a'] }, 1, '2026-01-01T00:00:00Z'),
+        operation('UPDATE', 'doc-1', { title: 'First (edited)', changedFields: ['title'] }, 2, '2026-02-01T00:00:00Z'),
+        operation('CREATE', 'doc-2', { title: 'Second', description: '', tags: [] }, 3, '2026-03-01T00:00:00Z'),
+        operation('TOMBSTONE', 'doc-1', { reason: 'spam' }, 4, '2026-04-01T00:00:00Z')
+      ]
+
+      collection['opsLogDB'] = {
+        all: jest.fn().mockResolvedValue(operations.map((value, i) => ({ hash: `op-${i}`, payload: { value } })))
+      }
+      mockCatalogDB = { get: jest.fn(), put: jest.fn().mockResolvedValue({}) }
+      collection['catalogDB'] = mockCatalogDB
+      collection['acceptOperation'] = jest.fn().mockResolvedValue(true)
+    })
+
+    it('should project the catalog up to a Lamport clock', async () => {
+      const catalog = await collection.getCatalogAt({ lamport: 1 })
+
+      expect(catalog).toHaveLength(1)
+      expect(catalog[0].title).toBe('First')
+    })
+
+    it('should project the catalog up to a timestamp', async () => {
+      const catalog = await collection.getCatalogAt({ timestamp: Date.parse('2026-03-15T00:00:00Z') })
+
+      expect(catalog.map(doc => doc._id).sort()).toEqual(['doc-1', 'doc-2'])
+      expect(catalog.find(doc => doc._id === 'doc-1')!.title).toBe('First (edited)')
+    })
+
+    it('should drop documents tombstoned before the cut-off', async () => {
+      expect(await collection.getDocumentAt('doc-1', { lamport: 3 })).not.toBeNull()
+      expect(await collection.getDocumentAt('doc-1', { lamport: 4 })).toBeNull()
+    })
+
+    it('should leave the live catalog untouched', async () => {
+      await collection.getCatalogAt({ lamport: 4 })
+
+      expect(mockCatalogDB.put).not.toHaveBeenCalled()
+      expect(collection['tombstones'].has('doc-1')).toBe(false)
+    })
+
+    it('should require a cut-off', async () => {
+      await expect(collection.getCatalogAt({})).rejects.toThrow('cut-off is required')
+    })
+  })
+})
@@ -4,7 +4,7 @@
  */
 
 import { P2PSystem } from '../p2p-system'
-import { P2PConfig, CatalogDocument, Operation } from '../types'
+import { P2PConfig, CatalogDocument, Operation, QuoteMetadata } from '../types'
 
 const createTestConfig = (userId: string): P2PConfig => ({
   userId,
@@ -303,10 +303,79 @@ describe('P2P Conflict Resolution', () => {
       const docAlice = finalAlice[0]
       const docBob = finalBob[0]
 
-      // Should converge (last-writer-wins applies to entire document)
+      // Should converge (last-writer-wins applies per field)
       expect(docAlice.title).toBe(docBob.title)
       expect(docAlice.description).toBe(docBob.description)
       expect(docAlice.tags).toEqual(docBob.tags)
+
+      // Neither edit is lost: Alice's title, Bob's description, both tags
+      expect(docAlice.title).toBe('Alice Updated Title')
+      expect(docAlice.description).toBe('Bob Updated Description')
+      expect([...docAlice.tags].sort()).toEqual(['alice-title', 'base', 'bob-desc'])
+    })
+
+    test('should merge concurrent tag and keyword additions and removals', async () => {
+      const collectionAlice = await peerAlice.openCollection(collectionName, {
+        create: true,
+        description: 'Set merge test'
+      })
+
+      const baseFile = new File(['Set content'], 'set-merge.txt', { type: 'text/plain' })
+      const baseDoc = await peerAlice.publishDocument(collectionName, baseFile, {
+        title: 'Set Merge Document',
+        tags: ['shared', 'stale'],
+        metadata: { keywords: ['archive', 'draft'], pageNumbers: '1-2' }
+      })
+
+      // Wait for propagation
+      await new Promise(resolve => setTimeout(resolve, 4000))
+
+      const [collectionBob, collectionCharlie] = await Promise.all([
+        peerBob.openCollection(collectionName),
+        peerCharlie.openCollection(collectionName)
+      ])
+
+      // Only writers' operations are kept
+      await peerAlice.grantCollectionWriter(collectionName, collectionBob.getAuthorDID())
+      await peerAlice.grantCollectionWriter(collectionName, collectionCharlie.getAuthorDID())
+      await new Promise(resolve => setTimeout(resolve, 4000))
+
+      // Alice removes a tag and a keyword, Bob and Charlie add their own
+      await Promise.all([
+        collectionAlice.updateDocument(baseDoc._id, {
+          tags: ['shared'],
+          metadata: { keywords: ['archive'] }
+        }),
+        collectionBob.updateDocument(baseDoc._id, {
+          tags: ['shared', 'stale', 'bob'],
+          metadata: { keywords: ['archive', 'draft', 'press'] }
+        }),
+        collectionCharlie.updateDocument(baseDoc._id, {
+          tags: ['shared', 'stale', 'charlie'],
+          metadata: { pageNumbers: '3-4' }
+        })
+      ])
+
+      // Wait for merge
+      await new Promise(resolve => setTimeout(resolve, 8000))
+
+      const finalDocs = await Promise.all([
+        collectionAlice.getAllDocuments(),
+        collectionBob.getAllDocuments(),
+        collectionCharlie.getAllDocuments()
+      ])
+
+      for (const docs of finalDocs) {
+        expect(docs).toHaveLength(1)
+        const [doc] = docs
+
+        // Identical order on every peer, not only the same elements
+        expect(doc.tags).toEqual(finalDocs[0][0].tags)
+        expect([...doc.tags].sort()).toEqual(['bob', 'charlie', 'shared'])
+        const metadata = doc.metadata as QuoteMetadata
+        expect([...metadata.keywords].sort()).toEqual(['archive', 'press'])
+        expect(metadata.pageNumbers).toBe('3-4')
+      }
     })
   })
 
@@ -124,15 +124,29 @@ describe('CryptoIdentityManager', () => {
 
     it('should check timestamp reasonableness', async () => {
       const testData = { message: 'Test' }
-      const identity = await manager.signData(testData)
 
-      // Set timestamp to 2 hours ago
-      identity.timestamp = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString()
+      // Sign 2 hours ago
+      jest.useFakeTimers({ now: Date.now() - 2 * 60 * 60 * 1000 })
+      const identity = await manager.signData(testData)
+      jest.useRealTimers()
 
       const result = await manager.verifyIdentity(testData, identity)
       expect(result.valid).toBe(false)
       expect(result.reason).toContain('Timestamp too far')
     })
+
+    it('should reject identities whose clock or timestamp was changed', async () => {
+      const testData = { message: 'Test' }
+      const identity = await manager.signData(testData)
+
+      const reordered = await manager.verifyIdentity(testData, { ...identity, lamportClock: 100 })
+      expect(reordered.valid).toBe(false)
+      expect(reordered.reason).toContain('Invalid signature')
+
+      const backdated = await manager.verifyIdentity(testData, { ...identity, timestamp: '2024-01-01T00:00:00.000Z' })
+      expect(backdated.valid).toBe(false)
+      expect(backdated.reason).toContain('Invalid signature')
+    })
   })
 
   describe('updateLamportClock', () => {
@@ -0,0 +1,172 @@
+/**
+ * Tests for field-level CRDT merge
+ */
+
+import {
+  mergeChanges,
+  changesFromOperation,
+  diffFieldChanges,
+  compareStamps
+} from '../field-merge'
+import { CatalogDocument, CryptoIdentity, Operation, OperationType, QuoteMetadata } from '../types'
+
+const baseDocument = (): CatalogDocument => ({
+  _id: 'doc-1',
+  type: 'quote',
+  title: 'Base title',
+  description: 'Base description',
+  tags: ['base', 'stale'],
+  authors: ['did:p2p:alice'],
+  provenance: { created: 1, updated: 1, version: 1 },
+  lastOpCID: 'op-1',
+  metadata: { author: 'Author', title: 'Book', keywords: ['archive'], pageNumbers: '1-2' }
+})
+
+const operation = (type: OperationType, data: Record<string, unknown>, lamportClock: number, authorDID: string): Operation => ({
+  type,
+  collectionId: 'test-collection',
+  documentId: 'doc-1',
+  data,
+  version: 2,
+  schemaVersion: '1.0.0',
+  identity: { authorDID, lamportClock } as CryptoIdentity
+})
+
+// Apply operations one after another, the way a replica does
+const applyAll = (doc: CatalogDocument, operations: Operation[]): CatalogDocument =>
+  operations.reduce((current, op) => mergeChanges(
+    current,
+    changesFromOperation(op, current),
+    { lamportClock: op.identity.lamportClock, authorDID: op.identity.authorDID }
+  ), doc)
+
+const update = (updates: Record<string, unknown>, metadata: Record<string, unknown> | undefined, lamportClock: number, authorDID: string) =>
+  operation('UPDATE', { ...updates, ...diffFieldChanges(baseDocument(), updates, metadata) }, lamportClock, authorDID)
+
+describe('compareStamps', () => {
+  it('should order by Lamport clock, then by DID', () => {
+    expect(compareStamps({ lamportClock: 1, authorDID: 'did:p2p:b' }, { lamportClock: 2, authorDID: 'did:p2p:a' })).toBeLessThan(0)
+    expect(compareStamps({ lamportClock: 2, authorDID: 'did:p2p:b' }, { lamportClock: 2, authorDID: 'did:p2p:a' })).toBeGreaterThan(0)
+    expect(compareStamps({ lamportClock: 2, authorDID: 'did:p2p:a' }, { lamportClock: 2, authorDID: 'did:p2p:a' })).toBe(0)
+  })
+})
+
+describe('diffFieldChanges', () => {
+  it('should only list fields that changed', () => {
+    const changes = diffFieldChanges(baseDocument(), {
+      title: 'Base title',
+      description: 'New description',
+      tags: ['base', 'new']
+    }, { pageNumbers: '1-2', publisher: 'Press', keywords: ['archive', 'press'] })
+
+    expect(changes.changedFields).toEqual(['description', 'metadata.publisher'])
+    expect(changes.addedTags).toEqual(['new'])
+    expect(changes.removedTags).toEqual(['stale'])
+    expect(changes.metadata).toEqual({ publisher: 'Press' })
+    expect(changes.addedKeywords).toEqual(['press'])
+    expect(changes.removedKeywords).toEqual([])
+  })
+})
+
+describe('mergeChanges', () => {
+  it('should keep concurrent edits of different fields', () => {
+    const alice = update({ title: 'Alice title' }, undefined, 5, 'did:p2p:alice')
+    const bob = update({ description: 'Bob description' }, { pageNumbers: '3-4' }, 5, 'did:p2p:bob')
+
+    const merged = applyAll(baseDocument(), [alice, bob])
+
+    expect(merged.title).toBe('Alice title')
+    expect(merged.description).toBe('Bob description')
+    expect((merged.metadata as QuoteMetadata).pageNumbers).toBe('3-4')
+    expect((merged.metadata as QuoteMetadata).author).toBe('Author')
+  })
+
+  it('should let the later Lamport clock win the same field', () => {
+    const early = update({ title: 'Early title' }, undefined, 3, 'did:p2p:zed')
+    const late = update({ title: 'Late title' }, undefined, 4, 'did:p2p:alice')
+
+    expect(applyAll(baseDocument(), [early, late]).title).toBe('Late title')
+    expect(applyAll(baseDocument(), [late, early]).title).toBe('Late title')
+  })
+
+  it('should break Lamport clock ties with the DID', () => {
+    const alice = update({ title: 'Alice title' }, undefined, 4, 'did:p2p:alice')
+    const bob = update({ title: 'Bob title' }, undefined, 4, 'did:p2p:bob')
+
+    expect(applyAll(baseDocument(), [alice, bob]).title).toBe('Bob title')
+    expect(applyAll(baseDocument(), [bob, alice]).title).toBe('Bob title')
+  })
+
+  it('should merge tag and keyword additions and removals as sets', () => {
+    const alice = update({ tags: ['base'] }, { keywords: [] }, 4, 'did:p2p:alice')
+    const bob = update({ tags: ['base', 'stale', 'bob'] }, { keywords: ['archive', 'press'] }, 4, 'did:p2p:bob')
+
+    const merged = applyAll(baseDocument(), [alice, bob])
+
+    expect(merged.tags).toEqual(['base', 'bob'])
+    expect(merged.metadata.keywords).toEqual(['press'])
+  })
+
+  it('should let a later add win over an earlier remove of the same tag', () => {
+    const remove = update({ tags: ['base'] }, undefined, 4, 'did:p2p:alice')
+    const readd = operation('TAG', { tags: ['base', 'stale'], addedTags: ['stale'] }, 5, 'did:p2p:bob')
+
+    expect(applyAll(baseDocument(), [remove, readd]).tags).toEqual(['base', 'stale'])
+    expect(applyAll(baseDocument(), [readd, remove]).tags).toEqual(['base', 'stale'])
+  })
+
+  it('should rename keywords with TAG operations, keeping concurrent additions', () => {
+    const rename = operation('TAG', {
+      tags: ['base', 'stale'],
+      addedKeywords: ['archives'],
+      removedKeywords: ['archive']
+    }, 4, 'did:p2p:admin')
+    const addition = update({ tags: ['base', 'stale'] }, { keywords: ['archive', 'press'] }, 4, 'did:p2p:bob')
+
+    expect(applyAll(baseDocument(), [rename, addition]).metadata.keywords).toEqual(['archives', 'press'])
+    expect(applyAll(baseDocument(), [addition, rename]).metadata.keywords).toEqual(['archives', 'press'])
+  })
+
+  it('should converge whatever order operations are applied in', () => {
+    const operations = [
+      update({ title: 'Alice title', tags: ['base', 'alice'] }, { keywords: ['archive', 'alice'] }, 4, 'did:p2p:alice'),
+      update({ title: 'Bob title', tags: ['bob'] }, { pageNumbers: '9' }, 4, 'did:p2p:bob'),
+      update({ description: 'Charlie description', tags: ['base', 'stale', 'charlie'] }, { keywords: [] }, 6, 'did:p2p:charlie')
+    ]
+
+    const permutations = [
+      [0, 1, 2], [0, 2, 1], [1, 0, 2], [1, 2, 0], [2, 0, 1], [2, 1, 0]
+    ].map(order => applyAll(baseDocument(), order.map(i => operations[i])))
+
+    for (const merged of permutations) {
+      expect(merged).toEqual(permutations[0])
+    }
+
+    expect(permutations[0].title).toBe('Bob title')
+    expect(permutations[0].description).toBe('Charlie description')
+    expect(permutations[0].tags).toEqual(['alice', 'bob', 'charlie'])
+    expect(permutations[0].metadata.keywords).toEqual(['alice'])
+  })
+
+  it('should be idempotent', () => {
+    const op = update({ title: 'Alice title', tags: ['base', 'alice'] }, undefined, 4, 'did:p2p:alice')
+
+    const once = applyAll(baseDocument(), [op])
+    const twice = applyAll(baseDocument(), [op, op])
+
+    expect(twice).toEqual(once)
+  })
+
+  it('should replace tags for updates written before field-level merging', () => {
+    const legacy = operation('UPDATE', {
+      title: 'Legacy title',
+      description: 'Legacy description',
+      tags: ['legacy']
+    }, 4, 'did:p2p:alice')
+
+    const merged = applyAll(baseDocument(), [legacy])
+
+    expect(merged.title).toBe('Legacy title')
+    expect(merged.tags).toEqual(['legacy'])
+  })
+})
@@ -0,0 +1,379 @@
+/**
+ * DID-based Access Control
+ * Enforces per-collection writer lists on OrbitDB databases
+ * - CollectionACL = owner DID + granted writer DIDs for one collection,
+ *   replayed from the ops log in causal order
+ * - DIDAccessController = OrbitDB access controller backed by a CollectionACL
+ * - RegistryAccessController = owner-signed collection entries in the registry
+ */
+
+import { Operation, OperationType, RegistryEntry } from './types'
+import { CryptoIdentityManager } from './crypto-identity'
+
+// OrbitDB log entry, as passed to canAppend
+export interface LogEntry {
+  hash?: string    // Set on entries replicated from peers
+  identity: string // Hash of the writer's OrbitDB identity
+  payload: {
+    op: string      // ADD for events databases, PUT or DEL for keyvalue ones
+    key?: string    // Keyvalue databases only
+    value?: unknown
+  }
+}
+
+interface OrbitDBIdentity {
+  id: string
+}
+
+// The parts of OrbitDB's identities service the controllers use
+interface OrbitDBIdentities {
+  getIdentity(hash: string): Promise<OrbitDBIdentity | null | undefined>
+  verifyIdentity(identity: OrbitDBIdentity): Promise<boolean>
+}
+
+interface AccessControllerContext {
+  orbitdb: { identity: OrbitDBIdentity }
+  identities: OrbitDBIdentities
+  address?: string
+}
+
+// Operations that change the writer list of a collection
+export const ACL_OPERATION_TYPES: OperationType[] = ['GRANT_WRITE', 'REVOKE_WRITE']
+
+// Operations anyone can append, they only change documents once a writer accepts them
+export const PROPOSAL_OPERATION_TYPES: OperationType[] = ['PROPOSE_MERGE']
+
+// ACL operations are not about a document, they all target this id
+export const ACL_DOCUMENT_ID = '_acl'
+
+// Registry key prefixes, collection keys are namespaced by their owner DID
+const COLLECTION_KEY_PREFIX = 'collections:'
+const USER_KEY_PREFIX = 'users:'
+
+const type = 'did'
+const registryType = 'did-registry'
+
+// Shared verifier, signature checks don't need a key pair
+const verifier = new CryptoIdentityManager()
+
+/**
+ * Writer list for a single collection
+ * Only the owner can grant or revoke write access
+ */
+export class CollectionACL {
+  readonly collectionId: string
+  readonly ownerDID: string
+  private writers: Set<string> = new Set()
+  private seededWriters: Set<string> = new Set() // From the registry, replays start from them
+  private writerIdentities: Map<string, Set<string>> = new Map() // DID → OrbitDB identity ids
+
+  constructor(collectionId: string, ownerDID: string, writers: string[] = []) {
+    this.collectionId = collectionId
+    this.ownerDID = ownerDID
+    this.addWriters(writers)
+  }
+
+  isOwner(did: string): boolean {
+    return did === this.ownerDID
+  }
+
+  canWrite(did: string): boolean {
+    return this.isOwner(did) || this.writers.has(did)
+  }
+
+  /**
+   * Add writers known from another source (e.g. the registry entry)
+   */
+  addWriters(writers: string[]): void {
+    for (const did of writers) {
+      if (!this.isOwner(did)) {
+        this.writers.add(did)
+        this.seededWriters.add(did)
+      }
+    }
+  }
+
+  /**
+   * Apply a GRANT_WRITE / REVOKE_WRITE operation
+   * Returns false when the operation is ignored (not an ACL op or not signed by the owner)
+   */
+  applyOperation(operation: Operation): boolean {
+    if (!ACL_OPERATION_TYPES.includes(operation.type)) return false
+    if (!this.isOwner(operation.identity?.authorDID)) return false
+
+    const writerDID = operation.data?.writerDID
+    if (typeof writerDID !== 'string' || this.isOwner(writerDID)) return false
+
+    if (operation.type === 'GRANT_WRITE') {
+      this.writers.add(writerDID)
+    } else {
+      this.writers.delete(writerDID)
+      this.writerIdentities.delete(writerDID)
+    }
+
+    return true
+  }
+
+  /**
+   * Judge operations against the writers of their time
+   * Operations must be in causal (Lamport) order. Grants and revocations are
+   * replayed from the seeded writers, so every replica keeps the same
+   * operations whatever order it received them in. With apply, the writer
+   * list becomes the one the replay ends with
+   */
+  authorize(operations: Operation[], options: { apply?: boolean } = {}): { authorized: Operation[], refused: Operation[] } {
+    const replay = new CollectionACL(this.collectionId, this.ownerDID, [...this.seededWriters])
+    const authorized: Operation[] = []
+    const refused: Operation[] = []
+
+    for (const operation of operations) {
+      const allowed = ACL_OPERATION_TYPES.includes(operation.type)
+        ? replay.applyOperation(operation)
+        : PROPOSAL_OPERATION_TYPES.includes(operation.type) || replay.canWrite(operation.identity?.authorDID)
+      if (allowed) {
+        authorized.push(operation)
+      } else {
+        refused.push(operation)
+      }
+    }
+
+    if (options.apply) {
+      this.writers = replay.writers
+    }
+
+    return { authorized, refused }
+  }
+
+  /**
+   * Remember which OrbitDB identity appended on behalf of a DID
+   * Lets the catalog accept projections written by the same peers
+   */
+  trustIdentity(did: string, identityId: string): void {
+    const ids = this.writerIdentities.get(did) || new Set<string>()
+    ids.add(identityId)
+    this.writerIdentities.set(did, ids)
+  }
+
+  isTrustedIdentity(identityId: string): boolean {
+    for (const [did, ids] of this.writerIdentities.entries()) {
+      if (ids.has(identityId) && this.canWrite(did)) {
+        return true
+      }
+    }
+    return false
+  }
+
+  getPermissions(): { owner: string, writers: string[] } {
+    return {
+      owner: this.ownerDID,
+      writers: [this.ownerDID, ...[...this.writers].sort()]
+    }
+  }
+}
+
+// One ACL per collection and owner, shared between CollectionCQRS and the
+// access controllers OrbitDB re-creates when a database is opened by address
+const collectionACLs: Map<string, CollectionACL> = new Map()
+
+export function getCollectionACL(collectionId: string, ownerDID: string, writers: string[] = []): CollectionACL {
+  const key = `${collectionId}:${ownerDID}`
+  let acl = collectionACLs.get(key)
+
+  if (!acl) {
+    acl = new CollectionACL(collectionId, ownerDID)
+    collectionACLs.set(key, acl)
+  }
+
+  acl.addWriters(writers)
+  return acl
+}
+
+/**
+ * Verify an operation signature, ignoring its age
+ * Replicated operations can be arbitrarily old
+ */
+export async function verifyOperationSignature(operation: Operation): Promise<{valid: boolean, reason?: string}> {
+  if (!operation?.identity) {
+    return { valid: false, reason: 'Missing identity' }
+  }
+
+  return verifier.verifyIdentity({
+    type: operation.type,
+    collectionId: operation.collectionId,
+    documentId: operation.documentId,
+    data: operation.data,
+    version: operation.version
+  }, operation.identity, { checkTimestamp: false })
+}
+
+async function getVerifiedWriter(identities: OrbitDBIdentities, entry: LogEntry): Promise<OrbitDBIdentity | null> {
+  const writerIdentity = await identities.getIdentity(entry.identity)
+  if (!writerIdentity) return null
+
+  const valid = await identities.verifyIdentity(writerIdentity)
+  return valid ? writerIdentity : null
+}
+
+// Called with operations refused by the ops log, so they can be quarantined
+export type RejectionHandler = (operation: Operation, reason: string) => void
+
+/**
+ * OrbitDB access controller for a collection's databases
+ * - 'ops': every operation must be signed by its author DID, ACL operations
+ *   by the owner. Each entry is judged on its own, OrbitDB checks heads before
+ *   their ancestors: writer membership depends on the grants before an
+ *   operation, so it's judged when the log is projected (CollectionACL.authorize)
+ * - 'catalog': entries must come from our own OrbitDB identity or from an
+ *   identity that has appended operations for a writer
+ * Refused operations are logged and passed to onReject
+ */
+export const DIDAccessController = (
+  { acl, role, onReject }: { acl?: CollectionACL, role?: 'ops' | 'catalog', onReject?: RejectionHandler } = {}
+) =>
+  async ({ orbitdb, identities, address }: AccessControllerContext) => {
+    if (address) {
+      // Opened by address: /did/<role>/<collectionId>/<ownerDID>
+      const [, , storedRole, collectionId, ownerDID] = address.split('/')
+      role = storedRole as 'ops' | 'catalog'
+      acl = acl || getCollectionACL(decodeURIComponent(collectionId), decodeURIComponent(ownerDID))
+    } else {
+      if (!acl) {
+        throw new Error('DIDAccessController requires an ACL when creating a database')
+      }
+      role = role || 'ops'
+      address = `/${type}/${role}/${encodeURIComponent(acl.collectionId)}/${encodeURIComponent(acl.ownerDID)}`
+    }
+
+    const collectionACL = acl!
+
+    const reject = (operation: Operation, hash: string | undefined, reason: string): boolean => {
+      console.warn(` Refused operation from ${operation.identity.authorDID}: ${reason}`)
+      onReject?.(hash && !operation.hash ? { ...operation, hash } : operation, reason)
+      return false
+    }
+
+    const canAppend = async (entry: LogEntry): Promise<boolean> => {
+      const writerIdentity = await getVerifiedWriter(identities, entry)
+      if (!writerIdentity) return false
+
+      if (role === 'catalog') {
+        return writerIdentity.id === orbitdb.identity.id || collectionACL.isTrustedIdentity(writerIdentity.id)
+      }
+
+      const operation = entry.payload?.value as Operation | undefined
+      const authorDID = operation?.identity?.authorDID
+      if (!operation || !authorDID) return false
+
+      if (ACL_OPERATION_TYPES.includes(operation.type) && !collectionACL.isOwner(authorDID)) {
+        return reject(operation, entry.hash, 'Only the collection owner can change writers')
+      }
+
+      // The DID is only meaningful if the operation is really signed by it
+      const { valid, reason } = await verifyOperationSignature(operation)
+      if (!valid) {
+        return reject(operation, entry.hash, reason || 'Invalid signature')
+      }
+
+      collectionACL.trustIdentity(authorDID, writerIdentity.id)
+      return true
+    }
+
+    return {
+      type,
+      address,
+      write: collectionACL.getPermissions().writers,
+      canAppend
+    }
+  }
+
+DIDAccessController.type = type
+
+/**
+ * Registry key of a collection
+ * Names are claimed per owner, so nobody else can write over a collection's entry
+ */
+export function collectionRegistryKey(ownerDID: string, name: string): string {
+  return `${COLLECTION_KEY_PREFIX}${ownerDID}/${name}`
+}
+
+/**
+ * Fields of a collection registry entry covered by the owner's signature
+ * lastSeen is left out so it can be refreshed without re-signing
+ */
+export function registrySigningPayload(key: string, entry: Pick<RegistryEntry, 'address' | 'metadata'>) {
+  return {
+    key,
+    address: entry.address,
+    opsLogAddress: entry.metadata.opsLogAddress,
+    ownerDID: entry.metadata.ownerDID,
+    writers: entry.metadata.writers || [],
+    snapshotCID: entry.metadata.snapshotCID
+  }
+}
+
+/**
+ * Verify the owner signature of a collection registry entry
+ * The key must be the one of the signed owner and name, so an entry can't
+ * be replayed under another key
+ */
+export async function verifyRegistryEntry(
+  key: string,
+  entry: Pick<RegistryEntry, 'address' | 'metadata' | 'identity'>
+): Promise<{valid: boolean, reason?: string}> {
+  if (!entry?.identity || !entry.metadata?.ownerDID) {
+    return { valid: false, reason: 'Collection entry is not signed' }
+  }
+
+  if (entry.identity.authorDID !== entry.metadata.ownerDID) {
+    return { valid: false, reason: 'Collection entry not signed by its owner' }
+  }
+
+  if (key !== collectionRegistryKey(entry.metadata.ownerDID, entry.metadata.name)) {
+    return { valid: false, reason: 'Collection entry stored under another owner or name' }
+  }
+
+  return verifier.verifyIdentity(registrySigningPayload(key, entry), entry.identity, { checkTimestamp: false })
+}
+
+const isRegistryEntry = (value: unknown): value is RegistryEntry =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as RegistryEntry).address === 'string' &&
+  typeof (value as RegistryEntry).metadata === 'object' && (value as RegistryEntry).metadata !== null
+
+/**
+ * OrbitDB access controller for the registry
+ * - collection entries must be signed by the owner DID their key is
+ *   namespaced under, and are never removed
+ * - user entries are open, as before
+ * - any other key is refused
+ * Every entry is judged on its own, so all replicas accept the same entries
+ * whatever order they arrive in
+ */
+export const RegistryAccessController = () =>
+  async ({ identities, address }: AccessControllerContext) => {
+    const canAppend = async (entry: LogEntry): Promise<boolean> => {
+      const writerIdentity = await getVerifiedWriter(identities, entry)
+      if (!writerIdentity) return false
+
+      const { op, key, value } = entry.payload || {}
+      if (typeof key !== 'string') return false
+
+      if (key.startsWith(USER_KEY_PREFIX)) return true
+      if (!key.startsWith(COLLECTION_KEY_PREFIX)) return false
+
+      // Collection entries are never removed, only overwritten by their owner
+      if (op !== 'PUT' || !isRegistryEntry(value)) return false
+
+      const { valid } = await verifyRegistryEntry(key, value)
+      return valid
+    }
+
+    return {
+      type: registryType,
+      address: address || `/${registryType}/p2p-registry`,
+      write: ['*'],
+      canAppend
+    }
+  }
+
+RegistryAccessController.type = registryType
@@ -15,24 +15,77 @@ import {
   P2PConfig,
   RateLimit,
   CryptoIdentity,
-  KeyPair
+  KeyPair,
+  DocumentRelation,
+  RelationType,
+  RELATION_TYPES,
+  RejectedOperation,
+  CatalogSnapshot,
+  CatalogCutoff,
+  MergeRequest,
+  MergeRequestSource,
+  MergeProposalData,
+  ProposedChanges
 } from './types'
 import { ensureDatabaseReady, readDatabaseEntries } from '../orbitdb-v2-utils'
+import { normalizeText } from '../text-analysis'
+import { renameKeywords } from '../keywords'
 import { CryptoIdentityManager } from './crypto-identity'
 import { SchemaManager } from './schema-manager'
 import { ContentManager } from './content-manager'
+import {
+  FieldChanges,
+  mergeChanges,
+  changesFromOperation,
+  diffFieldChanges,
+  stampOf
+} from './field-merge'
+import {
+  CollectionACL,
+  DIDAccessController,
+  LogEntry,
+  getCollectionACL,
+  verifyOperationSignature,
+  ACL_OPERATION_TYPES,
+  PROPOSAL_OPERATION_TYPES,
+  ACL_DOCUMENT_ID
+} from './access-controller'
+
+// Operations that open or resolve merge requests
+const MERGE_OPERATION_TYPES: OperationType[] = ['PROPOSE_MERGE', 'ACCEPT_MERGE', 'REJECT_MERGE']
+
+// Operations that leave a document's content, and so its version, unchanged
+const NON_CONTENT_OPERATION_TYPES: OperationType[] = ['PROPOSE_MERGE', 'REJECT_MERGE', 'RELATE']
+
+// Local keyvalue store of quarantined operations, keyed by hash
+interface RejectedOperationsStore {
+  get(hash: string): Promise<RejectedOperation | undefined>
+  put(hash: string, rejected: RejectedOperation): Promise<string>
+  all(): Promise<{ key: string, value: RejectedOperation }[]>
+}
+
+// Where applyCatalogOperation reads and writes projected documents
+interface CatalogStore {
+  get(documentId: string): Promise<CatalogDocument | null>
+  put(documentId: string, doc: CatalogDocument): Promise<void>
+}
 
 export class CollectionCQRS {
   private orbitdb: any
   private opsLogDB: any | null = null
   private catalogDB: any | null = null
+  private rejectedOpsDB: RejectedOperationsStore | null = null
   private collectionId: string
   private config: P2PConfig
   private identity: CryptoIdentityManager
   private schemaManager: SchemaManager
   private contentManager: ContentManager | null = null
+  private acl: CollectionACL | null = null
   private tombstones: Set<string> = new Set() // Track tombstoned documents
   private rateLimitTracker: Map<string, { count: number, windowStart: number }> = new Map() // Track rate limits per author
+  private verifiedOps: Set<string> = new Set() // Hashes of operations that passed verification
+  private lastOpHash: string | null = null // Last ops log entry applied to the catalog
+  private snapshotOpHash: string | null = null // lastOpHash covered by the latest snapshot
 
   constructor(orbitdb: any, collectionId: string, config: P2PConfig) {
     this.orbitdb = orbitdb
@@ -44,21 +97,45 @@ export class CollectionCQRS {
 
   /**
    * Initialize the CQRS system for a collection
+   * The owner defaults to the local identity for new collections. With a
+   * snapshot, only operations newer than the snapshot are replayed
    */
   async initialize(
     userKeyPair: KeyPair,
     helia: any,
     opsLogAddress?: string,
-    catalogAddress?: string
+    catalogAddress?: string,
+    options: {
+      ownerDID?: string
+      writers?: string[]
+      snapshotCID?: string
+    } = {}
   ): Promise<{opsLogAddress: string, catalogAddress: string}> {
     console.log(` CollectionCQRS.initialize() for: ${this.collectionId}`)
 
     // Initialize crypto identity
     await this.identity.initialize(userKeyPair)
 
+    // Initialize writer ACL
+    this.acl = getCollectionACL(
+      this.collectionId,
+      options.ownerDID || this.identity.getIdentityInfo().authorDID,
+      options.writers || []
+    )
+
     // Initialize content manager
     this.contentManager = new ContentManager(helia, this.config)
 
+    // Initialize rejected operations store (local quarantine, not replicated)
+    // Opened first, the ops log reports the operations it refuses while syncing
+    this.rejectedOpsDB = await this.orbitdb.open(`${this.collectionId}-rejected`, {
+      type: 'keyvalue',
+      create: true,
+      sync: false
+    })
+
+    await ensureDatabaseReady(this.rejectedOpsDB)
+
     // Initialize Operations Log (EventLog)
     const opsLogName = opsLogAddress || `${this.collectionId}-ops`
     console.log('  Opening operations log:', opsLogName)
@@ -67,10 +144,13 @@ export class CollectionCQRS {
       type: 'eventlog',
       create: !opsLogAddress,
       sync: true,
-      accessController: {
-        type: 'orbitdb',
-        write: ['*'] // TODO: Implement proper ACL
-      }
+      AccessController: DIDAccessController({
+        acl: this.acl,
+        role: 'ops',
+        onReject: (operation, reason) => {
+          this.quarantineOperation(operation, reason)
+        }
+      })
     })
 
     await ensureDatabaseReady(this.opsLogDB)
@@ -84,10 +164,7 @@ export class CollectionCQRS {
       type: 'docstore',
       create: !catalogAddress,
       sync: true,
-      accessController: {
-        type: 'orbitdb',
-        write: ['*'] // TODO: Implement proper ACL
-      }
+      AccessController: DIDAccessController({ acl: this.acl, role: 'catalog' })
     })
 
     await ensureDatabaseReady(this.catalogDB)
@@ -97,7 +174,7 @@ export class CollectionCQRS {
     this.setupEventListeners()
 
     // Build catalog from operations log if needed
-    await this.rebuildCatalogFromOps()
+    await this.rebuildCatalogFromOps(options.snapshotCID)
 
     // Start cleanup timer for rate limits
     setInterval(() => {
@@ -119,6 +196,7 @@ export class CollectionCQRS {
       title: string
       description?: string
       tags?: string[]
+      metadata?: Record<string, unknown> // Type-specific metadata (citation fields, keywords...)
     }
   ): Promise<CatalogDocument> {
     console.log(` Creating document: ${metadata.title}`)
@@ -141,7 +219,8 @@ export class CollectionCQRS {
       ipfsCID: cid,
       mimeType: file.type,
       size: file.size,
-      filename: file.name
+      filename: file.name,
+      ...(metadata.metadata && { metadata: metadata.metadata })
     }
 
     const operation: Operation = {
@@ -184,6 +263,7 @@ export class CollectionCQRS {
       description?: string
       tags?: string[]
       file?: File
+      metadata?: Record<string, unknown> // Changed type-specific metadata fields
     }
   ): Promise<CatalogDocument> {
     console.log(` Updating document: ${documentId}`)
@@ -221,13 +301,23 @@ export class CollectionCQRS {
     }
 
     // Create UPDATE operation with crypto identity
+    // Only the fields that differ are merged, so concurrent edits of
+    // different fields don't overwrite each other
     const operationData = {
       title: updates.title ?? currentDoc.title,
       description: updates.description ?? currentDoc.description,
       tags: updates.tags ?? currentDoc.tags,
       ipfsCID: newCID,
       mimeType: newMimeType,
-      size: newSize
+      size: newSize,
+      ...diffFieldChanges(currentDoc, {
+        title: updates.title,
+        description: updates.description,
+        tags: updates.tags,
+        ipfsCID: newCID,
+        mimeType: newMimeType,
+        size: newSize
+      }, updates.metadata)
     }
 
     const operation: Operation = {
@@ -258,6 +348,285 @@ export class CollectionCQRS {
     return catalogDoc
   }
 
+  /**
+   * Restore a document to a prior version (REVERT operation)
+   * Appends a new version whose content equals the target, history is kept
+   */
+  async revertDocument(documentId: string, targetVersion: number): Promise<CatalogDocument> {
+    console.log(` Reverting document: ${documentId} to version ${targetVersion}`)
+
+    const currentDoc = await this.getDocument(documentId)
+    if (!currentDoc) {
+      throw new P2PError('Document not found', 'DOCUMENT_NOT_FOUND', { documentId })
+    }
+
+    if (targetVersion >= currentDoc.provenance.version) {
+      throw new P2PError(`Document is already at version ${currentDoc.provenance.version}`, 'INVALID_REVERT', {
+        documentId,
+        targetVersion
+      })
+    }
+
+    const target = await this.getDocumentVersion(documentId, targetVersion)
+
+    if (target.ipfsCID !== currentDoc.ipfsCID) {
+      if (currentDoc.ipfsCID) {
+        await this.contentManager!.removeDocumentReference(currentDoc.ipfsCID, documentId)
+      }
+      if (target.ipfsCID) {
+        await this.contentManager!.addDocumentReference(target.ipfsCID, documentId)
+      }
+    }
+
+    // Metadata fields added since the target version are unset
+    const targetMetadata: Record<string, unknown> = {
+      ...Object.fromEntries(Object.keys(currentDoc.metadata || {}).map(key => [key, undefined])),
+      ...(target.metadata || {}),
+      ...(currentDoc.metadata?.keywords && { keywords: target.metadata?.keywords || [] })
+    }
+
+    const operationData = {
+      targetVersion,
+      changeComment: `Reverted to version ${targetVersion}`,
+      title: target.title,
+      description: target.description,
+      tags: target.tags,
+      ipfsCID: target.ipfsCID,
+      mimeType: target.mimeType,
+      size: target.size,
+      ...diffFieldChanges(currentDoc, {
+        title: target.title,
+        description: target.description,
+        tags: target.tags,
+        ipfsCID: target.ipfsCID,
+        mimeType: target.mimeType,
+        size: target.size
+      }, targetMetadata)
+    }
+
+    const operation: Operation = {
+      type: 'REVERT',
+      collectionId: this.collectionId,
+      documentId,
+      data: operationData,
+      version: currentDoc.provenance.version + 1,
+      schemaVersion: '1.0.0',
+      identity: await this.identity.signData({
+        type: 'REVERT',
+        collectionId: this.collectionId,
+        documentId,
+        data: operationData,
+        version: currentDoc.provenance.version + 1
+      }, this.config.security?.requireProofOfWork, this.config.security?.rateLimits?.proofOfWorkDifficulty)
+    }
+
+    // Validate operation size, rate limits, and proof-of-work
+    await this.validateOperation(operation)
+
+    await this.opsLogDB!.add(operation)
+
+    const catalogDoc = await this.applyCatalogOperation(operation)
+    console.log('   Document reverted')
+
+    return catalogDoc
+  }
+
+  /**
+   * Propose a fork's changes to a document of this collection (PROPOSE_MERGE operation)
+   * Anyone can propose, the document only changes once a writer accepts
+   */
+  async proposeMerge(
+    documentId: string,
+    proposal: {
+      fork: MergeRequestSource
+      baseVersion: number // Version of this document the fork was based on
+      title?: string
+      description?: string
+      tags?: string[]
+      metadata?: Record<string, unknown>
+      comment: string
+    }
+  ): Promise<MergeRequest> {
+    console.log(` Proposing merge into document: ${documentId}`)
+
+    const currentDoc = await this.getDocument(documentId)
+    if (!currentDoc) {
+      throw new P2PError('Document not found', 'DOCUMENT_NOT_FOUND', { documentId })
+    }
+
+    // Changes are described against the version the fork started from
+    const base = await this.getDocumentVersion(documentId, proposal.baseVersion)
+    const diff = diffFieldChanges(base, {
+      title: proposal.title,
+      description: proposal.description,
+      tags: proposal.tags
+    }, proposal.metadata)
+
+    const changes: ProposedChanges = {
+      ...(diff.changedFields.includes('title') && { title: proposal.title }),
+      ...(diff.changedFields.includes('description') && { description: proposal.description }),
+      ...diff
+    }
+
+    if (this.proposedFields(changes).length === 0) {
+      throw new P2PError('Fork has no changes to merge', 'NOTHING_TO_MERGE', { documentId, fork: proposal.fork })
+    }
+
+    const operationData: MergeProposalData = {
+      mergeRequestId: crypto.randomUUID(),
+      fork: proposal.fork,
+      baseVersion: proposal.baseVersion,
+      comment: proposal.comment,
+      ...changes
+    }
+
+    const operation: Operation = {
+      type: 'PROPOSE_MERGE',
+      collectionId: this.collectionId,
+      documentId,
+      data: operationData,
+      version: currentDoc.provenance.version,
+      schemaVersion: '1.0.0',
+      identity: await this.identity.signData({
+        type: 'PROPOSE_MERGE',
+        collectionId: this.collectionId,
+        documentId,
+        data: operationData,
+        version: currentDoc.provenance.version
+      }, this.config.security?.requireProofOfWork, this.config.security?.rateLimits?.proofOfWorkDifficulty)
+    }
+
+    // Validate operation size, rate limits, and proof-of-work
+    await this.validateOperation(operation)
+
+    await this.opsLogDB!.add(operation)
+    console.log('   Merge request opened')
+
+    return this.mergeRequestFromOperation(operation)
+  }
+
+  /**
+   * Accept a merge request in whole or for some fields (ACCEPT_MERGE operation)
+   * Creates a new version of the document crediting the fork author
+   */
+  async acceptMergeRequest(
+    mergeRequestId: string,
+    options: {
+      fields?: string[] // Defaults to every proposed field
+      comment?: string
+    } = {}
+  ): Promise<CatalogDocument> {
+    console.log(` Accepting merge request: ${mergeRequestId}`)
+
+    const request = await this.getOpenMergeRequest(mergeRequestId)
+
+    const acceptedFields = options.fields || request.fields
+    const unknownFields = acceptedFields.filter(field => !request.fields.includes(field))
+    if (acceptedFields.length === 0 || unknownFields.length > 0) {
+      throw new P2PError('Accepted fields must be among the proposed ones', 'INVALID_MERGE_FIELDS', {
+        mergeRequestId,
+        unknownFields
+      })
+    }
+
+    const currentDoc = await this.getDocument(request.documentId)
+    if (!currentDoc) {
+      throw new P2PError('Document not found', 'DOCUMENT_NOT_FOUND', { documentId: request.documentId })
+    }
+
+    // Keep the accepted part of the proposal, in UPDATE form
+    const { changes } = request
+    const isAccepted = (field: string) => acceptedFields.includes(field)
+    const operationData = {
+      mergeRequestId,
+      proposedBy: request.proposedBy,
+      acceptedFields,
+      changeComment: options.comment || `Merged changes from ${request.fork.documentId}`,
+      ...(isAccepted('title') && { title: changes.title }),
+      ...(isAccepted('description') && { description: changes.description }),
+      changedFields: changes.changedFields.filter(isAccepted),
+      metadata: Object.fromEntries(
+        Object.entries(changes.metadata).filter(([key]) => isAccepted(`metadata.${key}`))
+      ),
+      addedTags: isAccepted('tags') ? changes.addedTags : [],
+      removedTags: isAccepted('tags') ? changes.removedTags : [],
+      addedKeywords: isAccepted('metadata.keywords') ? changes.addedKeywords : [],
+      removedKeywords: isAccepted('metadata.keywords') ? changes.removedKeywords : []
+    }
+
+    const operation: Operation = {
+      type: 'ACCEPT_MERGE',
+      collectionId: this.collectionId,
+      documentId: request.documentId,
+      data: operationData,
+      version: currentDoc.provenance.version + 1,
+      schemaVersion: '1.0.0',
+      identity: await this.identity.signData({
+        type: 'ACCEPT_MERGE',
+        collectionId: this.collectionId,
+        documentId: request.documentId,
+        data: operationData,
+        version: currentDoc.provenance.version + 1
+      }, this.config.security?.requireProofOfWork, this.config.security?.rateLimits?.proofOfWorkDifficulty)
+    }
+
+    // Validate operation size, rate limits, and proof-of-work
+    await this.validateOperation(operation)
+
+    await this.opsLogDB!.add(operation)
+
+    const catalogDoc = await this.applyCatalogOperation(operation)
+    console.log('   Merge request accepted')
+
+    return catalogDoc
+  }
+
+  /**
+   * Reject a merge request with a comment for the fork author (REJECT_MERGE operation)
+   */
+  async rejectMergeRequest(mergeRequestId: string, comment: string): Promise<MergeRequest> {
+    console.log(` Rejecting merge request: ${mergeRequestId}`)
+
+    const request = await this.getOpenMergeRequest(mergeRequestId)
+
+    const currentDoc = await this.getDocument(request.documentId)
+    if (!currentDoc) {
+      throw new P2PError('Document not found', 'DOCUMENT_NOT_FOUND', { documentId: request.documentId })
+    }
+
+    const operationData = { mergeRequestId, comment }
+
+    const operation: Operation = {
+      type: 'REJECT_MERGE',
+      collectionId: this.collectionId,
+      documentId: request.documentId,
+      data: operationData,
+      version: currentDoc.provenance.version,
+      schemaVersion: '1.0.0',
+      identity: await this.identity.signData({
+        type: 'REJECT_MERGE',
+        collectionId: this.collectionId,
+        documentId: request.documentId,
+        data: operationData,
+        version: currentDoc.provenance.version
+      }, this.config.security?.requireProofOfWork, this.config.security?.rateLimits?.proofOfWorkDifficulty)
+    }
+
+    // Validate operation size, rate limits, and proof-of-work
+    await this.validateOperation(operation)
+
+    await this.opsLogDB!.add(operation)
+    console.log('   Merge request rejected')
+
+    return {
+      ...request,
+      status: 'rejected',
+      resolvedBy: operation.identity.authorDID,
+      resolvedAt: new Date(operation.identity.timestamp).getTime(),
+      resolutionComment: comment
+    }
+  }
+
   /**
    * Delete a document (DELETE operation)
    */
@@ -414,47 +783,210 @@ export class CollectionCQRS {
 
     const newTags = [...new Set([...currentDoc.tags, ...tags])]
 
-    const operationData = {
+    const updatedDoc = await this.appendTagOperation(currentDoc, {
       tags: newTags,
       addedTags: tags
+    })
+    console.log('   Document tagged')
+
+    return updatedDoc
+  }
+
+  /**
+   * Rename keywords, or merge several into one, across the collection
+   * Each document using them gets a TAG operation replacing them in its
+   * tags and metadata.keywords, matched regardless of case and accents
+   */
+  async renameKeyword(from: string[], to: string): Promise<CatalogDocument[]> {
+    console.log(` Renaming keywords: ${from.join(', ')} -> ${to}`)
+
+    const renamedDocs: CatalogDocument[] = []
+    for (const currentDoc of await this.getAllDocuments()) {
+      const keywords = currentDoc.metadata?.keywords || []
+      const newTags = renameKeywords(currentDoc.tags, from, to)
+      const newKeywords = renameKeywords(keywords, from, to)
+      if (!newTags && !newKeywords) continue
+
+      const tags = newTags || currentDoc.tags
+      renamedDocs.push(await this.appendTagOperation(currentDoc, {
+        tags,
+        addedTags: tags.filter(tag => !currentDoc.tags.includes(tag)),
+        removedTags: currentDoc.tags.filter(tag => !tags.includes(tag)),
+        ...(newKeywords && {
+          addedKeywords: newKeywords.filter(keyword => !keywords.includes(keyword)),
+          removedKeywords: keywords.filter(keyword => !newKeywords.includes(keyword))
+        })
+      }))
     }
 
-    const operation: Operation = {
-      type: 'TAG',
-      collectionId: this.collectionId,
-      documentId,
-      data: operationData,
-      version: currentDoc.provenance.version + 1,
-      schemaVersion: '1.0.0',
-      identity: await this.identity.signData({
-        type: 'TAG',
-        collectionId: this.collectionId,
-        documentId,
-        data: operationData,
-        version: currentDoc.provenance.version + 1
-      }, this.config.security?.requireProofOfWork, this.config.security?.rateLimits?.proofOfWorkDifficulty)
+    console.log(`   ${renamedDocs.length} documents retagged`)
+    return renamedDocs
+  }
+
+  /**
+   * Relate two documents (RELATE operation)
+   * The edge is recorded on the source document's operations and projected
+   * into the catalog as outgoing/incoming relations
+   */
+  async relateDocuments(
+    sourceId: string,
+    targetId: string,
+    relationType: RelationType,
+    options: {
+      note?: string
+      targetCollectionId?: string
+    } = {}
+  ): Promise<DocumentRelation> {
+    console.log(` Relating document: ${sourceId} -[${relationType}]-> ${targetId}`)
+
+    const sourceDoc = await this.validateRelation(sourceId, targetId, relationType, options.targetCollectionId)
+
+    const operationData = {
+      action: 'add',
+      targetId,
+      relationType,
+      ...(options.targetCollectionId && options.targetCollectionId !== this.collectionId && {
+        targetCollectionId: options.targetCollectionId
+      }),
+      ...(options.note && { note: options.note })
     }
-    // Validate operation size, rate limits, and proof-of-work
-    await this.validateOperation(operation)
 
-    await this.opsLogDB!.add(operation)
+    const updatedDoc = await this.appendRelateOperation(sourceDoc, operationData)
+    console.log('   Documents related')
 
-    // Update catalog with new tags
-    const updatedDoc = {
-      ...currentDoc,
-      tags: newTags,
-      provenance: {
-        ...currentDoc.provenance,
-        updated: Date.now(),
-        version: operation.version
-      },
-      lastOpCID: operation.hash || 'unknown'
+    return updatedDoc.relations!.outgoing.find(relation =>
+      relation.targetId === targetId && relation.relationType === relationType
+    )!
+  }
+
+  /**
+   * Remove a relation between two documents (RELATE operation with action 'remove')
+   */
+  async unrelateDocuments(
+    sourceId: string,
+    targetId: string,
+    relationType: RelationType
+  ): Promise<void> {
+    console.log(` Removing relation: ${sourceId} -[${relationType}]-> ${targetId}`)
+
+    const sourceDoc = await this.getDocument(sourceId)
+    if (!sourceDoc) {
+      throw new P2PError('Document not found', 'DOCUMENT_NOT_FOUND', { documentId: sourceId })
     }
 
-    await this.catalogDB!.put(documentId, updatedDoc)
-    console.log('   Document tagged')
+    const exists = (sourceDoc.relations?.outgoing || []).some(relation =>
+      relation.targetId === targetId && relation.relationType === relationType
+    )
+    if (!exists) {
+      throw new P2PError('Relation not found', 'RELATION_NOT_FOUND', { sourceId, targetId, relationType })
+    }
 
-    return updatedDoc
+    await this.appendRelateOperation(sourceDoc, {
+      action: 'remove',
+      targetId,
+      relationType
+    })
+    console.log('   Relation removed')
+  }
+
+  /**
+   * Get the relations of a document (Query)
+   */
+  async getRelations(
+    documentId: string,
+    options: {
+      direction?: 'outgoing' | 'incoming' | 'both'
+      relationType?: RelationType
+    } = {}
+  ): Promise<DocumentRelation[]> {
+    const doc = await this.getDocument(documentId)
+    if (!doc || !doc.relations) return []
+
+    const direction = options.direction || 'both'
+    const relations = [
+      ...(direction !== 'incoming' ? doc.relations.outgoing : []),
+      ...(direction !== 'outgoing' ? doc.relations.incoming : [])
+    ]
+
+    return options.relationType
+      ? relations.filter(relation => relation.relationType === options.relationType)
+      : relations
+  }
+
+  /**
+   * Get the documents on the other end of a document's relations (Query)
+   * Targets in other collections are returned with a null document
+   */
+  async getRelatedDocuments(
+    documentId: string,
+    options: {
+      direction?: 'outgoing' | 'incoming' | 'both'
+      relationType?: RelationType
+    } = {}
+  ): Promise<Array<{ relation: DocumentRelation, document: CatalogDocument | null }>> {
+    const relations = await this.getRelations(documentId, options)
+
+    return Promise.all(relations.map(async relation => {
+      const otherId = relation.sourceId === documentId ? relation.targetId : relation.sourceId
+      const isExternal = relation.sourceId === documentId && !!relation.targetCollectionId
+
+      return {
+        relation,
+        document: isExternal ? null : await this.getDocument(otherId)
+      }
+    }))
+  }
+
+  /**
+   * Grant write access to a DID (GRANT_WRITE operation, owner only)
+   */
+  async grantWriter(writerDID: string): Promise<{ owner: string, writers: string[] }> {
+    console.log(` Granting write access: ${writerDID}`)
+
+    await this.appendAclOperation('GRANT_WRITE', writerDID)
+    console.log('   Writer granted')
+
+    return this.getPermissions()
+  }
+
+  /**
+   * Revoke write access from a DID (REVOKE_WRITE operation, owner only)
+   */
+  async revokeWriter(writerDID: string): Promise<{ owner: string, writers: string[] }> {
+    console.log(` Revoking write access: ${writerDID}`)
+
+    if (!this.acl?.canWrite(writerDID) || this.acl.isOwner(writerDID)) {
+      throw new P2PError('DID is not a writer of this collection', 'WRITER_NOT_FOUND', { writerDID })
+    }
+
+    await this.appendAclOperation('REVOKE_WRITE', writerDID)
+    console.log('   Writer revoked')
+
+    return this.getPermissions()
+  }
+
+  /**
+   * Get the collection owner and the DIDs allowed to write
+   */
+  getPermissions(): { owner: string, writers: string[] } {
+    if (!this.acl) {
+      throw new P2PError('Collection not initialized', 'NOT_INITIALIZED', { collectionId: this.collectionId })
+    }
+    return this.acl.getPermissions()
+  }
+
+  /**
+   * DID the operations appended from this peer are signed with
+   */
+  getAuthorDID(): string {
+    return this.identity.getIdentityInfo().authorDID
+  }
+
+  /**
+   * Whether the local identity owns this collection
+   */
+  isOwner(): boolean {
+    return !!this.acl?.isOwner(this.identity.getIdentityInfo().authorDID)
   }
 
   /**
@@ -535,7 +1067,7 @@ export class CollectionCQRS {
     if (!this.opsLogDB) return []
 
     try {
-      const entries = await readDatabaseEntries(this.opsLogDB, { limit: 1000 })
+      const entries = await readDatabaseEntries(this.opsLogDB, { limit: -1 })
 
       return entries
         .map(entry => entry.value || entry.payload?.value || entry)
@@ -548,19 +1080,163 @@ export class CollectionCQRS {
   }
 
   /**
-   * Get collection statistics
+   * Get merge requests from the ops log, newest first
+   * The first accept or reject of a request is the one that counts
    */
-  async getStats() {
-    const docs = await this.getAllDocuments()
-    const operations = await readDatabaseEntries(this.opsLogDB || {}, { limit: 1000 })
+  async getMergeRequests(documentId?: string): Promise<MergeRequest[]> {
+    if (!this.opsLogDB) return []
 
-    return {
-      documentCount: docs.length,
-      operationCount: operations.length,
-      tags: [...new Set(docs.flatMap(doc => doc.tags))],
-      authors: [...new Set(docs.flatMap(doc => doc.authors))],
-      lastUpdate: Math.max(...docs.map(doc => doc.provenance.updated), 0)
+    const entries = await readDatabaseEntries(this.opsLogDB, { limit: -1 })
+
+    // Writer changes are kept to judge who could accept or reject at the time
+    const verifiedOps: Operation[] = []
+    for (const entry of entries) {
+      const operation = this.operationFromEntry(entry)
+      if (
+        (ACL_OPERATION_TYPES.includes(operation?.type) ||
+          (MERGE_OPERATION_TYPES.includes(operation?.type) && (!documentId || operation.documentId === documentId))) &&
+        await this.acceptOperation(operation)
+      ) {
+        verifiedOps.push(operation)
+      }
+    }
+
+    const operations = this.authorizeInOrder(verifiedOps).authorized
+      .filter(operation => MERGE_OPERATION_TYPES.includes(operation.type))
+
+    const requests = new Map<string, MergeRequest>()
+    for (const operation of operations) {
+      if (operation.type === 'PROPOSE_MERGE') {
+        requests.set(operation.data.mergeRequestId as string, this.mergeRequestFromOperation(operation))
+        continue
+      }
+
+      const request = requests.get(operation.data.mergeRequestId as string)
+      if (!request || request.status !== 'open') continue
+
+      const accepted = operation.type === 'ACCEPT_MERGE'
+      requests.set(request.id, {
+        ...request,
+        status: accepted ? 'accepted' : 'rejected',
+        resolvedBy: operation.identity.authorDID,
+        resolvedAt: new Date(operation.identity.timestamp).getTime(),
+        resolutionComment: (accepted ? operation.data.changeComment : operation.data.comment) as string | undefined,
+        ...(accepted && { acceptedFields: operation.data.acceptedFields as string[] })
+      })
+    }
+
+    return [...requests.values()].sort((a, b) => b.created - a.created)
+  }
+
+  /**
+   * Get the catalog as it was at a past Lamport clock and/or timestamp
+   * Projects the ops log up to the cut-off, the live catalog is left untouched
+   */
+  async getCatalogAt(cutoff: CatalogCutoff): Promise<CatalogDocument[]> {
+    const documents = await this.projectCatalogAt(cutoff)
+
+    return [...documents.values()].sort((a, b) =>
+      b.provenance.updated - a.provenance.updated
+    )
+  }
+
+  /**
+   * Get a document as it was at a past Lamport clock and/or timestamp
+   */
+  async getDocumentAt(documentId: string, cutoff: CatalogCutoff): Promise<CatalogDocument | null> {
+    const documents = await this.projectCatalogAt(cutoff)
+    return documents.get(documentId) || null
+  }
+
+  /**
+   * Get replicated operations that failed verification
+   */
+  async getRejectedOperations(): Promise<RejectedOperation[]> {
+    if (!this.rejectedOpsDB) return []
+
+    try {
+      const entries = await readDatabaseEntries(this.rejectedOpsDB, { limit: 1000 })
+
+      return entries
+        .map(entry => entry.value || entry.payload?.value || entry)
+        .sort((a, b) => b.rejectedAt - a.rejectedAt)
+    } catch (error) {
+      console.error('Failed to get rejected operations:', error)
+      return []
+    }
+  }
+
+  /**
+   * Get collection statistics
+   */
+  async getStats() {
+    const docs = await this.getAllDocuments()
+    const operations = await readDatabaseEntries(this.opsLogDB || {}, { limit: -1 })
+    const rejected = await this.getRejectedOperations()
+
+    return {
+      documentCount: docs.length,
+      operationCount: operations.length,
+      tags: [...new Set(docs.flatMap(doc => doc.tags))],
+      authors: [...new Set(docs.flatMap(doc => doc.authors))],
+      lastUpdate: Math.max(...docs.map(doc => doc.provenance.updated), 0),
+      rejectedOperationCount: rejected.length,
+      rejectedOperations: rejected.map(({ hash, operation, reason, rejectedAt }) => ({
+        hash,
+        type: operation?.type,
+        documentId: operation?.documentId,
+        authorDID: operation?.identity?.authorDID,
+        reason,
+        rejectedAt
+      }))
+    }
+  }
+
+  /**
+   * Create a signed snapshot of the catalog and store it on IPFS
+   * Returns the snapshot CID, to be referenced from the registry
+   */
+  async createSnapshot(): Promise<{ cid: string, snapshot: CatalogSnapshot }> {
+    console.log(` Creating catalog snapshot: ${this.collectionId}`)
+
+    if (!this.lastOpHash) {
+      throw new P2PError('Nothing to snapshot, no operations applied yet', 'SNAPSHOT_EMPTY', {
+        collectionId: this.collectionId
+      })
     }
+
+    const snapshotData = {
+      collectionId: this.collectionId,
+      documents: await this.getAllDocuments(),
+      tombstones: [...this.tombstones],
+      lastOpHash: this.lastOpHash,
+      lamportClock: this.identity.getIdentityInfo().lamportClock,
+      created: Date.now()
+    }
+
+    const snapshot: CatalogSnapshot = {
+      ...snapshotData,
+      identity: await this.identity.signData(snapshotData)
+    }
+
+    const file = new File(
+      [JSON.stringify(snapshot)],
+      `${this.collectionId}-snapshot-${snapshot.created}.json`,
+      { type: 'application/json' }
+    )
+    const cid = await this.contentManager!.storeContent(file, { isOwned: true })
+
+    this.snapshotOpHash = snapshot.lastOpHash
+    console.log(`   Snapshot stored: ${cid} (${snapshot.documents.length} documents)`)
+
+    return { cid, snapshot }
+  }
+
+  /**
+   * Whether operations were applied since the last snapshot
+   */
+  hasChangesSinceSnapshot(): boolean {
+    return !!this.lastOpHash && this.lastOpHash !== this.snapshotOpHash
   }
 
   /**
@@ -603,6 +1279,8 @@ export class CollectionCQRS {
 
   /**
    * Handle operation conflicts using deterministic merge rules
+   * Deletions win outright; otherwise every operation is kept, CREATE first,
+   * and field-level merging makes the result independent of their order
    */
   private resolveOperationConflicts(operations: Operation[]): Operation[] {
     // Group operations by documentId
@@ -632,10 +1310,16 @@ export class CollectionCQRS {
         )
       })
 
-      // For conflicting operations of the same type, last writer wins
-      // For different types, apply precedence rules
-      const finalOp = this.applyOperationPrecedence(sortedOps)
-      resolvedOps.push(finalOp)
+      // Deletions remove the document whatever else happened to it
+      if (sortedOps.some(op => op.type === 'TOMBSTONE' || op.type === 'DELETE')) {
+        resolvedOps.push(this.applyOperationPrecedence(sortedOps))
+        continue
+      }
+
+      resolvedOps.push(
+        ...sortedOps.filter(op => op.type === 'CREATE'),
+        ...sortedOps.filter(op => op.type !== 'CREATE')
+      )
     }
 
     return resolvedOps
@@ -649,7 +1333,7 @@ export class CollectionCQRS {
     // 1. TOMBSTONE - permanent deletion
     // 2. DELETE - soft deletion
     // 3. REDACT_METADATA - privacy protection
-    // 4. UPDATE - content changes
+    // 4. UPDATE / REVERT / ACCEPT_MERGE - content changes
     // 5. TAG - metadata changes
     // 6. CREATE - initial creation
 
@@ -658,6 +1342,8 @@ export class CollectionCQRS {
       'DELETE',
       'REDACT_METADATA',
       'UPDATE',
+      'REVERT',
+      'ACCEPT_MERGE',
       'TAG',
       'CREATE'
     ]
@@ -692,6 +1378,9 @@ export class CollectionCQRS {
    * Validate operation size, rate limits, and proof-of-work
    */
   private async validateOperation(operation: Operation, file?: File): Promise<void> {
+    // Check the author is allowed to write to this collection
+    this.assertCanWrite(operation)
+
     const security = this.config.security
     if (!security) return
 
@@ -799,6 +1488,184 @@ export class CollectionCQRS {
         }
       )
     }
+
+    // Our own operations don't need verifying again when they come back through the log
+    this.verifiedOps.add(await this.operationKey(operation))
+  }
+
+  /**
+   * Hash of everything an operation carries, signature included
+   * A signature copied onto other data gives another key, so it is verified again
+   */
+  private async operationKey(operation: Operation): Promise<string> {
+    const { type, collectionId, documentId, data, version, identity } = operation
+    const bytes = new TextEncoder().encode(JSON.stringify({ type, collectionId, documentId, data, version, identity }))
+    const digest = await sha256.digest(bytes)
+    return btoa(String.fromCharCode(...digest.digest))
+  }
+
+  /**
+   * Verify an operation read from the log (signature, proof-of-work, schema)
+   * Unlike validateOperation, old timestamps are fine and nothing is thrown
+   */
+  private async verifyReplicatedOperation(operation: Operation): Promise<{valid: boolean, reason?: string}> {
+    if (!operation?.type || !operation.identity?.signature) {
+      return { valid: false, reason: 'Malformed operation' }
+    }
+
+    if (operation.collectionId !== this.collectionId) {
+      return { valid: false, reason: `Operation belongs to collection ${operation.collectionId}` }
+    }
+
+    // Merges are ordered by these, the signature checked below covers them
+    const { lamportClock, timestamp } = operation.identity
+    if (!Number.isInteger(lamportClock) || lamportClock < 1 || Number.isNaN(new Date(timestamp).getTime())) {
+      return { valid: false, reason: 'Invalid Lamport clock or timestamp' }
+    }
+
+    const security = this.config.security
+    if (security?.requireProofOfWork) {
+      const proofOfWork = operation.identity.proofOfWork
+      if (!proofOfWork) {
+        return { valid: false, reason: 'Proof-of-work required but not provided' }
+      }
+
+      const requiredDifficulty = security.rateLimits?.proofOfWorkDifficulty || 0
+      if (proofOfWork.difficulty < requiredDifficulty) {
+        return {
+          valid: false,
+          reason: `Proof-of-work difficulty ${proofOfWork.difficulty} below required ${requiredDifficulty}`
+        }
+      }
+    }
+
+    // Checks the DID, the signature and the proof-of-work when present
+    const signature = await verifyOperationSignature(operation)
+    if (!signature.valid) {
+      return signature
+    }
+
+    const schemaValidation = await this.schemaManager.validateOperation(operation)
+    if (!schemaValidation.valid) {
+      return { valid: false, reason: `Schema validation failed: ${schemaValidation.errors?.join(', ')}` }
+    }
+
+    return { valid: true }
+  }
+
+  /**
+   * Verify an operation from the log, quarantining it if it fails
+   */
+  private async acceptOperation(operation: Operation): Promise<boolean> {
+    const key = operation?.identity?.signature ? await this.operationKey(operation) : null
+    if (key && this.verifiedOps.has(key)) {
+      return true
+    }
+
+    const result = await this.verifyReplicatedOperation(operation)
+    if (result.valid) {
+      this.verifiedOps.add(key!)
+      return true
+    }
+
+    await this.quarantineOperation(operation, result.reason || 'Verification failed')
+    return false
+  }
+
+  /**
+   * Record a rejected operation in the local quarantine store
+   */
+  private async quarantineOperation(operation: Operation, reason: string): Promise<void> {
+    const hash = operation?.hash || operation?.identity?.signature || crypto.randomUUID()
+    console.warn(` Rejected operation ${hash.substring(0, 12)}...: ${reason}`)
+
+    if (!this.rejectedOpsDB) return
+
+    try {
+      const existing = await this.rejectedOpsDB.get(hash)
+      if (existing) return
+
+      const rejected: RejectedOperation = {
+        hash,
+        operation,
+        reason,
+        rejectedAt: Date.now()
+      }
+      await this.rejectedOpsDB.put(hash, rejected)
+    } catch (error) {
+      console.error('Failed to quarantine operation:', error)
+    }
+  }
+
+  /**
+   * Extract the operation from an ops log entry, keeping the entry hash
+   */
+  private operationFromEntry(entry: { hash?: string, value?: unknown, payload?: { value?: unknown } }): Operation {
+    const operation = (entry.payload?.value || entry.value || entry) as Operation
+    return entry.hash && !operation.hash ? { ...operation, hash: entry.hash } : operation
+  }
+
+  /**
+   * Check an operation's author against the collection ACL
+   * ACL operations can only come from the owner
+   */
+  private assertCanWrite(operation: Operation): void {
+    if (!this.acl) return
+
+    const authorDID = operation.identity.authorDID
+    if (ACL_OPERATION_TYPES.includes(operation.type)) {
+      if (!this.acl.isOwner(authorDID)) {
+        throw new P2PError('Only the collection owner can change writers', 'NOT_COLLECTION_OWNER', {
+          authorDID,
+          collectionId: this.collectionId
+        })
+      }
+      return
+    }
+
+    // Proposals are open to anyone, accepting them needs write access
+    if (PROPOSAL_OPERATION_TYPES.includes(operation.type)) return
+
+    if (!this.acl.canWrite(authorDID)) {
+      throw new P2PError('Not authorized to write to this collection', 'WRITE_NOT_AUTHORIZED', {
+        authorDID,
+        collectionId: this.collectionId
+      })
+    }
+  }
+
+  /**
+   * Sign, validate and append a GRANT_WRITE / REVOKE_WRITE operation
+   */
+  private async appendAclOperation(type: 'GRANT_WRITE' | 'REVOKE_WRITE', writerDID: string): Promise<void> {
+    if (!writerDID.startsWith('did:')) {
+      throw new P2PError(`Invalid DID: ${writerDID}`, 'INVALID_DID', { writerDID })
+    }
+
+    const operationData = { writerDID }
+
+    const operation: Operation = {
+      type,
+      collectionId: this.collectionId,
+      documentId: ACL_DOCUMENT_ID,
+      data: operationData,
+      version: 1,
+      schemaVersion: '1.0.0',
+      identity: await this.identity.signData({
+        type,
+        collectionId: this.collectionId,
+        documentId: ACL_DOCUMENT_ID,
+        data: operationData,
+        version: 1
+      }, this.config.security?.requireProofOfWork, this.config.security?.rateLimits?.proofOfWorkDifficulty)
+    }
+
+    // Validate ownership, operation size, rate limits, and proof-of-work
+    await this.validateOperation(operation)
+
+    await this.opsLogDB!.add(operation)
+
+    this.acl!.applyOperation(operation)
   }
 
   /**
@@ -815,106 +1682,357 @@ export class CollectionCQRS {
     }
   }
 
+  /**
+   * Check that a relation can be created and return the source document
+   */
+  private async validateRelation(
+    sourceId: string,
+    targetId: string,
+    relationType: RelationType,
+    targetCollectionId?: string
+  ): Promise<CatalogDocument> {
+    if (!RELATION_TYPES.includes(relationType)) {
+      throw new P2PError(`Unknown relation type: ${relationType}`, 'INVALID_RELATION_TYPE', {
+        relationType,
+        allowed: RELATION_TYPES
+      })
+    }
+
+    if (sourceId === targetId) {
+      throw new P2PError('A document cannot be related to itself', 'INVALID_RELATION', { documentId: sourceId })
+    }
+
+    const sourceDoc = await this.getDocument(sourceId)
+    if (!sourceDoc) {
+      throw new P2PError('Document not found', 'DOCUMENT_NOT_FOUND', { documentId: sourceId })
+    }
+
+    // Targets in other collections can't be checked from here
+    const isExternal = targetCollectionId && targetCollectionId !== this.collectionId
+    if (!isExternal && !(await this.getDocument(targetId))) {
+      throw new P2PError('Related document not found', 'DOCUMENT_NOT_FOUND', { documentId: targetId })
+    }
+
+    return sourceDoc
+  }
+
+  /**
+   * Sign, validate and append a TAG operation for a document
+   */
+  private async appendTagOperation(currentDoc: CatalogDocument, operationData: Record<string, unknown>): Promise<CatalogDocument> {
+    const documentId = currentDoc._id
+
+    const operation: Operation = {
+      type: 'TAG',
+      collectionId: this.collectionId,
+      documentId,
+      data: operationData,
+      version: currentDoc.provenance.version + 1,
+      schemaVersion: '1.0.0',
+      identity: await this.identity.signData({
+        type: 'TAG',
+        collectionId: this.collectionId,
+        documentId,
+        data: operationData,
+        version: currentDoc.provenance.version + 1
+      }, this.config.security?.requireProofOfWork, this.config.security?.rateLimits?.proofOfWorkDifficulty)
+    }
+
+    // Validate operation size, rate limits, and proof-of-work
+    await this.validateOperation(operation)
+
+    await this.opsLogDB!.add(operation)
+
+    // Update catalog with new tags
+    return this.applyCatalogOperation(operation)
+  }
+
+  /**
+   * Sign, validate and append a RELATE operation for a source document
+   * Relations are edge state: the operation carries the document's current
+   * version and doesn't create a new one
+   */
+  private async appendRelateOperation(sourceDoc: CatalogDocument, operationData: Record<string, unknown>): Promise<CatalogDocument> {
+    const documentId = sourceDoc._id
+
+    const operation: Operation = {
+      type: 'RELATE',
+      collectionId: this.collectionId,
+      documentId,
+      data: operationData,
+      version: sourceDoc.provenance.version,
+      schemaVersion: '1.0.0',
+      identity: await this.identity.signData({
+        type: 'RELATE',
+        collectionId: this.collectionId,
+        documentId,
+        data: operationData,
+        version: sourceDoc.provenance.version
+      }, this.config.security?.requireProofOfWork, this.config.security?.rateLimits?.proofOfWorkDifficulty)
+    }
+
+    // Validate operation size, rate limits, and proof-of-work
+    await this.validateOperation(operation)
+
+    await this.opsLogDB!.add(operation)
+
+    return this.applyCatalogOperation(operation)
+  }
+
+  /**
+   * Add or remove an edge, keeping at most one edge per (source, target, type)
+   */
+  private applyRelationEdge(
+    edges: DocumentRelation[],
+    relation: DocumentRelation,
+    action: 'add' | 'remove'
+  ): DocumentRelation[] {
+    const remaining = edges.filter(edge =>
+      !(edge.sourceId === relation.sourceId &&
+        edge.targetId === relation.targetId &&
+        edge.relationType === relation.relationType)
+    )
+
+    return action === 'add' ? [...remaining, relation] : remaining
+  }
+
+  /**
+   * The catalog database, skipping tombstoned documents
+   */
+  /**
+   * Get a document as it was at one of its versions
+   * Concurrent operations can share a version, the last one applied is used
+   */
+  private async getDocumentVersion(documentId: string, version: number): Promise<CatalogDocument> {
+    const versionOp = (await this.getDocumentHistory(documentId))
+      .filter(op => op.version === version && !NON_CONTENT_OPERATION_TYPES.includes(op.type))
+      .sort((a, b) => a.identity.lamportClock - b.identity.lamportClock)
+      .pop()
+    const document = versionOp && await this.getDocumentAt(documentId, { lamport: versionOp.identity.lamportClock })
+    if (!document) {
+      throw new P2PError(`Version ${version} not found`, 'VERSION_NOT_FOUND', { documentId, targetVersion: version })
+    }
+    return document
+  }
+
+  /**
+   * Get a merge request that hasn't been accepted or rejected yet
+   */
+  private async getOpenMergeRequest(mergeRequestId: string): Promise<MergeRequest> {
+    const request = (await this.getMergeRequests()).find(r => r.id === mergeRequestId)
+    if (!request) {
+      throw new P2PError('Merge request not found', 'MERGE_REQUEST_NOT_FOUND', { mergeRequestId })
+    }
+    if (request.status !== 'open') {
+      throw new P2PError(`Merge request is already ${request.status}`, 'MERGE_REQUEST_CLOSED', {
+        mergeRequestId,
+        status: request.status
+      })
+    }
+    return request
+  }
 
+  private mergeRequestFromOperation(operation: Operation): MergeRequest {
+    const { mergeRequestId, fork, baseVersion, comment, ...changes } = operation.data as MergeProposalData
 
-  private async applyCatalogOperation(operation: Operation): Promise<CatalogDocument> {
+    return {
+      id: mergeRequestId,
+      documentId: operation.documentId,
+      fork,
+      baseVersion,
+      proposedBy: operation.identity.authorDID,
+      comment,
+      fields: this.proposedFields(changes),
+      changes,
+      status: 'open',
+      created: new Date(operation.identity.timestamp).getTime()
+    }
+  }
+
+  // Field paths a proposal changes, tags and keywords count as one field each
+  private proposedFields(changes: ProposedChanges): string[] {
+    return [
+      ...changes.changedFields,
+      ...(changes.addedTags.length > 0 || changes.removedTags.length > 0 ? ['tags'] : []),
+      ...(changes.addedKeywords.length > 0 || changes.removedKeywords.length > 0 ? ['metadata.keywords'] : [])
+    ]
+  }
+
+  private liveCatalogStore(): CatalogStore {
+    return {
+      get: documentId => this.getDocument(documentId),
+      put: async (documentId, doc) => {
+        await this.catalogDB!.put(documentId, doc)
+      }
+    }
+  }
+
+  /**
+   * Project an operation onto the catalog
+   * Time-travel queries pass an in-memory store instead of the catalog database
+   */
+  private async applyCatalogOperation(
+    operation: Operation,
+    store: CatalogStore = this.liveCatalogStore()
+  ): Promise<CatalogDocument> {
     const { type, documentId, data, version, identity } = operation
     const timestamp = new Date(identity.timestamp).getTime()
     const authorDID = identity.authorDID
 
     switch (type) {
       case 'CREATE': {
-        const catalogDoc: CatalogDocument = {
+        // A replayed CREATE merges into the existing document without
+        // overriding fields that later operations already changed
+        const existing = await store.get(documentId)
+        const baseDoc: CatalogDocument = existing || {
           _id: documentId,
-          type: this.inferDocumentType(data.mimeType),
-          title: data.title,
-          description: data.description,
-          tags: data.tags,
+          type: this.inferDocumentType(data.mimeType as string | undefined),
+          title: '',
+          tags: [],
           authors: [authorDID],
-          ipfsCID: data.ipfsCID,
-          mimeType: data.mimeType,
-          size: data.size,
           provenance: {
             created: timestamp,
             updated: timestamp,
             version: version
           },
           lastOpCID: operation.hash || 'unknown',
-          metadata: {},
-          searchText: `${data.title} ${data.description} ${data.tags.join(' ')}`
+          metadata: {} as CatalogDocument['metadata']
         }
 
-        await this.catalogDB!.put(documentId, catalogDoc)
+        const catalogDoc = this.mergeOperation(baseDoc, operation, changesFromOperation(operation))
+
+        await store.put(documentId, catalogDoc)
         return catalogDoc
       }
 
-      case 'UPDATE': {
-        const existing = await this.getDocument(documentId)
+      case 'UPDATE':
+      case 'REVERT':
+      case 'TAG': {
+        const existing = await store.get(documentId)
         if (!existing) {
           throw new P2PError('Cannot update non-existent document', 'DOCUMENT_NOT_FOUND')
         }
 
-        const updatedDoc: CatalogDocument = {
-          ...existing,
-          title: data.title,
-          description: data.description,
-          tags: data.tags,
-          ipfsCID: data.ipfsCID,
-          mimeType: data.mimeType,
-          size: data.size,
-          provenance: {
-            ...existing.provenance,
-            updated: timestamp,
-            version: version
-          },
-          lastOpCID: operation.hash || 'unknown',
-          searchText: `${data.title} ${data.description} ${data.tags.join(' ')}`
-        }
+        const updatedDoc = this.mergeOperation(existing, operation, changesFromOperation(operation, existing))
 
-        await this.catalogDB!.put(documentId, updatedDoc)
+        await store.put(documentId, updatedDoc)
         return updatedDoc
       }
 
+      case 'ACCEPT_MERGE': {
+        const existing = await store.get(documentId)
+        if (!existing) {
+          throw new P2PError('Cannot merge into non-existent document', 'DOCUMENT_NOT_FOUND')
+        }
+
+        const mergedDoc = this.mergeOperation(existing, operation, changesFromOperation(operation, existing))
+
+        // The fork author is credited alongside the document's authors
+        const proposedBy = data.proposedBy as string | undefined
+        if (proposedBy && !mergedDoc.authors.includes(proposedBy)) {
+          mergedDoc.authors = [...mergedDoc.authors, proposedBy]
+        }
+
+        await store.put(documentId, mergedDoc)
+        return mergedDoc
+      }
+
+      case 'PROPOSE_MERGE':
+      case 'REJECT_MERGE': {
+        // Merge requests are read from the ops log, the document is unchanged
+        const existing = await store.get(documentId)
+        if (!existing) {
+          throw new P2PError('Merge request for non-existent document', 'DOCUMENT_NOT_FOUND')
+        }
+        return existing
+      }
+
       case 'REDACT_METADATA': {
-        const existing = await this.getDocument(documentId)
+        const existing = await store.get(documentId)
         if (!existing) {
           throw new P2PError('Cannot redact non-existent document', 'DOCUMENT_NOT_FOUND')
         }
 
-        // Apply redactions to the document
-        const redactedDoc: CatalogDocument = { ...existing }
+        // Redactions are field writes too, so they merge like any other edit
+        const changes: FieldChanges = { fields: {}, added: {}, removed: {} }
+        const knownElements = (path: 'tags' | 'metadata.keywords', current: string[] = []) =>
+          [...new Set([...Object.keys(existing.mergeState?.sets[path] || {}), ...current])]
 
-        for (const field of data.redactedFields) {
+        for (const field of data.redactedFields as string[]) {
           switch (field) {
             case 'title':
-              redactedDoc.title = '[REDACTED]'
-              break
             case 'description':
-              redactedDoc.description = '[REDACTED]'
+              changes.fields![field] = '[REDACTED]'
               break
             case 'tags':
-              redactedDoc.tags = ['redacted']
+              changes.added!.tags = ['redacted']
+              changes.removed!.tags = knownElements('tags', existing.tags).filter(tag => tag !== 'redacted')
               break
             case 'metadata':
-              redactedDoc.metadata = { redacted: true, reason: data.reason }
+              for (const key of Object.keys(existing.metadata || {})) {
+                if (key !== 'keywords') changes.fields![`metadata.${key}`] = undefined
+              }
+              changes.fields!['metadata.redacted'] = true
+              changes.fields!['metadata.reason'] = data.reason
+              changes.removed!['metadata.keywords'] = knownElements('metadata.keywords', existing.metadata?.keywords)
               break
             // Add other field redactions as needed
           }
         }
 
-        // Update provenance
-        redactedDoc.provenance = {
-          ...existing.provenance,
-          updated: timestamp,
-          version: version
-        }
-        redactedDoc.lastOpCID = operation.hash || 'unknown'
-        redactedDoc.searchText = `${redactedDoc.title} ${redactedDoc.description} ${redactedDoc.tags.join(' ')}`
+        const redactedDoc = this.mergeOperation(existing, operation, changes)
 
-        await this.catalogDB!.put(documentId, redactedDoc)
+        await store.put(documentId, redactedDoc)
         return redactedDoc
       }
 
+      case 'RELATE': {
+        const existing = await store.get(documentId)
+        if (!existing) {
+          throw new P2PError('Cannot relate non-existent document', 'DOCUMENT_NOT_FOUND')
+        }
+
+        const { targetId, relationType, targetCollectionId, note } = data as
+          Pick<DocumentRelation, 'targetId' | 'relationType' | 'targetCollectionId' | 'note'>
+        const relation: DocumentRelation = {
+          sourceId: documentId,
+          targetId,
+          relationType,
+          authorDID,
+          created: timestamp,
+          ...(targetCollectionId && { targetCollectionId }),
+          ...(note && { note })
+        }
+        const action = data.action === 'remove' ? 'remove' : 'add'
+
+        // Provenance and lastOpCID describe the content, which relations don't change
+        const relatedDoc: CatalogDocument = {
+          ...existing,
+          relations: {
+            outgoing: this.applyRelationEdge(existing.relations?.outgoing || [], relation, action),
+            incoming: existing.relations?.incoming || []
+          }
+        }
+
+        await store.put(documentId, relatedDoc)
+
+        // Mirror the edge on the target so incoming relations are queryable
+        if (!relation.targetCollectionId) {
+          const target = await store.get(relation.targetId)
+          if (target) {
+            await store.put(relation.targetId, {
+              ...target,
+              relations: {
+                outgoing: target.relations?.outgoing || [],
+                incoming: this.applyRelationEdge(target.relations?.incoming || [], relation, action)
+              }
+            })
+          }
+        }
+
+        return relatedDoc
+      }
+
       case 'TOMBSTONE': {
         // Tombstone operations don't create catalog entries
         // Just track in the tombstones set (already done in tombstoneDocument)
@@ -927,6 +2045,27 @@ export class CollectionCQRS {
     }
   }
 
+  /**
+   * Merge an operation's field changes into a document and update provenance
+   * Provenance only moves forward, whatever order operations arrive in
+   */
+  private mergeOperation(doc: CatalogDocument, operation: Operation, changes: FieldChanges): CatalogDocument {
+    const merged = mergeChanges(doc, changes, stampOf(operation.identity))
+    const timestamp = new Date(operation.identity.timestamp).getTime()
+    const isLatest = operation.version >= doc.provenance.version
+
+    return {
+      ...merged,
+      provenance: {
+        ...doc.provenance,
+        updated: Math.max(doc.provenance.updated || 0, timestamp),
+        version: Math.max(doc.provenance.version || 0, operation.version)
+      },
+      lastOpCID: isLatest ? operation.hash || 'unknown' : doc.lastOpCID,
+      searchText: normalizeText(`${merged.title} ${merged.description || ''} ${merged.tags.join(' ')}`)
+    }
+  }
+
   private inferDocumentType(mimeType?: string): CatalogDocument['type'] {
     if (!mimeType) return 'other'
 
@@ -943,31 +2082,178 @@ export class CollectionCQRS {
     return 'document'
   }
 
-  private async rebuildCatalogFromOps(): Promise<void> {
+  /**
+   * Load a catalog snapshot from IPFS into the catalog
+   * Returns null when the snapshot can't be fetched or fails verification
+   */
+  private async loadSnapshot(cid: string): Promise<CatalogSnapshot | null> {
+    try {
+      const bytes = await this.contentManager!.getContent(cid)
+      if (!bytes) {
+        console.warn('   Snapshot not available:', cid)
+        return null
+      }
+
+      const snapshot: CatalogSnapshot = JSON.parse(new TextDecoder().decode(bytes))
+      const { identity, ...snapshotData } = snapshot
+
+      if (snapshot.collectionId !== this.collectionId || !snapshot.lastOpHash) {
+        console.warn('   Snapshot does not belong to this collection:', cid)
+        return null
+      }
+
+      const verification = await this.identity.verifyIdentity(snapshotData, identity, { checkTimestamp: false })
+      if (!verification.valid || !this.acl?.canWrite(identity.authorDID)) {
+        console.warn('   Rejected snapshot:', cid, verification.reason || 'signer is not a writer')
+        return null
+      }
+
+      for (const doc of snapshot.documents) {
+        const existing = await this.catalogDB!.get(doc._id)
+        if (!existing || existing.provenance.updated < doc.provenance.updated) {
+          await this.catalogDB!.put(doc._id, doc)
+        }
+      }
+      snapshot.tombstones.forEach(documentId => this.tombstones.add(documentId))
+      this.identity.updateLamportClock(snapshot.lamportClock)
+
+      console.log(`   Snapshot loaded: ${snapshot.documents.length} documents`)
+      return snapshot
+
+    } catch (error) {
+      console.warn('Failed to load snapshot:', error)
+      return null
+    }
+  }
+
+  /**
+   * Operations in causal order, those whose author wasn't a writer at the time left out
+   * With applyWriters, the collection ACL becomes the one the log ends with
+   */
+  private authorizeInOrder(operations: Operation[], options: { applyWriters?: boolean } = {}): { authorized: Operation[], refused: Operation[] } {
+    const sortedOps = [...operations].sort((a, b) => CryptoIdentityManager.compareOperations(
+      { identity: a.identity },
+      { identity: b.identity }
+    ))
+
+    return this.acl
+      ? this.acl.authorize(sortedOps, { apply: options.applyWriters })
+      : { authorized: sortedOps, refused: [] }
+  }
+
+  /**
+   * Order verified operations for replay onto a catalog
+   * ACL operations only decide which operations are kept, they don't touch documents
+   */
+  private orderForReplay(operations: Operation[], options: { applyWriters?: boolean } = {}): { resolvedOps: Operation[], refused: Operation[] } {
+    const { authorized, refused } = this.authorizeInOrder(operations, options)
+
+    // Relations accumulate rather than replace each other, so they skip
+    // conflict resolution and are replayed once documents are rebuilt
+    const relateOps = authorized.filter(op => op.type === 'RELATE')
+    const documentOps = authorized.filter(op =>
+      op.type !== 'RELATE' && !ACL_OPERATION_TYPES.includes(op.type)
+    )
+
+    // Apply conflict resolution before processing
+    return {
+      resolvedOps: [
+        ...this.resolveOperationConflicts(documentOps),
+        ...relateOps
+      ],
+      refused
+    }
+  }
+
+  /**
+   * Project the ops log up to a cut-off into an in-memory catalog
+   */
+  private async projectCatalogAt(cutoff: CatalogCutoff): Promise<Map<string, CatalogDocument>> {
+    const { lamport, timestamp } = cutoff
+    if (lamport === undefined && timestamp === undefined) {
+      throw new P2PError('A Lamport clock or timestamp cut-off is required', 'INVALID_CUTOFF', { cutoff })
+    }
+
+    const documents = new Map<string, CatalogDocument>()
+    if (!this.opsLogDB) return documents
+
+    const entries = await readDatabaseEntries(this.opsLogDB, { limit: -1 })
+
+    const isBeforeCutoff = (operation: Operation) =>
+      (lamport === undefined || operation.identity.lamportClock <= lamport) &&
+      (timestamp === undefined || new Date(operation.identity.timestamp).getTime() <= timestamp)
+
+    // Quarantined operations are left out of past catalogs too
+    const verifiedOps: Operation[] = []
+    for (const entry of entries) {
+      const operation = this.operationFromEntry(entry)
+      if (operation?.identity && isBeforeCutoff(operation) && await this.acceptOperation(operation)) {
+        verifiedOps.push(operation)
+      }
+    }
+
+    const store: CatalogStore = {
+      get: async documentId => documents.get(documentId) || null,
+      put: async (documentId, doc) => {
+        documents.set(documentId, doc)
+      }
+    }
+
+    const removedDocs = new Set<string>()
+    for (const operation of this.orderForReplay(verifiedOps).resolvedOps) {
+      if (operation.type === 'DELETE' || operation.type === 'TOMBSTONE') {
+        removedDocs.add(operation.documentId)
+        documents.delete(operation.documentId)
+      } else if (!removedDocs.has(operation.documentId)) {
+        try {
+          await this.applyCatalogOperation(operation, store)
+        } catch (error) {
+          console.warn('Failed to project operation:', operation, error)
+        }
+      }
+    }
+
+    return documents
+  }
+
+  private async rebuildCatalogFromOps(snapshotCID?: string): Promise<void> {
     if (!this.opsLogDB || !this.catalogDB) return
 
     console.log('   Rebuilding catalog from operations log...')
 
     try {
-      const operations = await readDatabaseEntries(this.opsLogDB, { limit: 10000 })
+      const snapshot = snapshotCID ? await this.loadSnapshot(snapshotCID) : null
+      if (snapshot) {
+        this.lastOpHash = this.snapshotOpHash = snapshot.lastOpHash
+      }
+
+      // Entries come newest first, only those after the snapshot are replayed
+      const operations = await readDatabaseEntries(this.opsLogDB, {
+        limit: -1,
+        ...(snapshot && { gt: snapshot.lastOpHash })
+      })
       const documentStates = new Map<string, CatalogDocument>()
       const deletedDocs = new Set<string>()
 
-      // Process operations in chronological order using Lamport clocks
-      const sortedOps = operations
-        .map(entry => entry.value || entry.payload?.value || entry)
-        .sort((a, b) => {
-          // Sort by Lamport clock if available, otherwise timestamp
-          if (a.identity?.lamportClock && b.identity?.lamportClock) {
-            return a.identity.lamportClock - b.identity.lamportClock
-          }
-          const timestampA = a.identity?.timestamp ? new Date(a.identity.timestamp).getTime() : a.timestamp || 0
-          const timestampB = b.identity?.timestamp ? new Date(b.identity.timestamp).getTime() : b.timestamp || 0
-          return timestampA - timestampB
-        })
+      if (operations[0]?.hash) {
+        this.lastOpHash = operations[0].hash
+      }
+
+      // Forged or invalid operations never reach the catalog
+      const verifiedOps: Operation[] = []
+      for (const entry of operations) {
+        const operation = this.operationFromEntry(entry)
+        if (await this.acceptOperation(operation)) {
+          verifiedOps.push(operation)
+        }
+      }
 
-      // Apply conflict resolution before processing
-      const resolvedOps = this.resolveOperationConflicts(sortedOps)
+      // Writer grants and revocations are replayed in order, operations
+      // from authors who weren't writers at the time are quarantined
+      const { resolvedOps, refused } = this.orderForReplay(verifiedOps, { applyWriters: true })
+      for (const operation of refused) {
+        await this.quarantineOperation(operation, 'Author was not a writer of this collection at the time')
+      }
 
       for (const operation of resolvedOps) {
         // Update Lamport clock from incoming operations
@@ -995,7 +2281,7 @@ export class CollectionCQRS {
         }
       }
 
-      console.log(`   Catalog rebuilt: ${documentStates.size} documents`)
+      console.log(`   Catalog rebuilt: ${documentStates.size} documents from ${resolvedOps.length} operations`)
 
     } catch (error) {
       console.error('Failed to rebuild catalog:', error)
@@ -1004,17 +2290,35 @@ export class CollectionCQRS {
 
   private setupEventListeners(): void {
     // Listen for new operations
-    this.opsLogDB?.events.on('write', async (entry: any) => {
+    this.opsLogDB?.events.on('write', async (entry: LogEntry) => {
       console.log(' New operation added to log')
       try {
-        const operation = entry.payload?.value || entry.value || entry
+        const operation = this.operationFromEntry(entry)
+
+        // Verify before touching the catalog, invalid operations are quarantined
+        if (!(await this.acceptOperation(operation))) {
+          return
+        }
+
+        if (operation.hash) {
+          this.lastOpHash = operation.hash
+        }
 
         // Update Lamport clock from incoming operations
         if (operation.identity?.lamportClock) {
           this.identity.updateLamportClock(operation.identity.lamportClock)
         }
 
-        if (operation.type === 'TOMBSTONE') {
+        // Writer changes, and operations from authors who aren't writers
+        // now, are judged against the whole log in causal order
+        const authorDID = operation.identity.authorDID
+        if (
+          ACL_OPERATION_TYPES.includes(operation.type) ||
+          (!PROPOSAL_OPERATION_TYPES.includes(operation.type) && this.acl && !this.acl.canWrite(authorDID))
+        ) {
+          await this.rebuildCatalogFromOps()
+          console.log('   Catalog rebuilt for collection writers')
+        } else if (operation.type === 'TOMBSTONE') {
           this.tombstones.add(operation.documentId)
           console.log('   Document tombstoned from new operation')
         } else if (operation.type !== 'DELETE') {
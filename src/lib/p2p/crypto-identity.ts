@@ -68,14 +68,12 @@ export class CryptoIdentityManager {
 
     // Increment logical clock
     this.lamportClock += 1
-
-    const encoder = new TextEncoder()
-    const dataBuffer = encoder.encode(JSON.stringify(data))
+    const timestamp = new Date().toISOString()
 
     const signature = await crypto.subtle.sign(
       { name: 'ECDSA', hash: { name: 'SHA-256' } },
       this.keyPair.privateKey,
-      dataBuffer
+      this.signedBytes(data, this.lamportClock, timestamp)
     )
 
     const identity: CryptoIdentity = {
@@ -84,7 +82,7 @@ export class CryptoIdentityManager {
       keyAlgorithm: 'ECDSA-P256',
       signature: btoa(String.fromCharCode(...new Uint8Array(signature))),
       lamportClock: this.lamportClock,
-      timestamp: new Date().toISOString()
+      timestamp
     }
 
     // Add proof-of-work if required
@@ -97,8 +95,13 @@ export class CryptoIdentityManager {
 
   /**
    * Verify a signed identity
+   * Pass checkTimestamp: false for replicated data, which can be arbitrarily old
    */
-  async verifyIdentity(data: any, identity: CryptoIdentity): Promise<{valid: boolean, reason?: string}> {
+  async verifyIdentity(
+    data: any,
+    identity: CryptoIdentity,
+    options: { checkTimestamp?: boolean } = {}
+  ): Promise<{valid: boolean, reason?: string}> {
     try {
       // 1. Verify DID matches public key
       const expectedDID = await this.generateDIDFromPublicKey(identity.publicKey)
@@ -106,17 +109,15 @@ export class CryptoIdentityManager {
         return { valid: false, reason: 'DID does not match public key' }
       }
 
-      // 2. Verify signature
+      // 2. Verify signature, which covers the Lamport clock and timestamp too
       const publicKey = await this.importPublicKey(identity.publicKey)
-      const encoder = new TextEncoder()
-      const dataBuffer = encoder.encode(JSON.stringify(data))
       const signature = Uint8Array.from(atob(identity.signature), c => c.charCodeAt(0))
 
       const signatureValid = await crypto.subtle.verify(
         { name: 'ECDSA', hash: { name: 'SHA-256' } },
         publicKey,
         signature,
-        dataBuffer
+        this.signedBytes(data, identity.lamportClock, identity.timestamp)
       )
 
       if (!signatureValid) {
@@ -132,12 +133,14 @@ export class CryptoIdentityManager {
       }
 
       // 4. Check timestamp is reasonable (within 1 hour)
-      const now = Date.now()
-      const identityTime = new Date(identity.timestamp).getTime()
-      const hourInMs = 60 * 60 * 1000
+      if (options.checkTimestamp !== false) {
+        const now = Date.now()
+        const identityTime = new Date(identity.timestamp).getTime()
+        const hourInMs = 60 * 60 * 1000
 
-      if (Math.abs(now - identityTime) > hourInMs) {
-        return { valid: false, reason: 'Timestamp too far from current time' }
+        if (Math.abs(now - identityTime) > hourInMs) {
+          return { valid: false, reason: 'Timestamp too far from current time' }
+        }
       }
 
       return { valid: true }
@@ -147,6 +150,14 @@ export class CryptoIdentityManager {
     }
   }
 
+  /**
+   * Bytes covered by a signature: the data with the clock and time it was signed at
+   * Operations are merged in that order, so it can't be changed without the key
+   */
+  private signedBytes(data: unknown, lamportClock: number, timestamp: string): BufferSource {
+    return new TextEncoder().encode(JSON.stringify({ data, lamportClock, timestamp }))
+  }
+
   /**
    * Generate proof-of-work
    */
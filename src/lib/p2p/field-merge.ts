@@ -0,0 +1,275 @@
+/**
+ * Field-level CRDT merge for catalog documents
+ * - Scalar fields are last-writer-wins registers (Lamport clock, then DID)
+ * - tags and metadata.keywords are add/remove sets (LWW per element)
+ * Merging is commutative and idempotent, so replicas applying the same
+ * operations in any order converge on the same CatalogDocument
+ */
+
+import {
+  CatalogDocument,
+  CryptoIdentity,
+  Operation,
+  FieldStamp,
+  SetElementState,
+  DocumentMergeState
+} from './types'
+
+export interface FieldChanges {
+  fields?: Record<string, unknown>   // Field path → new value, e.g. 'title', 'metadata.pageNumbers'
+  added?: Record<string, string[]>   // Set path → elements added
+  removed?: Record<string, string[]> // Set path → elements removed
+}
+
+// Fields merged as add/remove sets rather than registers
+export const SET_FIELDS = ['tags', 'metadata.keywords']
+
+// Top-level scalar fields carried by CREATE/UPDATE operations
+export const SCALAR_FIELDS = ['title', 'description', 'ipfsCID', 'mimeType', 'size']
+
+// Stamp of documents that predate field-level merging
+const LEGACY_STAMP: FieldStamp = { lamportClock: 0, authorDID: '' }
+
+export function stampOf(identity: CryptoIdentity): FieldStamp {
+  return {
+    lamportClock: identity.lamportClock,
+    authorDID: identity.authorDID
+  }
+}
+
+/**
+ * Total order on writes: Lamport clock first, DID as tiebreaker
+ */
+export function compareStamps(a: FieldStamp, b: FieldStamp): number {
+  if (a.lamportClock !== b.lamportClock) {
+    return a.lamportClock - b.lamportClock
+  }
+  return a.authorDID.localeCompare(b.authorDID)
+}
+
+function laterStamp(current: FieldStamp | undefined, incoming: FieldStamp): FieldStamp {
+  return !current || compareStamps(incoming, current) > 0 ? incoming : current
+}
+
+function getPath(doc: object, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], doc)
+}
+
+function setPath(doc: object, path: string, value: unknown): void {
+  const keys = path.split('.')
+  const last = keys.pop()!
+  const parent = keys.reduce((target, key) => {
+    target[key] = { ...(target[key] as object | undefined) }
+    return target[key] as Record<string, unknown>
+  }, doc as Record<string, unknown>)
+
+  if (value === undefined) {
+    delete parent[last]
+  } else {
+    parent[last] = value
+  }
+}
+
+function isPresent(element: SetElementState): boolean {
+  return !!element.added && (!element.removed || compareStamps(element.added, element.removed) > 0)
+}
+
+function compareFirstAdd(a: SetElementState, b: SetElementState): number {
+  return compareStamps(a.first!.stamp, b.first!.stamp) || a.first!.position - b.first!.position
+}
+
+/**
+ * Seed set state from a document that was written before field-level merging
+ */
+function seedSet(doc: CatalogDocument, path: string): Record<string, SetElementState> {
+  const current = (getPath(doc, path) || []) as string[]
+  const elements: Record<string, SetElementState> = {}
+
+  current.forEach((element, position) => {
+    elements[element] = { added: LEGACY_STAMP, first: { stamp: LEGACY_STAMP, position } }
+  })
+
+  return elements
+}
+
+/**
+ * Merge field changes made by one operation into a document
+ */
+export function mergeChanges(doc: CatalogDocument, changes: FieldChanges, stamp: FieldStamp): CatalogDocument {
+  const result: CatalogDocument = { ...doc, metadata: { ...(doc.metadata || {}) } }
+  const state: DocumentMergeState = {
+    fields: { ...(doc.mergeState?.fields || {}) },
+    sets: { ...(doc.mergeState?.sets || {}) }
+  }
+
+  for (const [path, value] of Object.entries(changes.fields || {})) {
+    if (SET_FIELDS.includes(path)) continue
+
+    const current = state.fields[path]
+    if (!current || compareStamps(stamp, current) > 0) {
+      setPath(result, path, value)
+      state.fields[path] = stamp
+    }
+  }
+
+  for (const path of SET_FIELDS) {
+    const added = changes.added?.[path] || []
+    const removed = changes.removed?.[path] || []
+    if (added.length === 0 && removed.length === 0 && state.sets[path]) continue
+
+    const elements: Record<string, SetElementState> = {}
+    for (const [element, elementState] of Object.entries(state.sets[path] || seedSet(doc, path))) {
+      elements[element] = { ...elementState }
+    }
+
+    added.forEach((element, position) => {
+      const elementState = elements[element] || {}
+      const first = !elementState.first || compareStamps(stamp, elementState.first.stamp) < 0
+        ? { stamp, position }
+        : elementState.first
+
+      elements[element] = { ...elementState, added: laterStamp(elementState.added, stamp), first }
+    })
+
+    for (const element of removed) {
+      const elementState = elements[element] || {}
+      elements[element] = { ...elementState, removed: laterStamp(elementState.removed, stamp) }
+    }
+
+    state.sets[path] = elements
+
+    const value = Object.entries(elements)
+      .filter(([, elementState]) => isPresent(elementState))
+      .sort(([a, stateA], [b, stateB]) => compareFirstAdd(stateA, stateB) || a.localeCompare(b))
+      .map(([element]) => element)
+
+    // Documents without keywords don't grow an empty keywords field
+    if (path === 'tags' || value.length > 0 || getPath(doc, path)) {
+      setPath(result, path, value)
+    }
+  }
+
+  result.mergeState = state
+  return result
+}
+
+// Tag and keyword lists of an operation, left out when nothing changed
+const listOf = (value: unknown): string[] => Array.isArray(value) ? value : []
+
+/**
+ * Extract the field changes carried by an operation
+ * UPDATE operations written before field-level merging list no changed fields:
+ * all their fields count as changed and their tags replace the current ones
+ */
+export function changesFromOperation(operation: Operation, current?: CatalogDocument | null): FieldChanges {
+  const { type, data } = operation
+  const metadata = (data.metadata || {}) as Record<string, unknown>
+  const { keywords, ...metadataFields } = metadata
+
+  switch (type) {
+    case 'CREATE':
+      return {
+        fields: {
+          ...Object.fromEntries(SCALAR_FIELDS.map(field => [field, data[field]])),
+          ...Object.fromEntries(Object.entries(metadataFields).map(([key, value]) => [`metadata.${key}`, value]))
+        },
+        added: {
+          tags: listOf(data.tags),
+          'metadata.keywords': listOf(keywords)
+        }
+      }
+
+    case 'UPDATE':
+    case 'REVERT':
+    case 'ACCEPT_MERGE': {
+      if (!data.changedFields) {
+        const tags = listOf(data.tags)
+        return {
+          fields: Object.fromEntries(SCALAR_FIELDS.map(field => [field, data[field]])),
+          added: { tags },
+          removed: { tags: (current?.tags || []).filter(tag => !tags.includes(tag)) }
+        }
+      }
+
+      return {
+        fields: Object.fromEntries(
+          (data.changedFields as string[]).map(path => [
+            path,
+            path.startsWith('metadata.') ? metadata[path.substring(9)] : data[path]
+          ])
+        ),
+        added: {
+          tags: listOf(data.addedTags),
+          'metadata.keywords': listOf(data.addedKeywords)
+        },
+        removed: {
+          tags: listOf(data.removedTags),
+          'metadata.keywords': listOf(data.removedKeywords)
+        }
+      }
+    }
+
+    case 'TAG':
+      return {
+        added: {
+          tags: listOf(data.addedTags),
+          'metadata.keywords': listOf(data.addedKeywords)
+        },
+        removed: {
+          tags: listOf(data.removedTags),
+          'metadata.keywords': listOf(data.removedKeywords)
+        }
+      }
+
+    default:
+      return {}
+  }
+}
+
+/**
+ * Work out which fields an edit changes relative to the current document
+ */
+export function diffFieldChanges(
+  current: CatalogDocument,
+  updates: Record<string, unknown>,
+  metadataUpdates: Record<string, unknown> = {}
+): {
+  changedFields: string[]
+  addedTags: string[]
+  removedTags: string[]
+  metadata: Record<string, unknown>
+  addedKeywords: string[]
+  removedKeywords: string[]
+} {
+  const changedFields = SCALAR_FIELDS.filter(field =>
+    updates[field] !== undefined && updates[field] !== getPath(current, field)
+  )
+
+  const setDiff = (before: string[] = [], after?: string[]) => ({
+    added: after ? after.filter(element => !before.includes(element)) : [],
+    removed: after ? before.filter(element => !after.includes(element)) : []
+  })
+
+  const tags = setDiff(current.tags, updates.tags as string[] | undefined)
+
+  const { keywords, ...metadataFields } = metadataUpdates
+  const currentMetadata: Record<string, unknown> = current.metadata || {}
+  const metadata: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(metadataFields)) {
+    if (JSON.stringify(value) !== JSON.stringify(currentMetadata[key])) {
+      metadata[key] = value
+      changedFields.push(`metadata.${key}`)
+    }
+  }
+
+  const keywordChanges = setDiff(currentMetadata.keywords as string[] | undefined, keywords as string[] | undefined)
+
+  return {
+    changedFields,
+    addedTags: tags.added,
+    removedTags: tags.removed,
+    metadata,
+    addedKeywords: keywordChanges.added,
+    removedKeywords: keywordChanges.removed
+  }
+}
@@ -9,8 +9,9 @@
 
 import { createHelia } from 'helia'
 import { createLibp2p } from 'libp2p'
-import { createOrbitDB } from '@orbitdb/core'
+import { createOrbitDB, useAccessController as registerAccessController } from '@orbitdb/core'
 import { RegistryManager } from './registry-manager'
+import { DIDAccessController, RegistryAccessController } from './access-controller'
 import { CollectionCQRS } from './collection-cqrs'
 import { UserActivity } from './user-workspace'
 import { SchemaManager } from './schema-manager'
@@ -40,6 +41,7 @@ export class P2PSystem {
 
   // State tracking
   private initialized = false
+  private snapshotInterval: NodeJS.Timeout | null = null
   private readonly eventHandlers = new Map<string, Set<Function>>()
 
   constructor(config: P2PConfig) {
@@ -76,7 +78,10 @@ export class P2PSystem {
       this.helia = await createHelia({ libp2p: this.libp2p })
 
       // 4. Initialize OrbitDB
+      // Custom access controllers must be known before opening databases by address
       console.log('   Initializing OrbitDB...')
+      registerAccessController(DIDAccessController)
+      registerAccessController(RegistryAccessController)
       this.orbitdb = await createOrbitDB({
         ipfs: this.helia,
         directory: this.config.storage.directory
@@ -85,7 +90,7 @@ export class P2PSystem {
       // 5. Initialize Registry
       console.log('   Initializing Registry...')
       this.registry = new RegistryManager(this.orbitdb, this.config)
-      const registryAddress = await this.registry.initialize(options.registryAddress)
+      const registryAddress = await this.registry.initialize(options.registryAddress, this.userKeyPair)
 
       // 6. Initialize User Public Activity
       console.log('   Initializing User Activity...')
@@ -100,6 +105,9 @@ export class P2PSystem {
         { description: 'User public activity stream' }
       )
 
+      // 8. Snapshot owned catalogs periodically
+      this.startPeriodicSnapshots()
+
       this.initialized = true
       console.log('   P2P System fully initialized!')
 
@@ -147,22 +155,33 @@ export class P2PSystem {
       throw new P2PError('Collection not found and create=false', 'COLLECTION_NOT_FOUND', { name })
     }
 
+    // Writers recorded in the registry seed the collection ACL, and the
+    // latest snapshot saves replaying the whole ops log
+    const access = addresses ? await this.registry!.getCollectionAccess(name) : null
+    const snapshotCID = addresses ? await this.registry!.getCollectionSnapshot(name) : null
+
     // Initialize collection CQRS
     const collection = new CollectionCQRS(this.orbitdb!, name, this.config)
     const { opsLogAddress: newOpsLog, catalogAddress: newCatalog } = await collection.initialize(
       this.userKeyPair!,
       this.helia!,
       opsLogAddress,
-      catalogAddress
+      catalogAddress,
+      {
+        ownerDID: access?.ownerDID,
+        writers: access?.writers,
+        snapshotCID: snapshotCID || undefined
+      }
     )
 
     // Register in registry if new
     if (!addresses) {
+      const { owner, writers } = collection.getPermissions()
       await this.registry!.registerCollection(
         name,
         newCatalog,
         newOpsLog,
-        { description: options.description }
+        { description: options.description, ownerDID: owner, writers }
       )
       console.log('   Collection registered in registry')
     }
@@ -175,6 +194,45 @@ export class P2PSystem {
     return collection
   }
 
+  /**
+   * Grant write access to a collection we own
+   */
+  async grantCollectionWriter(name: string, writerDID: string): Promise<{ owner: string, writers: string[] }> {
+    const collection = await this.openCollection(name)
+    const permissions = await collection.grantWriter(writerDID)
+
+    await this.registry!.updateCollectionWriters(name, permissions.writers)
+    this.emit('collection-writers-changed', { name, ...permissions })
+
+    return permissions
+  }
+
+  /**
+   * Revoke write access from a collection we own
+   */
+  async revokeCollectionWriter(name: string, writerDID: string): Promise<{ owner: string, writers: string[] }> {
+    const collection = await this.openCollection(name)
+    const permissions = await collection.revokeWriter(writerDID)
+
+    await this.registry!.updateCollectionWriters(name, permissions.writers)
+    this.emit('collection-writers-changed', { name, ...permissions })
+
+    return permissions
+  }
+
+  /**
+   * Snapshot a collection we own and reference it from the registry
+   */
+  async snapshotCollection(name: string): Promise<string> {
+    const collection = await this.openCollection(name)
+    const { cid, snapshot } = await collection.createSnapshot()
+
+    await this.registry!.updateCollectionSnapshot(name, cid)
+    this.emit('collection-snapshot', { name, cid, lastOpHash: snapshot.lastOpHash, lamportClock: snapshot.lamportClock })
+
+    return cid
+  }
+
   /**
    * Close a collection
    */
@@ -215,6 +273,7 @@ export class P2PSystem {
       title: string
       description?: string
       tags?: string[]
+      metadata?: Record<string, any>
     }
   ): Promise<CatalogDocument> {
     this.ensureInitialized()
@@ -383,6 +442,11 @@ export class P2PSystem {
   async destroy(): Promise<void> {
     console.log(' P2PSystem.destroy()')
 
+    if (this.snapshotInterval) {
+      clearInterval(this.snapshotInterval)
+      this.snapshotInterval = null
+    }
+
     // Close all collections
     for (const [name, collection] of this.collections) {
       await this.closeCollection(name)
@@ -442,6 +506,21 @@ export class P2PSystem {
     console.log('   libp2p ready, PeerID:', this.libp2p.peerId.toString())
   }
 
+  private startPeriodicSnapshots(): void {
+    // Snapshot every 10 minutes, only collections we own that changed
+    this.snapshotInterval = setInterval(async () => {
+      for (const [name, collection] of this.collections) {
+        if (!collection.isOwner() || !collection.hasChangesSinceSnapshot()) continue
+
+        try {
+          await this.snapshotCollection(name)
+        } catch (error) {
+          console.warn(`Periodic snapshot of ${name} failed:`, error)
+        }
+      }
+    }, 10 * 60 * 1000)
+  }
+
   private ensureInitialized(): void {
     if (!this.initialized) {
       throw new P2PError('P2P System not initialized', 'NOT_INITIALIZED')
@@ -3,8 +3,10 @@
  * Manages the KeyValue DB that maps names to OrbitDB addresses
  */
 
-import { RegistryEntry, RegistryError, CollectionInfo, P2PConfig } from './types'
+import { RegistryEntry, RegistryError, CollectionInfo, P2PConfig, KeyPair } from './types'
 import { ensureDatabaseReady, readDatabaseEntries } from '../orbitdb-v2-utils'
+import { CryptoIdentityManager } from './crypto-identity'
+import { RegistryAccessController, collectionRegistryKey, registrySigningPayload } from './access-controller'
 
 export class RegistryManager {
   private orbitdb: any
@@ -12,6 +14,7 @@ export class RegistryManager {
   private localCache: Map<string, RegistryEntry> = new Map()
   private config: P2PConfig
   private updateInterval: NodeJS.Timeout | null = null
+  private identity: CryptoIdentityManager | null = null
 
   constructor(orbitdb: any, config: P2PConfig) {
     this.orbitdb = orbitdb
@@ -20,11 +23,17 @@ export class RegistryManager {
 
   /**
    * Initialize the registry with a known address or create new
+   * The key pair is used to sign the collections we own
    */
-  async initialize(registryAddress?: string): Promise<string> {
+  async initialize(registryAddress?: string, userKeyPair?: KeyPair): Promise<string> {
     console.log(' RegistryManager.initialize()')
 
     try {
+      if (userKeyPair) {
+        this.identity = new CryptoIdentityManager()
+        await this.identity.initialize(userKeyPair)
+      }
+
       if (registryAddress) {
         // Connect to existing registry
         console.log('   Opening existing registry:', registryAddress)
@@ -40,10 +49,7 @@ export class RegistryManager {
           type: 'keyvalue',
           sync: true,
           create: true,
-          accessController: {
-            type: 'orbitdb',
-            write: ['*'] // Allow anyone to write for now - TODO: implement proper ACL
-          }
+          AccessController: RegistryAccessController()
         })
       }
 
@@ -70,6 +76,7 @@ export class RegistryManager {
 
   /**
    * Register a collection in the registry
+   * The entry is signed by the owner, who defaults to the local identity
    */
   async registerCollection(
     name: string,
@@ -80,7 +87,12 @@ export class RegistryManager {
     if (!this.registryDB) {
       throw new RegistryError('Registry not initialized')
     }
+    if (!this.identity) {
+      throw new RegistryError('Registry identity required to register collections')
+    }
 
+    const ownerDID = metadata.ownerDID || this.identity.getIdentityInfo().authorDID
+    const key = collectionRegistryKey(ownerDID, name)
     const entry: RegistryEntry = {
       type: 'collection',
       address: catalogAddress,
@@ -91,12 +103,14 @@ export class RegistryManager {
         lastSeen: Date.now(),
         version: metadata.version || '1.0.0',
         ...metadata,
-        opsLogAddress // Store ops log address in metadata
+        opsLogAddress, // Store ops log address in metadata
+        ownerDID,
+        writers: metadata.writers || [ownerDID]
       }
     }
+    entry.identity = await this.identity.signData(registrySigningPayload(key, entry))
 
     try {
-      const key = `collections:${name}`
       await this.registryDB.put(key, entry)
       this.localCache.set(key, entry)
 
@@ -107,6 +121,46 @@ export class RegistryManager {
     }
   }
 
+  /**
+   * Replace the writer list of a collection we own
+   */
+  async updateCollectionWriters(name: string, writers: string[]): Promise<void> {
+    await this.updateOwnedCollection(name, { writers })
+    console.log(` Updated writers of collection: ${name} (${writers.length})`)
+  }
+
+  /**
+   * Point a collection we own at its latest catalog snapshot
+   */
+  async updateCollectionSnapshot(name: string, snapshotCID: string): Promise<void> {
+    await this.updateOwnedCollection(name, { snapshotCID })
+    console.log(` Updated snapshot of collection: ${name} → ${snapshotCID}`)
+  }
+
+  /**
+   * Get the latest catalog snapshot recorded for a collection
+   */
+  async getCollectionSnapshot(name: string): Promise<string | null> {
+    const found = await this.findCollectionEntry(name)
+    return found?.entry.metadata.snapshotCID || null
+  }
+
+  /**
+   * Get the owner and writers recorded for a collection
+   */
+  async getCollectionAccess(name: string): Promise<{ ownerDID?: string, writers: string[] } | null> {
+    const found = await this.findCollectionEntry(name)
+    if (!found) {
+      return null
+    }
+
+    const { entry } = found
+    return {
+      ownerDID: entry.metadata.ownerDID,
+      writers: entry.metadata.writers || []
+    }
+  }
+
   /**
    * Register a user feed in the registry
    */
@@ -149,28 +203,12 @@ export class RegistryManager {
    * Get collection addresses by name
    */
   async getCollectionAddresses(name: string): Promise<{catalog: string, opsLog: string} | null> {
-    const key = `collections:${name}`
-
-    // Try cache first
-    let entry = this.localCache.get(key)
-
-    // If not in cache, try database
-    if (!entry && this.registryDB) {
-      try {
-        entry = await this.registryDB.get(key)
-        if (entry) {
-          this.localCache.set(key, entry)
-        }
-      } catch (error) {
-        console.warn('Failed to get collection from registry:', error)
-        return null
-      }
-    }
-
-    if (!entry || entry.type !== 'collection') {
+    const found = await this.findCollectionEntry(name)
+    if (!found) {
       return null
     }
 
+    const { entry } = found
     return {
       catalog: entry.address,
       opsLog: entry.metadata.opsLogAddress || entry.address
@@ -217,7 +255,7 @@ export class RegistryManager {
 
     for (const [key, entry] of this.localCache.entries()) {
       if (key.startsWith('collections:') && entry.type === 'collection') {
-        const name = key.substring(12) // Remove 'collections:' prefix
+        const name = entry.metadata.name
 
         collections.push({
           id: name,
@@ -229,8 +267,8 @@ export class RegistryManager {
           documentCount: 0, // TODO: fetch from catalog
           lastUpdate: entry.metadata.lastSeen,
           permissions: {
-            readers: ['*'], // TODO: implement proper permissions
-            writers: ['*'],
+            readers: ['*'],
+            writers: entry.metadata.writers || (entry.metadata.ownerDID ? [entry.metadata.ownerDID] : []),
             public: true
           }
         })
@@ -303,11 +341,74 @@ export class RegistryManager {
 
   private lastSyncTime = 0
 
+  /**
+   * Re-sign and store a collection entry we own with updated metadata
+   */
+  private async updateOwnedCollection(
+    name: string,
+    changes: Partial<RegistryEntry['metadata']>
+  ): Promise<void> {
+    const myDID = this.identity?.getIdentityInfo().authorDID
+    const found = await this.findCollectionEntry(name)
+
+    if (!found) {
+      throw new RegistryError('Collection not found in registry', { name })
+    }
+
+    const { key, entry } = found
+    if (!myDID || entry.metadata.ownerDID !== myDID) {
+      throw new RegistryError('Only the collection owner can update the collection', { name, ownerDID: entry.metadata.ownerDID })
+    }
+
+    const updated: RegistryEntry = {
+      ...entry,
+      metadata: {
+        ...entry.metadata,
+        ...changes,
+        lastSeen: Date.now()
+      }
+    }
+    updated.identity = await this.identity!.signData(registrySigningPayload(key, updated))
+
+    try {
+      await this.registryDB.put(key, updated)
+      this.localCache.set(key, updated)
+    } catch (error) {
+      throw new RegistryError('Failed to update collection', { name, error })
+    }
+  }
+
+  /**
+   * Registry entry of a collection by name
+   * Each owner has their own namespace: our own collection of that name comes
+   * first, then the one registered earliest (by owner DID on a tie)
+   */
+  private async findCollectionEntry(name: string): Promise<{ key: string, entry: RegistryEntry } | null> {
+    const myDID = this.identity?.getIdentityInfo().authorDID
+    const find = () => [...this.localCache.entries()]
+      .filter(([key, entry]) =>
+        key.startsWith('collections:') && entry.type === 'collection' && entry.metadata.name === name
+      )
+      .map(([key, entry]) => ({ key, entry }))
+      .sort((a, b) =>
+        Number(b.entry.metadata.ownerDID === myDID) - Number(a.entry.metadata.ownerDID === myDID) ||
+        a.entry.metadata.created - b.entry.metadata.created ||
+        a.key.localeCompare(b.key)
+      )[0] || null
+
+    const cached = find()
+    if (cached) return cached
+
+    // Not cached yet, entries may have been replicated since the last sync
+    await this.refreshCache()
+    return find()
+  }
+
   private async refreshCache(): Promise<void> {
     if (!this.registryDB) return
 
     try {
-      const entries = await readDatabaseEntries(this.registryDB, { limit: 1000 })
+      const entries = await readDatabaseEntries(this.registryDB, { limit: -1 })
 
       this.localCache.clear()
 
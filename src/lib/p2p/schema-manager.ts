@@ -18,7 +18,7 @@ const OPERATION_SCHEMA_V1 = {
   properties: {
     type: {
       type: "string",
-      enum: ["CREATE", "UPDATE", "DELETE", "TAG", "RELATE", "TOMBSTONE", "REDACT_METADATA"]
+      enum: ["CREATE", "UPDATE", "DELETE", "TAG", "RELATE", "TOMBSTONE", "REDACT_METADATA", "GRANT_WRITE", "REVOKE_WRITE", "REVERT", "PROPOSE_MERGE", "ACCEPT_MERGE", "REJECT_MERGE"]
     },
     collectionId: { type: "string", minLength: 1, maxLength: 100 },
     documentId: { type: "string", minLength: 1, maxLength: 100 },
@@ -59,7 +59,7 @@ const ACTIVITY_SCHEMA_V1 = {
   properties: {
     type: {
       type: "string",
-      enum: ["publish", "comment", "like", "follow", "announce", "tag"]
+      enum: ["publish", "comment", "like", "follow", "unfollow", "announce", "tag"]
     },
     data: { type: "object" },
     schemaVersion: { type: "string", pattern: "^\\d+\\.\\d+\\.\\d+$" },
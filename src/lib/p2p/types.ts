@@ -12,11 +12,18 @@ export interface RegistryEntry {
     created: number
     lastSeen: number
     version?: string
+    opsLogAddress?: string  // Collections: operations log address
+    draftsAddress?: string  // Users: drafts address
+    ownerDID?: string       // Collections: DID allowed to grant/revoke writers
+    writers?: string[]      // Collections: DIDs allowed to append operations
+    snapshotCID?: string    // Collections: latest signed catalog snapshot on IPFS
   }
+  identity?: CryptoIdentity // Owner signature for collection entries
 }
 
 // Operation types for CQRS
-export type OperationType = 'CREATE' | 'UPDATE' | 'DELETE' | 'TAG' | 'RELATE' | 'TOMBSTONE' | 'REDACT_METADATA'
+export type OperationType = 'CREATE' | 'UPDATE' | 'DELETE' | 'TAG' | 'RELATE' | 'TOMBSTONE' | 'REDACT_METADATA' | 'GRANT_WRITE' | 'REVOKE_WRITE' | 'REVERT'
+  | 'PROPOSE_MERGE' | 'ACCEPT_MERGE' | 'REJECT_MERGE'
 
 // Anti-spam proof-of-work header
 export interface ProofOfWork {
@@ -41,7 +48,7 @@ export interface Operation {
   type: OperationType
   collectionId: string
   documentId: string
-  data: any              // Operation-specific data
+  data: Record<string, unknown> // Operation-specific data
   version: number        // Operation version for conflict resolution
   schemaVersion: string  // Schema version (e.g., "1.0.0")
 
@@ -50,6 +57,17 @@ export interface Operation {
 
   // Size limits enforced
   maxBytes?: number      // For validation
+
+  // OrbitDB entry hash, known once the operation has been stored
+  hash?: string
+}
+
+// Replicated operation that failed verification, kept out of the catalog
+export interface RejectedOperation {
+  hash: string           // OrbitDB entry hash, or the signature when unknown
+  operation: Operation
+  reason: string
+  rejectedAt: number
 }
 
 // Document type-specific metadata interfaces
@@ -95,6 +113,38 @@ export interface ImageMetadata {
   [key: string]: any    // Allow additional metadata
 }
 
+// Typed relations between documents (RELATE operations)
+export type RelationType = 'cites' | 'responds-to' | 'same-source-as' | 'illustrates'
+
+export const RELATION_TYPES: RelationType[] = ['cites', 'responds-to', 'same-source-as', 'illustrates']
+
+export interface DocumentRelation {
+  sourceId: string            // Document the edge starts from
+  targetId: string            // Document the edge points to
+  targetCollectionId?: string // Set when the target lives in another collection
+  relationType: RelationType
+  authorDID: string           // Who asserted the relation
+  created: number
+  note?: string
+}
+
+// Field-level merge state (see field-merge.ts)
+export interface FieldStamp {
+  lamportClock: number
+  authorDID: string
+}
+
+export interface SetElementState {
+  added?: FieldStamp
+  removed?: FieldStamp
+  first?: { stamp: FieldStamp, position: number } // Earliest add, orders the set
+}
+
+export interface DocumentMergeState {
+  fields: Record<string, FieldStamp>                    // Field path → winning write
+  sets: Record<string, Record<string, SetElementState>> // Set path → element → add/remove stamps
+}
+
 // Catalog document schema
 export interface CatalogDocument {
   _id: string           // Document ID
@@ -115,7 +165,75 @@ export interface CatalogDocument {
   }
   lastOpCID: string    // Reference to creating/updating operation
   metadata: QuoteMetadata | LinkMetadata | ImageMetadata
-  searchText?: string  // Pre-computed search text
+  searchText?: string  // Pre-computed search text, normalised for matchesText
+  relations?: {
+    outgoing: DocumentRelation[]
+    incoming: DocumentRelation[]
+  }
+  mergeState?: DocumentMergeState // Per-field write stamps for concurrent merges
+}
+
+// Field changes in the form UPDATE operations carry them, see diffFieldChanges
+export interface ProposedChanges {
+  title?: string
+  description?: string
+  changedFields: string[]
+  addedTags: string[]
+  removedTags: string[]
+  metadata: Record<string, any>
+  addedKeywords: string[]
+  removedKeywords: string[]
+}
+
+// Fork whose changes a merge request proposes
+export interface MergeRequestSource {
+  collectionId: string
+  documentId: string
+  version: number
+}
+
+// Proposal to merge a fork's changes back into a document, built from the ops log
+export interface MergeRequest {
+  id: string
+  documentId: string       // Upstream document
+  fork: MergeRequestSource
+  baseVersion: number      // Upstream version the fork was based on
+  proposedBy: string       // DID of the fork author
+  comment: string
+  fields: string[]         // Proposed fields, e.g. 'title', 'tags', 'metadata.author'
+  changes: ProposedChanges // Against the base version
+  status: 'open' | 'accepted' | 'rejected'
+  created: number
+  resolvedBy?: string
+  resolvedAt?: number
+  resolutionComment?: string
+  acceptedFields?: string[]
+}
+
+// Data of a PROPOSE_MERGE operation
+export interface MergeProposalData extends ProposedChanges {
+  [key: string]: unknown
+  mergeRequestId: string
+  fork: MergeRequestSource
+  baseVersion: number
+  comment: string
+}
+
+// Point in the ops log for time-travel queries, operations after it are ignored
+export interface CatalogCutoff {
+  lamport?: number    // Last Lamport clock to include
+  timestamp?: number  // Last operation timestamp to include (ms)
+}
+
+// Signed copy of a catalog, lets peers skip replaying the whole ops log
+export interface CatalogSnapshot {
+  collectionId: string
+  documents: CatalogDocument[]
+  tombstones: string[]
+  lastOpHash: string      // Last ops log entry applied to the catalog
+  lamportClock: number    // Lamport clock when the snapshot was taken
+  created: number
+  identity: CryptoIdentity
 }
 
 // User public activity types - NO PRIVATE DATA
@@ -0,0 +1,123 @@
+/**
+ * Saved Searches
+ *
+ * Feed searches a user keeps to be told about new matching documents.
+ *
+ * Each user's saved searches live in their own OrbitDB KV store, named after
+ * their DID, so they follow the identity from one browser to another.
+ * A search is kept as the /api/feed/search parameters it was made with.
+ *
+ * New results are worked out when the searches are read rather than when a
+ * document is published, so documents replicated from other peers (picked
+ * up by the feed search index refresh) count as well.
+ *
+ * Data Structure (store "<did>-saved-searches"):
+ * {
+ *   "search:<id>": { id, name, params: { title, type, keywords, ... }, created, lastSeen }
+ * }
+ */
+
+import { orbitdbClient } from './orbitdb-client'
+import { SEARCH_PARAMS } from './feed-search-index'
+import type { FeedSearchResult } from './feed-search-index'
+
+export interface SavedSearch {
+  id: string
+  name: string
+  params: Record<string, string> // /api/feed/search parameters
+  created: number
+  lastSeen: number // Results created after this are new
+}
+
+/**
+ * Keep only the non-empty search parameters, trimmed
+ */
+export function cleanSearchParams(params: Record<string, unknown>): Record<string, string> {
+  const cleaned: Record<string, string> = {}
+  for (const name of SEARCH_PARAMS) {
+    const value = params[name]
+    if (typeof value === 'string' && value.trim()) {
+      cleaned[name] = value.trim()
+    }
+  }
+  return cleaned
+}
+
+/**
+ * Whether a result was published since the user last looked, by someone else
+ */
+export function isNewResult(search: SavedSearch, result: FeedSearchResult, userId: string): boolean {
+  return (result.document.created || 0) > search.lastSeen && result.document.uploadedBy !== userId
+}
+
+/**
+ * SavedSearchStore Class
+ *
+ * Reads and writes saved searches in each user's OrbitDB store.
+ */
+class SavedSearchStore {
+  // Stores opened so far, by name
+  private opened = new Set<string>()
+
+  private storeNameFor(userId: string): string {
+    return `${userId}-saved-searches`
+  }
+
+  /**
+   * Open a user's store on first use
+   */
+  private async ensureOpen(userId: string): Promise<string> {
+    const storeName = this.storeNameFor(userId)
+    if (this.opened.has(storeName)) return storeName
+
+    try {
+      await orbitdbClient.openKV(storeName)
+      this.opened.add(storeName)
+      return storeName
+    } catch (error) {
+      console.error(`Failed to open saved searches for ${userId}:`, error)
+      throw error
+    }
+  }
+
+  /**
+   * A user's saved searches, oldest first
+   */
+  async list(userId: string): Promise<SavedSearch[]> {
+    const storeName = await this.ensureOpen(userId)
+    const allData = await orbitdbClient.getAllKV(storeName)
+
+    return Object.entries(allData)
+      .filter(([key, value]) => key.startsWith('search:') && value)
+      .map(([, value]) => value as SavedSearch)
+      .sort((a, b) => a.created - b.created)
+  }
+
+  /**
+   * Get a saved search by ID, null if it doesn't exist
+   */
+  async get(userId: string, id: string): Promise<SavedSearch | null> {
+    const storeName = await this.ensureOpen(userId)
+    try {
+      return await orbitdbClient.getKV(storeName, `search:${id}`) || null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Save a new or updated search
+   */
+  async put(userId: string, search: SavedSearch): Promise<void> {
+    const storeName = await this.ensureOpen(userId)
+    await orbitdbClient.putKV(storeName, `search:${search.id}`, search)
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    const storeName = await this.ensureOpen(userId)
+    await orbitdbClient.deleteKV(storeName, `search:${id}`)
+  }
+}
+
+// Shared instance, like the user collection registry
+export const savedSearchStore = new SavedSearchStore()
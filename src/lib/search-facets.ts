@@ -0,0 +1,104 @@
+/**
+ * Search Facets
+ *
+ * Counts of search results per document type, keyword, author, collection,
+ * owner and year, shown next to the results as refinements.
+ *
+ * Facets are computed over every matching document, not just the current page.
+ */
+
+import type { FeedSearchItem } from './feed-search-index'
+import { yearOf } from './citation-query'
+import { normalizeText } from './text-analysis'
+
+export interface FacetBucket {
+  value: string // Sent back as a filter
+  label: string // Shown to the user
+  count: number
+}
+
+export interface SearchFacets {
+  documentType: FacetBucket[]
+  keywords: FacetBucket[]
+  authors: FacetBucket[]
+  collections: FacetBucket[]
+  owners: FacetBucket[]
+  years: FacetBucket[] // Histogram, oldest first
+}
+
+export type FacetName = keyof SearchFacets
+
+// Buckets kept per facet, years excepted
+export const FACET_LIMIT = 10
+
+class FacetCounter {
+  private buckets = new Map<string, FacetBucket>()
+
+  add(value: string, label: string = value): void {
+    const bucket = this.buckets.get(value)
+    if (bucket) {
+      bucket.count++
+    } else {
+      this.buckets.set(value, { value, label, count: 1 })
+    }
+  }
+
+  // Most frequent first, ties by label
+  top(limit: number): FacetBucket[] {
+    return [...this.buckets.values()]
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+      .slice(0, limit)
+  }
+
+  histogram(): FacetBucket[] {
+    return [...this.buckets.values()].sort((a, b) => Number(a.value) - Number(b.value))
+  }
+}
+
+/**
+ * Facet buckets for a set of search results
+ */
+export function computeFacets(items: FeedSearchItem[], limit: number = FACET_LIMIT): SearchFacets {
+  const types = new FacetCounter()
+  const keywords = new FacetCounter()
+  const authors = new FacetCounter()
+  const collections = new FacetCounter()
+  const owners = new FacetCounter()
+  const years = new FacetCounter()
+
+  for (const item of items) {
+    const metadata = item.document.metadata || {}
+
+    if (item.document.documentType) types.add(item.document.documentType)
+
+    // Keywords are matched regardless of case and accents, count each once per document
+    const documentKeywords: string[] = Array.isArray(metadata.keywords) ? metadata.keywords : []
+    const seen = new Set<string>()
+    for (const keyword of documentKeywords) {
+      const label = String(keyword).trim()
+      const value = normalizeText(label)
+      if (!value || seen.has(value)) continue
+      seen.add(value)
+      keywords.add(value, label)
+    }
+
+    if (typeof metadata.author === 'string' && metadata.author.trim()) {
+      authors.add(metadata.author.trim())
+    }
+
+    collections.add(item.collectionId, item.collectionName || item.collectionId)
+    owners.add(item.ownerId, item.owner || item.ownerId)
+
+    const year = yearOf(metadata)
+    if (year !== null) years.add(String(year))
+  }
+
+  return {
+    documentType: types.top(limit),
+    keywords: keywords.top(limit),
+    authors: authors.top(limit),
+    collections: collections.top(limit),
+    owners: owners.top(limit),
+    years: years.histogram()
+  }
+}
@@ -0,0 +1,388 @@
+/**
+ * Full-Text Search Index
+ *
+ * In-memory inverted index with BM25 ranking, in the spirit of Lunr.
+ *
+ * Documents are indexed as named text fields. Each term keeps the positions
+ * it occurs at per field, which gives:
+ * - Ranking: BM25 with per-field boosts (a title match outweighs a description match)
+ * - Phrase queries: "exact words" must occur consecutively in one field
+ * - Prefix matching: philo* matches philosophy, the last word typed always does
+ * - Folding, stemming and typos: societe matches sociétés, philosphy matches philosophy
+ * - Highlights: snippets of the matching fields with the matches marked
+ * - Fielded search: a query can be limited to one field (author, publisher...)
+ *
+ * Indexed documents can be serialized and loaded back without re-tokenizing,
+ * so the index can be persisted and updated one document at a time.
+ */
+
+import { detectLanguage, editDistance, maxEdits, stem, stemVariants, words } from './text-analysis'
+
+export interface Token {
+  term: string
+  position: number
+  start: number // Offsets in the field text
+  end: number
+}
+
+export interface IndexedDocument {
+  analyzer: number                            // ANALYZER_VERSION the terms were made with
+  fields: Record<string, string>              // Field name -> text
+  lengths: Record<string, number>             // Field name -> token count
+  terms: Record<string, Record<string, number[]>> // Term -> field -> positions
+}
+
+export type QueryClause =
+  | { type: 'term', term: string, prefix: boolean }
+  | { type: 'phrase', terms: string[] }
+
+export interface SearchHit<T> {
+  id: string
+  data: T
+  score: number
+  highlights: string[]
+}
+
+// Field weights, fields not listed weigh 1
+const FIELD_BOOSTS: Record<string, number> = {
+  title: 3,
+  keywords: 2,
+  author: 2,
+  quoteContent: 1.5
+}
+
+// BM25 parameters
+const K1 = 1.2
+const B = 0.75
+
+// Prefix expansions count for less than the exact term, typos for even less
+const PREFIX_WEIGHT = 0.5
+const FUZZY_WEIGHT = 0.3
+
+const MAX_HIGHLIGHTS = 3
+const SNIPPET_CONTEXT = 60 // Characters kept around the first match
+
+// Bumped whenever tokenize changes, stored documents from older versions need re-indexing
+export const ANALYZER_VERSION = 2
+
+export const HIGHLIGHT_START = '<mark>'
+export const HIGHLIGHT_END = '</mark>'
+
+/**
+ * Split text into stemmed, accent-folded word tokens with their positions
+ * Words are stemmed in the language the text is written in
+ */
+export function tokenize(text: string): Token[] {
+  const language = detectLanguage(text)
+
+  return words(text).map(({ word, start, end }, position) => ({
+    term: stem(word, language),
+    position,
+    start,
+    end
+  }))
+}
+
+/**
+ * Parse a query into clauses, all of which must match
+ * - "quoted words" are phrases
+ * - word* is a prefix
+ * - The last unquoted word is also matched as a prefix, for search as you type
+ *
+ * Clause terms are normalised but not stemmed, the query's language is unknown.
+ */
+export function parseQuery(query: string): QueryClause[] {
+  const clauses: QueryClause[] = []
+  const parts = query.match(/"[^"]*"?|[^\s"]+/g) || []
+
+  parts.forEach((part, i) => {
+    if (part.startsWith('"')) {
+      const terms = words(part).map(({ word }) => word)
+      if (terms.length > 1) {
+        clauses.push({ type: 'phrase', terms })
+      } else if (terms.length === 1) {
+        clauses.push({ type: 'term', term: terms[0], prefix: false })
+      }
+      return
+    }
+
+    const explicitPrefix = part.endsWith('*')
+    const isLast = i === parts.length - 1
+    const terms = words(part).map(({ word }) => word)
+
+    terms.forEach((term, j) => {
+      const lastOfPart = j === terms.length - 1
+      clauses.push({ type: 'term', term, prefix: lastOfPart && (explicitPrefix || isLast) })
+    })
+  })
+
+  return clauses
+}
+
+/**
+ * Tokenize a document's fields for the index
+ */
+export function indexFields(fields: Record<string, string>): IndexedDocument {
+  const indexed: IndexedDocument = { analyzer: ANALYZER_VERSION, fields: {}, lengths: {}, terms: {} }
+
+  for (const [field, text] of Object.entries(fields)) {
+    if (!text) continue
+    const tokens = tokenize(text)
+    if (tokens.length === 0) continue
+
+    indexed.fields[field] = text
+    indexed.lengths[field] = tokens.length
+    for (const token of tokens) {
+      indexed.terms[token.term] ??= {}
+      ;(indexed.terms[token.term][field] ??= []).push(token.position)
+    }
+  }
+
+  return indexed
+}
+
+/**
+ * InvertedIndex Class
+ *
+ * Maps terms to the documents and field positions they occur at.
+ */
+export class InvertedIndex<T> {
+  private documents = new Map<string, { indexed: IndexedDocument, data: T, length: number }>()
+
+  // Term -> IDs of documents containing it
+  private postings = new Map<string, Set<string>>()
+
+  private totalLength = 0
+
+  get size(): number {
+    return this.documents.size
+  }
+
+  /**
+   * Add or replace a document
+   */
+  add(id: string, fields: Record<string, string>, data: T): IndexedDocument {
+    const indexed = indexFields(fields)
+    this.load(id, indexed, data)
+    return indexed
+  }
+
+  /**
+   * Add or replace a document that was tokenized before, e.g. read back from storage
+   */
+  load(id: string, indexed: IndexedDocument, data: T): void {
+    this.remove(id)
+
+    const length = Object.entries(indexed.lengths)
+      .reduce((sum, [field, count]) => sum + count * boostFor(field), 0)
+
+    this.documents.set(id, { indexed, data, length })
+    this.totalLength += length
+
+    for (const term of Object.keys(indexed.terms)) {
+      let ids = this.postings.get(term)
+      if (!ids) {
+        ids = new Set()
+        this.postings.set(term, ids)
+      }
+      ids.add(id)
+    }
+  }
+
+  remove(id: string): void {
+    const existing = this.documents.get(id)
+    if (!existing) return
+
+    for (const term of Object.keys(existing.indexed.terms)) {
+      const ids = this.postings.get(term)
+      ids?.delete(id)
+      if (ids?.size === 0) this.postings.delete(term)
+    }
+
+    this.totalLength -= existing.length
+    this.documents.delete(id)
+  }
+
+  get(id: string): T | undefined {
+    return this.documents.get(id)?.data
+  }
+
+  all(): { id: string, data: T }[] {
+    return [...this.documents.entries()].map(([id, { data }]) => ({ id, data }))
+  }
+
+  /**
+   * Documents matching every clause of the query, best first
+   * Pass candidate IDs to search within a filtered subset, or a field to only match in it
+   */
+  search(query: string, candidates?: Set<string>, field?: string): SearchHit<T>[] {
+    const clauses = parseQuery(query)
+    if (clauses.length === 0) return []
+
+    const averageLength = this.documents.size > 0 ? this.totalLength / this.documents.size : 0
+    const scores = new Map<string, number>()
+    const matchedTerms = new Map<string, Set<string>>()
+    let matchingIds: Set<string> | null = candidates ? new Set(candidates) : null
+
+    for (const clause of clauses) {
+      const clauseScores = this.scoreClause(clause, averageLength, matchingIds, field)
+
+      const ids = new Set(clauseScores.keys())
+      matchingIds = ids
+
+      for (const [id, { score, terms }] of clauseScores) {
+        scores.set(id, (scores.get(id) || 0) + score)
+        const matched = matchedTerms.get(id) || new Set<string>()
+        terms.forEach(term => matched.add(term))
+        matchedTerms.set(id, matched)
+      }
+
+      if (ids.size === 0) break
+    }
+
+    return [...(matchingIds || [])]
+      .map(id => {
+        const { indexed, data } = this.documents.get(id)!
+        return {
+          id,
+          data,
+          score: scores.get(id) || 0,
+          highlights: highlight(indexed, matchedTerms.get(id) || new Set(), field)
+        }
+      })
+      .sort((a, b) => b.score - a.score)
+  }
+
+  private scoreClause(
+    clause: QueryClause,
+    averageLength: number,
+    within: Set<string> | null,
+    field?: string
+  ): Map<string, { score: number, terms: string[] }> {
+    const results = new Map<string, { score: number, terms: string[] }>()
+
+    if (clause.type === 'term') {
+      const variants = stemVariants(clause.term)
+      const edits = maxEdits(clause.term)
+      const expansions: [string, number][] = variants
+        .filter(term => this.postings.has(term))
+        .map(term => [term, 1])
+
+      if (clause.prefix || edits > 0) {
+        for (const term of this.postings.keys()) {
+          if (variants.includes(term)) continue
+          if (clause.prefix && term.startsWith(clause.term)) {
+            expansions.push([term, PREFIX_WEIGHT])
+          } else if (edits > 0 && variants.some(variant => editDistance(term, variant, edits) <= edits)) {
+            expansions.push([term, FUZZY_WEIGHT])
+          }
+        }
+      }
+
+      for (const [term, weight] of expansions) {
+        for (const id of this.postings.get(term)!) {
+          if (within && !within.has(id)) continue
+
+          const { indexed, length } = this.documents.get(id)!
+          const positions = inField(indexed.terms[term], field)
+          if (Object.keys(positions).length === 0) continue
+
+          const score = weight * this.bm25(term, weightedFrequency(positions), length, averageLength)
+          const result = results.get(id) || { score: 0, terms: [] }
+          result.score = Math.max(result.score, score)
+          result.terms.push(term)
+          results.set(id, result)
+        }
+      }
+
+      return results
+    }
+
+    // Phrase: every word, under any of its stems, at consecutive positions in one field
+    const variants = clause.terms.map(word => stemVariants(word).filter(term => this.postings.has(term)))
+    if (variants.some(terms => terms.length === 0)) return results
+
+    const candidateIds = new Set(variants[0].flatMap(term => [...this.postings.get(term)!]))
+    for (const id of candidateIds) {
+      if (within && !within.has(id)) continue
+
+      const { indexed, length } = this.documents.get(id)!
+      const present = variants.map(terms => terms.filter(term => indexed.terms[term]))
+      if (present.some(terms => terms.length === 0)) continue
+
+      const positionsOf = (word: number, phraseField: string) =>
+        present[word].flatMap(term => indexed.terms[term][phraseField] || [])
+
+      const occurrences: Record<string, number[]> = {}
+      const fields = new Set(present[0].flatMap(term => Object.keys(inField(indexed.terms[term], field))))
+
+      for (const phraseField of fields) {
+        const matches = positionsOf(0, phraseField).filter(position =>
+          present.slice(1).every((_, i) => positionsOf(i + 1, phraseField).includes(position + i + 1))
+        )
+        if (matches.length > 0) occurrences[phraseField] = matches
+      }
+
+      if (Object.keys(occurrences).length === 0) continue
+
+      const frequency = weightedFrequency(occurrences)
+      const score = present.reduce((sum, terms) => sum + this.bm25(terms[0], frequency, length, averageLength), 0)
+      results.set(id, { score, terms: present.flat() })
+    }
+
+    return results
+  }
+
+  private bm25(term: string, frequency: number, length: number, averageLength: number): number {
+    const documentFrequency = this.postings.get(term)?.size || 0
+    const idf = Math.log(1 + (this.documents.size - documentFrequency + 0.5) / (documentFrequency + 0.5))
+    const norm = averageLength > 0 ? length / averageLength : 1
+    return idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * norm))
+  }
+}
+
+function boostFor(field: string): number {
+  return FIELD_BOOSTS[field] || 1
+}
+
+// Occurrences summed over fields, weighted by field boost
+function weightedFrequency(positionsByField: Record<string, number[]>): number {
+  return Object.entries(positionsByField)
+    .reduce((sum, [field, positions]) => sum + positions.length * boostFor(field), 0)
+}
+
+// Positions by field, only those in the given field if any
+function inField(positionsByField: Record<string, number[]>, field?: string): Record<string, number[]> {
+  if (!field) return positionsByField
+  return positionsByField[field] ? { [field]: positionsByField[field] } : {}
+}
+
+/**
+ * Snippets of the fields containing matched terms, best fields first
+ */
+function highlight(indexed: IndexedDocument, terms: Set<string>, onlyField?: string): string[] {
+  const fields = Object.keys(indexed.fields)
+    .filter(field => !onlyField || field === onlyField)
+    .filter(field => [...terms].some(term => indexed.terms[term]?.[field]))
+    .sort((a, b) => boostFor(b) - boostFor(a))
+    .slice(0, MAX_HIGHLIGHTS)
+
+  return fields.map(field => {
+    const text = indexed.fields[field]
+    const matches = tokenize(text).filter(token => terms.has(token.term))
+
+    const from = Math.max(0, matches[0].start - SNIPPET_CONTEXT)
+    const to = Math.min(text.length, matches[0].end + SNIPPET_CONTEXT * 2)
+
+    let snippet = ''
+    let cursor = from
+    for (const token of matches) {
+      if (token.end > to) break
+      snippet += text.slice(cursor, token.start) + HIGHLIGHT_START + text.slice(token.start, token.end) + HIGHLIGHT_END
+      cursor = token.end
+    }
+    snippet += text.slice(cursor, to)
+
+    return (from > 0 ? '…' : '') + snippet + (to < text.length ? '…' : '')
+  })
+}
@@ -0,0 +1,377 @@
+/**
+ * Static Site Export
+ *
+ * Renders a collection as a standalone HTML site, for publishing curated
+ * collections as micro-sites (exhibitions...). The site works from any static
+ * host or straight from disk:
+ * - index.html lists the documents as cards, with a search box
+ * - documents/<id>.html shows one document, its fork links and version history
+ *   (IDs that sanitise to the same file name get a -2, -3... suffix)
+ * - assets/ holds the images, copied out of IPFS
+ * - search-index.js is loaded as a script, not fetched, so search also works
+ *   over file://
+ *
+ * Documents are shown with the feed's rules (document-display). Replicas and
+ * pinning are left out, they describe the live network and not the document.
+ */
+
+import { documentDetailFields, documentKeywords, imageFileInfo } from './document-display'
+import type { VersionHistoryEntry } from './document-history'
+import { normalizeText, SPECIAL_LETTERS } from './text-analysis'
+import type { ZipEntry } from './zip'
+
+export interface StaticSiteCollection {
+  id: string
+  name: string
+  description?: string
+  owner?: string
+}
+
+export interface SiteDocument {
+  id: string
+  documentType?: string
+  title?: string
+  description?: string
+  created?: number
+  version?: number
+  ipfsCID?: string
+  ipfsHash?: string
+  parentDocumentId?: string
+  parentCollectionId?: string
+  childDocumentIds?: string[]
+  versionHistory?: VersionHistoryEntry[]
+  metadata?: Record<string, unknown>
+  [field: string]: unknown
+}
+
+export interface SiteAsset {
+  contentType: string
+  data: Uint8Array
+}
+
+export interface SearchEntry {
+  id: string
+  href: string
+  title: string
+  text: string // Normalised words, each preceded by a space
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/avif': 'avif'
+}
+
+const STYLE = `body { margin: 0; font-family: system-ui, sans-serif; color: #111827; background: #f9fafb; }
+main { max-width: 72rem; margin: 0 auto; padding: 2rem 1rem; }
+a { color: inherit; }
+h1 { margin: 0 0 .5rem; }
+.muted { color: #6b7280; font-size: .875rem; }
+.search { width: 100%; box-sizing: border-box; padding: .5rem .75rem; margin: 1.5rem 0 .5rem; border: 1px solid #d1d5db; font-size: 1rem; }
+.grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(18rem, 1fr)); gap: 1rem; margin-top: 1rem; }
+.card { display: block; padding: 1.5rem; background: #fff; border: 1px solid #d1d5db; text-decoration: none; }
+.card:hover { border-color: #111827; }
+.card[hidden] { display: none; }
+.card img { width: 100%; height: 10rem; object-fit: cover; margin-bottom: .75rem; }
+.card h3 { margin: 0 0 .5rem; font-size: 1rem; }
+.card .url { color: #2563eb; font-size: .75rem; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+blockquote { margin: 0 0 .75rem; font-style: italic; color: #374151; }
+.quote { padding: 1.5rem; background: #fff; border-left: 4px solid #111827; margin: 1.5rem 0; }
+.quote blockquote { font-size: 1.125rem; }
+.image { width: 100%; max-height: 500px; object-fit: contain; background: #f3f4f6; margin: 1.5rem 0; }
+.fields div { margin: .5rem 0; }
+.label { font-weight: 600; color: #374151; }
+.mono { font-family: ui-monospace, monospace; font-size: .875rem; word-break: break-all; }
+.keyword { display: inline-block; padding: .25rem .5rem; margin: .25rem .25rem 0 0; background: #e5e7eb; font-size: .75rem; }
+section { margin-top: 1.5rem; padding-top: 1.5rem; border-top: 1px solid #e5e7eb; }
+.version { padding: 1rem; margin-bottom: 1rem; background: #fff; border: 1px solid #e5e7eb; font-size: .875rem; }
+.badge { display: inline-block; padding: 0 .375rem; border: 1px solid #9ca3af; font-size: .75rem; color: #4b5563; }
+`
+
+// Matches each card against the words typed, as prefixes of the indexed words
+const SEARCH_SCRIPT = `(function () {
+  var special = ${JSON.stringify(SPECIAL_LETTERS)};
+  function normalize(text) {
+    return text.normalize('NFKC').toLowerCase()
+      .replace(/[ßæœøłđþ]/g, function (letter) { return special[letter] })
+      .normalize('NFD').replace(/\\p{M}/gu, '');
+  }
+  var input = document.getElementById('search');
+  var count = document.getElementById('count');
+  var texts = {};
+  (window.SEARCH_INDEX || []).forEach(function (entry) { texts[entry.id] = entry.text });
+  var cards = document.querySelectorAll('[data-id]');
+  input.addEventListener('input', function () {
+    var words = normalize(input.value).match(/[\\p{L}\\p{N}]+/gu) || [];
+    var shown = 0;
+    cards.forEach(function (card) {
+      var text = texts[card.getAttribute('data-id')] || '';
+      var match = words.every(function (word) { return text.indexOf(' ' + word) !== -1 });
+      card.hidden = !match;
+      if (match) shown++;
+    });
+    count.textContent = shown + ' of ' + cards.length + ' documents';
+  });
+})();
+`
+
+const escapeHtml = (value: unknown): string => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;')
+
+// Only web links are clickable, anything else (javascript:...) is shown as text
+const isWebUrl = (value: unknown): value is string => typeof value === 'string' && /^https?:\/\//i.test(value)
+
+// Documents missing a date (or with a broken one) don't stop the export
+const formatDate = (timestamp: number | undefined): string => {
+  const date = new Date(timestamp ?? NaN)
+  return Number.isNaN(date.getTime())
+    ? 'Unknown date'
+    : `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`
+}
+
+/**
+ * Site path of each document's page, by document ID
+ * IDs are sanitised for file names, ones that end up the same are numbered
+ */
+export function documentPaths(documents: SiteDocument[]): Map<string, string> {
+  const paths = new Map<string, string>()
+  const taken = new Set<string>()
+
+  for (const { id } of documents) {
+    if (paths.has(id)) continue
+
+    const name = id.replace(/[^\w.-]+/g, '_')
+    let path = `documents/${name}.html`
+    for (let n = 2; taken.has(path); n++) {
+      path = `documents/${name}-${n}.html`
+    }
+    paths.set(id, path)
+    taken.add(path)
+  }
+
+  return paths
+}
+
+/**
+ * Site path of an image copied out of IPFS
+ */
+export function assetPath(cid: string, contentType: string): string {
+  return `assets/${cid.replace(/[^\w.-]+/g, '_')}.${IMAGE_EXTENSIONS[contentType] || 'bin'}`
+}
+
+/**
+ * Client-side search entry of each document, over what its card and page show
+ */
+export function searchEntries(documents: SiteDocument[], paths = documentPaths(documents)): SearchEntry[] {
+  return documents.map(document => {
+    const metadata = document.metadata || {}
+    const text = [
+      document.title,
+      document.description,
+      metadata.quoteContent,
+      metadata.author,
+      metadata.description,
+      metadata.url,
+      ...documentDetailFields(document).map(field => field.value),
+      ...documentKeywords(document)
+    ].filter(Boolean).join(' ')
+    const words = normalizeText(text).match(/[\p{L}\p{N}]+/gu) || []
+
+    return {
+      id: document.id,
+      href: paths.get(document.id)!,
+      title: document.title || 'Untitled',
+      text: words.map(word => ` ${word}`).join('')
+    }
+  })
+}
+
+function page(title: string, root: string, body: string, scripts: string[] = []): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${root}style.css">
+</head>
+<body>
+<main>
+${body}
+</main>
+${scripts.map(src => `<script src="${root}${src}"></script>`).join('\n')}
+</body>
+</html>
+`
+}
+
+function imageTag(document: SiteDocument, root: string, assets: Record<string, string>, className?: string): string {
+  const path = assets[document.ipfsCID || document.ipfsHash || '']
+  return path
+    ? `<img${className ? ` class="${className}"` : ''} src="${root}${escapeHtml(path)}" alt="${escapeHtml(document.title)}">`
+    : '<p class="muted">Image unavailable</p>'
+}
+
+function renderCard(document: SiteDocument, paths: Map<string, string>, assets: Record<string, string>): string {
+  const metadata = document.metadata || {}
+  let content = ''
+
+  if (document.documentType === 'quote') {
+    content = `<blockquote>"${escapeHtml(metadata.quoteContent)}"</blockquote>
+<p><strong>— ${escapeHtml(metadata.author)}</strong></p>
+<p class="muted">${escapeHtml(document.title)}</p>`
+  } else if (document.documentType === 'link') {
+    content = `<h3>${escapeHtml(document.title)}</h3>
+${metadata.description ? `<p class="muted">${escapeHtml(metadata.description)}</p>` : ''}
+<p class="url">${escapeHtml(metadata.url)}</p>`
+  } else if (document.documentType === 'image') {
+    const info = imageFileInfo(document)
+    content = `${imageTag(document, '', assets)}
+<h3>${escapeHtml(document.title)}</h3>
+${info ? `<p class="muted">${escapeHtml(info)}</p>` : ''}`
+  } else {
+    content = `<h3>${escapeHtml(document.title)}</h3>`
+  }
+
+  const fork = document.parentDocumentId ? ' <span class="badge">Fork</span>' : ''
+  return `<a class="card" href="${escapeHtml(paths.get(document.id))}" data-id="${escapeHtml(document.id)}">
+${content}
+<p class="muted">${escapeHtml(document.documentType)}${fork} · v${document.version || 1}</p>
+</a>`
+}
+
+function renderDetails(document: SiteDocument): string {
+  const fields = documentDetailFields(document).map(field => {
+    const value = field.href !== undefined && isWebUrl(field.href)
+      ? `<a href="${escapeHtml(field.href)}" rel="noopener noreferrer">${escapeHtml(field.value)}</a>`
+      : `<span${field.mono ? ' class="mono"' : ''}>${escapeHtml(field.value)}</span>`
+    return `<div><span class="label">${escapeHtml(field.label)}: </span>${value}</div>`
+  })
+  const keywords = documentKeywords(document)
+  if (keywords.length > 0) {
+    fields.push(`<div><span class="label">Keywords: </span><div>${keywords.map(keyword =>
+      `<span class="keyword">${escapeHtml(keyword)}</span>`).join('')}</div></div>`)
+  }
+  return `<div class="fields">\n${fields.join('\n')}\n</div>`
+}
+
+// Link to a document of the site, or its bare ID when it isn't in the collection
+function documentLink(id: string, byId: Map<string, SiteDocument>, paths: Map<string, string>, collectionId?: string): string {
+  const document = byId.get(id)
+  if (document) {
+    return `<a href="../${escapeHtml(paths.get(id))}">${escapeHtml(document.title || id)}</a>`
+  }
+  const where = collectionId ? ` in ${escapeHtml(collectionId)}` : ''
+  return `<span class="mono">${escapeHtml(id)}</span>${where}`
+}
+
+function renderForks(
+  document: SiteDocument,
+  documents: SiteDocument[],
+  byId: Map<string, SiteDocument>,
+  paths: Map<string, string>
+): string {
+  const children = new Set<string>([
+    ...(document.childDocumentIds || []),
+    ...documents.filter(other => other.parentDocumentId === document.id).map(other => other.id)
+  ])
+  if (!document.parentDocumentId && children.size === 0) return ''
+
+  return `<section>
+<h2>Forks</h2>
+${document.parentDocumentId
+    ? `<p><span class="label">Forked from: </span>${documentLink(document.parentDocumentId, byId, paths, document.parentCollectionId)}</p>`
+    : ''}
+${children.size > 0
+    ? `<p class="label">Forked as:</p>\n<ul>\n${[...children].map(id => `<li>${documentLink(id, byId, paths)}</li>`).join('\n')}\n</ul>`
+    : ''}
+</section>`
+}
+
+function renderDocumentPage(
+  document: SiteDocument,
+  documents: SiteDocument[],
+  byId: Map<string, SiteDocument>,
+  paths: Map<string, string>,
+  collection: StaticSiteCollection,
+  assets: Record<string, string>
+): string {
+  const metadata = document.metadata || {}
+  let content = ''
+
+  if (document.documentType === 'quote') {
+    content = `<div class="quote">
+<blockquote>"${escapeHtml(metadata.quoteContent)}"</blockquote>
+<p><strong>— ${escapeHtml(metadata.author)}</strong></p>
+</div>`
+  } else if (document.documentType === 'link') {
+    content = metadata.description ? `<p>${escapeHtml(metadata.description)}</p>` : ''
+  } else if (document.documentType === 'image') {
+    content = `${imageTag(document, '../', assets, 'image')}
+${document.description ? `<p>${escapeHtml(document.description)}</p>` : ''}`
+  }
+
+  const history = (document.versionHistory || []).map(version => `<div class="version">
+<p><strong>Version ${escapeHtml(version.version)}</strong> <span class="muted">${formatDate(version.editedAt)}</span></p>
+<p><span class="label">Edited by:</span> ${escapeHtml(version.editedBy)}</p>
+<p><span class="label">Comment:</span> ${escapeHtml(version.changeComment)}</p>
+</div>`)
+
+  const body = `<p><a href="../index.html">← ${escapeHtml(collection.name)}</a></p>
+<h1>${escapeHtml(document.title || 'Untitled')}</h1>
+<p class="muted">${escapeHtml(document.documentType)}</p>
+${content}
+${renderDetails(document)}
+<section class="fields">
+<div><span class="label">Created: </span>${formatDate(document.created)}</div>
+<div><span class="label">Version: </span>${escapeHtml(document.version || 1)}</div>
+</section>
+${renderForks(document, documents, byId, paths)}
+${history.length > 0 ? `<section>\n<h2>Version History</h2>\n${history.join('\n')}\n</section>` : ''}`
+
+  return page(`${document.title || 'Untitled'} · ${collection.name}`, '../', body)
+}
+
+/**
+ * Files of the static site, ready to be zipped
+ *
+ * @param assets - Images copied out of IPFS, by CID; images missing from it show as unavailable
+ */
+export function renderStaticSite(
+  collection: StaticSiteCollection,
+  documents: SiteDocument[],
+  assets: Record<string, SiteAsset>,
+  exportedAt: number = Date.now()
+): ZipEntry[] {
+  const byId = new Map(documents.map(document => [document.id, document]))
+  const paths = documentPaths(documents)
+  const assetPaths = Object.fromEntries(Object.entries(assets).map(([cid, asset]) => [cid, assetPath(cid, asset.contentType)]))
+
+  const index = page(collection.name, '', `<h1>${escapeHtml(collection.name)}</h1>
+${collection.description ? `<p>${escapeHtml(collection.description)}</p>` : ''}
+<p class="muted">${collection.owner ? `Curated by ${escapeHtml(collection.owner)} · ` : ''}Exported ${formatDate(exportedAt)}</p>
+<input id="search" class="search" type="search" placeholder="Search this collection" aria-label="Search this collection">
+<p id="count" class="muted">${documents.length} documents</p>
+<div class="grid">
+${documents.map(document => renderCard(document, paths, assetPaths)).join('\n')}
+</div>`, ['search-index.js', 'search.js'])
+
+  return [
+    { path: 'index.html', data: index },
+    { path: 'style.css', data: STYLE },
+    { path: 'search-index.js', data: `window.SEARCH_INDEX = ${JSON.stringify(searchEntries(documents, paths))};\n` },
+    { path: 'search.js', data: SEARCH_SCRIPT },
+    ...documents.map(document => ({
+      path: paths.get(document.id)!,
+      data: renderDocumentPage(document, documents, byId, paths, collection, assetPaths)
+    })),
+    ...Object.entries(assets).map(([cid, asset]) => ({ path: assetPaths[cid], data: asset.data }))
+  ]
+}
@@ -0,0 +1,300 @@
+/**
+ * Syndication Feeds
+ *
+ * Atom, RSS 2.0 and JSON Feed 1.1 output, so collections and users' activity
+ * can be followed from a feed reader without an account.
+ *
+ * Items are built from documents:
+ * - quotes carry their text and ISO-690 reference
+ * - links point to the linked page
+ * - images are enclosures (attachments in JSON Feed) served from IPFS
+ *
+ * Quote text and link URLs come from the metadata, or from the document's
+ * IPFS content when the metadata doesn't have them.
+ */
+
+import { orbitdbClient } from './orbitdb-client'
+import { formatISO690 } from './citation-export'
+import { getDocumentVersions } from './document-history'
+import type { FollowTarget } from './follows'
+import type { FeedDocument } from './feed-search-index'
+
+export type SyndicationFormat = 'atom' | 'rss' | 'json'
+
+// Feed file names the routes answer to
+export const SYNDICATION_FILES: Record<string, SyndicationFormat> = {
+  'feed.xml': 'atom',
+  'rss.xml': 'rss',
+  'feed.json': 'json'
+}
+
+const CONTENT_TYPES: Record<SyndicationFormat, string> = {
+  atom: 'application/atom+xml; charset=utf-8',
+  rss: 'application/rss+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8'
+}
+
+// Most recent items kept in a feed
+export const SYNDICATION_LIMIT = 50
+
+export interface SyndicationItem {
+  id: string
+  url: string
+  title: string
+  contentHtml: string
+  contentText: string
+  externalUrl?: string // The linked page, for links
+  published: number
+  updated: number
+  author?: string
+  tags: string[]
+  enclosure?: {
+    url: string
+    type: string
+    length: number
+  }
+}
+
+export interface SyndicationFeed {
+  id: string
+  title: string
+  description: string
+  homeUrl: string
+  feedUrl: string
+  author?: string
+  items: SyndicationItem[]
+}
+
+// The stored document fields a feed item is made from
+export interface SyndicatedDocument extends FeedDocument {
+  mimeType?: string
+  contentType?: string
+  contentSize?: number
+  size?: number
+}
+
+// Where a document is, for links back to the site
+export interface DocumentPlace {
+  collectionId: string
+  collectionName: string
+  author?: string
+}
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;')
+
+// Characters XML 1.0 doesn't allow, even escaped
+const xmlText = (value: string): string => escapeXml(value.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, ''))
+
+const text = (value: unknown): string => typeof value === 'string' ? value : ''
+
+const truncate = (value: string, length: number): string =>
+  value.length > length ? `${value.slice(0, length - 1).trimEnd()}…` : value
+
+/**
+ * Public address of the site, from SITE_URL when it's configured
+ * Otherwise the request URL's, forwarded headers are client-controlled and not trusted
+ */
+export function siteUrl(request: Request): string {
+  if (process.env.SITE_URL) {
+    return process.env.SITE_URL.replace(/\/+$/, '')
+  }
+  return new URL(request.url).origin
+}
+
+/**
+ * Public URL of IPFS content, through the orbitdb-service proxy
+ */
+export function ipfsContentUrl(baseUrl: string, cid: string, contentType: string): string {
+  return `${baseUrl}/orbitdb/ipfs/retrieve/${encodeURIComponent(cid)}?contentType=${encodeURIComponent(contentType)}`
+}
+
+/**
+ * Fill in quote text or a link URL from IPFS when the metadata lacks them
+ * Documents that can't be read keep what they have
+ */
+export async function withIPFSContent<T extends SyndicatedDocument>(document: T): Promise<T> {
+  const field = document.documentType === 'quote' ? 'quoteContent' : document.documentType === 'link' ? 'url' : null
+  if (!field || document.metadata?.[field] || !document.ipfsCID) return document
+
+  try {
+    const text = await orbitdbClient.retrieveTextFromIPFS(document.ipfsCID)
+    return { ...document, metadata: { ...document.metadata, [field]: text } }
+  } catch (error) {
+    console.error(`Failed to read IPFS content of ${document.id}:`, error)
+    return document
+  }
+}
+
+/**
+ * Feed item for a document, as shown in a collection
+ */
+export function documentItem(document: SyndicatedDocument, place: DocumentPlace, baseUrl: string): SyndicationItem {
+  const metadata = document.metadata || {}
+  const url = `${baseUrl}/collections/p2p/${encodeURIComponent(place.collectionId)}#${encodeURIComponent(document.id)}`
+  const versions = getDocumentVersions(document)
+  const item: SyndicationItem = {
+    id: url,
+    url,
+    title: document.title || 'Untitled',
+    contentHtml: '',
+    contentText: '',
+    published: document.created || 0,
+    updated: Math.max(document.created || 0, ...versions.map(version => version.editedAt || 0)),
+    author: place.author,
+    tags: Array.isArray(metadata.keywords) ? metadata.keywords.map(String) : []
+  }
+
+  if (document.documentType === 'quote') {
+    const quote = text(metadata.quoteContent)
+    const reference = formatISO690(document)
+    item.title = quote ? `“${truncate(quote, 80)}” — ${text(metadata.author) || document.title}` : item.title
+    item.contentText = `“${quote}”\n\n${reference}`
+    item.contentHtml = `<blockquote><p>${xmlText(quote)}</p></blockquote><p>${xmlText(reference)}</p>`
+  } else if (document.documentType === 'link') {
+    const link = text(metadata.url)
+    const description = text(metadata.description)
+    item.externalUrl = link || undefined
+    item.contentText = [description, link].filter(Boolean).join('\n\n')
+    item.contentHtml = [
+      description && `<p>${xmlText(description)}</p>`,
+      link && `<p><a href="${escapeXml(link)}">${xmlText(link)}</a></p>`
+    ].filter(Boolean).join('')
+  } else if (document.documentType === 'image') {
+    const type = document.mimeType || document.contentType || 'application/octet-stream'
+    const imageUrl = document.ipfsCID ? ipfsContentUrl(baseUrl, document.ipfsCID, type) : ''
+    const description = text(metadata.description)
+    item.contentText = description
+    item.contentHtml = [
+      imageUrl && `<p><img src="${escapeXml(imageUrl)}" alt="${escapeXml(document.title || '')}" /></p>`,
+      description && `<p>${xmlText(description)}</p>`
+    ].filter(Boolean).join('')
+    if (imageUrl) {
+      item.enclosure = { url: imageUrl, type, length: document.contentSize || document.size || 0 }
+    }
+  }
+
+  item.contentHtml += `<p>In <a href="${escapeXml(`${baseUrl}/collections/p2p/${encodeURIComponent(place.collectionId)}`)}">${xmlText(place.collectionName)}</a></p>`
+  return item
+}
+
+/**
+ * Feed item for something a user followed
+ */
+export function followItem(follow: FollowTarget, author: string, baseUrl: string): SyndicationItem {
+  const url = follow.kind === 'collection'
+    ? `${baseUrl}/collections/p2p/${encodeURIComponent(follow.id)}`
+    : `${baseUrl}/profile?${new URLSearchParams({ user: follow.id, name: follow.name })}`
+  const name = follow.name || follow.id
+
+  return {
+    id: `${url}#followed-${follow.followedAt}`,
+    url,
+    title: follow.kind === 'collection' ? `Followed the collection ${name}` : `Followed ${name}`,
+    contentHtml: `<p>${xmlText(author)} followed <a href="${escapeXml(url)}">${xmlText(name)}</a></p>`,
+    contentText: `${author} followed ${name}`,
+    published: follow.followedAt,
+    updated: follow.followedAt,
+    author,
+    tags: []
+  }
+}
+
+function renderAtom(feed: SyndicationFeed): string {
+  const updated = feed.items.length > 0 ? Math.max(...feed.items.map(item => item.updated)) : Date.now()
+  const entries = feed.items.map(item => [
+    '  <entry>',
+    `    <id>${xmlText(item.id)}</id>`,
+    `    <title>${xmlText(item.title)}</title>`,
+    `    <link rel="alternate" href="${escapeXml(item.externalUrl || item.url)}"/>`,
+    item.externalUrl ? `    <link rel="via" href="${escapeXml(item.url)}"/>` : '',
+    item.enclosure ? `    <link rel="enclosure" href="${escapeXml(item.enclosure.url)}" type="${escapeXml(item.enclosure.type)}" length="${item.enclosure.length}"/>` : '',
+    `    <published>${new Date(item.published).toISOString()}</published>`,
+    `    <updated>${new Date(item.updated).toISOString()}</updated>`,
+    item.author ? `    <author><name>${xmlText(item.author)}</name></author>` : '',
+    ...item.tags.map(tag => `    <category term="${escapeXml(tag)}"/>`),
+    `    <content type="html">${xmlText(item.contentHtml)}</content>`,
+    '  </entry>'
+  ].filter(Boolean).join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${xmlText(feed.id)}</id>`,
+    `  <title>${xmlText(feed.title)}</title>`,
+    feed.description ? `  <subtitle>${xmlText(feed.description)}</subtitle>` : '',
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl)}"/>`,
+    `  <link rel="alternate" href="${escapeXml(feed.homeUrl)}"/>`,
+    `  <updated>${new Date(updated).toISOString()}</updated>`,
+    // Atom requires an author for the feed, or for every entry
+    `  <author><name>${xmlText(feed.author || feed.title)}</name></author>`,
+    ...entries,
+    '</feed>'
+  ].filter(Boolean).join('\n') + '\n'
+}
+
+function renderRSS(feed: SyndicationFeed): string {
+  const items = feed.items.map(item => [
+    '    <item>',
+    `      <guid isPermaLink="false">${xmlText(item.id)}</guid>`,
+    `      <title>${xmlText(item.title)}</title>`,
+    `      <link>${xmlText(item.externalUrl || item.url)}</link>`,
+    `      <pubDate>${new Date(item.published).toUTCString()}</pubDate>`,
+    item.author ? `      <dc:creator>${xmlText(item.author)}</dc:creator>` : '',
+    ...item.tags.map(tag => `      <category>${xmlText(tag)}</category>`),
+    item.enclosure ? `      <enclosure url="${escapeXml(item.enclosure.url)}" type="${escapeXml(item.enclosure.type)}" length="${item.enclosure.length}"/>` : '',
+    `      <description>${xmlText(item.contentHtml)}</description>`,
+    '    </item>'
+  ].filter(Boolean).join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${xmlText(feed.title)}</title>`,
+    `    <link>${xmlText(feed.homeUrl)}</link>`,
+    `    <description>${xmlText(feed.description || feed.title)}</description>`,
+    `    <atom:link rel="self" type="application/rss+xml" href="${escapeXml(feed.feedUrl)}"/>`,
+    ...items,
+    '  </channel>',
+    '</rss>'
+  ].join('\n') + '\n'
+}
+
+function renderJSONFeed(feed: SyndicationFeed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrl,
+    ...(feed.description && { description: feed.description }),
+    ...(feed.author && { authors: [{ name: feed.author }] }),
+    items: feed.items.map(item => ({
+      id: item.id,
+      url: item.url,
+      ...(item.externalUrl && { external_url: item.externalUrl }),
+      title: item.title,
+      content_html: item.contentHtml,
+      content_text: item.contentText,
+      date_published: new Date(item.published).toISOString(),
+      date_modified: new Date(item.updated).toISOString(),
+      ...(item.author && { authors: [{ name: item.author }] }),
+      ...(item.tags.length > 0 && { tags: item.tags }),
+      ...(item.enclosure && {
+        attachments: [{ url: item.enclosure.url, mime_type: item.enclosure.type, size_in_bytes: item.enclosure.length }]
+      })
+    }))
+  }, null, 2) + '\n'
+}
+
+/**
+ * A feed in the given format, with the Content-Type to serve it with
+ */
+export function renderFeed(feed: SyndicationFeed, format: SyndicationFormat): { body: string, contentType: string } {
+  const body = format === 'atom' ? renderAtom(feed) : format === 'rss' ? renderRSS(feed) : renderJSONFeed(feed)
+  return { body, contentType: CONTENT_TYPES[format] }
+}
@@ -0,0 +1,195 @@
+/**
+ * Text Analysis
+ *
+ * Turns words into the terms search matches on, for a corpus mixing
+ * English, French and German:
+ * - Normalisation: NFKC, lowercase and accent folding (société -> societe, Straße -> strasse)
+ * - Stemming: light suffix stripping per language (philosophies -> philosophy)
+ * - Typo tolerance: words within a bounded edit distance match
+ *
+ * A text's language is guessed from its stopwords, English by default.
+ * Queries are too short to guess, so a query word is tried in every language.
+ */
+
+export type Language = 'en' | 'fr' | 'de'
+
+export const LANGUAGES: Language[] = ['en', 'fr', 'de']
+
+const STOPWORDS: Record<Language, Set<string>> = {
+  en: new Set(['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'was', 'for', 'with', 'as', 'on', 'are', 'this', 'be', 'by', 'not', 'we', 'from']),
+  fr: new Set(['le', 'la', 'les', 'des', 'et', 'est', 'un', 'une', 'du', 'que', 'qui', 'dans', 'pour', 'pas', 'sur', 'au', 'ce', 'il', 'elle', 'nous']),
+  de: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'den', 'mit', 'sich', 'des', 'auf', 'fur', 'im', 'dem', 'auch', 'es', 'von'])
+}
+
+// Letters accent stripping doesn't decompose
+export const SPECIAL_LETTERS: Record<string, string> = {
+  'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'ł': 'l', 'đ': 'd', 'þ': 'th'
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+/**
+ * Lowercase, compatibility-normalised text without accents
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[ßæœøłđþ]/g, letter => SPECIAL_LETTERS[letter])
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+}
+
+/**
+ * Normalised words of a text with their offsets in the original text
+ */
+export function words(text: string): { word: string, start: number, end: number }[] {
+  return [...text.matchAll(WORD_PATTERN)].map(match => ({
+    word: normalizeText(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }))
+}
+
+/**
+ * Most likely language of a text, by stopword count
+ */
+export function detectLanguage(text: string): Language {
+  const counts: Record<Language, number> = { en: 0, fr: 0, de: 0 }
+  for (const { word } of words(text)) {
+    for (const language of LANGUAGES) {
+      if (STOPWORDS[language].has(word)) counts[language]++
+    }
+  }
+
+  return LANGUAGES.reduce((best, language) => counts[language] > counts[best] ? language : best, 'en' as Language)
+}
+
+const hasVowel = (value: string) => /[aeiouy]/.test(value)
+
+function stemEnglish(word: string): string {
+  if (word.length <= 3) return word
+
+  if (word.endsWith('sses')) word = word.slice(0, -2)
+  else if (word.endsWith('ies') && word.length > 4) word = word.slice(0, -3) + 'y'
+  else if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) word = word.slice(0, -1)
+
+  for (const suffix of ['ingly', 'edly', 'ing', 'ed', 'ly']) {
+    const stem = word.slice(0, -suffix.length)
+    if (word.endsWith(suffix) && stem.length >= 3 && hasVowel(stem)) {
+      // running -> run, but not falling -> fal
+      return /([^aeiouylsz])\1$/.test(stem) ? stem.slice(0, -1) : stem
+    }
+  }
+
+  return word
+}
+
+function stemFrench(word: string): string {
+  if (word.length <= 3) return word
+
+  if (word.endsWith('aux')) return word.slice(0, -3) + 'al'
+  if (/[sx]$/.test(word)) word = word.slice(0, -1)
+
+  for (const suffix of ['ement', 'euse', 'eux', 'ee', 'e']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length)
+    }
+  }
+
+  return word
+}
+
+function stemGerman(word: string): string {
+  for (const suffix of ['ern', 'em', 'en', 'er', 'es', 'e', 's', 'n']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length)
+    }
+  }
+
+  return word
+}
+
+const STEMMERS: Record<Language, (word: string) => string> = {
+  en: stemEnglish,
+  fr: stemFrench,
+  de: stemGerman
+}
+
+/**
+ * Stem of a normalised word, numbers are kept as they are
+ */
+export function stem(word: string, language: Language): string {
+  return /\d/.test(word) ? word : STEMMERS[language](word)
+}
+
+/**
+ * Every stem a query word could have been indexed under
+ */
+export function stemVariants(word: string): string[] {
+  return [...new Set(LANGUAGES.map(language => stem(word, language)))]
+}
+
+/**
+ * Edits allowed for a word to still match: none for short words and numbers
+ */
+export function maxEdits(word: string): number {
+  if (/\d/.test(word) || word.length <= 3) return 0
+  return word.length <= 7 ? 1 : 2
+}
+
+/**
+ * Edit distance with transpositions, or max + 1 once it exceeds max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previousRow: number[] = []
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow
+    previousRow = row
+    row = [i]
+    let rowMin = i
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1)
+      }
+      row[j] = value
+      rowMin = Math.min(rowMin, value)
+    }
+
+    if (rowMin > max) return max + 1
+  }
+
+  return Math.min(row[b.length], max + 1)
+}
+
+/**
+ * Whether an indexed term matches a query word: same stem, or a typo away
+ */
+export function termMatches(term: string, queryWord: string): boolean {
+  const variants = stemVariants(queryWord)
+  if (variants.includes(term)) return true
+
+  const edits = maxEdits(queryWord)
+  return edits > 0 && variants.some(variant => editDistance(term, variant, edits) <= edits)
+}
+
+/**
+ * Whether every word of the query matches a word of the text
+ * by stem, prefix or within the allowed typos
+ */
+export function matchesText(text: string, query: string): boolean {
+  const textWords = words(text).map(({ word }) => word)
+  const textTerms = textWords.flatMap(word => stemVariants(word))
+
+  return words(query).every(({ word }) =>
+    textWords.some(textWord => textWord.startsWith(word)) ||
+    textTerms.some(term => termMatches(term, word))
+  )
+}
@@ -0,0 +1,98 @@
+/**
+ * ZIP Archives
+ *
+ * Minimal ZIP writer for downloads made of several files. Entries are
+ * deflated unless that doesn't make them smaller (images, mostly), and names
+ * are flagged as UTF-8. No ZIP64, so archives stay under 4 GB.
+ */
+
+import { deflateRawSync } from 'zlib'
+
+export interface ZipEntry {
+  path: string // Relative, with forward slashes
+  data: string | Uint8Array // Strings are written as UTF-8
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xFFFFFFFF
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0
+}
+
+// MS-DOS date and time, in local time as ZIP tools expect
+function dosDateTime(date: Date): { time: number, date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+/**
+ * ZIP archive of the entries, in order
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const { time, date } = dosDateTime(modified)
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path, 'utf8')
+    const data = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf8') : Buffer.from(entry.data)
+    const deflated = deflateRawSync(data)
+    const stored = deflated.length >= data.length
+    const content = stored ? data : deflated
+    const crc = crc32(data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034B50, 0)
+    local.writeUInt16LE(20, 4)                // Version needed: 2.0
+    local.writeUInt16LE(0x0800, 6)            // Names are UTF-8
+    local.writeUInt16LE(stored ? 0 : 8, 8)    // Stored or deflated
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(content.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)                // No extra field
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014B50, 0)
+    central.writeUInt16LE(20, 4)              // Made by: 2.0
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(stored ? 0 : 8, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(content.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)         // Extra, comment, disk and attributes stay 0
+
+    localParts.push(local, name, content)
+    centralParts.push(central, name)
+    offset += local.length + name.length + content.length
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054B50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralSize, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return new Uint8Array(Buffer.concat([...localParts, ...centralParts, end]))
+}
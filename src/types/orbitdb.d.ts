@@ -1,5 +1,6 @@
 declare module '@orbitdb/core' {
   export function createOrbitDB(options: any): Promise<any>
+  export function useAccessController(accessController: any): void
 }
 
 declare module '@libp2p/websockets/filters' {